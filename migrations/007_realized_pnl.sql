@@ -0,0 +1,11 @@
+-- Migration 007: Realized PnL per execution
+-- total_usd and net_usd from migration 006 already exist in schema.sql, where they hold the bundle estimate,
+-- so realized values live in actual_claimed_usd, actual_gas_usd (mirrored to gas_usd) and actual_net_usd
+
+-- Realized net profit (actual_claimed_usd - actual_gas_usd) for verified payouts
+ALTER TABLE executions ADD COLUMN actual_net_usd REAL;
+
+-- USD value of each verified transfer at execution-time prices
+ALTER TABLE execution_transfers ADD COLUMN amount_usd REAL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_execution_transfers_tx_log ON execution_transfers(tx_hash, log_index);
@@ -0,0 +1,15 @@
+-- Migration 008: Per-item outcome of batched executions
+-- Bundles with sub-calls are sent as one Multicall3 aggregate3 transaction; a sub-call that reverted in
+-- the preflight is left out of the transaction, so each reward records whether it was actually claimed
+
+CREATE TABLE IF NOT EXISTS execution_items (
+  execution_id TEXT NOT NULL,
+  reward_id TEXT NOT NULL,
+  success BOOLEAN NOT NULL,
+  error_message TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (execution_id, reward_id),
+  FOREIGN KEY (execution_id) REFERENCES executions(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_execution_items_reward_id ON execution_items(reward_id);
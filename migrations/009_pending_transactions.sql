@@ -0,0 +1,24 @@
+-- Migration 009: Transactions tracked per signing wallet and nonce
+-- A nonce can carry the original claim, same-nonce speed-ups and a zero-value cancel; the one that is
+-- mined becomes confirmed/failed and the others replaced, so pending nonces can be recovered on startup
+
+CREATE TABLE IF NOT EXISTS pending_transactions (
+  tx_hash TEXT PRIMARY KEY,
+  wallet_address TEXT NOT NULL,
+  chain TEXT NOT NULL,
+  nonce INTEGER NOT NULL,
+  bundle_id TEXT,
+  kind TEXT NOT NULL CHECK (kind IN ('original', 'speedup', 'cancel')),
+  to_address TEXT NOT NULL,
+  data TEXT NOT NULL,
+  value TEXT NOT NULL,
+  gas_limit TEXT NOT NULL,
+  max_fee_per_gas TEXT NOT NULL,
+  max_priority_fee_per_gas TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'confirmed', 'failed', 'replaced', 'dropped')),
+  created_at DATETIME NOT NULL,
+  updated_at DATETIME NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_transactions_wallet_nonce ON pending_transactions(wallet_address, nonce);
+CREATE INDEX IF NOT EXISTS idx_pending_transactions_status ON pending_transactions(status);
@@ -1,9 +1,19 @@
 import { ethers } from 'ethers';
-import type { ChainClient, ClaimBundle, SimulationResult, TxResult } from '../types/common.js';
+import type { BundleCall, ChainClient, ClaimBundle, FailureCategory, ItemResult, PendingReward, SimulationResult, TxResult, TxStatus } from '../types/common.js';
+import { env } from '../config/env.js';
+import { decodeAggregate3, encodeAggregate3 } from './multicall.js';
+import { resolvePolicy } from '../economics/policy.js';
+import { isFeeTier, planFees, sampleFeeData, sampleFeeHistory, type FeePlan, type FeeSample } from '../economics/fees.js';
+import { NonceManager, type TxRequest } from '../execution/nonceManager.js';
+import { getRpcProvider } from './providerPool.js';
+import { decodeRevert, decodeRevertData } from './revertDecoder.js';
 
 // Chainlink AVAX/USD feed address on Avalanche C-Chain
 const CHAINLINK_AVAX_USD_FEED = '0x0A77230d17318075983913bC2145DB16C7366156';
 const DEFAULT_AVAX_CLAIM_GAS = 120000;
+// aggregate3 dispatch overhead on top of the sub-calls' own gas
+const BATCH_BASE_GAS = 30000;
+const BATCH_PER_CALL_GAS = 5000;
 
 // Minimal ABI for Chainlink price feed
 const CHAINLINK_ABI = [
@@ -12,33 +22,72 @@ const CHAINLINK_ABI = [
 
 // Default provider instance for exported functions
 let defaultProvider: ethers.JsonRpcProvider | undefined;
-let defaultWallet: ethers.Wallet | undefined;
 
 function getDefaultProvider(): ethers.JsonRpcProvider {
   if (!defaultProvider) {
     const rpcUrl = process.env.AVALANCHE_RPC_URL || process.env.PRICER_RPC_AVAX || 'https://api.avax.network/ext/bc/C/rpc';
-    defaultProvider = new ethers.JsonRpcProvider(rpcUrl);
+    defaultProvider = getRpcProvider(rpcUrl);
   }
   return defaultProvider;
 }
 
-function getDefaultWallet(): ethers.Wallet | undefined {
-  if (!defaultWallet && process.env.PRIVATE_KEY) {
-    defaultWallet = new ethers.Wallet(process.env.PRIVATE_KEY, getDefaultProvider());
+/**
+ * Spread per-call outcomes over the bundle items each call claims
+ */
+function toItemResults(calls: readonly BundleCall[], outcomes: readonly { success: boolean; error?: string }[]): ItemResult[] {
+  return calls.flatMap((call, i) => call.itemIds.map(itemId => ({
+    itemId,
+    success: outcomes[i].success,
+    error: outcomes[i].error
+  })));
+}
+
+function claimedUsd(items: readonly PendingReward[], itemResults: readonly ItemResult[]): number {
+  const succeeded = new Set(itemResults.filter(item => item.success).map(item => item.itemId));
+  return items.filter(item => succeeded.has(item.id)).reduce((sum, item) => sum + item.amountUsd, 0);
+}
+
+/**
+ * Result of a bundle held back because it is not profitable at the current fee
+ */
+function deferredResult(fees: FeePlan): TxResult {
+  return {
+    success: false,
+    error: `Deferred: ${fees.reason}`,
+    claimedUsd: 0,
+    chain: 'avalanche',
+    status: 'deferred'
+  };
+}
+
+/**
+ * Why a bundle without sub-calls cannot be sent, if it cannot. Without call data the transaction
+ * would be a 0-value send to claimTo, and a call acting on msg.sender only claims for its sender.
+ */
+function directCallProblem(bundle: ClaimBundle, sender: string | undefined): { reason: string; category: FailureCategory } | undefined {
+  if (!bundle.contractAddress || !bundle.callData || bundle.callData === '0x') {
+    return { reason: `Bundle ${bundle.id} has no call data, refusing to send`, category: 'unknown' };
+  }
+
+  const foreign = sender && bundle.items.find(item => item.claimCall?.fromWallet && item.wallet.value.toLowerCase() !== sender.toLowerCase());
+  if (foreign) {
+    return { reason: `${foreign.id} must be sent by its wallet ${foreign.wallet.value}, not ${sender}`, category: 'unauthorized' };
   }
-  return defaultWallet;
+  return undefined;
 }
 
 export class AvalancheClient implements ChainClient {
   readonly chain = 'avalanche' as const;
   private provider: ethers.JsonRpcProvider;
   private wallet?: ethers.Wallet;
+  private nonces?: NonceManager;
 
   constructor(rpcUrl: string, privateKey?: string) {
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.provider = getRpcProvider(rpcUrl);
     
     if (privateKey) {
       this.wallet = new ethers.Wallet(privateKey, this.provider);
+      this.nonces = new NonceManager(this.wallet, this.provider);
     }
   }
 
@@ -48,6 +97,17 @@ export class AvalancheClient implements ChainClient {
     return feeData.maxFeePerGas || feeData.gasPrice || 25000000000n; // 25 gwei default
   }
 
+  /**
+   * Base fee of the latest block, without the priority fee and headroom of gasPrice()
+   */
+  async baseFeePerGas(): Promise<bigint> {
+    const block = await this.provider.getBlock('latest');
+    if (block?.baseFeePerGas === null || block?.baseFeePerGas === undefined) {
+      throw new Error('Latest block has no base fee');
+    }
+    return block.baseFeePerGas;
+  }
+
   async nativeUsd(): Promise<number> {
     try {
       // Try Chainlink feed first
@@ -70,14 +130,24 @@ export class AvalancheClient implements ChainClient {
   }
 
   async simulate(bundle: ClaimBundle): Promise<SimulationResult> {
+    if (bundle.calls && bundle.calls.length > 0) {
+      return this.simulateCalls(bundle.calls);
+    }
+
+    const problem = directCallProblem(bundle, this.wallet?.address);
+    if (problem) {
+      return { ok: false, reason: problem.reason, failureCategory: problem.category };
+    }
+
     try {
-      // Use bundle data if available, otherwise fall back to placeholder
-      const to = bundle.contractAddress || bundle.claimTo.value;
-      const data = bundle.callData || '0x';
+      const to = bundle.contractAddress!;
+      const data = bundle.callData!;
       const value = bundle.value || 0;
+      // Calls acting on msg.sender are simulated as the wallet they claim for
+      const from = bundle.items.some(item => item.claimCall?.fromWallet) ? bundle.items[0].wallet.value : this.wallet?.address;
 
       try {
-        const result = await this.provider.call({ to, data, value });
+        const result = await this.provider.call({ to, data, value, from });
         
         // Log simulation success for sJOE protocol
         if (bundle.protocol === 'traderjoe' && bundle.callData) {
@@ -86,30 +156,8 @@ export class AvalancheClient implements ChainClient {
         
         return { ok: true, reason: `Simulation successful: ${result}` };
       } catch (error: any) {
-        // Try to extract revert reason from error
-        let reason = 'Unknown revert reason';
-        
-        try {
-          if (error.data) {
-            // Try to decode revert reason from error.data
-            const errorData = error.data;
-            if (typeof errorData === 'string' && errorData.length > 10) {
-              // Simple revert reason extraction - would need more sophisticated parsing for real use
-              reason = `Revert: ${errorData}`;
-            }
-          } else if (error.error?.data) {
-            reason = `Revert: ${error.error.data}`;
-          } else if (error.reason) {
-            reason = error.reason;
-          } else if (error.message) {
-            reason = error.message;
-          }
-          // TODO: Implement proper revert reason extraction for various error formats
-        } catch (parseError) {
-          console.warn('Failed to extract revert reason:', parseError);
-        }
-
-        return { ok: false, reason };
+        const revert = decodeRevert(error);
+        return { ok: false, reason: revert.reason, failureCategory: revert.category };
       }
     } catch (error) {
       return { 
@@ -119,7 +167,72 @@ export class AvalancheClient implements ChainClient {
     }
   }
 
-  async sendRaw(bundle: ClaimBundle): Promise<TxResult> {
+  /**
+   * EIP-1559 fees for a transaction claiming totalUsd, capped so it keeps the protocol's minimum bundle net USD
+   */
+  private async quoteFees(protocol: string, totalUsd: number, gasLimit: bigint): Promise<FeePlan> {
+    let sample: FeeSample;
+    try {
+      sample = await sampleFeeHistory(this.provider, env.feeHistoryBlocks);
+    } catch (error) {
+      console.warn('eth_feeHistory unavailable, falling back to getFeeData:', error instanceof Error ? error.message : error);
+      sample = await sampleFeeData(this.provider);
+    }
+
+    if (!isFeeTier(env.feeTier)) {
+      console.warn(`Unknown FEE_TIER ${env.feeTier}, using normal`);
+    }
+
+    return planFees(sample, {
+      gasLimit,
+      nativeUsd: await this.nativeUsd(),
+      totalUsd,
+      minNetUsd: resolvePolicy('avalanche', protocol).minBundleNetUsd,
+      tier: isFeeTier(env.feeTier) ? env.feeTier : 'normal',
+      maxFeeCapWei: env.maxFeePerGasGwei !== undefined ? ethers.parseUnits(String(env.maxFeePerGasGwei), 'gwei') : undefined
+    });
+  }
+
+  /**
+   * eth_call the sub-calls through the claim router with allowFailure, one outcome per call
+   */
+  private async preflightCalls(calls: readonly BundleCall[]): Promise<Array<{ success: boolean; error?: string; category?: FailureCategory }>> {
+    const { data, value } = encodeAggregate3(calls.map(call => ({ ...call, allowFailure: true })));
+    const returnData = await this.provider.call({ to: env.claimRouterAddress, data, value, from: this.wallet?.address });
+
+    return decodeAggregate3(returnData).map(response => {
+      if (response.success) {
+        return { success: true };
+      }
+      const revert = decodeRevertData(response.returnData);
+      return { success: false, error: revert.reason, category: revert.category };
+    });
+  }
+
+  private async simulateCalls(calls: readonly BundleCall[]): Promise<SimulationResult> {
+    try {
+      const outcomes = await this.preflightCalls(calls);
+      const itemResults = toItemResults(calls, outcomes);
+      const failures = outcomes.filter(outcome => !outcome.success);
+      const failed = failures.length;
+      // A bundle whose sub-calls all fail for the same reason fails for that reason
+      const categories = new Set(failures.map(outcome => outcome.category ?? 'unknown'));
+
+      return {
+        ok: failed < calls.length,
+        failureCategory: failed === calls.length ? (categories.size === 1 ? [...categories][0] : 'unknown') : undefined,
+        reason: failed === 0
+          ? `Simulation successful: ${calls.length} sub-calls`
+          : `${failed}/${calls.length} sub-calls would revert: ${itemResults.filter(item => !item.success).map(item => `${item.itemId} (${item.error})`).join(', ')}`,
+        itemResults
+      };
+    } catch (error: any) {
+      const revert = decodeRevert(error);
+      return { ok: false, reason: revert.reason, failureCategory: revert.category };
+    }
+  }
+
+  async sendRaw(bundle: ClaimBundle, onSubmitted?: (txHash: string) => void): Promise<TxResult> {
     try {
       // In MOCK_MODE, return mocked result
       if (process.env.MOCK_MODE === 'true') {
@@ -135,7 +248,8 @@ export class AvalancheClient implements ChainClient {
           gasUsd,
           claimedUsd: bundle.totalUsd,
           chain: 'avalanche',
-          status: 'mock'
+          status: 'mock',
+          itemResults: bundle.calls?.flatMap(call => call.itemIds.map(itemId => ({ itemId, success: true })))
         };
       }
 
@@ -143,10 +257,14 @@ export class AvalancheClient implements ChainClient {
         throw new Error('No wallet configured for execution');
       }
 
-      // Build transaction
-      const maxFeePerGas = await this.gasPrice();
-      const feeData = await this.provider.getFeeData();
-      const maxPriorityFeePerGas = feeData.maxPriorityFeePerGas || maxFeePerGas / 10n;
+      if (bundle.calls && bundle.calls.length > 0) {
+        return await this.sendCalls(bundle, bundle.calls, onSubmitted);
+      }
+
+      const problem = directCallProblem(bundle, this.wallet.address);
+      if (problem) {
+        return { success: false, error: problem.reason, claimedUsd: 0, chain: 'avalanche' };
+      }
 
       // Estimate gas if not provided
       let gasLimit = BigInt(DEFAULT_AVAX_CLAIM_GAS);
@@ -155,10 +273,15 @@ export class AvalancheClient implements ChainClient {
         gasLimit = BigInt(totalEstGas);
       }
 
-      // Build transaction using bundle data if available
+      const fees = await this.quoteFees(bundle.protocol, bundle.totalUsd, gasLimit);
+      if (fees.deferred) {
+        return deferredResult(fees);
+      }
+      const { maxFeePerGas, maxPriorityFeePerGas } = fees;
+
       const tx = {
-        to: bundle.contractAddress || bundle.claimTo.value,
-        data: bundle.callData || '0x',
+        to: bundle.contractAddress!,
+        data: bundle.callData!,
         value: bundle.value || 0,
         gasLimit,
         maxFeePerGas,
@@ -170,37 +293,177 @@ export class AvalancheClient implements ChainClient {
         console.log(`TraderJoe sJOE: Executing transaction to ${tx.to} with data ${tx.data.slice(0, 10)}...`);
       }
 
-      const response = await this.wallet.sendTransaction(tx);
-      const receipt = await response.wait();
-
-      if (!receipt) {
-        throw new Error('Transaction receipt not available');
+      const submitted = await this.submit(bundle.id, tx, fees, onSubmitted);
+      if ('result' in submitted) {
+        return submitted.result;
       }
-
-      // Compute gas cost in USD
-      const gasUsed = receipt.gasUsed;
-      const effectiveGasPrice = receipt.gasPrice || maxFeePerGas;
-      const gasNative = Number(gasUsed * effectiveGasPrice) / 1e18;
-      const gasUsd = gasNative * await this.nativeUsd();
+      const { receipt } = submitted;
 
       return {
         success: receipt.status === 1,
         txHash: receipt.hash,
-        gasUsed: gasUsed.toString(),
-        gasUsd,
+        gasUsed: receipt.gasUsed.toString(),
+        gasUsd: await this.receiptGasUsd(receipt, maxFeePerGas),
         claimedUsd: receipt.status === 1 ? bundle.totalUsd : 0,
         chain: 'avalanche'
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: decodeRevert(error).reason,
         claimedUsd: 0,
         chain: 'avalanche'
       };
     }
   }
 
+  /**
+   * Send a batched bundle as one aggregate3 transaction through the claim router.
+   * Sub-calls that revert in the preflight are left out, so the rest can still go through with
+   * allowFailure=false (the transaction succeeds or fails as a whole).
+   */
+  private async sendCalls(
+    bundle: ClaimBundle,
+    calls: readonly BundleCall[],
+    onSubmitted?: (txHash: string) => void
+  ): Promise<TxResult> {
+    const outcomes = await this.preflightCalls(calls);
+    const preflight = toItemResults(calls, outcomes);
+    const included = calls.filter((_, i) => outcomes[i].success);
+    const skipped = preflight.filter(item => !item.success);
+
+    if (skipped.length > 0) {
+      console.warn(`Bundle ${bundle.id}: leaving out ${skipped.length} items that revert in preflight: ${skipped.map(item => item.itemId).join(', ')}`);
+    }
+    if (included.length === 0) {
+      return {
+        success: false,
+        error: 'All sub-calls revert in preflight',
+        claimedUsd: 0,
+        chain: 'avalanche',
+        itemResults: preflight
+      };
+    }
+
+    const includedIds = new Set(included.flatMap(call => call.itemIds));
+    const includedItems = bundle.items.filter(item => includedIds.has(item.id));
+    const itemGas = includedItems.reduce((sum, item) => sum + (item.estGasLimit || DEFAULT_AVAX_CLAIM_GAS), 0);
+    const gasLimit = BigInt(itemGas + BATCH_BASE_GAS + BATCH_PER_CALL_GAS * included.length);
+
+    // Only the items left in the batch pay for its gas
+    const fees = await this.quoteFees(bundle.protocol, includedItems.reduce((sum, item) => sum + item.amountUsd, 0), gasLimit);
+    if (fees.deferred) {
+      return { ...deferredResult(fees), itemResults: preflight };
+    }
+    const { maxFeePerGas, maxPriorityFeePerGas } = fees;
+
+    const { data, value } = encodeAggregate3(included.map(call => ({ ...call, allowFailure: false })));
+    const submitted = await this.submit(bundle.id, {
+      to: env.claimRouterAddress,
+      data,
+      value,
+      gasLimit,
+      maxFeePerGas,
+      maxPriorityFeePerGas
+    }, fees, onSubmitted);
+
+    if ('result' in submitted) {
+      const error = submitted.result.error;
+      return {
+        ...submitted.result,
+        itemResults: preflight.map(item => item.success ? { itemId: item.itemId, success: false, error } : item)
+      };
+    }
+    const { receipt } = submitted;
+
+    const success = receipt.status === 1;
+    const itemResults = preflight.map(item => !item.success || success
+      ? item
+      : { itemId: item.itemId, success: false, error: 'Transaction reverted' });
+
+    return {
+      success,
+      txHash: receipt.hash,
+      gasUsed: receipt.gasUsed.toString(),
+      gasUsd: await this.receiptGasUsd(receipt, maxFeePerGas),
+      claimedUsd: claimedUsd(bundle.items, itemResults),
+      chain: 'avalanche',
+      itemResults
+    };
+  }
+
+  /**
+   * Send through the nonce manager and wait for the nonce to settle, replacing a stuck transaction.
+   * Returns the claim's receipt, or a failed result when it was cancelled, dropped or is still pending.
+   */
+  private async submit(
+    bundleId: string,
+    tx: TxRequest,
+    fees: FeePlan,
+    onSubmitted?: (txHash: string) => void
+  ): Promise<{ receipt: ethers.TransactionReceipt } | { result: TxResult }> {
+    const sent = await this.nonces!.send(tx, bundleId);
+    onSubmitted?.(sent.txHash);
+
+    // Speed-ups stay under the bundle's fee cap and are recorded as the bundle's transaction
+    const outcome = await this.nonces!.waitForOutcome(sent, { maxFeeCapWei: fees.capPerGas }, onSubmitted);
+
+    if (outcome.state === 'pending') {
+      return {
+        result: {
+          success: false,
+          txHash: outcome.txHash,
+          error: `Transaction still pending at nonce ${sent.nonce} after ${outcome.replacements} replacements`,
+          claimedUsd: 0,
+          chain: 'avalanche',
+          status: 'pending'
+        }
+      };
+    }
+
+    if (outcome.state === 'dropped') {
+      return {
+        result: {
+          success: false,
+          txHash: outcome.txHash,
+          error: `Nonce ${sent.nonce} was consumed by another transaction`,
+          claimedUsd: 0,
+          chain: 'avalanche'
+        }
+      };
+    }
+
+    const receipt = outcome.receipt!;
+    if (outcome.kind === 'cancel') {
+      return {
+        result: {
+          success: false,
+          txHash: receipt.hash,
+          error: `Stuck transaction cancelled at nonce ${sent.nonce}`,
+          gasUsed: receipt.gasUsed.toString(),
+          gasUsd: await this.receiptGasUsd(receipt, fees.maxFeePerGas),
+          claimedUsd: 0,
+          chain: 'avalanche'
+        }
+      };
+    }
+
+    return { receipt };
+  }
+
+  private async receiptGasUsd(receipt: ethers.TransactionReceipt, fallbackGasPrice: bigint): Promise<number> {
+    const effectiveGasPrice = receipt.gasPrice || fallbackGasPrice;
+    const gasNative = Number(receipt.gasUsed * effectiveGasPrice) / 1e18;
+    return gasNative * await this.nativeUsd();
+  }
+
+  /**
+   * Settle or cancel nonces left pending by an earlier run; returns how many are still pending
+   */
+  async recoverPendingTransactions(): Promise<number> {
+    return this.nonces ? this.nonces.recoverPending() : 0;
+  }
+
   async getBalance(address: string): Promise<bigint> {
     return this.provider.getBalance(address);
   }
@@ -212,6 +475,23 @@ export class AvalancheClient implements ChainClient {
   async getCode(address: string): Promise<string> {
     return this.provider.getCode(address);
   }
+
+  async getTransactionStatus(txHash: string): Promise<TxStatus> {
+    // Follow speed-ups and cancels of transactions sent through the nonce manager
+    const tracked = await this.nonces?.statusOf(txHash);
+    if (tracked) {
+      return tracked;
+    }
+
+    const receipt = await this.provider.getTransactionReceipt(txHash);
+    if (receipt) {
+      return receipt.status === 1 ? 'confirmed' : 'failed';
+    }
+
+    // Still in the mempool, or dropped and never mined
+    const tx = await this.provider.getTransaction(txHash);
+    return tx ? 'pending' : 'not_found';
+  }
 }
 
 // Exported functions as specified in requirements
@@ -227,103 +507,7 @@ export async function simulate(to: string, data: string, value: number = 0): Pro
     const result = await provider.call({ to, data, value });
     return result;
   } catch (error: any) {
-    // Extract revert reason as specified
-    let reason = 'Unknown revert reason';
-    
-    try {
-      if (error.data) {
-        reason = `Revert: ${error.data}`;
-      } else if (error.error?.data) {
-        reason = `Revert: ${error.error.data}`;
-      } else if (error.reason) {
-        reason = error.reason;
-      }
-      // TODO: Implement more sophisticated revert reason extraction
-    } catch (parseError) {
-      // Extraction failed, keep generic reason
-    }
-
-    throw new Error(reason);
-  }
-}
-
-export async function sendRaw(to: string, data: string, value: number = 0, gasLimit?: number): Promise<TxResult> {
-  const wallet = getDefaultWallet();
-  
-  if (process.env.MOCK_MODE === 'true') {
-    const gasUsed = BigInt(gasLimit || DEFAULT_AVAX_CLAIM_GAS);
-    const gasPriceBig = await gasPrice();
-    const gasNative = Number(gasUsed * gasPriceBig) / 1e18;
-    const gasUsd = gasNative * await nativeUsd();
-
-    return {
-      success: true,
-      txHash: `0x${Math.random().toString(16).substr(2, 64)}`,
-      gasUsed: gasUsed.toString(),
-      gasUsd,
-      claimedUsd: 0, // Unknown without bundle context
-      chain: 'avalanche',
-      status: 'mock'
-    };
-  }
-
-  if (!wallet) {
-    throw new Error('No wallet configured for execution');
-  }
-
-  const provider = getDefaultProvider();
-  const maxFeePerGas = await gasPrice();
-  const feeData = await provider.getFeeData();
-  const maxPriorityFeePerGas = feeData.maxPriorityFeePerGas || maxFeePerGas / 10n;
-
-  // Estimate gas if not provided
-  let estimatedGasLimit = BigInt(gasLimit || DEFAULT_AVAX_CLAIM_GAS);
-  if (!gasLimit) {
-    try {
-      const estimate = await provider.estimateGas({ to, data, value });
-      estimatedGasLimit = estimate;
-    } catch (error) {
-      // Use default if estimation fails
-    }
-  }
-
-  const tx = {
-    to,
-    data,
-    value,
-    gasLimit: estimatedGasLimit,
-    maxFeePerGas,
-    maxPriorityFeePerGas
-  };
-
-  try {
-    const response = await wallet.sendTransaction(tx);
-    const receipt = await response.wait();
-
-    if (!receipt) {
-      throw new Error('Transaction receipt not available');
-    }
-
-    const gasUsed = receipt.gasUsed;
-    const effectiveGasPrice = receipt.gasPrice || maxFeePerGas;
-    const gasNative = Number(gasUsed * effectiveGasPrice) / 1e18;
-    const gasUsd = gasNative * await nativeUsd();
-
-    return {
-      success: receipt.status === 1,
-      txHash: receipt.hash,
-      gasUsed: gasUsed.toString(),
-      gasUsd,
-      claimedUsd: 0, // Unknown without bundle context
-      chain: 'avalanche'
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      claimedUsd: 0,
-      chain: 'avalanche'
-    };
+    throw new Error(decodeRevert(error).reason);
   }
 }
 
@@ -0,0 +1,179 @@
+import { ethers } from 'ethers';
+import { env } from '../config/env.js';
+
+/**
+ * Batched EVM reads through Multicall3 (deployed at the same address on Avalanche and most EVM chains).
+ * Calls are chunked into aggregate3 batches with allowFailure, so one reverting call does not sink its
+ * batch, and chunks run at most RPC_CONCURRENCY at a time.
+ */
+
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+// aggregate3 is payable, declaring it view makes ethers issue an eth_call
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) view returns ((bool success, bytes returnData)[] returnData)',
+  'function aggregate3Value((address target, bool allowFailure, uint256 value, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)'
+];
+
+const multicallInterface = new ethers.Interface(MULTICALL3_ABI);
+
+export interface ContractCall {
+  target: string;
+  iface: ethers.Interface;
+  method: string;
+  args?: readonly unknown[];
+}
+
+export type CallResult =
+  | { success: true; value: ethers.Result }
+  | { success: false; error: string };
+
+export interface MulticallOptions {
+  chunkSize?: number;
+  concurrency?: number;
+  address?: string;
+}
+
+/**
+ * Run fn over items with at most `limit` invocations in flight, preserving order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function decodeResult(call: ContractCall, returnData: string): CallResult {
+  try {
+    return { success: true, value: call.iface.decodeFunctionResult(call.method, returnData) };
+  } catch (error) {
+    return { success: false, error: `Failed to decode ${call.method}: ${errorMessage(error)}` };
+  }
+}
+
+async function callOne(provider: ethers.Provider, call: ContractCall, data: string): Promise<CallResult> {
+  try {
+    return decodeResult(call, await provider.call({ to: call.target, data }));
+  } catch (error) {
+    return { success: false, error: errorMessage(error) };
+  }
+}
+
+async function executeChunk(
+  provider: ethers.Provider,
+  calls: ContractCall[],
+  address: string
+): Promise<CallResult[]> {
+  const encoded: Array<string | CallResult> = calls.map(call => {
+    try {
+      return call.iface.encodeFunctionData(call.method, call.args ?? []);
+    } catch (error) {
+      return { success: false, error: `Failed to encode ${call.method}: ${errorMessage(error)}` };
+    }
+  });
+
+  const batch = calls
+    .map((call, index) => ({ call, index, data: encoded[index] }))
+    .filter((entry): entry is { call: ContractCall; index: number; data: string } => typeof entry.data === 'string');
+
+  const results = encoded.map(entry => typeof entry === 'string' ? undefined : entry);
+  if (batch.length === 0) {
+    return results as CallResult[];
+  }
+
+  try {
+    const { data } = encodeAggregate3(batch.map(entry => ({ target: entry.call.target, allowFailure: true, callData: entry.data })));
+    const responses = decodeAggregate3(await provider.call({ to: address, data }));
+
+    batch.forEach((entry, i) => {
+      results[entry.index] = responses[i].success
+        ? decodeResult(entry.call, responses[i].returnData)
+        : { success: false, error: `${entry.call.method} reverted` };
+    });
+  } catch (error) {
+    // Multicall3 unavailable or the batch exceeded the RPC's limits: fall back to one eth_call per read
+    console.warn(`Multicall batch of ${batch.length} calls failed, falling back to individual calls:`, errorMessage(error));
+    for (const entry of batch) {
+      results[entry.index] = await callOne(provider, entry.call, entry.data);
+    }
+  }
+
+  return results as CallResult[];
+}
+
+/**
+ * Execute read-only calls through Multicall3, returning one result per call in the same order
+ */
+export async function multicall(
+  provider: ethers.Provider,
+  calls: ContractCall[],
+  options: MulticallOptions = {}
+): Promise<CallResult[]> {
+  const chunkSize = Math.max(1, options.chunkSize ?? env.multicallChunkSize);
+  const chunks: ContractCall[][] = [];
+  for (let i = 0; i < calls.length; i += chunkSize) {
+    chunks.push(calls.slice(i, i + chunkSize));
+  }
+
+  const results = await mapWithConcurrency(
+    chunks,
+    options.concurrency ?? env.rpcConcurrency,
+    chunk => executeChunk(provider, chunk, options.address ?? MULTICALL3_ADDRESS)
+  );
+  return results.flat();
+}
+
+export interface Aggregate3Call {
+  target: string;
+  callData: string;
+  allowFailure: boolean;
+  value?: number | bigint;
+}
+
+/**
+ * Encode sub-calls as one aggregate3 call, or aggregate3Value when any sub-call carries value
+ */
+export function encodeAggregate3(calls: readonly Aggregate3Call[]): { data: string; value: bigint } {
+  const value = calls.reduce((total, call) => total + BigInt(call.value ?? 0), BigInt(0));
+
+  if (value === BigInt(0)) {
+    return {
+      data: multicallInterface.encodeFunctionData('aggregate3', [
+        calls.map(call => ({ target: call.target, allowFailure: call.allowFailure, callData: call.callData }))
+      ]),
+      value
+    };
+  }
+
+  return {
+    data: multicallInterface.encodeFunctionData('aggregate3Value', [
+      calls.map(call => ({ target: call.target, allowFailure: call.allowFailure, value: BigInt(call.value ?? 0), callData: call.callData }))
+    ]),
+    value
+  };
+}
+
+/**
+ * Decode the per-call results of an aggregate3/aggregate3Value eth_call
+ */
+export function decodeAggregate3(returnData: string): Array<{ success: boolean; returnData: string }> {
+  const [responses] = multicallInterface.decodeFunctionResult('aggregate3', returnData);
+  return Array.from(responses, (response: any) => ({ success: Boolean(response[0]), returnData: response[1] }));
+}
@@ -0,0 +1,317 @@
+import { ethers } from 'ethers';
+import { env } from '../config/env.js';
+import { logger } from '../engine/logger.js';
+
+/**
+ * Shared JSON-RPC endpoint pool. Each chain gets one provider backed by several URLs: requests go to
+ * the healthiest endpoint (latency weighted by recent error rate) that has rate-limit capacity, and
+ * fail over to the next one on transport errors, HTTP errors and JSON-RPC rate-limit responses.
+ * Endpoints that keep failing sit out a cooldown. A transaction rebroadcast after failover may already
+ * be known to the next node, which counts as sent.
+ */
+
+export interface RpcEndpointHealth {
+  readonly label: string;              // Host only, URLs often embed API keys
+  readonly requests: number;
+  readonly errors: number;
+  readonly errorRate: number;          // Exponentially weighted, 0..1
+  readonly avgLatencyMs?: number;      // Exponentially weighted, undefined until the first success
+  readonly score: number;              // Lower is better
+  readonly coolingDown: boolean;
+}
+
+export interface RpcPoolHealth {
+  readonly name: string;
+  readonly endpoints: readonly RpcEndpointHealth[];
+}
+
+export interface RpcPoolOptions {
+  readonly requestsPerSecond?: number; // Per endpoint
+  readonly timeoutMs?: number;
+}
+
+const EWMA_WEIGHT = 0.2;
+const UNMEASURED_LATENCY_MS = 500;
+const FAILURES_BEFORE_COOLDOWN = 3;
+const COOLDOWN_MS = 30000;
+
+// JSON-RPC error codes and messages nodes use for throttling
+const RATE_LIMIT_CODES = new Set([-32005, -32029, 429]);
+const RATE_LIMIT_PATTERN = /rate.?limit|too many requests|limit exceeded|throttl/i;
+
+function describeUrl(url: string, index: number): string {
+  try {
+    return `${new URL(url).host}#${index}`;
+  } catch {
+    return `endpoint#${index}`;
+  }
+}
+
+function isRateLimited(result: unknown): boolean {
+  const error = (result as { error?: { code?: number; message?: string } })?.error;
+  return !!error && (RATE_LIMIT_CODES.has(Number(error.code)) || RATE_LIMIT_PATTERN.test(String(error.message ?? '')));
+}
+
+// Nodes reject a raw transaction they already hold, e.g. one an endpoint accepted before timing out
+const ALREADY_KNOWN_PATTERN = /already known|known transaction|already imported/i;
+
+/**
+ * Answer "already known" eth_sendRawTransaction errors with the hash of the raw transaction
+ */
+function acceptKnownTransactions(
+  payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>,
+  results: Array<ethers.JsonRpcResult>
+): Array<ethers.JsonRpcResult> {
+  const requests = Array.isArray(payload) ? payload : [payload];
+  return results.map(result => {
+    const error = (result as { error?: { message?: string } }).error;
+    const request = requests.find(candidate => candidate.id === result.id);
+    if (!error || request?.method !== 'eth_sendRawTransaction' || !ALREADY_KNOWN_PATTERN.test(String(error.message ?? ''))) {
+      return result;
+    }
+    return { id: result.id, result: ethers.keccak256(String((request.params as unknown[])[0])) };
+  });
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+class RpcEndpoint {
+  readonly label: string;
+  private requests = 0;
+  private errors = 0;
+  private errorRate = 0;
+  private avgLatencyMs?: number;
+  private consecutiveFailures = 0;
+  private cooldownUntil = 0;
+  private tokens: number;
+  private refilledAt = Date.now();
+  // Holds at least one token, so rates below one request per second still let requests through
+  private readonly capacity: number;
+
+  constructor(readonly url: string, index: number, private readonly requestsPerSecond: number) {
+    this.label = describeUrl(url, index);
+    this.capacity = Math.max(1, requestsPerSecond);
+    this.tokens = this.capacity;
+  }
+
+  get score(): number {
+    return (this.avgLatencyMs ?? UNMEASURED_LATENCY_MS) * (1 + 10 * this.errorRate);
+  }
+
+  coolingDown(now = Date.now()): boolean {
+    return now < this.cooldownUntil;
+  }
+
+  /**
+   * Milliseconds until the endpoint may take another request (token bucket refilled every second)
+   */
+  waitMs(now = Date.now()): number {
+    if (this.requestsPerSecond <= 0) {
+      return 0;
+    }
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.refilledAt) / 1000 * this.requestsPerSecond);
+    this.refilledAt = now;
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.requestsPerSecond * 1000);
+  }
+
+  take(): void {
+    if (this.requestsPerSecond > 0) {
+      this.tokens -= 1;
+    }
+  }
+
+  recordSuccess(latencyMs: number): void {
+    this.requests++;
+    this.consecutiveFailures = 0;
+    this.errorRate *= 1 - EWMA_WEIGHT;
+    this.avgLatencyMs = this.avgLatencyMs === undefined
+      ? latencyMs
+      : this.avgLatencyMs * (1 - EWMA_WEIGHT) + latencyMs * EWMA_WEIGHT;
+  }
+
+  recordFailure(): void {
+    this.requests++;
+    this.errors++;
+    this.errorRate = this.errorRate * (1 - EWMA_WEIGHT) + EWMA_WEIGHT;
+    if (++this.consecutiveFailures >= FAILURES_BEFORE_COOLDOWN) {
+      this.cooldownUntil = Date.now() + COOLDOWN_MS;
+      this.consecutiveFailures = 0;
+    }
+  }
+
+  health(): RpcEndpointHealth {
+    return {
+      label: this.label,
+      requests: this.requests,
+      errors: this.errors,
+      errorRate: this.errorRate,
+      avgLatencyMs: this.avgLatencyMs,
+      score: this.score,
+      coolingDown: this.coolingDown()
+    };
+  }
+}
+
+/**
+ * JsonRpcProvider that spreads requests over several endpoints; usable anywhere a JsonRpcProvider is
+ */
+export class PooledJsonRpcProvider extends ethers.JsonRpcProvider {
+  private readonly endpoints: RpcEndpoint[];
+  private readonly timeoutMs: number;
+
+  constructor(urls: readonly string[], options: RpcPoolOptions = {}) {
+    if (urls.length === 0) {
+      throw new Error('PooledJsonRpcProvider needs at least one RPC URL');
+    }
+    super(urls[0]);
+    const requestsPerSecond = options.requestsPerSecond ?? env.rpcRateLimit;
+    this.endpoints = urls.map((url, index) => new RpcEndpoint(url, index, requestsPerSecond));
+    this.timeoutMs = options.timeoutMs ?? env.rpcTimeoutMs;
+  }
+
+  health(): RpcEndpointHealth[] {
+    return this.endpoints.map(endpoint => endpoint.health());
+  }
+
+  /**
+   * Time one eth_blockNumber on every endpoint
+   */
+  async probe(): Promise<void> {
+    await Promise.allSettled(this.endpoints.map(async endpoint => {
+      const startedAt = Date.now();
+      try {
+        await this.sendTo(endpoint, { method: 'eth_blockNumber', params: [], id: 0, jsonrpc: '2.0' });
+        endpoint.recordSuccess(Date.now() - startedAt);
+      } catch {
+        endpoint.recordFailure();
+      }
+    }));
+  }
+
+  /**
+   * Endpoints in the order they are tried: healthy ones by score, cooling-down ones last
+   */
+  private ranked(): RpcEndpoint[] {
+    const now = Date.now();
+    return [...this.endpoints].sort((a, b) =>
+      Number(a.coolingDown(now)) - Number(b.coolingDown(now)) || a.score - b.score);
+  }
+
+  /**
+   * The first ranked endpoint with rate-limit capacity, waiting for the soonest one when all are busy
+   */
+  private async acquire(candidates: RpcEndpoint[]): Promise<RpcEndpoint> {
+    for (;;) {
+      const now = Date.now();
+      let soonest = Number.POSITIVE_INFINITY;
+      for (const endpoint of candidates) {
+        const wait = endpoint.waitMs(now);
+        if (wait === 0) {
+          endpoint.take();
+          return endpoint;
+        }
+        soonest = Math.min(soonest, wait);
+      }
+      await sleep(soonest);
+    }
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+    const remaining = this.ranked();
+    let lastError: unknown;
+
+    while (remaining.length > 0) {
+      const endpoint = await this.acquire(remaining);
+      remaining.splice(remaining.indexOf(endpoint), 1);
+
+      const startedAt = Date.now();
+      try {
+        const results = await this.sendTo(endpoint, payload);
+        if (results.some(isRateLimited)) {
+          throw new Error(`${endpoint.label} rate limited the request`);
+        }
+        endpoint.recordSuccess(Date.now() - startedAt);
+        return acceptKnownTransactions(payload, results);
+      } catch (error) {
+        endpoint.recordFailure();
+        lastError = error;
+        if (remaining.length > 0) {
+          logger.warn(`RPC ${endpoint.label} failed, failing over:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  private async sendTo(endpoint: RpcEndpoint, payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+    const request = new ethers.FetchRequest(endpoint.url);
+    request.timeout = this.timeoutMs;
+    // Throttled requests fail over instead of backing off on the same endpoint
+    request.setThrottleParams({ maxAttempts: 1 });
+    request.body = JSON.stringify(payload);
+    request.setHeader('content-type', 'application/json');
+
+    const response = await request.send();
+    response.assertOk();
+    const body = response.bodyJson;
+    return Array.isArray(body) ? body : [body];
+  }
+}
+
+const pools = new Map<string, PooledJsonRpcProvider>();
+
+function uniqueUrls(urls: ReadonlyArray<string | undefined>): string[] {
+  return [...new Set(urls.map(url => url?.trim()).filter((url): url is string => !!url))];
+}
+
+/**
+ * Configured Avalanche endpoints: AVAX_RPC_URLS, then AVAX_RPC_URL and PRICER_RPC_AVAX
+ */
+export function avalancheRpcUrls(): string[] {
+  const urls = uniqueUrls([
+    ...(env.avalancheRpcUrls?.split(',') ?? []),
+    process.env.AVAX_RPC_URL,
+    process.env.PRICER_RPC_AVAX
+  ]);
+  return urls.length > 0 ? urls : [env.avalancheRpcUrl];
+}
+
+/**
+ * Shared provider for an RPC URL: a URL from the configured Avalanche list resolves to the Avalanche
+ * pool, any other URL gets a single-endpoint pool of its own
+ */
+export function getRpcProvider(rpcUrl: string = env.avalancheRpcUrl): ethers.JsonRpcProvider {
+  const avalanche = avalancheRpcUrls();
+  return avalanche.includes(rpcUrl.trim()) ? getPool('avalanche', avalanche) : getPool(rpcUrl.trim(), [rpcUrl.trim()]);
+}
+
+function getPool(name: string, urls: string[]): PooledJsonRpcProvider {
+  let pool = pools.get(name);
+  if (!pool) {
+    pool = new PooledJsonRpcProvider(urls);
+    pools.set(name, pool);
+  }
+  return pool;
+}
+
+/**
+ * Send eth_blockNumber through every endpoint once, so the startup health report has latencies
+ */
+export async function probeRpcEndpoints(): Promise<void> {
+  await Promise.all([...pools.values()].map(pool => pool.probe()));
+}
+
+export function getRpcHealth(): RpcPoolHealth[] {
+  return [...pools.entries()].map(([name, pool]) => ({
+    name: name === 'avalanche' ? name : describeUrl(name, 0),
+    endpoints: pool.health()
+  }));
+}
+
+/**
+ * Drop the shared pools (tests)
+ */
+export function resetRpcPools(): void {
+  pools.clear();
+}
@@ -0,0 +1,172 @@
+import { ethers } from 'ethers';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { FailureCategory } from '../types/common.js';
+
+/**
+ * Decodes EVM revert data into a readable reason and a failure category: standard Error(string) and
+ * Panic(uint256), custom errors declared in the ABIs under abi/, and a registry of well-known custom
+ * error selectors. Failures without revert data are classified from the node's error message.
+ */
+
+export interface DecodedRevert {
+  readonly category: FailureCategory;
+  readonly reason: string;
+  readonly errorName?: string;         // Error, Panic or the custom error's name; unset when undecoded
+  readonly selector?: string;
+}
+
+// Custom errors seen across claim contracts, with what they mean for a claim
+const KNOWN_CUSTOM_ERRORS: Readonly<Record<string, FailureCategory>> = {
+  'NothingToClaim()': 'nothing-to-claim',
+  'NoRewards()': 'nothing-to-claim',
+  'NoRewardsToClaim()': 'nothing-to-claim',
+  'ZeroAmount()': 'nothing-to-claim',
+  'ZeroRewards()': 'nothing-to-claim',
+  'EnforcedPause()': 'paused',                        // OpenZeppelin 5 Pausable
+  'Paused()': 'paused',
+  'ContractPaused()': 'paused',
+  'Unauthorized()': 'unauthorized',
+  'NotAuthorized()': 'unauthorized',
+  'OnlyOwner()': 'unauthorized',
+  'OwnableUnauthorizedAccount(address)': 'unauthorized',
+  'AccessControlUnauthorizedAccount(address,bytes32)': 'unauthorized'
+};
+
+// Panic(uint256) codes emitted by the Solidity compiler
+const PANIC_CODES: Readonly<Record<number, string>> = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division by zero',
+  0x21: 'invalid enum value',
+  0x22: 'invalid storage byte array',
+  0x31: 'pop on empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to uninitialized function'
+};
+
+// Checked in order: the first match wins
+const MESSAGE_CATEGORIES: ReadonlyArray<readonly [FailureCategory, RegExp]> = [
+  ['out-of-gas', /out of gas|out_of_energy|out of energy|gas required exceeds|intrinsic gas too low|exceeds block gas limit/i],
+  ['insufficient-funds', /insufficient funds|insufficient balance for (gas|transfer)/i],
+  ['paused', /\bpaused\b/i],
+  ['unauthorized', /unauthori[sz]ed|not authori[sz]ed|caller is not|not (the )?owner|forbidden|access denied|only (owner|admin|gov|handler|keeper)/i],
+  ['nothing-to-claim', /nothing to claim|no (pending |claimable )?rewards?\b|zero (amount|rewards?)|amount (is|must be) (zero|greater than (0|zero))|invalid amount/i],
+  ['network', /timeout|timed out|econnrefused|econnreset|enotfound|socket hang up|network error|rate limit|too many requests|missing response/i]
+];
+
+let errorInterface: ethers.Interface | undefined;
+
+/**
+ * Error fragments from the shipped ABIs plus the known custom errors, built on first use
+ */
+function getErrorInterface(): ethers.Interface {
+  if (errorInterface) {
+    return errorInterface;
+  }
+
+  const fragments = new Map<string, ethers.ErrorFragment>();
+  for (const signature of Object.keys(KNOWN_CUSTOM_ERRORS)) {
+    const fragment = ethers.ErrorFragment.from(`error ${signature}`);
+    fragments.set(fragment.selector, fragment);
+  }
+
+  try {
+    const abiDir = join(process.cwd(), 'abi');
+    for (const file of readdirSync(abiDir).filter(name => name.endsWith('.json'))) {
+      try {
+        const parsed = JSON.parse(readFileSync(join(abiDir, file), 'utf8'));
+        const abi: any[] = Array.isArray(parsed) ? parsed : parsed.abi ?? [];
+        for (const entry of abi.filter(item => item?.type === 'error')) {
+          const fragment = ethers.ErrorFragment.from(entry);
+          fragments.set(fragment.selector, fragment);
+        }
+      } catch (error) {
+        console.warn(`Skipping revert decoding for ${file}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  } catch {
+    // No abi/ directory: the built-in errors still decode
+  }
+
+  errorInterface = new ethers.Interface([...fragments.values()]);
+  return errorInterface;
+}
+
+/**
+ * Failure category of a revert reason or RPC error message
+ */
+export function classifyFailure(message: string | undefined): FailureCategory {
+  if (!message) {
+    return 'unknown';
+  }
+  const match = MESSAGE_CATEGORIES.find(([, pattern]) => pattern.test(message));
+  return match ? match[0] : 'unknown';
+}
+
+/**
+ * Decode raw revert data (0x-prefixed)
+ */
+export function decodeRevertData(data: string): DecodedRevert {
+  if (!data || data === '0x') {
+    return { category: 'unknown', reason: 'Reverted without reason' };
+  }
+
+  const selector = data.slice(0, 10).toLowerCase();
+  try {
+    const parsed = getErrorInterface().parseError(data);
+    if (parsed) {
+      if (parsed.name === 'Error') {
+        const message = String(parsed.args[0]);
+        return { category: classifyFailure(message), reason: message, errorName: 'Error', selector };
+      }
+
+      if (parsed.name === 'Panic') {
+        const code = Number(parsed.args[0]);
+        return {
+          category: 'unknown',
+          reason: `Panic(0x${code.toString(16)}): ${PANIC_CODES[code] ?? 'unknown panic code'}`,
+          errorName: 'Panic',
+          selector
+        };
+      }
+
+      const args = Array.from(parsed.args, arg => String(arg)).join(', ');
+      return {
+        category: KNOWN_CUSTOM_ERRORS[parsed.signature] ?? classifyFailure(parsed.name.replace(/([a-z0-9])([A-Z])/g, '$1 $2')),
+        reason: `${parsed.name}(${args})`,
+        errorName: parsed.name,
+        selector
+      };
+    }
+  } catch {
+    // Malformed payload for a known selector: report it raw
+  }
+
+  return { category: 'unknown', reason: `Revert: ${data}`, selector };
+}
+
+function findRevertData(error: any): string | undefined {
+  const candidates = [error?.data, error?.error?.data, error?.info?.error?.data, error?.error?.error?.data];
+  return candidates.find((data): data is string => typeof data === 'string' && /^0x[0-9a-f]*$/i.test(data) && data.length > 2);
+}
+
+/**
+ * Decode the revert carried by an ethers/JSON-RPC error, or classify the error message when there is none
+ */
+export function decodeRevert(error: unknown): DecodedRevert {
+  const data = findRevertData(error);
+  if (data) {
+    return decodeRevertData(data);
+  }
+
+  const err = error as any;
+  const reason: string = err?.reason || err?.shortMessage || err?.message || (error === undefined ? 'Unknown revert reason' : String(error));
+  const code = String(err?.code ?? '');
+  const category = code === 'TIMEOUT' || code === 'NETWORK_ERROR' || code === 'SERVER_ERROR'
+    ? 'network'
+    : code === 'INSUFFICIENT_FUNDS' ? 'insufficient-funds' : classifyFailure(reason);
+
+  return { category, reason };
+}
@@ -1,10 +1,41 @@
 // Simple TronWeb import to avoid type issues
 const TronWeb = require('tronweb');
-import type { ChainClient, ClaimBundle, SimulationResult, TxResult } from '../types/common.js';
+import type { ChainClient, ClaimBundle, FailureCategory, SimulationResult, TxResult, TxStatus } from '../types/common.js';
+import { env } from '../config/env.js';
+import { estimateTronBurnTrx, updateTronResources, TRON_CLAIM_BANDWIDTH } from '../economics/gas.js';
+import type { TronResourceState } from '../economics/gas.js';
+import { fetchTrxUsd, FALLBACK_TRX_USD } from '../economics/pricing.js';
+import { classifyFailure, decodeRevertData } from './revertDecoder.js';
+
+const SUN_PER_TRX = 1000000;
+const DEFAULT_TRON_CLAIM_ENERGY = 50000;
+const ENERGY_PRICE_SUN = 420;    // Burn price per energy unit
+const BANDWIDTH_PRICE_SUN = 1000; // Burn price per bandwidth byte
+const CHAIN_PARAMS_TTL_MS = 600000;
+
+/**
+ * Staked and free resources of a Tron account, normalized from getAccountResources
+ */
+export interface TronAccountResources {
+  readonly energyLimit: number;
+  readonly energyUsed: number;
+  readonly freeBandwidthLimit: number;
+  readonly freeBandwidthUsed: number;
+  readonly bandwidthLimit: number;
+  readonly bandwidthUsed: number;
+}
+
+/**
+ * First item whose call acts on msg.sender but belongs to a wallet other than the sender
+ */
+function foreignWalletItem(bundle: ClaimBundle, sender: string): ClaimBundle['items'][number] | undefined {
+  return bundle.items.find(item => item.claimCall?.fromWallet && item.wallet.value !== sender);
+}
 
 export class TronClient implements ChainClient {
   readonly chain = 'tron' as const;
   private tronWeb: any;
+  private resourcePrices?: { energyPriceSun: number; bandwidthPriceSun: number; fetchedAt: number };
 
   constructor(rpcUrl: string, privateKey?: string) {
     this.tronWeb = new TronWeb({
@@ -14,36 +45,81 @@ export class TronClient implements ChainClient {
   }
 
   async gasPrice(): Promise<bigint> {
-    // Tron uses energy/bandwidth instead of gas price
-    // Return a placeholder value representing energy cost
-    return 1000n; // Placeholder energy units
+    // Tron has no gas price; the closest equivalent is the burn price per energy unit (sun)
+    const { energyPriceSun } = await this.getResourcePrices();
+    return BigInt(energyPriceSun);
   }
 
   async nativeUsd(): Promise<number> {
-    // TODO: Implement real TRX price fetching
-    return 0.08; // Placeholder TRX price
+    if (process.env.MOCK_MODE === 'true') {
+      return FALLBACK_TRX_USD;
+    }
+
+    const price = await fetchTrxUsd(this.tronWeb);
+    if (price !== null) {
+      return price;
+    }
+
+    console.warn(`No live TRX price available, using fallback ${FALLBACK_TRX_USD} USD`);
+    return FALLBACK_TRX_USD;
   }
 
   async simulate(bundle: ClaimBundle): Promise<SimulationResult> {
     try {
-      if (!this.tronWeb.defaultPrivateKey) {
-        return { ok: false, reason: 'No private key configured for simulation' };
+      if (!bundle.contractAddress || !bundle.callData) {
+        return { ok: false, reason: `Bundle ${bundle.id} has no contractAddress/callData to simulate`, failureCategory: 'unknown' };
+      }
+
+      // Without a key, simulate from the claim recipient (the wallet that will own the call)
+      const owner = this.tronWeb.defaultPrivateKey ? this.tronWeb.defaultAddress.base58 : bundle.claimTo.value;
+      const foreign = foreignWalletItem(bundle, owner);
+      if (foreign) {
+        return { ok: false, reason: `${foreign.id} must be sent by its wallet ${foreign.wallet.value}, not ${owner}`, failureCategory: 'unauthorized' };
       }
 
-      // TODO: Implement actual simulation logic for Tron
-      // Check account resources (energy, bandwidth)
-      const address = this.tronWeb.address.fromPrivateKey(this.tronWeb.defaultPrivateKey);
-      const account = await this.tronWeb.trx.getAccount(address);
-      console.log('Simulating bundle:', bundle.id);
-      
-      // Basic check for account existence and balance
-      if (!account || !account.balance) {
-        return { ok: false, reason: 'Account not found or has no balance' };
+      const response = await this.tronWeb.transactionBuilder.triggerConstantContract(
+        bundle.contractAddress,
+        '',
+        {
+          feeLimit: env.tronFeeLimitSun,
+          callValue: bundle.value || 0,
+          input: bundle.callData.replace(/^0x/, '')
+        },
+        [],
+        owner
+      );
+
+      const revert = this.getRevert(response);
+      if (revert) {
+        return { ok: false, reason: `Simulation reverted: ${revert.reason}`, failureCategory: revert.category };
+      }
+
+      const energyUsed = Number(response.energy_used || 0);
+      const state = await this.refreshResourceState(owner);
+      const burnTrx = estimateTronBurnTrx(energyUsed, TRON_CLAIM_BANDWIDTH, state);
+      const burnSun = Math.ceil(burnTrx * SUN_PER_TRX);
+
+      if (burnSun > env.tronFeeLimitSun) {
+        return { ok: false, reason: `Simulated burn of ${burnTrx.toFixed(2)} TRX exceeds fee limit of ${env.tronFeeLimitSun / SUN_PER_TRX} TRX` };
       }
 
-      // TODO: Check energy and bandwidth resources
-      // For now, just return success
-      return { ok: true };
+      if (burnSun > 0) {
+        const balance = await this.getBalance(owner);
+        if (balance < burnSun) {
+          return {
+            ok: false,
+            reason: `Insufficient TRX for ${burnTrx.toFixed(2)} TRX burn (balance ${(balance / SUN_PER_TRX).toFixed(2)} TRX)`,
+            failureCategory: 'insufficient-funds'
+          };
+        }
+      }
+
+      console.log(`Simulated bundle ${bundle.id}: ${energyUsed} energy, ${burnTrx.toFixed(3)} TRX burned`);
+      return {
+        ok: true,
+        gasUsed: energyUsed.toString(),
+        costUsd: burnTrx * state.trxUsd
+      };
     } catch (error) {
       return { 
         ok: false, 
@@ -52,30 +128,195 @@ export class TronClient implements ChainClient {
     }
   }
 
-  async sendRaw(bundle: ClaimBundle): Promise<TxResult> {
+  /**
+   * Read the account's staked and free energy/bandwidth
+   */
+  async getAccountResources(address: string): Promise<TronAccountResources> {
+    const resources = await this.tronWeb.trx.getAccountResources(address) || {};
+    return {
+      energyLimit: resources.EnergyLimit || 0,
+      energyUsed: resources.EnergyUsed || 0,
+      freeBandwidthLimit: resources.freeNetLimit || 0,
+      freeBandwidthUsed: resources.freeNetUsed || 0,
+      bandwidthLimit: resources.NetLimit || 0,
+      bandwidthUsed: resources.NetUsed || 0
+    };
+  }
+
+  /**
+   * Snapshot the account's available resources and burn prices, and publish it to the gas model
+   */
+  async refreshResourceState(address: string = this.tronWeb.defaultAddress?.base58): Promise<TronResourceState> {
+    const [resources, prices, trxUsd] = await Promise.all([
+      this.getAccountResources(address),
+      this.getResourcePrices(),
+      this.nativeUsd()
+    ]);
+
+    const freeBandwidth = Math.max(0, resources.freeBandwidthLimit - resources.freeBandwidthUsed);
+    const stakedBandwidth = Math.max(0, resources.bandwidthLimit - resources.bandwidthUsed);
+    const state: TronResourceState = {
+      availableEnergy: Math.max(0, resources.energyLimit - resources.energyUsed),
+      // Bandwidth is consumed from one pool per transaction, so the larger pool decides
+      availableBandwidth: Math.max(freeBandwidth, stakedBandwidth),
+      energyPriceSun: prices.energyPriceSun,
+      bandwidthPriceSun: prices.bandwidthPriceSun,
+      trxUsd,
+      updatedAt: Date.now()
+    };
+
+    updateTronResources(state);
+    return state;
+  }
+
+  /**
+   * Energy and bandwidth burn prices from the chain parameters, cached; falls back to the defaults
+   */
+  private async getResourcePrices(): Promise<{ energyPriceSun: number; bandwidthPriceSun: number }> {
+    if (process.env.MOCK_MODE === 'true') {
+      return { energyPriceSun: ENERGY_PRICE_SUN, bandwidthPriceSun: BANDWIDTH_PRICE_SUN };
+    }
+
+    if (this.resourcePrices && Date.now() - this.resourcePrices.fetchedAt < CHAIN_PARAMS_TTL_MS) {
+      return this.resourcePrices;
+    }
+
     try {
+      const params: Array<{ key: string; value?: number }> = await this.tronWeb.trx.getChainParameters();
+      const lookup = (key: string, fallback: number) => params.find(p => p.key === key)?.value || fallback;
+      this.resourcePrices = {
+        energyPriceSun: lookup('getEnergyFee', ENERGY_PRICE_SUN),
+        bandwidthPriceSun: lookup('getTransactionFee', BANDWIDTH_PRICE_SUN),
+        fetchedAt: Date.now()
+      };
+      return this.resourcePrices;
+    } catch (error) {
+      console.warn('Failed to fetch Tron chain parameters, using default resource prices:', error);
+      return { energyPriceSun: ENERGY_PRICE_SUN, bandwidthPriceSun: BANDWIDTH_PRICE_SUN };
+    }
+  }
+
+  /**
+   * Revert reason and failure category of a constant call, or undefined when the call succeeded
+   */
+  private getRevert(response: any): { reason: string; category: FailureCategory } | undefined {
+    if (!response?.result?.result) {
+      const message = response?.result?.message;
+      const reason = message ? this.tronWeb.toUtf8(message) : 'constant call rejected';
+      return { reason, category: classifyFailure(reason) };
+    }
+
+    const status = response.transaction?.ret?.[0]?.ret;
+    if (status !== 'REVERT' && status !== 'FAILED') {
+      return undefined;
+    }
+
+    // Same ABI encoding as the EVM: Error(string), Panic(uint256) and known custom errors
+    const output: string | undefined = response.constant_result?.[0];
+    if (output) {
+      const revert = decodeRevertData(`0x${output}`);
+      if (revert.errorName) {
+        return { reason: revert.reason, category: revert.category };
+      }
+    }
+    return { reason: status, category: classifyFailure(status) };
+  }
+
+  async sendRaw(bundle: ClaimBundle, onSubmitted?: (txHash: string) => void): Promise<TxResult> {
+    try {
+      // In MOCK_MODE, return mocked result
+      if (process.env.MOCK_MODE === 'true') {
+        const energyCost = DEFAULT_TRON_CLAIM_ENERGY * bundle.items.length;
+        const feeTrx = (energyCost * ENERGY_PRICE_SUN) / SUN_PER_TRX;
+
+        return {
+          success: true,
+          txHash: Math.random().toString(16).substr(2, 64),
+          gasUsed: energyCost.toString(),
+          gasUsd: feeTrx * await this.nativeUsd(),
+          claimedUsd: bundle.totalUsd,
+          chain: 'tron',
+          status: 'mock',
+          energyUsed: energyCost.toString(),
+          bandwidthUsed: '0',
+          feeTrx
+        };
+      }
+
       if (!this.tronWeb.defaultPrivateKey) {
         throw new Error('No private key configured for execution');
       }
 
-      // TODO: Implement actual claim transaction logic for Tron protocols
-      // This is a placeholder that would need real protocol-specific logic
-      
-      const energyCost = 50000 * bundle.items.length; // Estimate energy cost
-      const trxPrice = await this.nativeUsd();
-      const energyToTrx = energyCost / 1000; // Rough conversion
-      const gasUsdCost = energyToTrx * trxPrice;
+      if (!bundle.contractAddress || !bundle.callData) {
+        throw new Error(`Bundle ${bundle.id} has no contractAddress/callData to submit`);
+      }
+
+      const owner = this.tronWeb.defaultAddress.base58;
+      const foreign = foreignWalletItem(bundle, owner);
+      if (foreign) {
+        throw new Error(`${foreign.id} must be sent by its wallet ${foreign.wallet.value}, not ${owner}`);
+      }
+
+      // Build the TriggerSmartContract transaction from the full ABI-encoded call data
+      const built = await this.tronWeb.transactionBuilder.triggerSmartContract(
+        bundle.contractAddress,
+        '',
+        {
+          feeLimit: env.tronFeeLimitSun,
+          callValue: bundle.value || 0,
+          input: bundle.callData.replace(/^0x/, '')
+        },
+        [],
+        owner
+      );
+
+      if (!built?.result?.result || !built.transaction) {
+        throw new Error(`Failed to build transaction: ${JSON.stringify(built?.result ?? built)}`);
+      }
+
+      const signed = await this.tronWeb.trx.sign(built.transaction);
+      const broadcast = await this.tronWeb.trx.sendRawTransaction(signed);
+
+      if (!broadcast?.result) {
+        const message = broadcast?.message ? this.tronWeb.toUtf8(broadcast.message) : 'unknown error';
+        throw new Error(`Broadcast failed: ${broadcast?.code ?? 'ERROR'} ${message}`);
+      }
 
-      // Simulate a successful transaction for mock mode
-      const mockTxHash = Math.random().toString(16).substr(2, 64);
+      const txHash: string = broadcast.txid || signed.txID;
+      onSubmitted?.(txHash);
+      const info = await this.waitForConfirmation(txHash);
+
+      if (!info) {
+        return {
+          success: false,
+          txHash,
+          error: `Transaction ${txHash} not confirmed within ${env.tronConfirmationTimeoutMs}ms`,
+          claimedUsd: 0,
+          chain: 'tron',
+          status: 'pending'
+        };
+      }
+
+      // Resource usage: staked/free resources show up as *_usage, burned TRX as fee
+      const receipt = info.receipt || {};
+      const energyUsed = receipt.energy_usage_total || 0;
+      const bandwidthUsed = (receipt.net_usage || 0) + Math.round((receipt.net_fee || 0) / BANDWIDTH_PRICE_SUN);
+      const feeTrx = (info.fee || 0) / SUN_PER_TRX;
+      const gasUsd = feeTrx * await this.nativeUsd();
+      const success = info.result !== 'FAILED' && (!receipt.result || receipt.result === 'SUCCESS');
 
       return {
-        success: true,
-        txHash: mockTxHash,
-        gasUsed: energyCost.toString(),
-        gasUsd: gasUsdCost,
-        claimedUsd: bundle.totalUsd,
-        chain: 'tron'
+        success,
+        txHash,
+        error: success ? undefined : `Transaction failed: ${receipt.result || info.result}${info.resMessage ? ` ${this.tronWeb.toUtf8(info.resMessage)}` : ''}`,
+        gasUsed: energyUsed.toString(),
+        gasUsd,
+        claimedUsd: success ? bundle.totalUsd : 0,
+        chain: 'tron',
+        status: success ? 'confirmed' : 'failed',
+        energyUsed: energyUsed.toString(),
+        bandwidthUsed: bandwidthUsed.toString(),
+        feeTrx
       };
     } catch (error) {
       return {
@@ -87,6 +328,43 @@ export class TronClient implements ChainClient {
     }
   }
 
+  async getTransactionStatus(txHash: string): Promise<TxStatus> {
+    const info = await this.tronWeb.trx.getTransactionInfo(txHash);
+    if (info && info.id) {
+      const receipt = info.receipt || {};
+      return info.result !== 'FAILED' && (!receipt.result || receipt.result === 'SUCCESS') ? 'confirmed' : 'failed';
+    }
+
+    // getTransaction rejects for transactions the node has never seen
+    try {
+      const tx = await this.tronWeb.trx.getTransaction(txHash);
+      return tx?.txID ? 'pending' : 'not_found';
+    } catch {
+      return 'not_found';
+    }
+  }
+
+  /**
+   * Poll the solidity node until the transaction info is available or the timeout expires
+   */
+  private async waitForConfirmation(txHash: string): Promise<any | null> {
+    const deadline = Date.now() + env.tronConfirmationTimeoutMs;
+
+    while (Date.now() < deadline) {
+      try {
+        const info = await this.tronWeb.trx.getTransactionInfo(txHash);
+        if (info && info.id) {
+          return info;
+        }
+      } catch (error) {
+        console.warn(`Failed to fetch transaction info for ${txHash}:`, error);
+      }
+      await new Promise(resolve => setTimeout(resolve, env.tronConfirmationPollMs));
+    }
+
+    return null;
+  }
+
   async getBalance(address: string): Promise<number> {
     try {
       const balance = await this.tronWeb.trx.getBalance(address);
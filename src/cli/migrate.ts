@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+
+import { config } from 'dotenv';
+import { initDb, initSchema } from '../state/db.js';
+import { getMigrationStatus } from '../state/migrations.js';
+import { env } from '../config/env.js';
+
+/**
+ * CLI for the versioned schema migrations
+ * Usage:
+ *   tsx src/cli/migrate.ts status   # List applied, pending and modified migrations
+ *   tsx src/cli/migrate.ts up       # Apply pending migrations
+ */
+
+// Load environment variables
+config();
+
+const STATE_LABELS = {
+  applied: '✅ applied',
+  pending: '⏳ pending',
+  checksum_mismatch: '❌ modified since applied',
+  missing: '⚠️  applied, file missing'
+} as const;
+
+function printStatus(db: any): void {
+  const statuses = getMigrationStatus(db);
+
+  if (statuses.length === 0) {
+    console.log('No migrations found');
+    return;
+  }
+
+  console.log('Version'.padEnd(10) + 'Name'.padEnd(32) + 'State'.padEnd(28) + 'Applied at');
+  console.log('-'.repeat(90));
+
+  for (const status of statuses) {
+    console.log(
+      status.version.toString().padStart(3, '0').padEnd(10) +
+      status.name.padEnd(32) +
+      STATE_LABELS[status.state].padEnd(28) +
+      (status.appliedAt ?? '')
+    );
+  }
+}
+
+async function main(): Promise<void> {
+  const command = process.argv[2];
+  const db = initDb(env.dbPath);
+
+  switch (command) {
+    case 'status':
+      printStatus(db);
+      break;
+
+    case 'up': {
+      // Migrations build on the base schema, which initSchema creates before applying them
+      const pending = getMigrationStatus(db).filter(status => status.state === 'pending');
+      initSchema(db);
+      console.log(pending.length > 0 ? `Applied ${pending.length} migration(s)` : 'Database is up to date');
+      break;
+    }
+
+    default:
+      console.log('Usage: migrate <status|up>');
+      process.exit(command ? 1 : 0);
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
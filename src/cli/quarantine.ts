@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+
+import { config } from 'dotenv';
+import type { Address, Chain } from '../types/common.js';
+import { initDb, initSchema } from '../state/db.js';
+import {
+  attachRetryStateDb,
+  getQuarantinedWallets,
+  quarantineWallet,
+  releaseQuarantine
+} from '../engine/retry.js';
+import { env } from '../config/env.js';
+
+/**
+ * CLI for inspecting and managing persistent wallet quarantines
+ * Usage:
+ *   tsx src/cli/quarantine.ts list
+ *   tsx src/cli/quarantine.ts release <chain> <address>
+ *   tsx src/cli/quarantine.ts add <chain> <address> <reason...> [--hours N]
+ */
+
+// Load environment variables
+config();
+
+function printUsage(): void {
+  console.log('Usage:');
+  console.log('  quarantine list');
+  console.log('  quarantine release <avalanche|tron> <address>');
+  console.log('  quarantine add <avalanche|tron> <address> <reason...> [--hours N]');
+}
+
+function parseWallet(chain: string | undefined, address: string | undefined): Address {
+  if (chain !== 'avalanche' && chain !== 'tron') {
+    throw new Error(`Invalid chain: ${chain ?? '(missing)'} (expected avalanche or tron)`);
+  }
+  if (!address) {
+    throw new Error('Missing wallet address');
+  }
+  return { value: address, chain: chain as Chain };
+}
+
+function listQuarantines(): void {
+  const records = getQuarantinedWallets();
+
+  if (records.length === 0) {
+    console.log('No wallets are quarantined');
+    return;
+  }
+
+  console.log('Chain'.padEnd(11) + 'Wallet'.padEnd(44) + 'Strikes'.padEnd(9) + 'Error'.padEnd(18) + 'Until'.padEnd(26) + 'Reason');
+  console.log('-'.repeat(120));
+
+  for (const record of records) {
+    console.log(
+      record.wallet.chain.padEnd(11) +
+      record.wallet.value.padEnd(44) +
+      record.strikes.toString().padEnd(9) +
+      record.errorClass.padEnd(18) +
+      record.until.toISOString().padEnd(26) +
+      record.reason
+    );
+  }
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const command = args[0];
+
+  const db = initDb(env.dbPath);
+  initSchema(db);
+  attachRetryStateDb(db);
+
+  switch (command) {
+    case 'list':
+      listQuarantines();
+      break;
+
+    case 'release': {
+      const wallet = parseWallet(args[1], args[2]);
+      if (!releaseQuarantine(wallet)) {
+        console.log(`Wallet ${wallet.value} on ${wallet.chain} was not quarantined`);
+      }
+      break;
+    }
+
+    case 'add': {
+      const wallet = parseWallet(args[1], args[2]);
+      const hoursIndex = args.indexOf('--hours');
+      const ttlHours = hoursIndex >= 0 ? parseFloat(args[hoursIndex + 1]) : undefined;
+      if (ttlHours !== undefined && (isNaN(ttlHours) || ttlHours <= 0)) {
+        throw new Error('--hours must be a positive number');
+      }
+
+      const reasonArgs = hoursIndex >= 0 ? args.slice(3, hoursIndex) : args.slice(3);
+      const reason = reasonArgs.join(' ') || 'manual quarantine';
+      const record = quarantineWallet(wallet, reason, { errorClass: 'Manual', ttlHours });
+      console.log(`Quarantined ${wallet.value} on ${wallet.chain} until ${record.until.toISOString()} (strike ${record.strikes})`);
+      break;
+    }
+
+    default:
+      printUsage();
+      process.exit(command ? 1 : 0);
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌ Quarantine command failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
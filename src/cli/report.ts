@@ -4,9 +4,10 @@ import { config } from 'dotenv';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 import type { Config } from '../types/common.js';
-import { initDb } from '../state/db.js';
-import { getExecutionSummary } from '../engine/ledger.js';
+import { initDb, initSchema } from '../state/db.js';
+import { getExecutionSummary, getEstimatedVsRealized } from '../engine/ledger.js';
 import { logger } from '../engine/logger.js';
+import { buildReconciliation, getReconcileRows, type EstimationErrorGroup } from '../engine/reconcile.js';
 
 // Load environment variables
 config();
@@ -55,6 +56,8 @@ async function generateReport(hoursBack: number = 24): Promise<void> {
   
   const config = loadConfig();
   const db = initDb(config.database.path);
+  // Realized PnL columns come from migrations 006/007
+  initSchema(db);
   
   try {
     const summary = getExecutionSummary(db, hoursBack);
@@ -107,6 +110,31 @@ async function generateReport(hoursBack: number = 24): Promise<void> {
       }
     }
     
+    // Estimated vs Realized (verified payouts only)
+    const realized = getEstimatedVsRealized(db, hoursBack);
+    if (realized.length > 0) {
+      console.log('\n🧾 ESTIMATED VS REALIZED (verified payouts)');
+      console.log('-'.repeat(80));
+      console.log('Protocol'.padEnd(15) + 'Verified'.padEnd(10) + 'Est. Value'.padEnd(13) + 'Real Value'.padEnd(13) + 'Est. Net'.padEnd(13) + 'Real Net'.padEnd(13) + 'Drift');
+      console.log('-'.repeat(80));
+      
+      for (const row of realized) {
+        const drift = row.estimatedNetUsd !== 0
+          ? (row.realizedNetUsd - row.estimatedNetUsd) / Math.abs(row.estimatedNetUsd)
+          : 0;
+        
+        console.log(
+          row.protocol.padEnd(15) +
+          row.verifiedExecutions.toString().padEnd(10) +
+          formatCurrency(row.estimatedUsd).padEnd(13) +
+          formatCurrency(row.realizedUsd).padEnd(13) +
+          formatCurrency(row.estimatedNetUsd).padEnd(13) +
+          formatCurrency(row.realizedNetUsd).padEnd(13) +
+          formatPercentage(drift)
+        );
+      }
+    }
+    
     // Additional Database Stats
     const additionalStatsQuery = db.prepare(`
       SELECT 
@@ -173,21 +201,136 @@ async function generateReport(hoursBack: number = 24): Promise<void> {
   }
 }
 
-async function main(): Promise<void> {
-  const args = process.argv.slice(2);
-  let hoursBack = 24;
+function formatSignedPercentage(pct: number): string {
+  return `${pct >= 0 ? '+' : ''}${pct.toFixed(1)}%`;
+}
+
+function printErrorGroups(title: string, groups: EstimationErrorGroup[]): void {
+  if (groups.length === 0) {
+    return;
+  }
+  
+  console.log(`\n${title}`);
+  console.log('-'.repeat(100));
+  console.log(
+    'Group'.padEnd(15) + 'Execs'.padEnd(7) + 'Est. Value'.padEnd(13) + 'Real Value'.padEnd(13) + 'Value Err'.padEnd(11) +
+    'Est. Gas'.padEnd(11) + 'Real Gas'.padEnd(11) + 'Gas Err'.padEnd(10) + 'Real Net'
+  );
+  console.log('-'.repeat(100));
+  
+  for (const group of groups) {
+    console.log(
+      group.key.padEnd(15) +
+      group.executions.toString().padEnd(7) +
+      formatCurrency(group.estimatedUsd).padEnd(13) +
+      formatCurrency(group.realizedUsd).padEnd(13) +
+      formatSignedPercentage(group.valueErrorPct).padEnd(11) +
+      formatCurrency(group.estimatedGasUsd).padEnd(11) +
+      formatCurrency(group.realizedGasUsd).padEnd(11) +
+      (formatSignedPercentage(group.gasErrorPct) + (group.systematicGasUnderestimate ? ' ⚠️' : '')).padEnd(10) +
+      formatCurrency(group.realizedNetUsd)
+    );
+  }
+}
+
+async function generateReconcileReport(hoursBack: number = 24 * 7): Promise<void> {
+  logger.info(`Generating estimated-vs-realized reconciliation for last ${hoursBack} hours...`);
+  
+  const config = loadConfig();
+  const db = initDb(config.database.path);
+  initSchema(db);
   
-  // Parse command line arguments
-  if (args.length > 0) {
-    const parsed = parseInt(args[0], 10);
-    if (!isNaN(parsed) && parsed > 0) {
-      hoursBack = parsed;
+  try {
+    const report = buildReconciliation(getReconcileRows(db, hoursBack));
+    
+    console.log('\n' + '='.repeat(100));
+    console.log(`  ESTIMATED VS REALIZED RECONCILIATION - Last ${hoursBack} Hours`);
+    console.log(`  ${report.executions} successful executions with realized gas`);
+    console.log('='.repeat(100));
+    
+    if (report.executions === 0) {
+      console.log('\nNo executions with realized gas to reconcile');
+      return;
+    }
+    
+    printErrorGroups('🔗 BY PROTOCOL', report.byProtocol);
+    printErrorGroups('⛓️  BY CHAIN', report.byChain);
+    printErrorGroups('📦 BY BUNDLE SIZE (items)', report.byBundleSize);
+    
+    console.log('\n⛽ SYSTEMATIC GAS UNDERESTIMATION');
+    console.log('-'.repeat(100));
+    if (report.gasUnderestimates.length === 0) {
+      console.log('None detected');
+    }
+    for (const group of report.gasUnderestimates) {
+      console.log(
+        `${group.dimension} ${group.key}: realized gas ${formatSignedPercentage(group.gasErrorPct)} vs estimate, ` +
+        `exceeded in ${formatPercentage(group.gasUnderestimatedShare)} of ${group.executions} executions`
+      );
+    }
+    
+    if (report.gasFits.length > 0) {
+      console.log('\n📐 OBSERVED GAS vs GAS_ESTIMATES');
+      console.log('-'.repeat(100));
+      for (const fit of report.gasFits) {
+        const perExtra = fit.perExtra !== undefined ? fit.perExtra.toLocaleString() : 'n/a (single bundle size)';
+        console.log(
+          `${fit.chain} (${fit.samples} samples): base ${fit.base.toLocaleString()} (configured ${fit.configuredBase.toLocaleString()}), ` +
+          `per extra claim ${perExtra} (configured ${fit.configuredPerExtra.toLocaleString()})`
+        );
+      }
+    }
+    
+    console.log(`\n🔻 BUNDLES EXECUTED AT A NET LOSS (${report.lossBundles.length})`);
+    console.log('-'.repeat(100));
+    if (report.lossBundles.length === 0) {
+      console.log('None');
     } else {
-      console.error('Invalid hours argument. Using default of 24 hours.');
+      console.log('Time'.padEnd(22) + 'Protocol'.padEnd(15) + 'Chain'.padEnd(11) + 'Items'.padEnd(7) + 'Est. Net'.padEnd(12) + 'Real Net'.padEnd(12) + 'TX Hash');
+      for (const bundle of report.lossBundles) {
+        console.log(
+          new Date(bundle.executedAt).toLocaleString().padEnd(22) +
+          bundle.protocol.padEnd(15) +
+          bundle.chain.padEnd(11) +
+          bundle.items.toString().padEnd(7) +
+          formatCurrency(bundle.estimatedNetUsd).padEnd(12) +
+          formatCurrency(bundle.realizedNetUsd).padEnd(12) +
+          (bundle.txHash ?? 'N/A')
+        );
+      }
     }
+    
+    console.log('\n' + '='.repeat(100) + '\n');
+  } catch (error) {
+    logger.error('Failed to generate reconciliation report:', error);
+    process.exit(1);
+  }
+}
+
+function parseHours(arg: string | undefined, defaultHours: number): number {
+  if (arg === undefined) {
+    return defaultHours;
+  }
+  
+  const parsed = parseInt(arg, 10);
+  if (!isNaN(parsed) && parsed > 0) {
+    return parsed;
+  }
+  
+  console.error(`Invalid hours argument. Using default of ${defaultHours} hours.`);
+  return defaultHours;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  
+  // Parse command line arguments: [hours] or reconcile [hours]
+  if (args[0] === 'reconcile') {
+    await generateReconcileReport(parseHours(args[1], 24 * 7));
+    return;
   }
   
-  await generateReport(hoursBack);
+  await generateReport(parseHours(args[0], 24));
 }
 
 // Run the report
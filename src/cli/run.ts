@@ -6,6 +6,8 @@ import { join } from 'path';
 import type { Config, Integration, ChainClient } from '../types/common.js';
 import { initDb, initSchema, upsertWallet, recordPending } from '../state/db.js';
 import { AvalancheClient } from '../chains/avalanche.js';
+import { getRpcHealth, probeRpcEndpoints } from '../chains/providerPool.js';
+import { classifyFailure } from '../chains/revertDecoder.js';
 import { TronClient } from '../chains/tron.js';
 import { justlendIntegration } from '../integrations/justlend.js';
 import { sunswapIntegration } from '../integrations/sunswap.js';
@@ -15,18 +17,25 @@ import { sJoeIntegration } from '../integrations/traderjoe/sjoe.js';
 import { benqiIntegration } from '../integrations/benqi.js';
 import { yieldYakIntegration } from '../integrations/yieldyak.js';
 import { seedWallets } from '../discovery/seeds.js';
-import { groupByContract, splitLargeBundles, mergeBundles } from '../engine/bundler.js';
-import { dryRun } from '../engine/simulator.js';
+import { buildBundles } from '../engine/bundler.js';
+import { dryRun, attachForkSimulator } from '../engine/simulator.js';
+import { ForkSimulator } from '../engine/forkSimulator.js';
 import { execute, injectPricingService } from '../engine/executor.js';
 import { recordExecutionResult } from '../engine/ledger.js';
-import { shouldSkipIdempotency } from '../engine/idempotency.js';
-import { isWalletQuarantined, withExponentialBackoff } from '../engine/retry.js';
+import { computeBundleHash, shouldSkipBundle, recordBundleOutcome, releaseBundle, reconcileInFlightBundles, DatabaseIdempotencyStore } from '../engine/idempotency.js';
+import { isWalletQuarantined, withExponentialBackoff, attachRetryStateDb, cleanupExpiredQuarantines, applyFailurePolicy } from '../engine/retry.js';
 import { Scheduler } from '../engine/scheduler.js';
 import { logger } from '../engine/logger.js';
-import { Policy } from '../economics/policy.js';
+import { attachNonceStateDb } from '../execution/nonceManager.js';
+import { Policy, checkReward, checkBundle, checkSimulatedBundle, describeRejection } from '../economics/policy.js';
+import { calibrateGasModels, refreshGasPrices } from '../economics/gas.js';
+import { sampleMarketConditions } from '../economics/marketConditions.js';
+import { phase4Metrics, logCycleSummary } from '../metrics/phase4.js';
 import { validateClaimRecipients } from '../config/addresses.js';
 import { normalizeClaimTargets, filterSyntheticRewards } from '../integrations/_normalizer.js';
 import { quoteToUsd, getTokenDecimals } from '../economics/pricing.js';
+import { env } from '../config/env.js';
+import { getTokenRegistry } from '../state/tokenRegistry.js';
 import { printStartupDiagnostics } from '../engine/startupDiagnostics.js';
 
 // Environment variables
@@ -152,10 +161,32 @@ async function runDiscoveryAndClaims(
   integrations: Integration[]
 ): Promise<void> {
   const db = initDb(configObj.database.path);
+  const idempotencyStore = new DatabaseIdempotencyStore(db);
 
   logger.info('Starting discovery and claims cycle...');
 
   try {
+    // Bundles left in flight by a crashed or timed-out run are checked on-chain before they can be retried
+    try {
+      await reconcileInFlightBundles(idempotencyStore, clients);
+      await idempotencyStore.cleanup();
+    } catch (e) {
+      logger.warn('Failed to reconcile in-flight bundles', e);
+    }
+
+    // Bundle gas costs come from execution history and live prices rather than static constants
+    try {
+      const models = calibrateGasModels(db);
+      if (models.length > 0) {
+        logger.info(`Gas model calibrated for ${models.map(m => `${m.chain}:${m.protocol}`).join(', ')}`);
+      }
+      if (!configObj.mockMode) {
+        await refreshGasPrices(clients);
+      }
+    } catch (e) {
+      logger.warn('Failed to calibrate gas model, using defaults', e);
+    }
+
     // Seed wallets (only in mock mode)
     if (configObj.mockMode) {
       const seeds = await seedWallets();
@@ -190,6 +221,12 @@ async function runDiscoveryAndClaims(
 
         const pendingRewards = await integration.getPendingRewards(activeWallets, configObj.mockMode);
         logger.discoveryRun(integration.key, activeWallets.length, pendingRewards.length);
+        phase4Metrics.recordDiscovery(
+          integration.key,
+          activeWallets.length,
+          pendingRewards.length,
+          pendingRewards.reduce((sum, reward) => sum + reward.amountUsd, 0)
+        );
 
         for (const reward of pendingRewards) {
           try {
@@ -202,6 +239,7 @@ async function runDiscoveryAndClaims(
         allPendingRewards.push(...pendingRewards);
       } catch (error) {
         logger.error(`Integration ${integration.key} failed`, error);
+        phase4Metrics.recordCycleError('integration', `${integration.key}: ${error instanceof Error ? error.message : String(error)}`);
       }
     }
 
@@ -211,17 +249,19 @@ async function runDiscoveryAndClaims(
     }
 
     // Policy filter
+    const rejectedByCode = new Map<string, number>();
     const filteredRewards = allPendingRewards.filter(reward => {
-      if (reward.amountUsd < Policy.MIN_ITEM_USD) return false;
-
-      if (reward.lastClaimAt) {
-        const daysSinceClaim = (Date.now() - reward.lastClaimAt.getTime()) / 86400000;
-        if (daysSinceClaim < Policy.COOLDOWN_DAYS) return false;
+      const rejection = checkReward(reward);
+      if (rejection) {
+        logger.debug(`Reward ${reward.id} rejected: ${describeRejection(rejection)}`);
+        rejectedByCode.set(rejection.code, (rejectedByCode.get(rejection.code) ?? 0) + 1);
+        return false;
       }
       return true;
     });
 
-    logger.info(`Filtered ${allPendingRewards.length} rewards to ${filteredRewards.length} after policy checks`);
+    const rejectionSummary = Array.from(rejectedByCode, ([code, count]) => `${code}: ${count}`).join(', ');
+    logger.info(`Filtered ${allPendingRewards.length} rewards to ${filteredRewards.length} after policy checks${rejectionSummary ? ` (${rejectionSummary})` : ''}`);
     if (filteredRewards.length === 0) return;
 
     // Normalize claim targets and filter synthetic rewards
@@ -233,20 +273,25 @@ async function runDiscoveryAndClaims(
     }
     if (normalizedRewards.length === 0) return;
 
-    // Bundling
-    let bundles = groupByContract(normalizedRewards);
-    logger.info(`Created ${bundles.length} initial bundles`);
+    // Snapshot Tron energy/bandwidth so bundle costs only count TRX that will be burned
+    const tronClient = clients.get('tron');
+    if (!configObj.mockMode && tronClient instanceof TronClient) {
+      try {
+        const state = await tronClient.refreshResourceState();
+        logger.info(`Tron resources: ${state.availableEnergy} energy, ${state.availableBandwidth} bandwidth available`);
+      } catch (e) {
+        logger.warn('Failed to refresh Tron resources, using fallback gas model', e);
+      }
+    }
 
-    bundles = splitLargeBundles(bundles, Policy.MAX_BUNDLE_SIZE);
-    bundles = mergeBundles(bundles, Policy.MIN_BUNDLE_SIZE);
+    // Bundling
+    const bundles = buildBundles(normalizedRewards);
+    logger.info(`Created ${bundles.length} bundles (${env.bundlerStrategy} strategy)`);
 
     const profitableBundles = bundles.filter(bundle => {
-      if (bundle.totalUsd < Policy.MIN_BUNDLE_GROSS_USD) {
-        logger.profitabilityCheck(bundle.id, false, `Gross USD ${bundle.totalUsd} < ${Policy.MIN_BUNDLE_GROSS_USD}`);
-        return false;
-      }
-      if (bundle.netUsd < Policy.MIN_BUNDLE_NET_USD) {
-        logger.profitabilityCheck(bundle.id, false, `Net USD ${bundle.netUsd} < ${Policy.MIN_BUNDLE_NET_USD}`);
+      const rejection = checkBundle(bundle);
+      if (rejection) {
+        logger.profitabilityCheck(bundle.id, false, describeRejection(rejection));
         return false;
       }
       logger.profitabilityCheck(bundle.id, true);
@@ -254,35 +299,65 @@ async function runDiscoveryAndClaims(
     });
 
     logger.info(`${profitableBundles.length} of ${bundles.length} bundles passed profitability checks`);
+    phase4Metrics.recordBundleCreation(
+      profitableBundles.length,
+      profitableBundles.reduce((sum, bundle) => sum + bundle.estGasUsd, 0)
+    );
     if (profitableBundles.length === 0) return;
 
     // Execute
     for (const bundle of profitableBundles) {
       try {
-        if (shouldSkipIdempotency(bundle)) {
+        if (await shouldSkipBundle(bundle, idempotencyStore)) {
           logger.info(`Skipping bundle ${bundle.id} due to idempotency`);
           continue;
         }
 
+        const bundleHash = computeBundleHash(bundle);
+
         const simulationResult = await dryRun(bundle, clients);
         if (!simulationResult.ok) {
-          logger.warn(`Simulation failed for bundle ${bundle.id}: ${simulationResult.reason}`);
+          const category = simulationResult.failureCategory ?? 'unknown';
+          logger.warn(`Simulation failed for bundle ${bundle.id} (${category}): ${simulationResult.reason}`);
+          applyFailurePolicy(bundle.items.map(item => item.wallet), category, simulationResult.reason ?? 'Simulation failed');
+          await releaseBundle(idempotencyStore, bundle);
+          continue;
+        }
+
+        const simulatedRejection = simulationResult.costUsd !== undefined ? checkSimulatedBundle(bundle, simulationResult.costUsd) : undefined;
+        if (simulatedRejection) {
+          logger.profitabilityCheck(bundle.id, false, describeRejection(simulatedRejection));
+          await releaseBundle(idempotencyStore, bundle);
           continue;
         }
 
+        // Record the tx hash as soon as it is broadcast so a crash mid-confirmation can be reconciled.
+        // Attempts are keyed by the bundle hash: bundle ids are regenerated every cycle.
         const result = await withExponentialBackoff(
-          () => execute(bundle, clients, configObj.mockMode),
+          () => execute(bundle, clients, configObj.mockMode, (txHash) => {
+            idempotencyStore.markProcessed(bundleHash, bundle, 'submitted', txHash)
+              .catch(e => logger.warn(`Failed to record submitted bundle ${bundle.id}`, e));
+          }),
             Policy.RETRY_MAX_ATTEMPTS,
             Policy.RETRY_BASE_DELAY_MS,
-            `bundle-${bundle.id}`
+            `bundle-${bundleHash}`
         );
 
+        // Not sent at the current fee: release it for a later cycle without recording an execution
+        if (result.status === 'deferred') {
+          logger.info(`Deferring bundle ${bundle.id}: ${result.error}`);
+          await recordBundleOutcome(idempotencyStore, bundle, result);
+          continue;
+        }
+
         recordExecutionResult(db, bundle, result);
+        await recordBundleOutcome(idempotencyStore, bundle, result);
 
         if (result.success) {
           logger.info(`Successfully executed bundle ${bundle.id}: claimed $${result.claimedUsd.toFixed(2)}`);
         } else {
           logger.error(`Bundle execution failed ${bundle.id}: ${result.error}`);
+          applyFailurePolicy(bundle.items.map(item => item.wallet), classifyFailure(result.error), result.error ?? 'Execution failed');
         }
       } catch (error) {
         logger.error(`Failed to execute bundle ${bundle.id}`, error);
@@ -341,17 +416,9 @@ async function main(): Promise<void> {
     }
   }
 
-  // Inject pricing service for payout verification
+  // Inject pricing service for payout verification (stables at par, everything else via the price oracle)
   injectPricingService({
-    quoteToUsd: async (chain, token, amountWei) => {
-      if (chain === 'avalanche') {
-        return await quoteToUsd(chain, token, amountWei);
-      } else {
-        // For other chains, placeholder implementation
-        console.warn(`Pricing not implemented for chain ${chain}, returning 0`);
-        return 0;
-      }
-    },
+    quoteToUsd,
     getTokenDecimals
   });
 
@@ -359,9 +426,30 @@ async function main(): Promise<void> {
   initSchema(db);
   logger.info('Database initialized');
 
+  // Tokens fetched on-chain by earlier runs are reused from the database
+  getTokenRegistry().attachDb(db);
+
+  // Quarantines and retry attempts survive restarts
+  attachRetryStateDb(db);
+  cleanupExpiredQuarantines();
+  attachNonceStateDb(db);
+
   const clients = createChainClients(configObj);
   logger.info(`Initialized ${clients.size} chain clients`);
 
+  // Settle or cancel nonces a previous run left pending before sending anything new
+  const avalancheClient = clients.get('avalanche');
+  if (!configObj.mockMode && avalancheClient instanceof AvalancheClient) {
+    try {
+      const stillPending = await avalancheClient.recoverPendingTransactions();
+      if (stillPending > 0) {
+        logger.warn(`${stillPending} Avalanche nonce(s) still pending after recovery`);
+      }
+    } catch (error) {
+      logger.warn('Pending transaction recovery failed:', error);
+    }
+  }
+
   const integrations = getActiveIntegrations(configObj);
   logger.info(`Active integrations: ${integrations.map(i => i.key).join(', ') || '(none)'}`);
 
@@ -371,22 +459,52 @@ async function main(): Promise<void> {
   }
 
   // Optional diagnostics
+  if (!configObj.mockMode) {
+    await probeRpcEndpoints();
+  }
   printStartupDiagnostics({
     dbPath: configObj.database.path,
     clients: Array.from(clients.keys()),
-    integrations: integrations.map(i => i.key)
+    integrations: integrations.map(i => i.key),
+    rpcPools: getRpcHealth()
   });
 
+  if (env.forkRpcUrl) {
+    attachForkSimulator(new ForkSimulator({
+      rpcUrl: env.forkRpcUrl,
+      blockNumber: env.forkBlockNumber,
+      pricingService: { quoteToUsd, getTokenDecimals }
+    }));
+    logger.info(`Fork simulation enabled against ${env.forkRpcUrl}`);
+  }
+
   const scheduler = new Scheduler({
     intervalMs: Policy.SCHEDULE_TICK_INTERVAL_MS,
     jitterMs: Policy.SCHEDULE_JITTER_MS
   });
 
   await scheduler.loop(async () => {
+    phase4Metrics.startCycle();
+
+    // Thresholds follow gas and volatility: adjustments from this sample hold until the next tick
+    if (!configObj.mockMode) {
+      try {
+        phase4Metrics.recordMarketConditions(await sampleMarketConditions(clients));
+      } catch (e) {
+        logger.warn('Failed to sample market conditions, keeping previous policy adjustments', e);
+      }
+    }
+
     try {
       await runDiscoveryAndClaims(configObj, clients, integrations);
     } catch (e) {
       logger.error('Scheduled loop iteration failed', e);
+      phase4Metrics.recordCycleError('cycle', e instanceof Error ? e.message : String(e));
+    }
+
+    const summary = phase4Metrics.completeCycle();
+    if (summary.cycleNumber % Policy.CYCLE_SUMMARY_INTERVAL === 0) {
+      logCycleSummary(summary);
     }
   });
 
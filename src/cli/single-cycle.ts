@@ -11,6 +11,8 @@ import { join } from 'path';
 import type { Config, Integration, ChainClient } from '../types/common.js';
 import { initDb, initSchema, upsertWallet, recordPending } from '../state/db.js';
 import { AvalancheClient } from '../chains/avalanche.js';
+import { getRpcHealth, probeRpcEndpoints } from '../chains/providerPool.js';
+import { classifyFailure } from '../chains/revertDecoder.js';
 import { TronClient } from '../chains/tron.js';
 import { justlendIntegration } from '../integrations/justlend.js';
 import { sunswapIntegration } from '../integrations/sunswap.js';
@@ -19,16 +21,22 @@ import { traderJoeIntegration } from '../integrations/traderjoe.js';
 import { benqiIntegration } from '../integrations/benqi.js';
 import { yieldYakIntegration } from '../integrations/yieldyak.js';
 import { seedWallets } from '../discovery/seeds.js';
-import { groupByContract, splitLargeBundles, mergeBundles } from '../engine/bundler.js';
-import { dryRun } from '../engine/simulator.js';
+import { buildBundles } from '../engine/bundler.js';
+import { dryRun, attachForkSimulator } from '../engine/simulator.js';
+import { ForkSimulator } from '../engine/forkSimulator.js';
 import { execute } from '../engine/executor.js';
 import { recordExecutionResult } from '../engine/ledger.js';
-import { shouldSkipIdempotency } from '../engine/idempotency.js';
-import { isWalletQuarantined, withExponentialBackoff } from '../engine/retry.js';
+import { computeBundleHash, shouldSkipBundle, recordBundleOutcome, releaseBundle, reconcileInFlightBundles, DatabaseIdempotencyStore } from '../engine/idempotency.js';
+import { isWalletQuarantined, withExponentialBackoff, attachRetryStateDb, cleanupExpiredQuarantines, applyFailurePolicy } from '../engine/retry.js';
 import { logger } from '../engine/logger.js';
-import { Policy } from '../economics/policy.js';
+import { attachNonceStateDb } from '../execution/nonceManager.js';
+import { Policy, checkReward, checkBundle, checkSimulatedBundle, describeRejection } from '../economics/policy.js';
+import { calibrateGasModels, refreshGasPrices } from '../economics/gas.js';
+import { sampleMarketConditions } from '../economics/marketConditions.js';
 import { printStartupDiagnostics } from '../engine/startupDiagnostics.js';
 import { env } from '../config/env.js';
+import { quoteToUsd, getTokenDecimals } from '../economics/pricing.js';
+import { getTokenRegistry } from '../state/tokenRegistry.js';
 
 // Environment variables
 config();
@@ -128,8 +136,39 @@ async function runSingleCycle(
   db: any
 ): Promise<void> {
   logger.info('=== Starting Single Discovery & Claims Cycle ===');
+  const idempotencyStore = new DatabaseIdempotencyStore(db);
 
   try {
+    // Bundles left in flight by an earlier run are checked on-chain before they can be retried
+    try {
+      await reconcileInFlightBundles(idempotencyStore, clients);
+      await idempotencyStore.cleanup();
+    } catch (error) {
+      logger.warn('Failed to reconcile in-flight bundles', error);
+    }
+
+    // Bundle gas costs come from execution history and live prices rather than static constants
+    try {
+      const models = calibrateGasModels(db);
+      if (models.length > 0) {
+        logger.info(`Gas model calibrated for ${models.map(m => `${m.chain}:${m.protocol}`).join(', ')}`);
+      }
+      if (!configObj.mockMode) {
+        await refreshGasPrices(clients);
+      }
+    } catch (error) {
+      logger.warn('Failed to calibrate gas model, using defaults', error);
+    }
+
+    // Thresholds follow current gas and volatility
+    if (!configObj.mockMode) {
+      try {
+        await sampleMarketConditions(clients);
+      } catch (error) {
+        logger.warn('Failed to sample market conditions, using unadjusted policy', error);
+      }
+    }
+
     // Discovery phase
     logger.info('Phase 1: Wallet Discovery');
     const allWallets = await seedWallets();
@@ -171,19 +210,29 @@ async function runSingleCycle(
     
     logger.info(`Reward scanning complete. Found ${allPendingRewards.length} pending rewards`);
 
+    // Policy filter
+    const rejectedByCode = new Map<string, number>();
+    const filteredRewards = allPendingRewards.filter(reward => {
+      const rejection = checkReward(reward);
+      if (rejection) {
+        logger.debug(`Reward ${reward.id} rejected: ${describeRejection(rejection)}`);
+        rejectedByCode.set(rejection.code, (rejectedByCode.get(rejection.code) ?? 0) + 1);
+        return false;
+      }
+      return true;
+    });
+
+    const rejectionSummary = Array.from(rejectedByCode, ([code, count]) => `${code}: ${count}`).join(', ');
+    logger.info(`Filtered ${allPendingRewards.length} rewards to ${filteredRewards.length} after policy checks${rejectionSummary ? ` (${rejectionSummary})` : ''}`);
+
     // Bundling phase
     logger.info('Phase 3: Bundling');
-    let bundles = groupByContract(allPendingRewards);
-    bundles = splitLargeBundles(bundles, Policy.MAX_BUNDLE_SIZE);
-    bundles = mergeBundles(bundles, Policy.MIN_BUNDLE_SIZE);
+    const bundles = buildBundles(filteredRewards);
 
     const profitableBundles = bundles.filter(bundle => {
-      if (bundle.totalUsd < Policy.MIN_BUNDLE_GROSS_USD) {
-        logger.profitabilityCheck(bundle.id, false, `Gross USD ${bundle.totalUsd} < ${Policy.MIN_BUNDLE_GROSS_USD}`);
-        return false;
-      }
-      if (bundle.netUsd < Policy.MIN_BUNDLE_NET_USD) {
-        logger.profitabilityCheck(bundle.id, false, `Net USD ${bundle.netUsd} < ${Policy.MIN_BUNDLE_NET_USD}`);
+      const rejection = checkBundle(bundle);
+      if (rejection) {
+        logger.profitabilityCheck(bundle.id, false, describeRejection(rejection));
         return false;
       }
       logger.profitabilityCheck(bundle.id, true);
@@ -204,27 +253,50 @@ async function runSingleCycle(
           continue;
         }
 
-        if (shouldSkipIdempotency(bundle)) {
-          logger.warn(`Skipping bundle ${bundle.id} due to idempotency`);
-          continue;
-        }
-
         const client = clients.get(bundle.chain);
         if (!client) {
           logger.error(`No client available for chain ${bundle.chain}`);
           continue;
         }
 
+        if (await shouldSkipBundle(bundle, idempotencyStore)) {
+          logger.warn(`Skipping bundle ${bundle.id} due to idempotency`);
+          continue;
+        }
+
+        const bundleHash = computeBundleHash(bundle);
+
         // Simulate first
         const simulation = await dryRun(bundle, clients);
         if (!simulation.ok) {
-          logger.warn(`Simulation failed for bundle ${bundle.id}: ${simulation.reason}`);
+          const category = simulation.failureCategory ?? 'unknown';
+          logger.warn(`Simulation failed for bundle ${bundle.id} (${category}): ${simulation.reason}`);
+          applyFailurePolicy(bundle.items.map(item => item.wallet), category, simulation.reason ?? 'Simulation failed');
+          await releaseBundle(idempotencyStore, bundle);
+          continue;
+        }
+
+        const simulatedRejection = simulation.costUsd !== undefined ? checkSimulatedBundle(bundle, simulation.costUsd) : undefined;
+        if (simulatedRejection) {
+          logger.profitabilityCheck(bundle.id, false, describeRejection(simulatedRejection));
+          await releaseBundle(idempotencyStore, bundle);
+          continue;
+        }
+
+        // Execute, recording the tx hash as soon as it is broadcast
+        const result = await withExponentialBackoff(() => execute(bundle, clients, false, (txHash) => {
+          idempotencyStore.markProcessed(bundleHash, bundle, 'submitted', txHash)
+            .catch(error => logger.warn(`Failed to record submitted bundle ${bundle.id}`, error));
+        }), Policy.RETRY_MAX_ATTEMPTS);
+        // Not sent at the current fee: release it for a later cycle without recording an execution
+        if (result.status === 'deferred') {
+          logger.info(`⏸️ Bundle ${bundle.id}: ${result.error}`);
+          await recordBundleOutcome(idempotencyStore, bundle, result);
           continue;
         }
 
-        // Execute
-        const result = await withExponentialBackoff(() => execute(bundle, clients), Policy.RETRY_MAX_ATTEMPTS);
         await recordExecutionResult(db, bundle, result);
+        await recordBundleOutcome(idempotencyStore, bundle, result);
 
         if (result.success) {
           logger.info(`✅ Bundle ${bundle.id}: claimed $${result.claimedUsd.toFixed(2)}`);
@@ -232,6 +304,7 @@ async function runSingleCycle(
           totalClaimedUsd += result.claimedUsd;
         } else {
           logger.error(`❌ Bundle ${bundle.id}: ${result.error}`);
+          applyFailurePolicy(bundle.items.map(item => item.wallet), classifyFailure(result.error), result.error ?? 'Execution failed');
         }
       } catch (error) {
         logger.error(`Failed to execute bundle ${bundle.id}`, error);
@@ -270,11 +343,31 @@ async function main(): Promise<void> {
 
   const db = initDb(configObj.database.path);
   initSchema(db);
+
+  // Tokens fetched on-chain by earlier runs are reused from the database
+  getTokenRegistry().attachDb(db);
+
+  attachRetryStateDb(db);
+  cleanupExpiredQuarantines();
+  attachNonceStateDb(db);
   logger.info('Database initialized');
 
   const clients = createChainClients(configObj);
   logger.info(`Initialized ${clients.size} chain clients`);
 
+  // Settle or cancel nonces a previous run left pending before sending anything new
+  const avalancheClient = clients.get('avalanche');
+  if (!configObj.mockMode && avalancheClient instanceof AvalancheClient) {
+    try {
+      const stillPending = await avalancheClient.recoverPendingTransactions();
+      if (stillPending > 0) {
+        logger.warn(`${stillPending} Avalanche nonce(s) still pending after recovery`);
+      }
+    } catch (error) {
+      logger.warn('Pending transaction recovery failed:', error);
+    }
+  }
+
   const integrations = getActiveIntegrations(configObj);
   logger.info(`Active integrations: ${integrations.map(i => i.key).join(', ') || '(none)'}`);
 
@@ -284,12 +377,25 @@ async function main(): Promise<void> {
   }
 
   // Optional diagnostics
+  if (!configObj.mockMode) {
+    await probeRpcEndpoints();
+  }
   printStartupDiagnostics({
     dbPath: configObj.database.path,
     clients: Array.from(clients.keys()),
-    integrations: integrations.map(i => i.key)
+    integrations: integrations.map(i => i.key),
+    rpcPools: getRpcHealth()
   });
 
+  if (env.forkRpcUrl) {
+    attachForkSimulator(new ForkSimulator({
+      rpcUrl: env.forkRpcUrl,
+      blockNumber: env.forkBlockNumber,
+      pricingService: { quoteToUsd, getTokenDecimals }
+    }));
+    logger.info(`Fork simulation enabled against ${env.forkRpcUrl}`);
+  }
+
   // Run single cycle
   await runSingleCycle(configObj, clients, integrations, db);
   
@@ -13,18 +13,25 @@ export const env = {
 
   // Chain RPC URLs
   avalancheRpcUrl: process.env.AVAX_RPC_URL || process.env.PRICER_RPC_AVAX || 'https://api.avax.network/ext/bc/C/rpc',
+  avalancheRpcUrls: process.env.AVAX_RPC_URLS, // Comma-separated failover endpoints, pooled with AVAX_RPC_URL/PRICER_RPC_AVAX
   tronRpcUrl: process.env.PRICER_RPC_TRON || 'https://api.trongrid.io',
 
   // Private keys (optional)
   avalanchePrivateKey: process.env.PRIVATE_KEY || process.env.PRIVATE_KEY_AVAX,
   tronPrivateKey: process.env.PRIVATE_KEY_TRON,
 
+  // Tron transaction settings
+  tronFeeLimitSun: parseInt(process.env.TRON_FEE_LIMIT_SUN || '100000000'), // 100 TRX max burn per tx
+  tronConfirmationTimeoutMs: parseInt(process.env.TRON_CONFIRMATION_TIMEOUT_MS || '90000'),
+  tronConfirmationPollMs: parseInt(process.env.TRON_CONFIRMATION_POLL_MS || '3000'),
+
   // Default claim recipients (required when mockMode=false)
   defaultClaimRecipientAvax: process.env.DEFAULT_CLAIM_RECIPIENT_AVAX,
   defaultClaimRecipientTron: process.env.DEFAULT_CLAIM_RECIPIENT_TRON,
 
   // Wallet scanning configuration
   walletScanAvax: process.env.WALLET_SCAN_AVAX,
+  walletScanTron: process.env.WALLET_SCAN_TRON,
 
   // Multi-source wallet discovery
   covalentApiKey: process.env.COVALENT_API_KEY,
@@ -35,7 +42,28 @@ export const env = {
   walletFetchPageSize: parseInt(process.env.WALLET_FETCH_PAGE_SIZE || '1000'),
   walletFetchLimit: parseInt(process.env.WALLET_FETCH_LIMIT || '5000'),
   rpcConcurrency: parseInt(process.env.RPC_CONCURRENCY || '8'),
-  rpcRateLimit: parseInt(process.env.RPC_RATE_LIMIT || '10'),
+  rpcRateLimit: parseInt(process.env.RPC_RATE_LIMIT || '10'), // Requests per second per RPC endpoint, 0 disables
+  rpcTimeoutMs: parseInt(process.env.RPC_TIMEOUT_MS || '10000'), // Per request, before failing over
+  multicallChunkSize: parseInt(process.env.MULTICALL_CHUNK_SIZE || '200'),
+  // aggregate3-compatible contract that executes batched claims; defaults to Multicall3
+  claimRouterAddress: process.env.CLAIM_ROUTER_ADDRESS || '0xcA11bde05977b3631167028862bE2a173976CA11',
+  // Bundling strategy (sequential | optimal)
+  bundlerStrategy: process.env.BUNDLER_STRATEGY || 'sequential',
+  // Local anvil/hardhat fork: bundles that pass eth_call are executed there and must pay out to claimTo
+  forkRpcUrl: process.env.FORK_RPC_URL,
+  forkBlockNumber: process.env.FORK_BLOCK_NUMBER ? parseInt(process.env.FORK_BLOCK_NUMBER) : undefined,
+  // AVAX/USD price window measured for volatility when adjusting policy to market conditions
+  marketVolatilityWindowMs: parseInt(process.env.MARKET_VOLATILITY_WINDOW_MS || '3600000'),
+  // EIP-1559 fee strategy (slow | normal | fast), eth_feeHistory window and optional absolute maxFeePerGas ceiling
+  feeTier: process.env.FEE_TIER || 'normal',
+  feeHistoryBlocks: parseInt(process.env.FEE_HISTORY_BLOCKS || '20'),
+  maxFeePerGasGwei: process.env.MAX_FEE_PER_GAS_GWEI ? parseFloat(process.env.MAX_FEE_PER_GAS_GWEI) : undefined,
+  // Stuck transactions: same-nonce speed-up, zero-value self-send cancel, then leave the nonce to startup recovery
+  txSpeedUpAfterMs: parseInt(process.env.TX_SPEEDUP_AFTER_MS || '60000'),
+  txCancelAfterMs: parseInt(process.env.TX_CANCEL_AFTER_MS || '300000'),
+  txMaxWaitMs: parseInt(process.env.TX_MAX_WAIT_MS || '420000'),
+  txConfirmationPollMs: parseInt(process.env.TX_CONFIRMATION_POLL_MS || '3000'),
+  txReplacementBumpPct: parseInt(process.env.TX_REPLACEMENT_BUMP_PCT || '15'),
   walletFetchConcurrency: parseInt(process.env.WALLET_FETCH_CONCURRENCY || '4'),
   
   defaultWalletsFile: process.env.DEFAULT_WALLETS_FILE || './data/wallets.csv',
@@ -76,9 +104,33 @@ export const env = {
   gmxItemMinUsd: parseFloat(process.env.GMX_ITEM_MIN_USD || '0.50'),
   avaxPriceUsd: parseFloat(process.env.AVAX_PRICE_USD || '40.0'), // Fallback AVAX price
 
+  // BENQI configuration
+  benqiComptrollerAbiPath: process.env.BENQI_COMPTROLLER_ABI_PATH || './abi/benqi_comptroller.json',
+  benqiSavaxAbiPath: process.env.BENQI_SAVAX_ABI_PATH || './abi/benqi_savax.json',
+  qiPriceUsd: parseFloat(process.env.QI_PRICE_USD || '0.01'), // Fallback QI price
+
+  // Yield Yak configuration
+  yieldYakFarmAbiPath: process.env.YIELDYAK_FARM_ABI_PATH || './abi/yieldyak_farm.json',
+  yieldYakStrategyAbiPath: process.env.YIELDYAK_STRATEGY_ABI_PATH || './abi/yieldyak_strategy.json',
+  yieldYakLegacyStrategies: process.env.YIELDYAK_LEGACY_STRATEGIES, // Comma-separated deprecated strategies to withdraw from
+  yieldYakReinvestStrategies: process.env.YIELDYAK_REINVEST_STRATEGIES, // Comma-separated active strategies to call reinvest() on
+
+  // SunSwap configuration
+  sunswapFarmPids: process.env.SUNSWAP_FARM_PIDS, // Comma-separated pool ids, defaults to all farm pools
+  sunPriceUsd: parseFloat(process.env.SUN_PRICE_USD || '0.02'), // Fallback SUN price
+
   // Pricing API configuration
   coinGeckoApiKey: process.env.COINGECKO_API_KEY,
   defiLlamaApiUrl: process.env.DEFILLAMA_API_URL || 'https://api.llama.fi',
+  defiLlamaCoinsUrl: process.env.DEFILLAMA_COINS_URL || 'https://coins.llama.fi',
+  sunswapTrxUsdtExchange: process.env.SUNSWAP_TRX_USDT_EXCHANGE || 'TQn9Y2khEsLJW1ChVWFMSMeRDow5KcbLSE', // SunSwap V1 USDT/TRX pool
+  chainlinkPriceFeeds: process.env.CHAINLINK_PRICE_FEEDS, // Extra token:feed pairs for the price oracle
+  traderJoeLbPricePairs: process.env.TRADERJOE_LB_PRICE_PAIRS, // token:lbPair pairs used for spot prices
+  oracleChainlinkMaxAgeSec: parseInt(process.env.ORACLE_CHAINLINK_MAX_AGE_SEC || '90000'), // Feed heartbeat (24h) plus margin
+  oracleHttpMaxAgeSec: parseInt(process.env.ORACLE_HTTP_MAX_AGE_SEC || '3600'),
+  oracleMaxDeviationBps: parseInt(process.env.ORACLE_MAX_DEVIATION_BPS || '300'), // Max disagreement between sources
+  tokenSeedPath: process.env.TOKEN_SEED_PATH || '', // Token registry seed override (chain, address, symbol, decimals); empty uses the bundled config/tokens.json
+  trxPriceFallbackUrl: process.env.TRX_PRICE_FALLBACK_URL || 'https://coins.llama.fi/prices/current/coingecko:tron',
 
   // Router configuration
   router: {
@@ -0,0 +1,157 @@
+import { ethers } from 'ethers';
+
+/**
+ * EIP-1559 fee strategy for Avalanche: the priority fee comes from an eth_feeHistory percentile and
+ * maxFeePerGas adds base-fee headroom per speed tier. maxFeePerGas is capped so the bundle still
+ * clears MIN_BUNDLE_NET_USD at the worst fee it may pay; a bundle whose margin is gone at the
+ * current base fee is deferred instead of sent.
+ */
+
+export type FeeTier = 'slow' | 'normal' | 'fast';
+
+export interface FeeTierConfig {
+  readonly rewardPercentile: number;   // eth_feeHistory priority-fee percentile
+  readonly baseFeeMultiplierBps: number; // Base-fee headroom in basis points (10000 = none)
+}
+
+export const FEE_TIERS: Readonly<Record<FeeTier, FeeTierConfig>> = {
+  slow: { rewardPercentile: 10, baseFeeMultiplierBps: 11250 },   // One full block of base-fee growth
+  normal: { rewardPercentile: 50, baseFeeMultiplierBps: 12500 },
+  fast: { rewardPercentile: 90, baseFeeMultiplierBps: 20000 }
+};
+
+const FEE_TIER_ORDER: readonly FeeTier[] = ['slow', 'normal', 'fast'];
+
+/**
+ * Base fee of the next block and the recent priority fee paid per tier
+ */
+export interface FeeSample {
+  readonly baseFeePerGas: bigint;
+  readonly priorityFeePerGas: Readonly<Record<FeeTier, bigint>>;
+  readonly source: 'feeHistory' | 'feeData';
+}
+
+export interface FeePlanInput {
+  readonly gasLimit: bigint;
+  readonly nativeUsd: number;
+  readonly totalUsd: number;           // Bundle gross value
+  readonly minNetUsd: number;          // Net profit the bundle must keep after gas
+  readonly tier?: FeeTier;
+  readonly maxFeeCapWei?: bigint;      // Absolute maxFeePerGas ceiling, if configured
+}
+
+export interface FeePlan {
+  readonly tier: FeeTier;
+  readonly baseFeePerGas: bigint;
+  readonly maxPriorityFeePerGas: bigint;
+  readonly maxFeePerGas: bigint;
+  readonly capPerGas: bigint;          // Highest fee per gas that keeps minNetUsd
+  readonly expectedCostUsd: number;    // At the current base fee
+  readonly maxCostUsd: number;         // At maxFeePerGas
+  readonly deferred: boolean;
+  readonly reason?: string;
+}
+
+export function isFeeTier(value: string): value is FeeTier {
+  return (FEE_TIER_ORDER as readonly string[]).includes(value);
+}
+
+function median(values: bigint[]): bigint {
+  if (values.length === 0) {
+    return BigInt(0);
+  }
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function weiToUsd(wei: bigint, nativeUsd: number): number {
+  return Number(wei) / 1e18 * nativeUsd;
+}
+
+const gwei = (wei: bigint) => ethers.formatUnits(wei, 'gwei');
+
+/**
+ * Sample the next block's base fee and the median priority fee per tier over the last `blocks` blocks
+ */
+export async function sampleFeeHistory(provider: ethers.JsonRpcProvider, blocks: number): Promise<FeeSample> {
+  const history = await provider.send('eth_feeHistory', [
+    ethers.toQuantity(Math.max(1, blocks)),
+    'latest',
+    FEE_TIER_ORDER.map(tier => FEE_TIERS[tier].rewardPercentile)
+  ]);
+
+  const baseFees: string[] = history?.baseFeePerGas ?? [];
+  if (baseFees.length === 0) {
+    throw new Error('eth_feeHistory returned no base fees');
+  }
+
+  // The last entry is the base fee of the next block
+  const rewards: string[][] = history.reward ?? [];
+  const priorityFeePerGas = Object.fromEntries(FEE_TIER_ORDER.map((tier, i) => [
+    tier,
+    median(rewards.filter(block => block[i] !== undefined).map(block => BigInt(block[i])))
+  ])) as Record<FeeTier, bigint>;
+
+  return { baseFeePerGas: BigInt(baseFees[baseFees.length - 1]), priorityFeePerGas, source: 'feeHistory' };
+}
+
+/**
+ * Fallback sample from getFeeData when the node does not serve eth_feeHistory
+ */
+export async function sampleFeeData(provider: ethers.Provider): Promise<FeeSample> {
+  const feeData = await provider.getFeeData();
+  const baseFeePerGas = feeData.gasPrice || 25000000000n; // 25 gwei default
+  const priority = feeData.maxPriorityFeePerGas || baseFeePerGas / 10n;
+
+  return {
+    baseFeePerGas,
+    priorityFeePerGas: { slow: priority, normal: priority, fast: priority },
+    source: 'feeData'
+  };
+}
+
+/**
+ * Fee parameters for one transaction, or a deferral when the bundle cannot stay profitable
+ */
+export function planFees(sample: FeeSample, input: FeePlanInput): FeePlan {
+  const tier = input.tier ?? 'normal';
+  const { baseFeePerGas } = sample;
+
+  const budgetUsd = input.totalUsd - input.minNetUsd;
+  const profitCap = budgetUsd > 0 && input.nativeUsd > 0 && input.gasLimit > BigInt(0)
+    ? BigInt(Math.floor(budgetUsd / input.nativeUsd * 1e18 / Number(input.gasLimit)))
+    : BigInt(0);
+  const capPerGas = input.maxFeeCapWei !== undefined && input.maxFeeCapWei < profitCap ? input.maxFeeCapWei : profitCap;
+
+  if (capPerGas < baseFeePerGas) {
+    const capSource = capPerGas === profitCap ? `the $${input.minNetUsd.toFixed(2)} minimum net` : 'MAX_FEE_PER_GAS_GWEI';
+    return {
+      tier,
+      baseFeePerGas,
+      maxPriorityFeePerGas: BigInt(0),
+      maxFeePerGas: capPerGas,
+      capPerGas,
+      expectedCostUsd: weiToUsd(input.gasLimit * baseFeePerGas, input.nativeUsd),
+      maxCostUsd: weiToUsd(input.gasLimit * capPerGas, input.nativeUsd),
+      deferred: true,
+      reason: `Base fee ${gwei(baseFeePerGas)} gwei exceeds the ${gwei(capPerGas)} gwei cap set by ${capSource}`
+    };
+  }
+
+  // Trim the tip before giving up headroom, so the transaction still lands at the current base fee
+  const tip = sample.priorityFeePerGas[tier];
+  const maxPriorityFeePerGas = tip < capPerGas - baseFeePerGas ? tip : capPerGas - baseFeePerGas;
+  const target = baseFeePerGas * BigInt(FEE_TIERS[tier].baseFeeMultiplierBps) / BigInt(10000) + maxPriorityFeePerGas;
+  const maxFeePerGas = target < capPerGas ? target : capPerGas;
+
+  return {
+    tier,
+    baseFeePerGas,
+    maxPriorityFeePerGas,
+    maxFeePerGas,
+    capPerGas,
+    expectedCostUsd: weiToUsd(input.gasLimit * (baseFeePerGas + maxPriorityFeePerGas), input.nativeUsd),
+    maxCostUsd: weiToUsd(input.gasLimit * maxFeePerGas, input.nativeUsd),
+    deferred: false
+  };
+}
@@ -1,10 +1,11 @@
-import type { ClaimBundle, Chain } from '../types/common.js';
+import type { ClaimBundle, Chain, ChainClient } from '../types/common.js';
+import { FALLBACK_TRX_USD } from './pricing.js';
 
 // Default gas limit for Avalanche claims
 const DEFAULT_AVAX_CLAIM_GAS = 120000;
 
 // Gas estimation constants - these would need to be tuned based on real data
-const GAS_ESTIMATES = {
+export const GAS_ESTIMATES = {
   avalanche: {
     baseClaim: 100000,      // Base gas for a simple claim
     perExtraClaim: 80000,   // Additional gas per extra claim in bundle
@@ -14,26 +15,234 @@ const GAS_ESTIMATES = {
   tron: {
     baseEnergy: 50000,      // Base energy for a simple claim
     perExtraEnergy: 40000,  // Additional energy per extra claim
-    energyToTrx: 0.001,     // Energy to TRX conversion rate
-    trxPrice: 0.08          // TRX price in USD
+    energyToTrx: 0.001      // Energy to TRX conversion rate
   }
 } as const;
 
+// Protocols whose claim cost does not follow the per-chain defaults
+export const PROTOCOL_GAS_DEFAULTS: Readonly<Record<string, { base: number; perExtra: number }>> = {
+  gmx: { base: 350000, perExtra: 0 }  // handleRewards claims and compounds everything in one call
+};
+
+// Typical bandwidth (bytes) of a TriggerSmartContract claim transaction
+export const TRON_CLAIM_BANDWIDTH = 345;
+
+/**
+ * Snapshot of the executing Tron account's resources and the network burn prices
+ */
+export interface TronResourceState {
+  readonly availableEnergy: number;     // Staked/delegated energy left
+  readonly availableBandwidth: number;  // Free + staked bandwidth left
+  readonly energyPriceSun: number;      // Sun burned per energy unit
+  readonly bandwidthPriceSun: number;   // Sun burned per bandwidth byte
+  readonly trxUsd: number;
+  readonly updatedAt: number;
+}
+
+let tronResources: TronResourceState | undefined;
+
+export function updateTronResources(state: TronResourceState): void {
+  tronResources = state;
+}
+
+export function getTronResources(): TronResourceState | undefined {
+  return tronResources;
+}
+
+export function clearTronResources(): void {
+  tronResources = undefined;
+}
+
+/**
+ * TRX that will actually be burned for a transaction: energy beyond the staked
+ * energy is paid at the energy price, and bandwidth is burned in full when the
+ * transaction does not fit in the remaining free/staked bandwidth.
+ */
+export function estimateTronBurnTrx(energy: number, bandwidth: number, state: TronResourceState): number {
+  const burnedEnergy = Math.max(0, energy - state.availableEnergy);
+  const burnedBandwidth = bandwidth > state.availableBandwidth ? bandwidth : 0;
+  const burnedSun = burnedEnergy * state.energyPriceSun + burnedBandwidth * state.bandwidthPriceSun;
+  return burnedSun / 1e6;
+}
+
+/**
+ * Per-(chain, protocol) gas model: gas = base + (items - 1) * perExtra, in gas units on
+ * Avalanche and energy on Tron. Fitted from executions history, defaults otherwise.
+ */
+export interface GasModel {
+  readonly chain: Chain;
+  readonly protocol: string;
+  readonly base: number;
+  readonly perExtra: number;
+  readonly samples: number;
+  readonly source: 'history' | 'default';
+}
+
+/**
+ * Live gas price and native token price, refreshed from the chain clients each cycle
+ */
+export interface GasPriceState {
+  readonly gasPrice: bigint;   // Wei per gas on Avalanche, sun per energy on Tron
+  readonly nativeUsd: number;
+  readonly updatedAt: number;
+}
+
+export interface GasSample {
+  items: number;
+  gasUsed: number;
+}
+
+// History needed before a fitted model replaces the defaults
+export const GAS_MODEL_MIN_SAMPLES = 5;
+export const GAS_MODEL_HISTORY_HOURS = 24 * 14;
+
+const gasModels = new Map<string, GasModel>();
+const gasPrices = new Map<Chain, GasPriceState>();
+
+function gasModelKey(chain: Chain, protocol: string): string {
+  return `${chain}:${protocol}`;
+}
+
+function defaultGasModel(chain: Chain, protocol: string): GasModel {
+  const defaults = PROTOCOL_GAS_DEFAULTS[protocol] ?? (chain === 'avalanche'
+    ? { base: GAS_ESTIMATES.avalanche.baseClaim, perExtra: GAS_ESTIMATES.avalanche.perExtraClaim }
+    : { base: GAS_ESTIMATES.tron.baseEnergy, perExtra: GAS_ESTIMATES.tron.perExtraEnergy });
+  return { chain, protocol, ...defaults, samples: 0, source: 'default' };
+}
+
+/**
+ * Least-squares fit of gas units against bundle size. With a single bundle size only the
+ * per-bundle total is observable, so perExtra is undefined and base absorbs defaultPerExtra.
+ */
+export function fitGasModel(samples: GasSample[], defaultPerExtra: number): { base: number; perExtra?: number } | undefined {
+  if (samples.length === 0) {
+    return undefined;
+  }
+
+  const points = samples.map(s => ({ x: s.items - 1, y: s.gasUsed }));
+  const n = points.length;
+  const meanX = points.reduce((total, p) => total + p.x, 0) / n;
+  const meanY = points.reduce((total, p) => total + p.y, 0) / n;
+  const varX = points.reduce((total, p) => total + (p.x - meanX) ** 2, 0);
+
+  if (varX === 0) {
+    return { base: Math.round(meanY - meanX * defaultPerExtra) };
+  }
+
+  const perExtra = points.reduce((total, p) => total + (p.x - meanX) * (p.y - meanY), 0) / varX;
+  return { base: Math.round(meanY - perExtra * meanX), perExtra: Math.round(perExtra) };
+}
+
+/**
+ * Refit the gas models from gas_used of successful executions. Groups with fewer than
+ * GAS_MODEL_MIN_SAMPLES executions, or a fit that is not physically plausible, keep the defaults.
+ */
+export function calibrateGasModels(db: any, hoursBack: number = GAS_MODEL_HISTORY_HOURS): GasModel[] {
+  const rows = db.prepare(`
+    SELECT chain, protocol, item_count, gas_used
+    FROM executions
+    WHERE success = 1 AND gas_used IS NOT NULL
+      AND executed_at > datetime('now', '-${hoursBack} hours')
+  `).all() as Array<{ chain: Chain; protocol: string; item_count: number; gas_used: string | number }>;
+
+  const groups = new Map<string, { chain: Chain; protocol: string; samples: GasSample[] }>();
+  for (const row of rows) {
+    const gasUsed = Number(row.gas_used);
+    if (!(gasUsed > 0) || !(row.item_count > 0)) {
+      continue;
+    }
+    const key = gasModelKey(row.chain, row.protocol);
+    const group = groups.get(key) ?? { chain: row.chain, protocol: row.protocol, samples: [] };
+    group.samples.push({ items: row.item_count, gasUsed });
+    groups.set(key, group);
+  }
+
+  gasModels.clear();
+  for (const [key, { chain, protocol, samples }] of groups) {
+    if (samples.length < GAS_MODEL_MIN_SAMPLES || (chain !== 'avalanche' && chain !== 'tron')) {
+      continue;
+    }
+
+    const defaults = defaultGasModel(chain, protocol);
+    const fit = fitGasModel(samples, defaults.perExtra);
+    const perExtra = fit?.perExtra ?? defaults.perExtra;
+    if (!fit || fit.base <= 0 || perExtra < 0) {
+      console.warn(`Ignoring implausible gas fit for ${key} from ${samples.length} executions`);
+      continue;
+    }
+
+    gasModels.set(key, { chain, protocol, base: fit.base, perExtra, samples: samples.length, source: 'history' });
+  }
+
+  return Array.from(gasModels.values());
+}
+
+export function getGasModel(chain: Chain, protocol: string): GasModel {
+  return gasModels.get(gasModelKey(chain, protocol)) ?? defaultGasModel(chain, protocol);
+}
+
+export function updateGasPrice(chain: Chain, state: GasPriceState): void {
+  gasPrices.set(chain, state);
+}
+
+export function getGasPrice(chain: Chain): GasPriceState | undefined {
+  return gasPrices.get(chain);
+}
+
+/**
+ * Pull the current gas and native token prices from each chain client; a chain whose
+ * RPC fails keeps its previous snapshot (or the static defaults)
+ */
+export async function refreshGasPrices(clients: Map<string, ChainClient>): Promise<void> {
+  for (const chain of ['avalanche', 'tron'] as const) {
+    const client = clients.get(chain);
+    if (!client) {
+      continue;
+    }
+
+    try {
+      const [gasPrice, nativeUsd] = await Promise.all([client.gasPrice(), client.nativeUsd()]);
+      if (gasPrice > 0n && nativeUsd > 0) {
+        updateGasPrice(chain, { gasPrice, nativeUsd, updatedAt: Date.now() });
+      }
+    } catch (error) {
+      console.warn(`Failed to refresh ${chain} gas price, keeping previous estimate:`, error);
+    }
+  }
+}
+
+export function clearGasModel(): void {
+  gasModels.clear();
+  gasPrices.clear();
+}
+
 export function estimateBundleGasUsd(bundle: ClaimBundle, chain: Chain): number {
   try {
     if (chain === 'avalanche') {
-      const estimates = GAS_ESTIMATES.avalanche;
-      const totalGas = estimates.baseClaim + (bundle.items.length - 1) * estimates.perExtraClaim;
-      const gasCostWei = BigInt(totalGas) * BigInt(estimates.gasPrice);
+      const model = getGasModel(chain, bundle.protocol);
+      const price = gasPrices.get(chain);
+      const totalGas = model.base + (bundle.items.length - 1) * model.perExtra;
+      const gasCostWei = BigInt(totalGas) * (price?.gasPrice ?? BigInt(GAS_ESTIMATES.avalanche.gasPrice));
       const gasCostEth = Number(gasCostWei) / 1e18;
-      return gasCostEth * estimates.nativePrice;
+      return gasCostEth * (price?.nativeUsd ?? GAS_ESTIMATES.avalanche.nativePrice);
     }
     
     if (chain === 'tron') {
-      const estimates = GAS_ESTIMATES.tron;
-      const totalEnergy = estimates.baseEnergy + (bundle.items.length - 1) * estimates.perExtraEnergy;
-      const energyCostTrx = totalEnergy * estimates.energyToTrx;
-      return energyCostTrx * estimates.trxPrice;
+      const model = getGasModel(chain, bundle.protocol);
+      const totalEnergy = model.base + (bundle.items.length - 1) * model.perExtra;
+
+      // With a resource snapshot only burned TRX counts; staked energy makes claims free
+      if (tronResources) {
+        return estimateTronBurnTrx(totalEnergy, TRON_CLAIM_BANDWIDTH, tronResources) * tronResources.trxUsd;
+      }
+
+      const price = gasPrices.get(chain);
+      if (price) {
+        return totalEnergy * Number(price.gasPrice) / 1e6 * price.nativeUsd;
+      }
+
+      const energyCostTrx = totalEnergy * GAS_ESTIMATES.tron.energyToTrx;
+      return energyCostTrx * FALLBACK_TRX_USD;
     }
 
     console.warn(`Unknown chain for gas estimation: ${chain}`);
@@ -73,18 +282,6 @@ export function validateGasEstimate(gasUsd: number, totalUsd: number): boolean {
   return true;
 }
 
-// Update gas estimates based on actual execution data
-// This would be called after successful executions to improve estimates
-export function updateGasEstimates(
-  chain: Chain, 
-  itemCount: number, 
-  actualGasUsd: number
-): void {
-  // TODO: Implement learning mechanism to improve gas estimates
-  // Could use a rolling average or more sophisticated ML approach
-  console.log(`Gas estimate feedback: ${chain} with ${itemCount} items cost ${actualGasUsd} USD`);
-}
-
 // New function as specified in requirements
 export async function estimateBundleUsd(bundle: ClaimBundle): Promise<number> {
   try {
@@ -0,0 +1,75 @@
+import type { ChainClient } from '../types/common.js';
+import { env } from '../config/env.js';
+import { logger } from '../engine/logger.js';
+import { getPriceOracle, toOracleToken, type PriceSample } from './oracle.js';
+import { Policy, adjustPolicyForMarketConditions, setMarketAdjustments } from './policy.js';
+
+/**
+ * Market conditions sampled at the start of each scheduler tick: the Avalanche base fee and
+ * short-window AVAX/USD volatility feed adjustPolicyForMarketConditions, whose adjustments the
+ * policy engine applies until the next sample.
+ */
+
+export interface MarketConditions {
+  readonly sampledAt: Date;
+  readonly baseFeeGwei?: number;       // Latest block's base fee; undefined when the chain client could not be reached
+  readonly volatility?: number;        // Relative price range over the window; undefined with fewer than two prices
+  readonly adjustments: Readonly<Record<string, number>>;
+}
+
+/**
+ * Price range over the window relative to its low: (max - min) / min
+ */
+export function priceVolatility(samples: readonly PriceSample[]): number | undefined {
+  if (samples.length < 2) {
+    return undefined;
+  }
+  const prices = samples.map(sample => sample.priceUsd);
+  const low = Math.min(...prices);
+  return low > 0 ? (Math.max(...prices) - low) / low : undefined;
+}
+
+/**
+ * Sample the base fee and volatility, then apply the resulting policy adjustments. A source that fails counts
+ * as calm, so an unreachable RPC or oracle never tightens thresholds on its own.
+ */
+export async function sampleMarketConditions(clients: Map<string, ChainClient>): Promise<MarketConditions> {
+  let baseFeeGwei: number | undefined;
+  const client = clients.get('avalanche');
+  if (client?.baseFeePerGas) {
+    try {
+      baseFeeGwei = Number(await client.baseFeePerGas()) / 1e9;
+    } catch (error) {
+      logger.warn('Market conditions: base fee unavailable', error instanceof Error ? error.message : error);
+    }
+  }
+
+  const oracle = getPriceOracle();
+  const avax = toOracleToken('avalanche', env.wavaxToken, 18, 'WAVAX');
+  try {
+    // Resolving the price records it in the oracle history the volatility is measured on
+    await oracle.getTokenUsd(avax);
+  } catch (error) {
+    logger.warn('Market conditions: AVAX price unavailable', error instanceof Error ? error.message : error);
+  }
+  const volatility = priceVolatility(oracle.getPriceHistory(avax, env.marketVolatilityWindowMs));
+
+  const adjustments = adjustPolicyForMarketConditions(baseFeeGwei ?? 0, volatility ?? 0);
+  setMarketAdjustments(adjustments);
+
+  const conditions: MarketConditions = { sampledAt: new Date(), baseFeeGwei, volatility, adjustments };
+  logger.info(`Market conditions: ${describeMarketConditions(conditions)}`);
+  return conditions;
+}
+
+/**
+ * One-line form for logs and cycle summaries
+ */
+export function describeMarketConditions(conditions: MarketConditions): string {
+  const baseFee = conditions.baseFeeGwei !== undefined ? `${conditions.baseFeeGwei.toFixed(2)} gwei` : 'n/a';
+  const volatility = conditions.volatility !== undefined ? `${(conditions.volatility * 100).toFixed(2)}%` : 'n/a';
+  const adjustments = Object.entries(conditions.adjustments)
+    .map(([key, value]) => `${key} ${(Policy as Record<string, unknown>)[key]} → ${Number(value.toFixed(4))}`);
+
+  return `base fee ${baseFee}, AVAX volatility ${volatility}; ${adjustments.length > 0 ? `adjusted ${adjustments.join(', ')}` : 'no policy adjustments'}`;
+}
@@ -0,0 +1,442 @@
+import { ethers } from 'ethers';
+import type { Chain } from '../types/common.js';
+import type { PriceOracle, Token } from '../routers/types.js';
+import { env } from '../config/env.js';
+import { getRpcProvider } from '../chains/providerPool.js';
+import { fetchDefiLlamaQuote } from './pricing.js';
+import { TRADER_JOE_PAIR_ABI, ERC20_ABI } from '../routers/traderJoe/abi/Pair.js';
+
+/**
+ * Composite price oracle: Chainlink feeds, then Trader Joe Liquidity Book spot prices,
+ * then the DefiLlama coins API. Every source is checked for staleness and the first
+ * fresh price is cross-checked against the next fresh source before it is used.
+ */
+
+export const AVALANCHE_CHAIN_ID = 43114;
+export const TRON_CHAIN_ID = 728126428;
+
+const CHAINLINK_FEED_ABI = [
+  'function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  'function decimals() external view returns (uint8)'
+];
+
+const LB_PAIR_ABI = [
+  ...TRADER_JOE_PAIR_ABI,
+  'function getBinStep() external view returns (uint16)'
+];
+
+// LB bin ids are centred on 2^23 (price 1)
+const LB_REAL_ID_SHIFT = 8388608;
+
+const ORACLE_CACHE_TTL_MS = 30 * 1000;
+// Resolved prices kept per token for volatility measurements
+const PRICE_HISTORY_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const PRICE_HISTORY_MAX_SAMPLES = 2880;
+
+// Chainlink USD feeds on Avalanche C-Chain, keyed by token
+const DEFAULT_CHAINLINK_FEEDS: Record<string, string> = {
+  '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7': '0x0A77230d17318075983913bC2145DB16C7366156', // WAVAX / AVAX-USD
+  '0x49D5c2BdFfac6CE2BFdB6640F4F80f226bc10bAB': '0x976B3D034E162d8bD72D6b9C989d545b839003b0', // WETH.e / ETH-USD
+  '0x50b7545627a5162F82A992c33b87aDc75187B218': '0x2779D32d5166BAaa2B2b658333bA7e6Ec0C65743', // WBTC.e / BTC-USD
+  '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E': '0xF096872672F44d6EBA71458D74fe67F9a77a23B9', // USDC / USDC-USD
+  '0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7': '0xEBE676ee90Fe1112671f19b6B7459bC678B67e8a'  // USDT / USDT-USD
+};
+
+// Quote tokens that LB spot prices can be denominated in without a further lookup
+const USD_STABLE_TOKENS = new Set([
+  '0xb97ef9ef8734c71904d8002f8b6bc66dd9c48a6e', // USDC
+  '0x9702230a8ea53601f5cd2dc00fdbc13d4df4a8c7'  // USDT
+]);
+
+/**
+ * Price reported by a single source
+ */
+export interface SourcePrice {
+  readonly priceUsd: number;
+  readonly updatedAt: number; // ms since epoch
+}
+
+/**
+ * A single price source the composite oracle can query
+ */
+export interface PriceSource {
+  readonly name: string;
+  readonly maxAgeMs: number;
+  supports(token: Token): boolean;
+  getPrice(token: Token): Promise<SourcePrice | null>;
+}
+
+/**
+ * Outcome of one source for one token
+ */
+export interface SourceCheck {
+  readonly source: string;
+  readonly priceUsd?: number;
+  readonly ageMs?: number;
+  readonly stale: boolean;
+  readonly deviationBps?: number;
+  readonly error?: string;
+}
+
+/**
+ * A resolved price at the time the oracle computed it
+ */
+export interface PriceSample {
+  readonly priceUsd: number;
+  readonly timestamp: number; // ms since epoch
+}
+
+/**
+ * Price decision for a token with the per-source staleness and deviation checks behind it
+ */
+export interface PriceReport {
+  readonly token: string;
+  readonly priceUsd: number | null;
+  readonly source?: string;
+  readonly checks: SourceCheck[];
+}
+
+/**
+ * Parse a `token:target,token:target` list from the environment into a map
+ */
+function parseAddressMap(value: string | undefined): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const entry of (value || '').split(',')) {
+    const [token, target] = entry.split(':').map(part => part.trim());
+    if (token && target) {
+      map[token] = target;
+    }
+  }
+  return map;
+}
+
+/**
+ * Case-insensitive lookup for EVM address keyed maps
+ */
+function lookupAddress(map: Record<string, string>, address: string): string | undefined {
+  const key = Object.keys(map).find(k => k.toLowerCase() === address.toLowerCase());
+  return key ? map[key] : undefined;
+}
+
+export function chainIdToChain(chainId: number): Chain | null {
+  if (chainId === AVALANCHE_CHAIN_ID) return 'avalanche';
+  if (chainId === TRON_CHAIN_ID) return 'tron';
+  return null;
+}
+
+/**
+ * Build the router Token shape for an address on one of our chains
+ */
+export function toOracleToken(chain: Chain, address: string, decimals: number = 18, symbol: string = ''): Token {
+  return {
+    address,
+    decimals,
+    symbol,
+    chainId: chain === 'avalanche' ? AVALANCHE_CHAIN_ID : TRON_CHAIN_ID
+  };
+}
+
+/**
+ * Chainlink aggregator feeds (Avalanche only)
+ */
+export class ChainlinkPriceSource implements PriceSource {
+  readonly name = 'chainlink';
+  readonly maxAgeMs: number;
+  private provider: ethers.JsonRpcProvider;
+  private feeds: Record<string, string>;
+
+  constructor(rpcUrl: string, feeds: Record<string, string>, maxAgeMs: number) {
+    this.provider = getRpcProvider(rpcUrl);
+    this.feeds = feeds;
+    this.maxAgeMs = maxAgeMs;
+  }
+
+  supports(token: Token): boolean {
+    return token.chainId === AVALANCHE_CHAIN_ID && lookupAddress(this.feeds, token.address) !== undefined;
+  }
+
+  async getPrice(token: Token): Promise<SourcePrice | null> {
+    const feedAddress = lookupAddress(this.feeds, token.address);
+    if (!feedAddress) {
+      return null;
+    }
+
+    const feed = new ethers.Contract(feedAddress, CHAINLINK_FEED_ABI, this.provider);
+    const [[, answer, , updatedAt], decimals] = await Promise.all([
+      feed.latestRoundData(),
+      feed.decimals()
+    ]);
+
+    const priceUsd = Number(answer) / Math.pow(10, Number(decimals));
+    if (!(priceUsd > 0)) {
+      return null;
+    }
+
+    return { priceUsd, updatedAt: Number(updatedAt) * 1000 };
+  }
+}
+
+/**
+ * Trader Joe Liquidity Book pair spot price from the active bin.
+ * The pair's other token must be a USD stable or resolvable through `quoteUsd`.
+ */
+export class TraderJoeLbPriceSource implements PriceSource {
+  readonly name = 'traderjoe-lb';
+  readonly maxAgeMs = Number.POSITIVE_INFINITY; // Spot reads are always current
+  private provider: ethers.JsonRpcProvider;
+  private pairs: Record<string, string>;
+  private quoteUsd: (token: Token) => Promise<number | null>;
+
+  constructor(rpcUrl: string, pairs: Record<string, string>, quoteUsd: (token: Token) => Promise<number | null>) {
+    this.provider = getRpcProvider(rpcUrl);
+    this.pairs = pairs;
+    this.quoteUsd = quoteUsd;
+  }
+
+  supports(token: Token): boolean {
+    return token.chainId === AVALANCHE_CHAIN_ID && lookupAddress(this.pairs, token.address) !== undefined;
+  }
+
+  async getPrice(token: Token): Promise<SourcePrice | null> {
+    const pairAddress = lookupAddress(this.pairs, token.address);
+    if (!pairAddress) {
+      return null;
+    }
+
+    const pair = new ethers.Contract(pairAddress, LB_PAIR_ABI, this.provider);
+    const [tokenX, tokenY, activeId, binStep] = await Promise.all([
+      pair.getTokenX(),
+      pair.getTokenY(),
+      pair.getActiveId(),
+      pair.getBinStep()
+    ]);
+
+    const isTokenX = String(tokenX).toLowerCase() === token.address.toLowerCase();
+    if (!isTokenX && String(tokenY).toLowerCase() !== token.address.toLowerCase()) {
+      throw new Error(`LB pair ${pairAddress} does not contain ${token.address}`);
+    }
+
+    const [decimalsX, decimalsY] = await Promise.all([
+      new ethers.Contract(tokenX, ERC20_ABI, this.provider).decimals(),
+      new ethers.Contract(tokenY, ERC20_ABI, this.provider).decimals()
+    ]);
+
+    // Price of one X in Y: (1 + binStep / 10000)^(activeId - 2^23), scaled by decimals
+    const rawPrice = Math.pow(1 + Number(binStep) / 10000, Number(activeId) - LB_REAL_ID_SHIFT);
+    const priceXInY = rawPrice * Math.pow(10, Number(decimalsX) - Number(decimalsY));
+    const priceInQuote = isTokenX ? priceXInY : 1 / priceXInY;
+
+    const quoteAddress = String(isTokenX ? tokenY : tokenX);
+    const quoteDecimals = Number(isTokenX ? decimalsY : decimalsX);
+    const quotePrice = USD_STABLE_TOKENS.has(quoteAddress.toLowerCase())
+      ? 1
+      : await this.quoteUsd({ address: quoteAddress, decimals: quoteDecimals, symbol: '', chainId: AVALANCHE_CHAIN_ID });
+
+    if (quotePrice === null || !(priceInQuote > 0)) {
+      return null;
+    }
+
+    return { priceUsd: priceInQuote * quotePrice, updatedAt: Date.now() };
+  }
+}
+
+/**
+ * DefiLlama coins API (both chains)
+ */
+export class HttpPriceSource implements PriceSource {
+  readonly name = 'defillama';
+  readonly maxAgeMs: number;
+
+  constructor(maxAgeMs: number) {
+    this.maxAgeMs = maxAgeMs;
+  }
+
+  supports(token: Token): boolean {
+    return chainIdToChain(token.chainId) !== null;
+  }
+
+  async getPrice(token: Token): Promise<SourcePrice | null> {
+    const chain = chainIdToChain(token.chainId);
+    if (!chain) {
+      return null;
+    }
+
+    const quote = await fetchDefiLlamaQuote(chain, token.address);
+    return quote ? { priceUsd: quote.price, updatedAt: quote.updatedAt } : null;
+  }
+}
+
+/**
+ * PriceOracle that walks its sources in priority order
+ */
+export class CompositePriceOracle implements PriceOracle {
+  private sources: PriceSource[];
+  private maxDeviationBps: number;
+  private cache = new Map<string, { report: PriceReport; timestamp: number }>();
+  private history = new Map<string, PriceSample[]>();
+
+  constructor(sources: PriceSource[], maxDeviationBps: number) {
+    this.sources = sources;
+    this.maxDeviationBps = maxDeviationBps;
+  }
+
+  /**
+   * Resolve a price and report what every consulted source returned. The first fresh
+   * price wins unless the next fresh source deviates by more than maxDeviationBps,
+   * in which case no price is returned.
+   */
+  async getPriceReport(token: Token): Promise<PriceReport> {
+    const cacheKey = `${token.chainId}:${token.address.toLowerCase()}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp <= ORACLE_CACHE_TTL_MS) {
+      return cached.report;
+    }
+
+    const checks: SourceCheck[] = [];
+    let primary: { source: string; priceUsd: number } | undefined;
+    let priceUsd: number | null = null;
+
+    for (const source of this.sources) {
+      if (!source.supports(token)) {
+        continue;
+      }
+
+      let result: SourcePrice | null;
+      try {
+        result = await source.getPrice(token);
+      } catch (error) {
+        checks.push({ source: source.name, stale: false, error: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+
+      if (!result) {
+        checks.push({ source: source.name, stale: false, error: 'no price' });
+        continue;
+      }
+
+      const ageMs = Math.max(0, Date.now() - result.updatedAt);
+      const stale = ageMs > source.maxAgeMs;
+      if (stale || primary === undefined) {
+        checks.push({ source: source.name, priceUsd: result.priceUsd, ageMs, stale });
+        if (!stale) {
+          primary = { source: source.name, priceUsd: result.priceUsd };
+          priceUsd = result.priceUsd;
+        }
+        continue;
+      }
+
+      // Cross-check the primary price against the next fresh source, then stop
+      const deviationBps = Math.abs(result.priceUsd - primary.priceUsd) / primary.priceUsd * 10000;
+      checks.push({ source: source.name, priceUsd: result.priceUsd, ageMs, stale, deviationBps });
+      if (deviationBps > this.maxDeviationBps) {
+        console.warn(`Price oracle: ${token.symbol || token.address} ${primary.source} ${primary.priceUsd} deviates ${deviationBps.toFixed(0)} bps from ${source.name} ${result.priceUsd}`);
+        priceUsd = null;
+      }
+      break;
+    }
+
+    const report: PriceReport = {
+      token: token.address,
+      priceUsd,
+      source: priceUsd !== null ? primary?.source : undefined,
+      checks
+    };
+
+    if (priceUsd !== null) {
+      this.cache.set(cacheKey, { report, timestamp: Date.now() });
+      this.recordSample(cacheKey, { priceUsd, timestamp: Date.now() });
+    }
+    return report;
+  }
+
+  private recordSample(key: string, sample: PriceSample): void {
+    const samples = (this.history.get(key) ?? [])
+      .filter(existing => sample.timestamp - existing.timestamp <= PRICE_HISTORY_MAX_AGE_MS);
+    samples.push(sample);
+    this.history.set(key, samples.slice(-PRICE_HISTORY_MAX_SAMPLES));
+  }
+
+  /**
+   * Prices resolved for a token within the last windowMs, oldest first. A price is recorded each
+   * time the oracle resolves it (at most once per cache TTL), so the history is only as dense as
+   * the lookups made.
+   */
+  getPriceHistory(token: Token, windowMs: number): PriceSample[] {
+    const since = Date.now() - windowMs;
+    return (this.history.get(`${token.chainId}:${token.address.toLowerCase()}`) ?? [])
+      .filter(sample => sample.timestamp >= since);
+  }
+
+  async getTokenUsd(token: Token): Promise<number | null> {
+    const report = await this.getPriceReport(token);
+    return report.priceUsd;
+  }
+
+  async getTokenRatio(tokenA: Token, tokenB: Token): Promise<number | null> {
+    const [priceA, priceB] = await Promise.all([this.getTokenUsd(tokenA), this.getTokenUsd(tokenB)]);
+    if (priceA === null || priceB === null || priceB === 0) {
+      return null;
+    }
+    return priceA / priceB;
+  }
+
+  async getTokensUsd(tokens: Token[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    for (const token of tokens) {
+      const price = await this.getTokenUsd(token);
+      if (price !== null) {
+        prices.set(token.address, price);
+      }
+    }
+    return prices;
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+/**
+ * Build the default oracle from the environment
+ */
+export function createPriceOracle(): CompositePriceOracle {
+  const chainlink = new ChainlinkPriceSource(
+    env.avalancheRpcUrl,
+    { ...DEFAULT_CHAINLINK_FEEDS, ...parseAddressMap(env.chainlinkPriceFeeds) },
+    env.oracleChainlinkMaxAgeSec * 1000
+  );
+  const http = new HttpPriceSource(env.oracleHttpMaxAgeSec * 1000);
+
+  // LB pairs quoted in a non-stable token resolve it through the non-LB sources
+  const quoteOracle = new CompositePriceOracle([chainlink, http], env.oracleMaxDeviationBps);
+  const lb = new TraderJoeLbPriceSource(
+    env.avalancheRpcUrl,
+    parseAddressMap(env.traderJoeLbPricePairs),
+    token => quoteOracle.getTokenUsd(token)
+  );
+
+  return new CompositePriceOracle([chainlink, lb, http], env.oracleMaxDeviationBps);
+}
+
+let priceOracle: CompositePriceOracle | undefined;
+
+export function getPriceOracle(): CompositePriceOracle {
+  if (!priceOracle) {
+    priceOracle = createPriceOracle();
+  }
+  return priceOracle;
+}
+
+/**
+ * Replace the shared oracle (tests, alternative source sets)
+ */
+export function setPriceOracle(oracle: CompositePriceOracle | undefined): void {
+  priceOracle = oracle;
+}
+
+/**
+ * USD price for a token address on one of our chains, or null when no source has a usable price
+ */
+export async function getTokenUsdPrice(chain: Chain, address: string, decimals: number = 18, symbol: string = ''): Promise<number | null> {
+  return getPriceOracle().getTokenUsd(toOracleToken(chain, address, decimals, symbol));
+}
@@ -1,4 +1,5 @@
 import { env } from '../config/env.js';
+import type { Chain, ClaimBundle, PendingReward } from '../types/common.js';
 
 // Base policy constants
 const BASE_POLICY = {
@@ -11,6 +12,8 @@ const BASE_POLICY = {
   MIN_BUNDLE_SIZE: 10,
   IDEMPOTENCY_TTL_HOURS: 1,
   QUARANTINE_TTL_HOURS: 6,
+  QUARANTINE_MAX_TTL_HOURS: 168, // Escalation cap for repeat offenders (1 week)
+  QUARANTINE_STRIKE_RESET_HOURS: 72, // Strikes reset after a wallet stays clean this long
   RETRY_MAX_ATTEMPTS: 3,
   RETRY_BASE_DELAY_MS: 1000,
   SCHEDULE_TICK_INTERVAL_MS: 60000, // 1 minute
@@ -71,6 +74,13 @@ export const PROTOCOL_POLICIES = {
     MAX_LENDING_POSITIONS: 15,
     COMPOUND_THRESHOLD_USD: 10.0, // Auto-compound rewards above $10
   },
+  justlend: {
+    MIN_REWARD_USD: 0.5,
+  },
+  sunswap: {
+    MIN_REWARD_USD: 0.5,
+    MAX_FARM_POOLS: 20, // Limit farm pools scanned per wallet
+  },
   yieldyak: {
     MIN_REWARD_USD: 0.3,
     AUTO_REINVEST_ENABLED: true,
@@ -123,4 +133,241 @@ export function adjustPolicyForMarketConditions(gasPrice: number, volatility: nu
   }
   
   return adjustments;
-}
\ No newline at end of file
+}
+
+// ---------------------------------------------------------------------------
+// Policy engine: effective thresholds per (chain, protocol)
+// ---------------------------------------------------------------------------
+
+/**
+ * Thresholds the reward filter, bundler and profitability checks apply to a (chain, protocol)
+ */
+export interface EffectivePolicy {
+  readonly chain: Chain;
+  readonly protocol: string;
+  readonly minItemUsd: number;
+  readonly cooldownDays: number;
+  readonly minBundleGrossUsd: number;
+  readonly minBundleNetUsd: number;
+  readonly minBundleSize: number;
+  readonly maxBundleSize: number;
+  readonly minProfitUsd: number;
+  readonly maxSlippagePct: number;
+  readonly priceImpactMaxPct: number;
+  readonly sources: Readonly<Record<PolicyThreshold, PolicyLayer>>; // Layer each value came from
+}
+
+export type PolicyThreshold = Exclude<keyof EffectivePolicy, 'chain' | 'protocol' | 'sources'>;
+export type PolicyLayer = 'global' | 'protocol' | 'dev' | 'env' | 'market';
+
+export type PolicyRejectionCode =
+  | 'ITEM_BELOW_MIN_USD'
+  | 'ITEM_IN_COOLDOWN'
+  | 'ITEM_BELOW_MARGINAL_GAS'
+  | 'ITEM_NOT_BUNDLED'
+  | 'BUNDLE_BELOW_MIN_GROSS_USD'
+  | 'BUNDLE_BELOW_MIN_NET_USD'
+  | 'BUNDLE_BELOW_SIMULATED_NET_USD';
+
+export interface PolicyRejection {
+  readonly code: PolicyRejectionCode;
+  readonly message: string;
+  readonly value: number;
+  readonly threshold: number;
+}
+
+/**
+ * Where each threshold is read from: the global policy key (also the <KEY> of its environment
+ * override) and the PROTOCOL_POLICIES keys that set it, first present wins
+ */
+const THRESHOLD_KEYS: Readonly<Record<PolicyThreshold, { global: keyof typeof BASE_POLICY; protocol: readonly string[] }>> = {
+  minItemUsd: { global: 'MIN_ITEM_USD', protocol: ['MIN_ITEM_USD', 'MIN_REWARD_USD'] },
+  cooldownDays: { global: 'COOLDOWN_DAYS', protocol: ['COOLDOWN_DAYS'] },
+  minBundleGrossUsd: { global: 'MIN_BUNDLE_GROSS_USD', protocol: ['MIN_BUNDLE_GROSS_USD'] },
+  minBundleNetUsd: { global: 'MIN_BUNDLE_NET_USD', protocol: ['MIN_BUNDLE_NET_USD'] },
+  minBundleSize: { global: 'MIN_BUNDLE_SIZE', protocol: ['MIN_BUNDLE_SIZE'] },
+  maxBundleSize: { global: 'MAX_BUNDLE_SIZE', protocol: ['MAX_BUNDLE_SIZE', 'MAX_FARMS_PER_BUNDLE', 'MAX_STAKING_CONTRACTS'] },
+  minProfitUsd: { global: 'MIN_PROFIT_USD', protocol: ['MIN_PROFIT_USD'] },
+  maxSlippagePct: { global: 'MAX_SLIPPAGE_PCT', protocol: ['MAX_SLIPPAGE_PCT'] },
+  priceImpactMaxPct: { global: 'PRICE_IMPACT_MAX_PCT', protocol: ['PRICE_IMPACT_MAX_PCT'] }
+};
+
+const resolvedPolicies = new Map<string, EffectivePolicy>();
+let marketAdjustments: Readonly<Record<string, number>> = {};
+
+/**
+ * Adjustments from adjustPolicyForMarketConditions for the current tick; replaces the previous set
+ */
+export function setMarketAdjustments(adjustments: Record<string, number>): void {
+  marketAdjustments = { ...adjustments };
+  resolvedPolicies.clear();
+}
+
+export function getMarketAdjustments(): Readonly<Record<string, number>> {
+  return marketAdjustments;
+}
+
+function envName(part: string): string {
+  return part.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+/**
+ * Environment override for a threshold: POLICY_<CHAIN>_<PROTOCOL>_<KEY>, then POLICY_<PROTOCOL>_<KEY>
+ * (e.g. POLICY_GMX_DUST_MIN_ITEM_USD=0.25)
+ */
+function envOverride(chain: Chain, protocol: string, key: string): number | undefined {
+  for (const name of [`POLICY_${envName(chain)}_${envName(protocol)}_${key}`, `POLICY_${envName(protocol)}_${key}`]) {
+    const raw = process.env[name];
+    if (raw === undefined || raw.trim() === '') continue;
+    const value = parseFloat(raw);
+    if (Number.isFinite(value)) {
+      return value;
+    }
+    console.warn(`Ignoring non-numeric policy override ${name}=${raw}`);
+  }
+  return undefined;
+}
+
+/**
+ * Effective thresholds for a (chain, protocol), layered: global policy, PROTOCOL_POLICIES entry,
+ * development overrides (DEV_LOWER_THRESHOLDS), environment overrides, then the market adjustment,
+ * which scales the value by the factor it applied to the global threshold
+ */
+export function resolvePolicy(chain: Chain, protocol: string): EffectivePolicy {
+  const cacheKey = `${chain}:${protocol}`;
+  const cached = resolvedPolicies.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const protocolPolicy: Readonly<Record<string, unknown>> = (PROTOCOL_POLICIES as Record<string, Record<string, unknown>>)[protocol] ?? {};
+  const devPolicy: Readonly<Record<string, number>> = env.devLowerThresholds ? DEV_OVERRIDES : {};
+  const values = {} as Record<PolicyThreshold, number>;
+  const sources = {} as Record<PolicyThreshold, PolicyLayer>;
+
+  for (const [threshold, keys] of Object.entries(THRESHOLD_KEYS) as Array<[PolicyThreshold, typeof THRESHOLD_KEYS[PolicyThreshold]]>) {
+    let value = BASE_POLICY[keys.global] as number;
+    let source: PolicyLayer = 'global';
+
+    const protocolKey = keys.protocol.find(key => typeof protocolPolicy[key] === 'number');
+    if (protocolKey) {
+      value = protocolPolicy[protocolKey] as number;
+      source = 'protocol';
+    }
+    if (devPolicy[keys.global] !== undefined) {
+      value = devPolicy[keys.global]!;
+      source = 'dev';
+    }
+    const override = envOverride(chain, protocol, keys.global);
+    if (override !== undefined) {
+      value = override;
+      source = 'env';
+    }
+    const adjusted = marketAdjustments[keys.global];
+    const globalValue = Policy[keys.global] as number;
+    if (adjusted !== undefined && globalValue !== 0) {
+      value = value * adjusted / globalValue;
+      source = 'market';
+    }
+
+    values[threshold] = value;
+    sources[threshold] = source;
+  }
+
+  // A protocol bundle cap below the global minimum size would have small bundles merged past the cap
+  values.minBundleSize = Math.min(values.minBundleSize, values.maxBundleSize);
+
+  const policy: EffectivePolicy = { chain, protocol, ...values, sources };
+  resolvedPolicies.set(cacheKey, policy);
+  return policy;
+}
+
+/**
+ * Forget resolved policies so environment changes apply (tests)
+ */
+export function clearPolicyCache(): void {
+  resolvedPolicies.clear();
+}
+
+/**
+ * Why a pending reward may not be claimed this cycle, or undefined when it may
+ */
+export function checkReward(reward: PendingReward, now: number = Date.now()): PolicyRejection | undefined {
+  const policy = resolvePolicy(reward.wallet.chain, reward.protocol);
+
+  if (reward.amountUsd < policy.minItemUsd) {
+    return {
+      code: 'ITEM_BELOW_MIN_USD',
+      message: `Item USD ${reward.amountUsd.toFixed(4)} < ${policy.minItemUsd}`,
+      value: reward.amountUsd,
+      threshold: policy.minItemUsd
+    };
+  }
+
+  if (reward.lastClaimAt) {
+    const daysSinceClaim = (now - reward.lastClaimAt.getTime()) / 86400000;
+    if (daysSinceClaim < policy.cooldownDays) {
+      return {
+        code: 'ITEM_IN_COOLDOWN',
+        message: `Claimed ${daysSinceClaim.toFixed(1)} days ago < ${policy.cooldownDays} day cooldown`,
+        value: daysSinceClaim,
+        threshold: policy.cooldownDays
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Why a bundle is not worth executing at its estimated gas, or undefined when it is
+ */
+export function checkBundle(bundle: ClaimBundle): PolicyRejection | undefined {
+  const policy = resolvePolicy(bundle.chain, bundle.protocol);
+
+  if (bundle.totalUsd < policy.minBundleGrossUsd) {
+    return {
+      code: 'BUNDLE_BELOW_MIN_GROSS_USD',
+      message: `Gross USD ${bundle.totalUsd} < ${policy.minBundleGrossUsd}`,
+      value: bundle.totalUsd,
+      threshold: policy.minBundleGrossUsd
+    };
+  }
+
+  if (bundle.netUsd < policy.minBundleNetUsd) {
+    return {
+      code: 'BUNDLE_BELOW_MIN_NET_USD',
+      message: `Net USD ${bundle.netUsd} < ${policy.minBundleNetUsd}`,
+      value: bundle.netUsd,
+      threshold: policy.minBundleNetUsd
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Re-check a bundle's net USD once simulation has priced its execution
+ */
+export function checkSimulatedBundle(bundle: ClaimBundle, costUsd: number): PolicyRejection | undefined {
+  const policy = resolvePolicy(bundle.chain, bundle.protocol);
+  const netUsd = bundle.totalUsd - costUsd;
+
+  if (netUsd < policy.minBundleNetUsd) {
+    return {
+      code: 'BUNDLE_BELOW_SIMULATED_NET_USD',
+      message: `Simulated net USD ${netUsd.toFixed(2)} < ${policy.minBundleNetUsd}`,
+      value: netUsd,
+      threshold: policy.minBundleNetUsd
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * One-line form for logs: "<CODE>: <message>"
+ */
+export function describeRejection(rejection: PolicyRejection): string {
+  return `${rejection.code}: ${rejection.message}`;
+}
@@ -1,4 +1,7 @@
 import type { Chain } from '../types/common.js';
+import { env } from '../config/env.js';
+import { createReadOnlyTronWeb, callConstant } from '../integrations/_tron.js';
+import { getTokenRegistry } from '../state/tokenRegistry.js';
 
 // In-memory cache with TTL for pricing data
 interface CacheEntry {
@@ -28,88 +31,198 @@ function setCachedPrice(key: string, value: number): void {
   });
 }
 
-// Stable token configuration - placeholder list as specified
-const STABLE_TOKENS = ['USDC', 'USDT', 'DAI'];
-const TOKEN_DECIMALS_MAP: Record<string, number> = {
-  'USDC': 6,
-  'USDT': 6,
-  'DAI': 18,
+// Clear cached prices (useful for testing)
+export function clearPriceCache(): void {
+  priceCache.clear();
+}
+
+// Stable tokens are quoted at par; bridged variants keep the .e suffix on Avalanche
+const STABLE_TOKENS = ['USDC', 'USDT', 'DAI', 'USDC.E', 'USDT.E', 'DAI.E'];
+
+// Native assets have no contract and are referred to by symbol (e.g. JustLend's 'TRX')
+const NATIVE_DECIMALS: Record<string, number> = {
   'AVAX': 18,
-  'TRX': 6,
-  'WETH': 18,
-  'WBTC': 8,
-  'JOE': 18,
-  'sJOE': 18,
-  'QI': 18,
-  'GMX': 18
+  'TRX': 6
 };
 
-export function getTokenDecimals(symbol: string): number {
-  return TOKEN_DECIMALS_MAP[symbol.toUpperCase()] || 18;
+/**
+ * Decimals for a token contract, from the token registry (fetched on-chain for unknown tokens)
+ */
+export async function getTokenDecimals(chain: Chain, address: string): Promise<number> {
+  const native = NATIVE_DECIMALS[address.toUpperCase()];
+  if (native !== undefined) {
+    return native;
+  }
+
+  const token = await getTokenRegistry().resolve(chain, address);
+  return token.decimals;
 }
 
 export function isStablecoin(symbol: string): boolean {
   return STABLE_TOKENS.includes(symbol.toUpperCase());
 }
 
-export async function quoteToUsd(chain: 'avalanche', token: string, amountWei: string): Promise<number> {
-  // Only support avalanche chain for now as specified
-  if (chain !== 'avalanche') {
-    console.warn(`quoteToUsd: Chain ${chain} not supported, only 'avalanche' is implemented`);
-    return 0;
-  }
-
+export async function quoteToUsd(chain: Chain, token: string, amountWei: string): Promise<number> {
   const cacheKey = `${chain}:${token}`;
   
   try {
-    // Extract token symbol from address mapping
-    const tokenSymbol = getTokenSymbolFromAddress(token);
+    // Symbol and decimals come from the token registry (fetched on-chain for unknown tokens)
+    const metadata = await getTokenRegistry().resolve(chain, token);
+    const amount = parseFloat(amountWei) / Math.pow(10, metadata.decimals);
     
     // Check if it's a stable token
-    if (STABLE_TOKENS.includes(tokenSymbol.toUpperCase())) {
-      const decimals = TOKEN_DECIMALS_MAP[tokenSymbol.toUpperCase()] || 18;
-      const amount = parseFloat(amountWei) / Math.pow(10, decimals);
-      
+    if (isStablecoin(metadata.symbol)) {
       // Cache stable token price calculation
       setCachedPrice(cacheKey, amount);
       return amount;
     }
 
-    // For non-stable tokens, placeholder TODO logic
-    console.warn(`quoteToUsd: Non-stable token pricing not implemented for ${tokenSymbol} on ${chain}. Returning 0.`);
-    // TODO: Implement router-based pricing (Trader Joe getAmountsOut, etc.)
-    // TODO: Implement oracle-based pricing (Chainlink, etc.)
-    // TODO: Implement external API pricing (CoinGecko, DeFiLlama, etc.)
-    
-    return 0;
+    // Non-stable tokens go through the composite oracle (Chainlink -> Trader Joe LB -> DefiLlama)
+    const { getPriceOracle, toOracleToken } = await import('./oracle.js');
+    const price = await getPriceOracle().getTokenUsd(toOracleToken(chain, token, metadata.decimals, metadata.symbol));
+    if (price === null) {
+      console.warn(`quoteToUsd: No price available for ${metadata.symbol} (${token}) on ${chain}. Returning 0.`);
+      return 0;
+    }
+
+    return amount * price;
   } catch (error) {
     console.error(`Failed to quote ${token} to USD on ${chain}:`, error);
     return 0;
   }
 }
 
-// Helper function to extract token symbol from address
-// This is a simplified implementation - in reality, you'd need to:
-// 1. Call the token contract's symbol() function
-// 2. Maintain a database of known token addresses
-// 3. Use third-party APIs for token metadata
-function getTokenSymbolFromAddress(address: string): string {
-  // Simple mapping for common addresses - this would need to be expanded
-  const knownTokens: Record<string, string> = {
-    // Avalanche C-Chain
-    '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E': 'USDC',
-    '0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7': 'USDT',
-    '0xd586E7F844cEa2F87f50152665BCbc2C279D8d70': 'DAI',
-    '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7': 'WAVAX',
-    '0x6e84a6216eA6dACC71eE8E6b0a5B7322EEbC0fDd': 'JOE',     // JOE token
-    '0x1a731B2299E22FbAC282E7094EdA41046343Cb51': 'sJOE',    // sJOE token
-    
-    // Tron (TRC-20)
-    'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t': 'USDT', // USDT-TRC20
-    'TEkxiTehnzSmSe2XqrBj4w32RUN966rdz8': 'USDC', // USDC-TRC20
-  };
+// DefiLlama coin id prefixes per chain
+const DEFILLAMA_CHAIN_IDS: Record<Chain, string> = {
+  avalanche: 'avax',
+  tron: 'tron'
+};
+
+/**
+ * DefiLlama price point with the time DefiLlama last updated it
+ */
+export interface DefiLlamaQuote {
+  readonly price: number;
+  readonly updatedAt: number; // ms since epoch
+}
+
+/**
+ * Fetch a token's USD price and update time from the DefiLlama coins API (uncached).
+ * Returns null when the token is unknown or the API is unreachable.
+ */
+export async function fetchDefiLlamaQuote(chain: Chain, token: string): Promise<DefiLlamaQuote | null> {
+  const coinId = `${DEFILLAMA_CHAIN_IDS[chain]}:${token}`;
+
+  try {
+    const response = await fetch(`${env.defiLlamaCoinsUrl}/prices/current/${coinId}`);
+    if (!response.ok) {
+      console.warn(`DefiLlama price request failed for ${coinId}: ${response.status} ${response.statusText}`);
+      return null;
+    }
+
+    const data = await response.json() as { coins?: Record<string, { price?: number; timestamp?: number }> };
+    const coin = data.coins?.[coinId];
+    if (typeof coin?.price !== 'number' || coin.price <= 0) {
+      console.warn(`DefiLlama returned no price for ${coinId}`);
+      return null;
+    }
+
+    return {
+      price: coin.price,
+      updatedAt: typeof coin.timestamp === 'number' ? coin.timestamp * 1000 : Date.now()
+    };
+  } catch (error) {
+    console.warn(`Failed to fetch DefiLlama price for ${coinId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Fetch a token's USD price from the DefiLlama coins API (cached for CACHE_TTL_MS).
+ * Returns null when the token is unknown or the API is unreachable.
+ */
+export async function fetchDefiLlamaPrice(chain: Chain, token: string): Promise<number | null> {
+  const cacheKey = `defillama:${chain}:${token}`;
+  const cached = getCachedPrice(cacheKey);
+  if (cached !== null) {
+    return cached;
+  }
 
-  return knownTokens[address] || 'UNKNOWN';
+  const quote = await fetchDefiLlamaQuote(chain, token);
+  if (!quote) {
+    return null;
+  }
+
+  setCachedPrice(cacheKey, quote.price);
+  return quote.price;
+}
+
+// Last-resort TRX price when neither the pool nor the HTTP source is reachable
+export const FALLBACK_TRX_USD = 0.08;
+
+const TRX_USD_CACHE_KEY = 'tron:TRX:usd';
+const TRON_USDT = 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t';
+
+/**
+ * TRX/USD spot price from the SunSwap USDT/TRX pool: the pool's USDT balance over its TRX balance
+ * (both 6 decimals). Returns null when the pool cannot be read or is empty.
+ */
+export async function fetchSunSwapTrxUsd(tronWeb: any = createReadOnlyTronWeb()): Promise<number | null> {
+  const exchange = env.sunswapTrxUsdtExchange;
+
+  try {
+    const [trxReserve, [usdtReserve]] = await Promise.all([
+      tronWeb.trx.getBalance(exchange),
+      callConstant(tronWeb, TRON_USDT, 'balanceOf(address)', [{ type: 'address', value: exchange }], ['uint256'], exchange)
+    ]);
+
+    if (!trxReserve || BigInt(usdtReserve) === BigInt(0)) {
+      console.warn(`SunSwap USDT/TRX pool ${exchange} has no reserves`);
+      return null;
+    }
+
+    return Number(usdtReserve) / Number(trxReserve);
+  } catch (error) {
+    console.warn(`Failed to read SunSwap USDT/TRX reserves from ${exchange}:`, error);
+    return null;
+  }
+}
+
+/**
+ * TRX/USD from the configured HTTP fallback (DefiLlama-style `coins` response)
+ */
+async function fetchHttpTrxUsd(): Promise<number | null> {
+  try {
+    const response = await fetch(env.trxPriceFallbackUrl);
+    if (!response.ok) {
+      console.warn(`TRX price request failed: ${response.status} ${response.statusText}`);
+      return null;
+    }
+
+    const data = await response.json() as { coins?: Record<string, { price?: number }> };
+    const price = Object.values(data.coins ?? {})[0]?.price;
+    return typeof price === 'number' && price > 0 ? price : null;
+  } catch (error) {
+    console.warn('Failed to fetch TRX price from HTTP fallback:', error);
+    return null;
+  }
+}
+
+/**
+ * Live TRX/USD price (cached for CACHE_TTL_MS): SunSwap reserves first, then the HTTP fallback.
+ * Returns null when both sources fail.
+ */
+export async function fetchTrxUsd(tronWeb?: any): Promise<number | null> {
+  const cached = getCachedPrice(TRX_USD_CACHE_KEY);
+  if (cached !== null) {
+    return cached;
+  }
+
+  const price = await fetchSunSwapTrxUsd(tronWeb) ?? await fetchHttpTrxUsd();
+  if (price !== null) {
+    setCachedPrice(TRX_USD_CACHE_KEY, price);
+  }
+  return price;
 }
 
 export function formatTokenAmount(amountWei: string, decimals: number): string {
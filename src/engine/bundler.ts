@@ -1,13 +1,98 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { PendingReward, ClaimBundle } from '../types/common.js';
+import type { PendingReward, ClaimBundle, BundleCall, ClaimCall } from '../types/common.js';
 import { estimateBundleGasUsd } from '../economics/gas.js';
+import { resolvePolicy, type PolicyRejectionCode } from '../economics/policy.js';
+import { env } from '../config/env.js';
+import { logger } from './logger.js';
+
+/**
+ * sequential: group, split into maxBundleSize chunks in arrival order, merge small bundles.
+ * optimal: choose which items go into which bundle to maximize total net USD (see optimizeBundles).
+ */
+export type BundlerStrategy = 'sequential' | 'optimal';
+
+const BUNDLER_STRATEGIES: readonly BundlerStrategy[] = ['sequential', 'optimal'];
+
+export interface OptimizeOptions {
+  readonly maxSize: number;
+  readonly minNetUsd: number;          // Bundles below either threshold are left out
+  readonly minGrossUsd: number;
+}
+
+export function isBundlerStrategy(value: string): value is BundlerStrategy {
+  return (BUNDLER_STRATEGIES as readonly string[]).includes(value);
+}
+
+function callKey(call: ClaimCall): string {
+  return `${call.target.toLowerCase()}:${call.callData}:${call.value ?? 0}`;
+}
+
+/**
+ * Only on-behalf Avalanche claims can go through the claim router, where msg.sender is the router
+ */
+function isBatchable(item: PendingReward): boolean {
+  return item.wallet.chain === 'avalanche' && item.claimCall !== undefined && !item.claimCall.fromWallet;
+}
+
+/**
+ * Which transaction an item can share: batchable claims share one aggregate3 batch, any other call
+ * (sent by the wallet, or on Tron) is its own transaction, and items without a call are kept apart
+ * so they cannot strip the call data from the rest of their group
+ */
+function executionKey(item: PendingReward): string {
+  if (!item.claimCall) return 'none';
+  return isBatchable(item) ? 'batch' : `call:${callKey(item.claimCall)}`;
+}
+
+function groupKey(item: PendingReward): string {
+  return `${item.wallet.chain}:${item.protocol}:${item.claimTo.value}:${executionKey(item)}`;
+}
+
+/**
+ * Sub-calls for a batched (Multicall3 aggregate3) bundle, or undefined when any item is not batchable.
+ * Items sharing a call (e.g. one claimReward covering several markets) are claimed by a single sub-call.
+ */
+export function buildBundleCalls(items: PendingReward[]): BundleCall[] | undefined {
+  if (items.length === 0 || !items.every(isBatchable)) {
+    return undefined;
+  }
+
+  const calls = new Map<string, BundleCall>();
+  for (const item of items) {
+    const call = item.claimCall!;
+    const key = callKey(call);
+    const existing = calls.get(key);
+    calls.set(key, existing
+      ? { ...existing, itemIds: [...existing.itemIds, item.id] }
+      : { target: call.target, callData: call.callData, value: call.value, itemIds: [item.id] });
+  }
+
+  return Array.from(calls.values());
+}
+
+/**
+ * Transaction fields for a bundle: aggregate3 sub-calls for batchable items, the call itself when
+ * every item is claimed by the same direct call, and nothing (so the chain client refuses it) otherwise
+ */
+export function bundleTransaction(items: PendingReward[]): Pick<ClaimBundle, 'contractAddress' | 'callData' | 'value' | 'calls'> {
+  const calls = buildBundleCalls(items);
+  if (calls) {
+    return { calls };
+  }
+
+  const call = items[0]?.claimCall;
+  if (call && items.every(item => item.claimCall && callKey(item.claimCall) === callKey(call))) {
+    return { contractAddress: call.target, callData: call.callData, value: call.value ?? 0 };
+  }
+  return {};
+}
 
 export function groupByContract(items: PendingReward[]): ClaimBundle[] {
-  // Group rewards by (chain, protocol, claimTo) as specified in the requirements
+  // Group rewards by (chain, protocol, claimTo) as specified in the requirements, then by transaction
   const groups = new Map<string, PendingReward[]>();
   
   for (const item of items) {
-    const key = `${item.wallet.chain}:${item.protocol}:${item.claimTo.value}`;
+    const key = groupKey(item);
     const existing = groups.get(key);
     
     if (existing) {
@@ -36,7 +121,8 @@ export function groupByContract(items: PendingReward[]): ClaimBundle[] {
       items: groupedItems,
       totalUsd,
       estGasUsd: 0, // Will be set below
-      netUsd: 0     // Will be calculated after gas estimation
+      netUsd: 0,    // Will be calculated after gas estimation
+      ...bundleTransaction(groupedItems)
     };
 
     // Estimate gas cost for this bundle
@@ -59,7 +145,8 @@ export function splitLargeBundles(bundles: ClaimBundle[], maxSize: number): Clai
   const result: ClaimBundle[] = [];
   
   for (const bundle of bundles) {
-    if (bundle.items.length <= maxSize) {
+    // A single-call bundle is one transaction however many items it claims
+    if (bundle.items.length <= maxSize || bundle.contractAddress) {
       result.push(bundle);
       continue;
     }
@@ -82,7 +169,8 @@ export function splitLargeBundles(bundles: ClaimBundle[], maxSize: number): Clai
         items: chunk,
         totalUsd,
         estGasUsd: 0,
-        netUsd: 0
+        netUsd: 0,
+        ...bundleTransaction(chunk)
       };
 
       const estGasUsd = estimateBundleGasUsd(chunkBundle, chunkBundle.chain);
@@ -101,14 +189,14 @@ export function splitLargeBundles(bundles: ClaimBundle[], maxSize: number): Clai
 }
 
 export function mergeBundles(bundles: ClaimBundle[], minSize: number): ClaimBundle[] {
-  // Group small bundles by (chain, protocol, claimTo) for potential merging
+  // Group small bundles by (chain, protocol, claimTo) and transaction for potential merging
   const smallBundles = bundles.filter(bundle => bundle.items.length < minSize);
   const largeBundles = bundles.filter(bundle => bundle.items.length >= minSize);
   
   const mergeGroups = new Map<string, ClaimBundle[]>();
   
   for (const bundle of smallBundles) {
-    const key = `${bundle.chain}:${bundle.protocol}:${bundle.claimTo.value}`;
+    const key = groupKey(bundle.items[0]!);
     const existing = mergeGroups.get(key);
     
     if (existing) {
@@ -139,7 +227,8 @@ export function mergeBundles(bundles: ClaimBundle[], minSize: number): ClaimBund
         items: allItems,
         totalUsd,
         estGasUsd: 0,
-        netUsd: 0
+        netUsd: 0,
+        ...bundleTransaction(allItems)
       };
 
       const estGasUsd = estimateBundleGasUsd(mergedBundle, mergedBundle.chain);
@@ -158,4 +247,135 @@ export function mergeBundles(bundles: ClaimBundle[], minSize: number): ClaimBund
   }
 
   return [...largeBundles, ...mergedBundles];
-}
\ No newline at end of file
+}
+
+/**
+ * Bundles for one cycle with the configured strategy (BUNDLER_STRATEGY), sized by each group's
+ * effective (chain, protocol) policy
+ */
+export function buildBundles(items: PendingReward[], strategy: string = env.bundlerStrategy): ClaimBundle[] {
+  if (!isBundlerStrategy(strategy)) {
+    logger.warn(`Unknown BUNDLER_STRATEGY ${strategy}, using sequential`);
+  }
+
+  return groupByContract(items).flatMap(group => {
+    const policy = resolvePolicy(group.chain, group.protocol);
+
+    // Nothing to choose or split for a single call
+    if (group.contractAddress) {
+      return [group];
+    }
+
+    if (strategy === 'optimal') {
+      return optimizeBundles(group.items, {
+        maxSize: policy.maxBundleSize,
+        minNetUsd: policy.minBundleNetUsd,
+        minGrossUsd: policy.minBundleGrossUsd
+      });
+    }
+
+    return mergeBundles(splitLargeBundles([group], policy.maxBundleSize), policy.minBundleSize);
+  });
+}
+
+function logItemDropped(item: PendingReward, code: PolicyRejectionCode, message: string): void {
+  logger.debug(`Bundler dropped ${item.id}: ${code}: ${message}`);
+}
+
+function makeBundle(items: PendingReward[]): ClaimBundle {
+  const first = items[0]!;
+  const totalUsd = items.reduce((sum, item) => sum + item.amountUsd, 0);
+  const bundle: ClaimBundle = {
+    id: uuidv4(),
+    chain: first.wallet.chain,
+    protocol: first.protocol,
+    claimTo: first.claimTo,
+    items,
+    totalUsd,
+    estGasUsd: 0,
+    netUsd: 0,
+    ...bundleTransaction(items)
+  };
+
+  const estGasUsd = estimateBundleGasUsd(bundle, bundle.chain);
+  return { ...bundle, estGasUsd, netUsd: totalUsd - estGasUsd };
+}
+
+/**
+ * Spread items (highest value first) over `count` bundles of at most `maxSize`, each item going to the
+ * lightest bundle with room, so every bundle carries some high-value items
+ */
+function packBalanced(items: PendingReward[], count: number, maxSize: number): PendingReward[][] {
+  const bins: Array<{ items: PendingReward[]; totalUsd: number }> = Array.from({ length: count }, () => ({ items: [], totalUsd: 0 }));
+
+  for (const item of items) {
+    const open = bins.filter(bin => bin.items.length < maxSize);
+    if (open.length === 0) break;
+    const lightest = open.reduce((min, bin) => bin.totalUsd < min.totalUsd ? bin : min);
+    lightest.items.push(item);
+    lightest.totalUsd += item.amountUsd;
+  }
+
+  return bins.filter(bin => bin.items.length > 0).map(bin => bin.items);
+}
+
+/**
+ * Profit-maximizing bundling. Per (chain, protocol, claimTo) group, bundle gas is fixed cost plus a
+ * per-item marginal cost, so:
+ * - items worth less than the marginal gas of adding them are dropped;
+ * - with b bundles the best items to claim are the top b × maxSize by value, and the fixed cost is paid b times;
+ * - for each b the items are balanced across bundles so they clear the bundle thresholds together,
+ *   and the b with the highest total net USD over the bundles that pass wins.
+ */
+export function optimizeBundles(items: PendingReward[], options: OptimizeOptions): ClaimBundle[] {
+  const groups = new Map<string, PendingReward[]>();
+  for (const item of items) {
+    const key = groupKey(item);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+
+  const passes = (bundle: ClaimBundle) => bundle.netUsd >= options.minNetUsd && bundle.totalUsd >= options.minGrossUsd;
+  const result: ClaimBundle[] = [];
+
+  for (const [key, groupItems] of groups) {
+    const firstItemGasUsd = makeBundle(groupItems.slice(0, 1)).estGasUsd;
+    const marginalGasUsd = groupItems.length > 1 ? makeBundle(groupItems.slice(0, 2)).estGasUsd - firstItemGasUsd : 0;
+
+    const candidates = groupItems
+      .filter(item => {
+        if (item.amountUsd > marginalGasUsd) return true;
+        logItemDropped(item, 'ITEM_BELOW_MARGINAL_GAS', `$${item.amountUsd.toFixed(4)} < marginal gas $${marginalGasUsd.toFixed(4)}`);
+        return false;
+      })
+      .sort((a, b) => b.amountUsd - a.amountUsd);
+
+    let best: ClaimBundle[] = [];
+    let bestNetUsd = 0;
+    for (let count = 1; count <= Math.ceil(candidates.length / options.maxSize); count++) {
+      const bundles = packBalanced(candidates, count, options.maxSize).map(makeBundle).filter(passes);
+      const netUsd = bundles.reduce((sum, bundle) => sum + bundle.netUsd, 0);
+      if (netUsd > bestNetUsd) {
+        best = bundles;
+        bestNetUsd = netUsd;
+      }
+    }
+
+    const bundled = new Set(best.flatMap(bundle => bundle.items.map(item => item.id)));
+    for (const item of candidates.filter(item => !bundled.has(item.id))) {
+      logItemDropped(item, 'ITEM_NOT_BUNDLED', `no bundle with it clears the thresholds within ${options.maxSize} items`);
+    }
+
+    const claimed = bundled.size;
+    logger.info(
+      `Bundler ${key}: ${best.length} bundle(s) claim ${claimed}/${groupItems.length} items for net $${bestNetUsd.toFixed(2)} ` +
+      `(${groupItems.length - candidates.length} below marginal gas $${marginalGasUsd.toFixed(4)}, ` +
+      `${candidates.length - claimed} left for bundle thresholds or size)`
+    );
+    for (const bundle of best) {
+      logger.debug(`Bundler ${bundle.id}: ${bundle.items.length} items, gross $${bundle.totalUsd.toFixed(2)}, gas $${bundle.estGasUsd.toFixed(4)}, net $${bundle.netUsd.toFixed(2)}`);
+    }
+    result.push(...best);
+  }
+
+  return result;
+}
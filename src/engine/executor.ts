@@ -69,7 +69,8 @@ async function validateContractDestination(
 export async function execute(
   bundle: ClaimBundle, 
   clients: Map<string, ChainClient>,
-  mockMode: boolean = false
+  mockMode: boolean = false,
+  onSubmitted?: (txHash: string) => void
 ): Promise<TxResult> {
   try {
     const client = clients.get(bundle.chain);
@@ -97,9 +98,20 @@ export async function execute(
       }
     }
 
+    // Batched bundles go through the claim router, which must be a deployed contract
+    if (bundle.calls && bundle.calls.length > 0 && !mockMode) {
+      const { env } = await import('../config/env.js');
+      await validateContractDestination(env.claimRouterAddress, client, mockMode);
+    }
+
     logger.info(`Executing bundle ${bundle.id} with ${bundle.items.length} items worth $${bundle.totalUsd.toFixed(2)}`);
     
-    const result = await client.sendRaw(bundle);
+    const result = await client.sendRaw(bundle, onSubmitted);
+
+    const failedItems = result.itemResults?.filter(item => !item.success) ?? [];
+    if (failedItems.length > 0) {
+      logger.warn(`Bundle ${bundle.id}: ${failedItems.length}/${result.itemResults!.length} items not claimed: ${failedItems.map(item => `${item.itemId} (${item.error ?? 'failed'})`).join(', ')}`);
+    }
     
     // Post-execution payout verification
     let verifiedResult = result;
@@ -126,6 +138,8 @@ export async function execute(
           verified
         );
       }
+    } else if (verifiedResult.status === 'deferred') {
+      logger.info(`Bundle ${bundle.id} deferred: ${verifiedResult.error}`);
     } else {
       logger.bundleExecuted(bundle.id, false, undefined, verifiedResult.error);
     }
@@ -183,7 +197,11 @@ async function performPayoutVerification(
       pricingService
     );
     
-    if (!verification.verified) {
+    // Native coin payouts (AVAX redemptions and rewards) emit no Transfer log, so count them at their scanned value
+    const nativeItems = bundle.items.filter(item => item.nativePayout);
+    const nativeUsd = nativeItems.reduce((sum, item) => sum + item.amountUsd, 0);
+
+    if (!verification.verified && nativeItems.length === 0) {
       // In non-mock mode, fail if no verified payout
       return {
         ...result,
@@ -193,11 +211,10 @@ async function performPayoutVerification(
       };
     }
     
-    // Calculate gas cost in USD
-    let gasUsd = result.gasUsd || 0;
-    if (result.gasUsed && pricingService) {
+    // Clients price gas from the receipt's effective gas price; only estimate when they did not
+    let gasUsd = result.gasUsd ?? 0;
+    if (result.gasUsd === undefined && result.gasUsed && pricingService) {
       try {
-        // This is simplified - real implementation would get gas price and native token price
         gasUsd = await calculateGasUsd(result.gasUsed, result.chain, pricingService);
       } catch (error) {
         logger.warn(`Failed to calculate gas USD for ${result.txHash}:`, error);
@@ -207,9 +224,10 @@ async function performPayoutVerification(
     // Return enhanced result with verified payout data
     return {
       ...result,
-      claimedUsd: verification.totalUsd, // Use actual verified amount
+      claimedUsd: verification.totalUsd + nativeUsd, // Use actual verified amount
       gasUsd,
-      verifiedPayout: true
+      verifiedPayout: true,
+      transfers: verification.transfers
     };
     
   } catch (error) {
@@ -229,10 +247,9 @@ async function getTransactionReceipt(txHash: string, chain: string): Promise<any
   try {
     if (chain === 'avalanche') {
       // Use ethers to get transaction receipt
-      const { ethers } = await import('ethers');
-      const { env } = await import('../config/env.js');
-      
-      const provider = new ethers.JsonRpcProvider(env.avalancheRpcUrl);
+      const { getRpcProvider } = await import('../chains/providerPool.js');
+
+      const provider = getRpcProvider();
       const receipt = await provider.getTransactionReceipt(txHash);
       
       if (!receipt) {
@@ -251,6 +268,26 @@ async function getTransactionReceipt(txHash: string, chain: string): Promise<any
           logIndex: log.index
         }))
       };
+    } else if (chain === 'tron') {
+      // TRC20 Transfer events come from getTransactionInfo, as unprefixed hex with a 20-byte contract address
+      const { createReadOnlyTronWeb, toTronBase58 } = await import('../integrations/_tron.js');
+
+      const info = await createReadOnlyTronWeb().trx.getTransactionInfo(txHash);
+      if (!info || !info.id) {
+        logger.warn(`Transaction info not found for ${txHash} on ${chain}`);
+        return null;
+      }
+
+      return {
+        status: info.result === 'FAILED' ? 0 : 1,
+        logs: (info.log ?? []).map((log: any) => ({
+          address: toTronBase58(`41${log.address}`),
+          topics: (log.topics ?? []).map((topic: string) => `0x${topic}`),
+          data: `0x${log.data ?? ''}`,
+          blockNumber: info.blockNumber,
+          transactionHash: txHash
+        }))
+      };
     } else {
       logger.warn(`Transaction receipt retrieval not implemented for chain ${chain}`);
       return null;
@@ -262,7 +299,7 @@ async function getTransactionReceipt(txHash: string, chain: string): Promise<any
 }
 
 /**
- * Calculate gas cost in USD
+ * Estimate gas cost in USD at the current gas price, for results without a receipt-based cost
  */
 async function calculateGasUsd(gasUsed: string, chain: string, pricing: PricingService): Promise<number> {
   try {
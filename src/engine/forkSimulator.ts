@@ -0,0 +1,173 @@
+import { ethers } from 'ethers';
+import type { ClaimBundle, PendingReward, SimulationResult } from '../types/common.js';
+import { env } from '../config/env.js';
+import { encodeAggregate3 } from '../chains/multicall.js';
+import { decodeRevert } from '../chains/revertDecoder.js';
+import { verifyPayout, type PricingService } from './verifyPayout.js';
+import { logger } from './logger.js';
+
+/**
+ * Simulation against a local fork of Avalanche (anvil or hardhat). The bundle is sent from an
+ * impersonated sender inside an evm_snapshot, and only passes when the receipt shows every reward
+ * token reaching claimTo; the snapshot is reverted afterwards so bundles never see each other's state.
+ * anvil accepts the hardhat_* method names, so one code path serves both nodes.
+ */
+
+export interface ForkSimulatorOptions {
+  readonly rpcUrl: string;             // Local anvil/hardhat node
+  readonly blockNumber?: number;       // Reset the fork to this block before the first simulation
+  readonly upstreamRpcUrl?: string;    // Chain to fork when resetting
+  readonly from?: string;              // Impersonated sender, defaults to the signing wallet, else claimTo
+  readonly pricingService?: PricingService;
+}
+
+export interface ForkSimulationResult extends SimulationResult {
+  readonly txHash?: string;
+  readonly missingTokens?: readonly string[];
+}
+
+// Gas money for the impersonated sender: 1000 AVAX
+const SENDER_BALANCE = ethers.parseEther('1000');
+const RECEIPT_POLL_MS = 100;
+const RECEIPT_ATTEMPTS = 50;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function defaultSender(): string | undefined {
+  try {
+    const key = env.avalanchePrivateKey;
+    return key ? ethers.computeAddress(key.startsWith('0x') ? key : `0x${key}`) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export class ForkSimulator {
+  private readonly provider: ethers.JsonRpcProvider;
+  private prepared?: Promise<void>;
+
+  constructor(private readonly options: ForkSimulatorOptions) {
+    // A local node needs no pooling or rate limiting
+    this.provider = new ethers.JsonRpcProvider(options.rpcUrl);
+  }
+
+  /**
+   * Execute the bundle on the fork and verify its payout. `items` are the rewards expected to pay
+   * out (default: all of them), e.g. the sub-calls that passed the eth_call preflight.
+   */
+  async simulate(bundle: ClaimBundle, items: readonly PendingReward[] = bundle.items): Promise<ForkSimulationResult> {
+    const tx = this.transactionFor(bundle);
+    if (!tx) {
+      return { ok: false, reason: 'Bundle has no call data to execute on the fork', failureCategory: 'unknown' };
+    }
+
+    await this.prepare();
+    const from = ethers.getAddress(this.options.from ?? defaultSender() ?? bundle.claimTo.value);
+    const snapshot = await this.provider.send('evm_snapshot', []);
+
+    try {
+      await this.provider.send('hardhat_impersonateAccount', [from]);
+      await this.provider.send('hardhat_setBalance', [from, ethers.toQuantity(SENDER_BALANCE)]);
+      const nativeBefore = await this.provider.getBalance(bundle.claimTo.value);
+
+      let txHash: string;
+      try {
+        txHash = await this.provider.send('eth_sendTransaction', [{
+          from,
+          to: tx.to,
+          data: tx.data,
+          value: ethers.toQuantity(tx.value)
+        }]);
+      } catch (error) {
+        const revert = decodeRevert(error);
+        return { ok: false, reason: `Fork execution reverted: ${revert.reason}`, failureCategory: revert.category };
+      }
+
+      const receipt = await this.waitForReceipt(txHash);
+      if (!receipt) {
+        return { ok: false, txHash, reason: `Fork did not mine ${txHash}; is automine enabled?`, failureCategory: 'network' };
+      }
+      if (receipt.status !== 1) {
+        return { ok: false, txHash, gasUsed: receipt.gasUsed.toString(), reason: 'Fork execution reverted', failureCategory: 'unknown' };
+      }
+
+      // Native payouts leave no Transfer log: count them when claimTo's balance grows (net of gas it paid)
+      const gasPaid = from.toLowerCase() === bundle.claimTo.value.toLowerCase() ? receipt.gasUsed * receipt.gasPrice : BigInt(0);
+      const nativeGain = await this.provider.getBalance(bundle.claimTo.value) - nativeBefore + gasPaid;
+
+      const verification = await verifyPayout(txHash, [...receipt.logs], bundle.claimTo, this.options.pricingService);
+      const paidTokens = new Set(verification.transfers.map(transfer => transfer.tokenAddress.toLowerCase()));
+      const expectedTokens = [...new Set(items.map(item => item.token.value.toLowerCase()))];
+      const missingTokens = expectedTokens.filter(token =>
+        !paidTokens.has(token) && !(token === env.wavaxToken.toLowerCase() && nativeGain > BigInt(0)));
+
+      if (missingTokens.length > 0) {
+        return {
+          ok: false,
+          txHash,
+          gasUsed: receipt.gasUsed.toString(),
+          transfers: verification.transfers,
+          missingTokens,
+          reason: `Fork execution paid no ${missingTokens.join(', ')} to ${bundle.claimTo.value}`,
+          failureCategory: 'nothing-to-claim'
+        };
+      }
+
+      return {
+        ok: true,
+        txHash,
+        gasUsed: receipt.gasUsed.toString(),
+        transfers: verification.transfers,
+        reason: `Fork payout verified: ${verification.transfers.length} transfers${nativeGain > BigInt(0) ? ' and native AVAX' : ''} to ${bundle.claimTo.value}`
+      };
+    } finally {
+      await this.provider.send('hardhat_stopImpersonatingAccount', [from]).catch(() => undefined);
+      await this.provider.send('evm_revert', [snapshot]).catch(error =>
+        logger.warn(`Failed to revert fork snapshot ${snapshot}:`, error instanceof Error ? error.message : error));
+    }
+  }
+
+  /**
+   * The transaction the bundle would send: the claim router for batched bundles, else its own call
+   */
+  private transactionFor(bundle: ClaimBundle): { to: string; data: string; value: bigint } | undefined {
+    if (bundle.calls && bundle.calls.length > 0) {
+      // allowFailure lets the sub-calls that fail the preflight revert alone, as they are left out on chain
+      const { data, value } = encodeAggregate3(bundle.calls.map(call => ({ ...call, allowFailure: true })));
+      return { to: env.claimRouterAddress, data, value };
+    }
+
+    if (!bundle.contractAddress || !bundle.callData) {
+      return undefined;
+    }
+    return { to: bundle.contractAddress, data: bundle.callData, value: BigInt(bundle.value ?? 0) };
+  }
+
+  private prepare(): Promise<void> {
+    if (!this.prepared) {
+      this.prepared = (async () => {
+        const client = await this.provider.send('web3_clientVersion', []).catch(() => 'unknown node');
+        if (this.options.blockNumber !== undefined) {
+          await this.provider.send('hardhat_reset', [{
+            forking: { jsonRpcUrl: this.options.upstreamRpcUrl ?? env.avalancheRpcUrl, blockNumber: this.options.blockNumber }
+          }]);
+        }
+        logger.info(`Fork simulation on ${client} at block ${this.options.blockNumber ?? await this.provider.getBlockNumber()}`);
+      })();
+      // A failed reset is retried on the next simulation
+      this.prepared.catch(() => { this.prepared = undefined; });
+    }
+    return this.prepared;
+  }
+
+  private async waitForReceipt(txHash: string): Promise<ethers.TransactionReceipt | null> {
+    for (let attempt = 0; attempt < RECEIPT_ATTEMPTS; attempt++) {
+      const receipt = await this.provider.getTransactionReceipt(txHash);
+      if (receipt) {
+        return receipt;
+      }
+      await sleep(RECEIPT_POLL_MS);
+    }
+    return null;
+  }
+}
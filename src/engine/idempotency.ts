@@ -1,6 +1,7 @@
 import crypto from 'crypto';
-import type { ClaimBundle } from '../types/common.js';
+import type { ClaimBundle, ChainClient, TxResult } from '../types/common.js';
 import { Policy } from '../economics/policy.js';
+import { logger } from './logger.js';
 
 // In-memory cache for idempotency tracking
 const idempotencyCache = new Map<string, number>();
@@ -68,30 +69,154 @@ function cleanupExpiredEntries(): void {
   }
 }
 
-// Optional: Persistent idempotency store for production use
-// This would replace the in-memory cache for better reliability across restarts
+// Persistent idempotency store, so a restart within the TTL cannot resubmit a bundle
+export type IdempotencyStatus = 'pending' | 'submitted' | 'confirmed' | 'failed';
+
+export interface IdempotencyRecord {
+  bundle_hash: string;
+  bundle_id: string;
+  chain: string;
+  status: IdempotencyStatus;
+  tx_hash?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface PersistentIdempotencyStore {
   hasRecentlyProcessed(hash: string): Promise<boolean>;
-  markProcessed(hash: string): Promise<void>;
+  markProcessed(hash: string, bundle: ClaimBundle, status: IdempotencyStatus, txHash?: string): Promise<void>;
+  getRecord(hash: string): Promise<IdempotencyRecord | undefined>;
+  listInFlight(): Promise<IdempotencyRecord[]>;
   cleanup(): Promise<void>;
 }
 
 export class DatabaseIdempotencyStore implements PersistentIdempotencyStore {
-  // TODO: Implement database-backed idempotency store
-  // This would use the same SQLite database to persist idempotency records
-  
-  async hasRecentlyProcessed(_hash: string): Promise<boolean> {
-    // TODO: Query database for recent processing of this hash
-    throw new Error('DatabaseIdempotencyStore not implemented');
+  constructor(private db: any) {}
+
+  /**
+   * A bundle is skipped while it is in flight or confirmed within the TTL; failed bundles may be retried
+   */
+  async hasRecentlyProcessed(hash: string): Promise<boolean> {
+    const record = await this.getRecord(hash);
+    if (!record || record.status === 'failed') {
+      return false;
+    }
+
+    const ttlMs = Policy.IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000;
+    return Date.now() - new Date(record.updated_at).getTime() < ttlMs;
   }
-  
-  async markProcessed(_hash: string): Promise<void> {
-    // TODO: Insert/update database record for this hash
-    throw new Error('DatabaseIdempotencyStore not implemented');
+
+  async markProcessed(hash: string, bundle: ClaimBundle, status: IdempotencyStatus, txHash?: string): Promise<void> {
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO idempotency (bundle_hash, bundle_id, chain, status, tx_hash, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(bundle_hash) DO UPDATE SET
+        bundle_id = excluded.bundle_id,
+        status = excluded.status,
+        tx_hash = COALESCE(excluded.tx_hash, idempotency.tx_hash),
+        updated_at = excluded.updated_at
+    `).run(hash, bundle.id, bundle.chain, status, txHash ?? null, now, now);
   }
-  
+
+  async getRecord(hash: string): Promise<IdempotencyRecord | undefined> {
+    return this.db.prepare('SELECT * FROM idempotency WHERE bundle_hash = ?').get(hash) as IdempotencyRecord | undefined;
+  }
+
+  async listInFlight(): Promise<IdempotencyRecord[]> {
+    return this.db.prepare(`SELECT * FROM idempotency WHERE status IN ('pending', 'submitted')`).all() as IdempotencyRecord[];
+  }
+
   async cleanup(): Promise<void> {
-    // TODO: Remove expired idempotency records from database
-    throw new Error('DatabaseIdempotencyStore not implemented');
+    const cutoff = new Date(Date.now() - Policy.IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000).toISOString();
+    this.db.prepare('DELETE FROM idempotency WHERE updated_at < ?').run(cutoff);
+  }
+}
+
+/**
+ * Check both the in-memory cache and the persistent store, recording the bundle as pending when it may proceed
+ */
+export async function shouldSkipBundle(bundle: ClaimBundle, store?: PersistentIdempotencyStore): Promise<boolean> {
+  const hash = computeBundleHash(bundle);
+
+  if (store && await store.hasRecentlyProcessed(hash)) {
+    idempotencyCache.set(hash, Date.now());
+    return true;
+  }
+
+  if (shouldSkipIdempotency(bundle)) {
+    return true;
   }
-}
\ No newline at end of file
+
+  await store?.markProcessed(hash, bundle, 'pending');
+  return false;
+}
+
+/**
+ * Mark a bundle failed and drop it from the in-memory cache, so a later cycle may retry it
+ */
+export async function releaseBundle(store: PersistentIdempotencyStore, bundle: ClaimBundle, txHash?: string): Promise<void> {
+  const hash = computeBundleHash(bundle);
+  idempotencyCache.delete(hash);
+  await store.markProcessed(hash, bundle, 'failed', txHash);
+}
+
+/**
+ * Persist the outcome of an execution: confirmed, submitted (broadcast but unconfirmed) or failed.
+ * Failed and deferred bundles are released for retry.
+ */
+export async function recordBundleOutcome(store: PersistentIdempotencyStore, bundle: ClaimBundle, result: TxResult): Promise<void> {
+  if (result.success) {
+    await store.markProcessed(computeBundleHash(bundle), bundle, 'confirmed', result.txHash);
+  } else if (result.status === 'pending' && result.txHash) {
+    await store.markProcessed(computeBundleHash(bundle), bundle, 'submitted', result.txHash);
+  } else {
+    await releaseBundle(store, bundle, result.txHash);
+  }
+}
+
+/**
+ * Resolve bundles left pending or submitted by a previous (possibly crashed) process against chain state.
+ * Bundles without a broadcast transaction are released for retry; submitted ones follow their transaction.
+ */
+export async function reconcileInFlightBundles(
+  store: PersistentIdempotencyStore,
+  clients: Map<string, ChainClient>
+): Promise<number> {
+  let reconciled = 0;
+
+  for (const record of await store.listInFlight()) {
+    const bundle = { id: record.bundle_id, chain: record.chain } as ClaimBundle;
+
+    if (!record.tx_hash) {
+      logger.warn(`Bundle ${record.bundle_id} was never broadcast, releasing it for retry`);
+      await store.markProcessed(record.bundle_hash, bundle, 'failed');
+      reconciled++;
+      continue;
+    }
+
+    const client = clients.get(record.chain);
+    if (!client?.getTransactionStatus) {
+      logger.warn(`Cannot reconcile bundle ${record.bundle_id}: no transaction lookup for chain ${record.chain}`);
+      continue;
+    }
+
+    try {
+      const txStatus = await client.getTransactionStatus(record.tx_hash);
+      if (txStatus === 'pending') {
+        logger.info(`Bundle ${record.bundle_id} transaction ${record.tx_hash} is still pending`);
+        continue;
+      }
+
+      // Dropped transactions never landed, so the rewards are still claimable
+      const status: IdempotencyStatus = txStatus === 'confirmed' ? 'confirmed' : 'failed';
+      await store.markProcessed(record.bundle_hash, bundle, status, record.tx_hash);
+      logger.info(`Reconciled bundle ${record.bundle_id} (${record.tx_hash}): ${txStatus}`);
+      reconciled++;
+    } catch (error) {
+      logger.warn(`Failed to reconcile bundle ${record.bundle_id} (${record.tx_hash}):`, error);
+    }
+  }
+
+  return reconciled;
+}
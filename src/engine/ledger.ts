@@ -1,6 +1,6 @@
 import Database from 'better-sqlite3';
 import type { ClaimBundle, TxResult } from '../types/common.js';
-import { recordExecution, markClaimed, upsertWallet } from '../state/db.js';
+import { recordExecution, recordExecutionItems, recordExecutionTransfers, recordRealizedPnl, markClaimed, upsertWallet } from '../state/db.js';
 import { logger } from './logger.js';
 
 export function recordExecutionResult(
@@ -11,15 +11,32 @@ export function recordExecutionResult(
   try {
     // Record the execution in the database
     recordExecution(db, bundle, result);
+
+    // Batched bundles report which sub-calls went through
+    if (result.itemResults && result.itemResults.length > 0) {
+      recordExecutionItems(db, bundle.id, result.itemResults);
+    }
+    
+    // Realized PnL comes from the transfers that verified the payout, priced at execution time
+    if (result.success && result.verifiedPayout) {
+      recordExecutionTransfers(db, bundle.id, result.transfers ?? []);
+      recordRealizedPnl(db, bundle.id, {
+        totalUsd: result.claimedUsd,
+        gasUsd: result.gasUsd ?? bundle.estGasUsd
+      });
+    }
     
     if (result.success) {
-      // Mark all rewards in the bundle as claimed
-      const rewardIds = bundle.items.map(item => item.id);
-      markClaimed(db, rewardIds);
+      // Mark the claimed rewards; a batched bundle can succeed with some of its items left out
+      const claimedIds = result.itemResults
+        ? new Set(result.itemResults.filter(item => item.success).map(item => item.itemId))
+        : undefined;
+      const claimedItems = claimedIds ? bundle.items.filter(item => claimedIds.has(item.id)) : bundle.items;
+      markClaimed(db, claimedItems.map(item => item.id));
       
       // Update wallet last claim timestamps
       const uniqueWallets = new Set();
-      for (const item of bundle.items) {
+      for (const item of claimedItems) {
         const walletKey = `${item.wallet.chain}:${item.wallet.value}`;
         if (!uniqueWallets.has(walletKey)) {
           uniqueWallets.add(walletKey);
@@ -27,7 +44,7 @@ export function recordExecutionResult(
         }
       }
       
-      logger.info(`Successfully recorded execution for bundle ${bundle.id} with ${bundle.items.length} items`);
+      logger.info(`Successfully recorded execution for bundle ${bundle.id} with ${claimedItems.length}/${bundle.items.length} items claimed`);
     } else {
       logger.warn(`Recorded failed execution for bundle ${bundle.id}: ${result.error}`);
     }
@@ -154,6 +171,56 @@ export function getExecutionSummary(db: Database.Database, hoursBack: number = 2
   }
 }
 
+/**
+ * Estimated versus realized value per protocol, over successful executions with a verified payout
+ */
+export function getEstimatedVsRealized(db: Database.Database, hoursBack: number = 24): Array<{
+  protocol: string;
+  verifiedExecutions: number;
+  transfers: number;
+  estimatedUsd: number;
+  estimatedGasUsd: number;
+  estimatedNetUsd: number;
+  realizedUsd: number;
+  realizedGasUsd: number;
+  realizedNetUsd: number;
+}> {
+  try {
+    const stmt = db.prepare(`
+      SELECT 
+        e.protocol,
+        COUNT(*) as verified_executions,
+        SUM((SELECT COUNT(*) FROM execution_transfers t WHERE t.execution_id = e.id)) as transfers,
+        SUM(e.total_usd) as estimated_usd,
+        SUM(e.est_gas_usd) as estimated_gas_usd,
+        SUM(e.net_usd) as estimated_net_usd,
+        SUM(e.actual_claimed_usd) as realized_usd,
+        SUM(e.actual_gas_usd) as realized_gas_usd,
+        SUM(e.actual_net_usd) as realized_net_usd
+      FROM executions e
+      WHERE e.success = 1 AND e.verified_payout = 1
+        AND e.executed_at > datetime('now', '-${hoursBack} hours')
+      GROUP BY e.protocol
+      ORDER BY realized_net_usd DESC
+    `);
+    
+    return (stmt.all() as any[]).map(row => ({
+      protocol: row.protocol,
+      verifiedExecutions: row.verified_executions,
+      transfers: row.transfers || 0,
+      estimatedUsd: row.estimated_usd || 0,
+      estimatedGasUsd: row.estimated_gas_usd || 0,
+      estimatedNetUsd: row.estimated_net_usd || 0,
+      realizedUsd: row.realized_usd || 0,
+      realizedGasUsd: row.realized_gas_usd || 0,
+      realizedNetUsd: row.realized_net_usd || 0
+    }));
+  } catch (error) {
+    logger.error('Failed to get estimated vs realized summary:', error);
+    throw error;
+  }
+}
+
 export function updateBundleGasActuals(
   db: Database.Database,
   bundleId: string,
@@ -0,0 +1,209 @@
+import type Database from 'better-sqlite3';
+import type { Chain } from '../types/common.js';
+import { GAS_ESTIMATES, fitGasModel } from '../economics/gas.js';
+
+/**
+ * Estimated-vs-realized reconciliation of executed bundles, used to tune GAS_ESTIMATES and Policy
+ */
+
+export interface ReconcileRow {
+  bundle_id: string;
+  chain: string;
+  protocol: string;
+  item_count: number;
+  total_usd: number;
+  est_gas_usd: number;
+  net_usd: number;
+  actual_claimed_usd?: number | null;
+  actual_gas_usd: number;
+  actual_net_usd?: number | null;
+  gas_used?: string | null;
+  tx_hash?: string | null;
+  executed_at: string;
+}
+
+export interface EstimationErrorGroup {
+  dimension: 'protocol' | 'chain' | 'bundleSize';
+  key: string;
+  executions: number;
+  estimatedUsd: number;
+  realizedUsd: number;
+  estimatedGasUsd: number;
+  realizedGasUsd: number;
+  estimatedNetUsd: number;
+  realizedNetUsd: number;
+  valueErrorPct: number;       // (realized - estimated) / estimated claimed value
+  gasErrorPct: number;         // (realized - estimated) / estimated gas
+  gasUnderestimatedShare: number; // Share of executions whose gas exceeded the estimate
+  systematicGasUnderestimate: boolean;
+}
+
+export interface LossBundle {
+  bundleId: string;
+  chain: string;
+  protocol: string;
+  items: number;
+  estimatedNetUsd: number;
+  realizedNetUsd: number;
+  txHash?: string;
+  executedAt: string;
+}
+
+export interface GasFit {
+  chain: Chain;
+  samples: number;
+  base: number;                 // Fitted gas/energy of a single-claim bundle
+  perExtra?: number;            // Fitted gas/energy per extra claim (needs varied bundle sizes)
+  configuredBase: number;
+  configuredPerExtra: number;
+}
+
+export interface ReconciliationReport {
+  executions: number;
+  byProtocol: EstimationErrorGroup[];
+  byChain: EstimationErrorGroup[];
+  byBundleSize: EstimationErrorGroup[];
+  gasUnderestimates: EstimationErrorGroup[];
+  lossBundles: LossBundle[];
+  gasFits: GasFit[];
+}
+
+export const BUNDLE_SIZE_BUCKETS: ReadonlyArray<readonly [number, number]> = [
+  [1, 1],
+  [2, 5],
+  [6, 10],
+  [11, 20],
+  [21, Infinity]
+];
+
+// A group is flagged when realized gas beats the estimate by this ratio in most of at least MIN_SAMPLES executions
+const GAS_UNDERESTIMATE_RATIO = 1.2;
+const GAS_UNDERESTIMATE_SHARE = 0.75;
+const MIN_SAMPLES = 3;
+
+/**
+ * Successful executions with realized gas, i.e. the ones estimates can be checked against
+ */
+export function getReconcileRows(db: Database.Database, hoursBack: number = 24 * 7): ReconcileRow[] {
+  const stmt = db.prepare(`
+    SELECT bundle_id, chain, protocol, item_count, total_usd, est_gas_usd, net_usd,
+           actual_claimed_usd, actual_gas_usd, actual_net_usd, gas_used, tx_hash, executed_at
+    FROM executions
+    WHERE success = 1 AND actual_gas_usd IS NOT NULL
+      AND executed_at > datetime('now', '-${hoursBack} hours')
+    ORDER BY executed_at DESC
+  `);
+
+  return stmt.all() as ReconcileRow[];
+}
+
+function realizedClaimed(row: ReconcileRow): number {
+  return row.actual_claimed_usd ?? row.total_usd;
+}
+
+function realizedNet(row: ReconcileRow): number {
+  return row.actual_net_usd ?? realizedClaimed(row) - row.actual_gas_usd;
+}
+
+function bundleSizeBucket(items: number): string {
+  const bucket = BUNDLE_SIZE_BUCKETS.find(([min, max]) => items >= min && items <= max) ?? BUNDLE_SIZE_BUCKETS[BUNDLE_SIZE_BUCKETS.length - 1];
+  if (bucket[0] === bucket[1]) {
+    return `${bucket[0]}`;
+  }
+  return bucket[1] === Infinity ? `${bucket[0]}+` : `${bucket[0]}-${bucket[1]}`;
+}
+
+function relativeError(realized: number, estimated: number): number {
+  return estimated !== 0 ? (realized - estimated) / Math.abs(estimated) : 0;
+}
+
+function groupBy(
+  rows: ReconcileRow[],
+  dimension: EstimationErrorGroup['dimension'],
+  keyOf: (row: ReconcileRow) => string
+): EstimationErrorGroup[] {
+  const groups = new Map<string, ReconcileRow[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+
+  return Array.from(groups.entries()).map(([key, group]) => {
+    const sum = (value: (row: ReconcileRow) => number) => group.reduce((total, row) => total + value(row), 0);
+    const estimatedUsd = sum(row => row.total_usd);
+    const realizedUsd = sum(realizedClaimed);
+    const estimatedGasUsd = sum(row => row.est_gas_usd);
+    const realizedGasUsd = sum(row => row.actual_gas_usd);
+    const gasUnderestimatedShare = group.filter(row => row.actual_gas_usd > row.est_gas_usd).length / group.length;
+
+    return {
+      dimension,
+      key,
+      executions: group.length,
+      estimatedUsd,
+      realizedUsd,
+      estimatedGasUsd,
+      realizedGasUsd,
+      estimatedNetUsd: sum(row => row.net_usd),
+      realizedNetUsd: sum(realizedNet),
+      valueErrorPct: relativeError(realizedUsd, estimatedUsd) * 100,
+      gasErrorPct: relativeError(realizedGasUsd, estimatedGasUsd) * 100,
+      gasUnderestimatedShare,
+      systematicGasUnderestimate: group.length >= MIN_SAMPLES &&
+        gasUnderestimatedShare >= GAS_UNDERESTIMATE_SHARE &&
+        realizedGasUsd > estimatedGasUsd * GAS_UNDERESTIMATE_RATIO
+    };
+  }).sort((a, b) => b.executions - a.executions);
+}
+
+/**
+ * Per-chain gas fit over all protocols, reported next to the configured GAS_ESTIMATES
+ */
+function fitGas(rows: ReconcileRow[], chain: Chain): GasFit | undefined {
+  const samples = rows
+    .filter(row => row.chain === chain && row.gas_used != null && Number(row.gas_used) > 0)
+    .map(row => ({ items: row.item_count, gasUsed: Number(row.gas_used) }));
+
+  if (samples.length === 0) {
+    return undefined;
+  }
+
+  const configured = chain === 'avalanche'
+    ? { configuredBase: GAS_ESTIMATES.avalanche.baseClaim, configuredPerExtra: GAS_ESTIMATES.avalanche.perExtraClaim }
+    : { configuredBase: GAS_ESTIMATES.tron.baseEnergy, configuredPerExtra: GAS_ESTIMATES.tron.perExtraEnergy };
+
+  const fit = fitGasModel(samples, configured.configuredPerExtra)!;
+  return { chain, samples: samples.length, ...fit, ...configured };
+}
+
+export function buildReconciliation(rows: ReconcileRow[]): ReconciliationReport {
+  const byProtocol = groupBy(rows, 'protocol', row => row.protocol);
+  const byChain = groupBy(rows, 'chain', row => row.chain);
+  const byBundleSize = groupBy(rows, 'bundleSize', row => bundleSizeBucket(row.item_count));
+
+  const lossBundles = rows
+    .filter(row => realizedNet(row) < 0)
+    .map(row => ({
+      bundleId: row.bundle_id,
+      chain: row.chain,
+      protocol: row.protocol,
+      items: row.item_count,
+      estimatedNetUsd: row.net_usd,
+      realizedNetUsd: realizedNet(row),
+      txHash: row.tx_hash ?? undefined,
+      executedAt: row.executed_at
+    }))
+    .sort((a, b) => a.realizedNetUsd - b.realizedNetUsd);
+
+  return {
+    executions: rows.length,
+    byProtocol,
+    byChain,
+    byBundleSize,
+    gasUnderestimates: [...byProtocol, ...byChain, ...byBundleSize].filter(group => group.systematicGasUnderestimate),
+    lossBundles,
+    gasFits: (['avalanche', 'tron'] as const)
+      .map(chain => fitGas(rows, chain))
+      .filter((fit): fit is GasFit => fit !== undefined)
+  };
+}
@@ -1,12 +1,102 @@
-import type { Address } from '../types/common.js';
+import type { Address, FailureCategory } from '../types/common.js';
 import { Policy } from '../economics/policy.js';
+import { classifyFailure } from '../chains/revertDecoder.js';
 import { logger } from './logger.js';
 
-// In-memory quarantine store
-const quarantineStore = new Map<string, number>();
+export interface QuarantineRecord {
+  wallet: Address;
+  reason: string;
+  errorClass: string;
+  strikes: number;
+  quarantinedAt: Date;
+  until: Date;
+}
+
+interface QuarantineRow {
+  wallet_address: string;
+  wallet_chain: string;
+  reason: string;
+  error_class: string;
+  strikes: number;
+  quarantined_at: string;
+  expires_at: string;
+}
+
+interface RetryAttemptRow {
+  operation_id: string;
+  attempts: number;
+  last_error?: string | null;
+  updated_at: string;
+}
 
-// Retry attempt tracking
+// Quarantine and retry state, cached in memory and written through to the database once attached
+const quarantineStore = new Map<string, QuarantineRecord>();
 const retryAttempts = new Map<string, number>();
+let stateDb: any;
+
+/**
+ * Persist quarantines and retry attempts in the database and load the ones left by earlier runs
+ */
+export function attachRetryStateDb(db: any): void {
+  stateDb = db;
+  try {
+    for (const row of db.prepare('SELECT * FROM quarantine').all() as QuarantineRow[]) {
+      const wallet: Address = { value: row.wallet_address, chain: row.wallet_chain as Address['chain'] };
+      quarantineStore.set(quarantineKey(wallet), {
+        wallet,
+        reason: row.reason,
+        errorClass: row.error_class,
+        strikes: Number(row.strikes),
+        quarantinedAt: new Date(row.quarantined_at),
+        until: new Date(row.expires_at)
+      });
+    }
+
+    for (const row of db.prepare('SELECT * FROM retry_attempts').all() as RetryAttemptRow[]) {
+      retryAttempts.set(row.operation_id, Number(row.attempts));
+    }
+  } catch (error) {
+    logger.warn('Failed to load quarantine/retry state from database:', error);
+  }
+}
+
+/**
+ * Detach the database and forget all in-memory state (tests)
+ */
+export function resetRetryState(): void {
+  stateDb = undefined;
+  quarantineStore.clear();
+  retryAttempts.clear();
+}
+
+function quarantineKey(wallet: Address): string {
+  return `${wallet.chain}:${wallet.value}`;
+}
+
+function writeState(sql: string, ...params: any[]): void {
+  if (!stateDb) {
+    return;
+  }
+
+  try {
+    stateDb.prepare(sql).run(...params);
+  } catch (error) {
+    logger.warn('Failed to persist quarantine/retry state:', error);
+  }
+}
+
+function setRetryAttempt(operationId: string, attempt: number, lastError: string): void {
+  retryAttempts.set(operationId, attempt);
+  writeState(
+    'INSERT OR REPLACE INTO retry_attempts (operation_id, attempts, last_error, updated_at) VALUES (?, ?, ?, ?)',
+    operationId, attempt, lastError, new Date().toISOString()
+  );
+}
+
+function clearRetryAttempt(operationId: string): void {
+  retryAttempts.delete(operationId);
+  writeState('DELETE FROM retry_attempts WHERE operation_id = ?', operationId);
+}
 
 export interface RetryableError extends Error {
   retryable: boolean;
@@ -20,6 +110,38 @@ export function createRetryableError(message: string, retryable: boolean = true,
   return error;
 }
 
+export interface FailurePolicy {
+  readonly retry: boolean;       // Worth another attempt within the cycle
+  readonly quarantine: boolean;  // Quarantine the bundle's wallets
+}
+
+export const FAILURE_POLICIES: Readonly<Record<FailureCategory, FailurePolicy>> = {
+  'nothing-to-claim': { retry: false, quarantine: false },  // Already claimed or below the contract minimum
+  paused: { retry: false, quarantine: false },               // Protocol-wide, picked up again next cycle
+  unauthorized: { retry: false, quarantine: true },          // The wallet cannot be claimed for; attempts only burn gas
+  'out-of-gas': { retry: true, quarantine: false },
+  'insufficient-funds': { retry: false, quarantine: false }, // The signer needs gas, every bundle is affected
+  network: { retry: true, quarantine: false },
+  unknown: { retry: true, quarantine: false }
+};
+
+/**
+ * Act on a classified claim failure: quarantine the bundle's wallets when the category calls for it.
+ * Returns the category's policy.
+ */
+export function applyFailurePolicy(wallets: readonly Address[], category: FailureCategory, reason: string): FailurePolicy {
+  const policy = FAILURE_POLICIES[category];
+  if (policy.quarantine) {
+    const unique = new Map(wallets.map(wallet => [quarantineKey(wallet), wallet]));
+    for (const wallet of unique.values()) {
+      if (!isWalletQuarantined(wallet)) {
+        quarantineWallet(wallet, reason, { errorClass: category });
+      }
+    }
+  }
+  return policy;
+}
+
 export function isRetryableError(error: any): error is RetryableError {
   return error && typeof error === 'object' && 'retryable' in error;
 }
@@ -32,13 +154,16 @@ export async function withExponentialBackoff<T>(
 ): Promise<T> {
   let lastError: Error | undefined;
   
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+  // Attempts spent before a restart count towards the limit, but the operation always runs at least once
+  const firstAttempt = operationId ? Math.min(getRetryAttempt(operationId) + 1, maxAttempts) : 1;
+  
+  for (let attempt = firstAttempt; attempt <= maxAttempts; attempt++) {
     try {
       const result = await operation();
       
       // Clear retry tracking on success
       if (operationId) {
-        retryAttempts.delete(operationId);
+        clearRetryAttempt(operationId);
       }
       
       return result;
@@ -49,6 +174,11 @@ export async function withExponentialBackoff<T>(
       if (isRetryableError(error) && !error.retryable) {
         throw error;
       }
+
+      // Failures a retry cannot fix (nothing to claim, paused, unauthorized, ...) end the attempts
+      if (!isRetryableError(error) && !FAILURE_POLICIES[classifyFailure(lastError.message)].retry) {
+        break;
+      }
       
       // Don't retry on last attempt
       if (attempt === maxAttempts) {
@@ -64,7 +194,7 @@ export async function withExponentialBackoff<T>(
       
       // Track retry attempts
       if (operationId) {
-        retryAttempts.set(operationId, attempt);
+        setRetryAttempt(operationId, attempt, lastError.message);
       }
       
       // Wait before retry
@@ -74,65 +204,97 @@ export async function withExponentialBackoff<T>(
   
   // All attempts failed
   if (operationId) {
-    retryAttempts.delete(operationId);
+    clearRetryAttempt(operationId);
   }
   
   throw lastError || new Error('Operation failed after maximum attempts');
 }
 
-export function quarantineWallet(wallet: Address, reason: string): void {
-  const key = `${wallet.chain}:${wallet.value}`;
-  const quarantineUntil = Date.now() + (Policy.QUARANTINE_TTL_HOURS * 60 * 60 * 1000);
-  
-  quarantineStore.set(key, quarantineUntil);
-  logger.warn(`Quarantined wallet ${wallet.value} on ${wallet.chain}: ${reason}`);
+/**
+ * Quarantine length for the given strike: the base TTL doubles for each repeat offence, up to the cap
+ */
+export function getQuarantineTtlHours(strikes: number): number {
+  return Math.min(
+    Policy.QUARANTINE_TTL_HOURS * Math.pow(2, Math.max(strikes - 1, 0)),
+    Policy.QUARANTINE_MAX_TTL_HOURS
+  );
 }
 
-export function isWalletQuarantined(wallet: Address): boolean {
-  const key = `${wallet.chain}:${wallet.value}`;
-  const quarantineUntil = quarantineStore.get(key);
-  
-  if (!quarantineUntil) {
-    return false;
+function errorClassOf(error: unknown): string {
+  if (error instanceof Error) {
+    return error.name !== 'Error' ? error.name : error.constructor.name;
   }
+  return error === undefined ? 'Unknown' : typeof error;
+}
+
+export function quarantineWallet(
+  wallet: Address,
+  reason: string,
+  options: { error?: unknown; errorClass?: string; ttlHours?: number } = {}
+): QuarantineRecord {
+  const key = quarantineKey(wallet);
+  const now = Date.now();
   
-  if (Date.now() > quarantineUntil) {
-    // Quarantine expired
-    quarantineStore.delete(key);
-    return false;
-  }
+  // Strikes accumulate until the wallet stays clean for QUARANTINE_STRIKE_RESET_HOURS after its last expiry
+  const previous = quarantineStore.get(key);
+  const strikeResetMs = Policy.QUARANTINE_STRIKE_RESET_HOURS * 60 * 60 * 1000;
+  const strikes = previous && now - previous.until.getTime() < strikeResetMs ? previous.strikes + 1 : 1;
+  const ttlHours = options.ttlHours ?? getQuarantineTtlHours(strikes);
   
-  return true;
+  const record: QuarantineRecord = {
+    wallet,
+    reason,
+    errorClass: options.errorClass ?? errorClassOf(options.error),
+    strikes,
+    quarantinedAt: new Date(now),
+    until: new Date(now + ttlHours * 60 * 60 * 1000)
+  };
+  
+  quarantineStore.set(key, record);
+  writeState(
+    `INSERT OR REPLACE INTO quarantine (wallet_address, wallet_chain, reason, error_class, strikes, quarantined_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    wallet.value, wallet.chain, reason, record.errorClass, strikes, record.quarantinedAt.toISOString(), record.until.toISOString()
+  );
+  logger.warn(`Quarantined wallet ${wallet.value} on ${wallet.chain} for ${ttlHours}h (strike ${strikes}, ${record.errorClass}): ${reason}`);
+  
+  return record;
+}
+
+export function isWalletQuarantined(wallet: Address): boolean {
+  const record = quarantineStore.get(quarantineKey(wallet));
+  
+  // Expired records are kept so repeat offences escalate
+  return !!record && Date.now() <= record.until.getTime();
 }
 
-export function releaseQuarantine(wallet: Address): void {
-  const key = `${wallet.chain}:${wallet.value}`;
-  quarantineStore.delete(key);
+/**
+ * Lift a quarantine and forget the wallet's strikes
+ */
+export function releaseQuarantine(wallet: Address): boolean {
+  const released = quarantineStore.delete(quarantineKey(wallet));
+  writeState('DELETE FROM quarantine WHERE wallet_address = ? AND wallet_chain = ?', wallet.value, wallet.chain);
   logger.info(`Released quarantine for wallet ${wallet.value} on ${wallet.chain}`);
+  return released;
 }
 
-export function getQuarantinedWallets(): Array<{ wallet: Address; until: Date }> {
-  const result: Array<{ wallet: Address; until: Date }> = [];
-  
-  for (const [key, until] of quarantineStore.entries()) {
-    const [chain, address] = key.split(':');
-    if (chain && address) {
-      result.push({
-        wallet: { value: address, chain: chain as any },
-        until: new Date(until)
-      });
-    }
-  }
-  
-  return result;
+export function getQuarantinedWallets(): QuarantineRecord[] {
+  const now = Date.now();
+  return Array.from(quarantineStore.values())
+    .filter(record => now <= record.until.getTime())
+    .sort((a, b) => a.until.getTime() - b.until.getTime());
 }
 
+/**
+ * Drop quarantine history for wallets whose strikes have reset
+ */
 export function cleanupExpiredQuarantines(): void {
-  const now = Date.now();
+  const cutoff = Date.now() - Policy.QUARANTINE_STRIKE_RESET_HOURS * 60 * 60 * 1000;
   
-  for (const [key, until] of quarantineStore.entries()) {
-    if (now > until) {
+  for (const [key, record] of quarantineStore.entries()) {
+    if (record.until.getTime() < cutoff) {
       quarantineStore.delete(key);
+      writeState('DELETE FROM quarantine WHERE wallet_address = ? AND wallet_chain = ?', record.wallet.value, record.wallet.chain);
     }
   }
 }
@@ -143,6 +305,7 @@ export function getRetryAttempt(operationId: string): number {
 
 export function clearRetryTracking(): void {
   retryAttempts.clear();
+  writeState('DELETE FROM retry_attempts');
 }
 
 export function getQuarantineStats(): {
@@ -153,14 +316,16 @@ export function getQuarantineStats(): {
   const oneHour = 60 * 60 * 1000;
   let expiringSoon = 0;
   
-  for (const until of quarantineStore.values()) {
-    if (until - now < oneHour) {
+  const active = getQuarantinedWallets();
+  
+  for (const record of active) {
+    if (record.until.getTime() - now < oneHour) {
       expiringSoon++;
     }
   }
   
   return {
-    totalQuarantined: quarantineStore.size,
+    totalQuarantined: active.length,
     expiringSoon
   };
 }
\ No newline at end of file
@@ -1,11 +1,23 @@
 import type { ClaimBundle, ChainClient, SimulationResult } from '../types/common.js';
 import { logger } from './logger.js';
+import { classifyFailure } from '../chains/revertDecoder.js';
+import type { ForkSimulator } from './forkSimulator.js';
 
 export interface BundleSimulationResult extends SimulationResult {
   readonly bundleId: string;
   readonly gasEstimate?: number;
 }
 
+let forkSimulator: ForkSimulator | undefined;
+
+/**
+ * Confirm Avalanche bundles that pass eth_call by executing them on a local fork (FORK_RPC_URL);
+ * without one, simulation stops at eth_call
+ */
+export function attachForkSimulator(simulator?: ForkSimulator): void {
+  forkSimulator = simulator;
+}
+
 export async function dryRun(
   bundle: ClaimBundle, 
   clients: Map<string, ChainClient>
@@ -26,10 +38,48 @@ export async function dryRun(
     const result = await client.simulate(bundle);
     
     if (!result.ok) {
-      logger.debug(`Simulation failed for bundle ${bundle.id}: ${result.reason}`);
+      // Clients that only report a reason string are classified from it
+      const failureCategory = result.failureCategory ?? classifyFailure(result.reason);
+      logger.debug(`Simulation failed for bundle ${bundle.id} (${failureCategory}): ${result.reason}`);
+      return {
+        bundleId: bundle.id,
+        ...result,
+        failureCategory
+      };
+    }
+
+    if (forkSimulator && bundle.chain === 'avalanche') {
+      // Only the sub-calls that passed eth_call are expected to pay out
+      const passed = new Set(result.itemResults?.filter(item => item.success).map(item => item.itemId) ?? bundle.items.map(item => item.id));
+      const fork = await forkSimulator.simulate(bundle, bundle.items.filter(item => passed.has(item.id)));
+
+      if (!fork.ok) {
+        logger.debug(`Fork simulation failed for bundle ${bundle.id} (${fork.failureCategory}): ${fork.reason}`);
+        return {
+          bundleId: bundle.id,
+          ok: false,
+          reason: fork.reason,
+          failureCategory: fork.failureCategory,
+          gasUsed: fork.gasUsed,
+          itemResults: result.itemResults,
+          transfers: fork.transfers
+        };
+      }
+
+      const costUsd = fork.gasUsed
+        ? Number(BigInt(fork.gasUsed) * await client.gasPrice()) / 1e18 * await client.nativeUsd()
+        : result.costUsd;
+      logger.debug(`Fork simulation successful for bundle ${bundle.id}: ${fork.reason}`);
+
       return {
         bundleId: bundle.id,
-        ...result
+        ok: true,
+        reason: fork.reason,
+        gasUsed: fork.gasUsed ?? result.gasUsed,
+        costUsd,
+        gasEstimate: costUsd ?? bundle.estGasUsd,
+        itemResults: result.itemResults,
+        transfers: fork.transfers
       };
     }
 
@@ -38,7 +88,9 @@ export async function dryRun(
     return {
       bundleId: bundle.id,
       ok: true,
-      gasEstimate: bundle.estGasUsd
+      gasUsed: result.gasUsed,
+      costUsd: result.costUsd,
+      gasEstimate: result.costUsd ?? bundle.estGasUsd
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -47,7 +99,8 @@ export async function dryRun(
     return {
       bundleId: bundle.id,
       ok: false,
-      reason: `Simulation error: ${errorMessage}`
+      reason: `Simulation error: ${errorMessage}`,
+      failureCategory: classifyFailure(errorMessage)
     };
   }
 }
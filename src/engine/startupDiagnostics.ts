@@ -1,10 +1,12 @@
 import { existsSync, statSync } from 'fs';
 import { logger } from './logger.js';
+import type { RpcPoolHealth } from '../chains/providerPool.js';
 
 export interface StartupDiagnosticsOptions {
   dbPath?: string;
   clients?: string[];
   integrations?: string[];
+  rpcPools?: RpcPoolHealth[];
 }
 
 export function printStartupDiagnostics(opts: StartupDiagnosticsOptions) {
@@ -42,5 +44,17 @@ export function printStartupDiagnostics(opts: StartupDiagnosticsOptions) {
 
   logger.info('Active chain clients', opts.clients || []);
   logger.info('Active integrations', opts.integrations || []);
+
+  for (const pool of opts.rpcPools || []) {
+    logger.info(`RPC endpoints (${pool.name})`, pool.endpoints.map(endpoint => ({
+      endpoint: endpoint.label,
+      latency_ms: endpoint.avgLatencyMs !== undefined ? Math.round(endpoint.avgLatencyMs) : null,
+      error_rate: Number(endpoint.errorRate.toFixed(2)),
+      cooling_down: endpoint.coolingDown
+    })));
+    if (pool.endpoints.every(endpoint => endpoint.errors > 0 && endpoint.avgLatencyMs === undefined)) {
+      logger.warn(`No reachable RPC endpoint for ${pool.name}`);
+    }
+  }
   logger.info('Startup diagnostics complete');
 }
\ No newline at end of file
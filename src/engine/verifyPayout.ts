@@ -1,23 +1,14 @@
-import type { Address, Chain } from '../types/common.js';
+import type { Address, Chain, VerifiedTransfer } from '../types/common.js';
+import { toTronBase58 } from '../integrations/_tron.js';
 
-/**
- * Represents a verified ERC20/TRC20 transfer event
- */
-export interface VerifiedTransfer {
-  readonly tokenAddress: string;
-  readonly from: string;
-  readonly to: string;
-  readonly amountWei: string;
-  readonly txHash: string;
-  readonly logIndex: number;
-}
+export type { VerifiedTransfer } from '../types/common.js';
 
 /**
  * Interface for pricing service to resolve token values
  */
 export interface PricingService {
   quoteToUsd(chain: Chain, tokenAddress: string, amountWei: string): Promise<number>;
-  getTokenDecimals(symbol: string): number;
+  getTokenDecimals(chain: Chain, tokenAddress: string): Promise<number>;
 }
 
 /**
@@ -70,12 +61,10 @@ export function parseTransferEvents(
 }
 
 /**
- * Convert Tron address format (simplified - in real implementation would use TronWeb)
+ * Convert a 0x-prefixed 20-byte address from a Transfer topic to Tron base58
  */
 function convertTronAddress(hexAddress: string): string {
-  // This is a placeholder - real implementation would use TronWeb.address.fromHex()
-  // For now, just return as-is since the test environment may not have proper Tron address conversion
-  return hexAddress;
+  return toTronBase58(`41${hexAddress.slice(2)}`);
 }
 
 /**
@@ -110,27 +99,33 @@ export async function verifyPayout(
       };
     }
     
-    // Compute total USD value if pricing service is available
+    // Compute total USD value if pricing service is available, keeping each transfer's execution-time value
     let totalUsd = 0;
-    if (pricingService) {
-      for (const transfer of recipientTransfers) {
-        try {
-          const usdValue = await pricingService.quoteToUsd(
-            expectedRecipient.chain,
-            transfer.tokenAddress,
-            transfer.amountWei
-          );
-          totalUsd += usdValue;
-        } catch (error) {
-          console.warn(`Failed to price transfer ${transfer.tokenAddress}:`, error);
-          // Continue without failing the entire verification
-        }
+    const pricedTransfers: VerifiedTransfer[] = [];
+    for (const transfer of recipientTransfers) {
+      if (!pricingService) {
+        pricedTransfers.push(transfer);
+        continue;
+      }
+      
+      try {
+        const usdValue = await pricingService.quoteToUsd(
+          expectedRecipient.chain,
+          transfer.tokenAddress,
+          transfer.amountWei
+        );
+        totalUsd += usdValue;
+        pricedTransfers.push({ ...transfer, amountUsd: usdValue });
+      } catch (error) {
+        console.warn(`Failed to price transfer ${transfer.tokenAddress}:`, error);
+        // Continue without failing the entire verification
+        pricedTransfers.push(transfer);
       }
     }
     
     return {
       verified: true,
-      transfers: recipientTransfers,
+      transfers: pricedTransfers,
       totalUsd
     };
   } catch (error) {
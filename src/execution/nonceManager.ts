@@ -0,0 +1,436 @@
+import type { ethers } from 'ethers';
+import type { Chain, TxStatus } from '../types/common.js';
+import { env } from '../config/env.js';
+import { logger } from '../engine/logger.js';
+
+/**
+ * Nonce control for one signing wallet. Every transaction sent at a nonce (the original, its
+ * speed-ups and a cancel) is tracked in `pending_transactions`, so a stuck transaction is replaced
+ * instead of blocking the cycle, and nonces left pending by an earlier run are resolved on startup.
+ */
+
+export type PendingTxKind = 'original' | 'speedup' | 'cancel';
+export type PendingTxStatus = 'pending' | 'confirmed' | 'failed' | 'replaced' | 'dropped';
+
+export interface PendingTransaction {
+  readonly txHash: string;
+  readonly walletAddress: string;
+  readonly chain: Chain;
+  readonly nonce: number;
+  readonly bundleId?: string;
+  readonly kind: PendingTxKind;
+  readonly to: string;
+  readonly data: string;
+  readonly value: bigint;
+  readonly gasLimit: bigint;
+  readonly maxFeePerGas: bigint;
+  readonly maxPriorityFeePerGas: bigint;
+  readonly status: PendingTxStatus;
+  readonly createdAt: string;
+}
+
+export interface TxRequest {
+  readonly to: string;
+  readonly data: string;
+  readonly value: bigint | number;
+  readonly gasLimit: bigint;
+  readonly maxFeePerGas: bigint;
+  readonly maxPriorityFeePerGas: bigint;
+}
+
+export interface StuckTxPolicy {
+  readonly speedUpAfterMs: number;   // Replace with higher fees when unmined this long
+  readonly cancelAfterMs: number;    // Replace with a zero-value self-send past this deadline
+  readonly maxWaitMs: number;        // Stop waiting and leave the nonce to startup recovery
+  readonly pollMs: number;
+  readonly bumpPct: number;          // Fee increase per replacement (nodes require at least 10%)
+  readonly maxFeeCapWei?: bigint;    // Speed-ups never pay more than this; cancels ignore it
+}
+
+/**
+ * How a nonce ended: one of its transactions was mined, another transaction consumed it (dropped),
+ * or it is still pending after maxWaitMs (txHash is then the latest claim transaction)
+ */
+export interface TxOutcome {
+  readonly state: 'mined' | 'dropped' | 'pending';
+  readonly txHash: string;
+  readonly kind: PendingTxKind;
+  readonly receipt?: ethers.TransactionReceipt;
+  readonly replacements: number;
+}
+
+export interface NonceSigner {
+  readonly address: string;
+  sendTransaction(tx: ethers.TransactionRequest): Promise<ethers.TransactionResponse>;
+}
+
+interface PendingTransactionRow {
+  tx_hash: string;
+  wallet_address: string;
+  chain: string;
+  nonce: number;
+  bundle_id: string | null;
+  kind: PendingTxKind;
+  to_address: string;
+  data: string;
+  value: string;
+  gas_limit: string;
+  max_fee_per_gas: string;
+  max_priority_fee_per_gas: string;
+  status: PendingTxStatus;
+  created_at: string;
+}
+
+const CANCEL_GAS_LIMIT = BigInt(21000);
+const MIN_REPLACEMENT_BUMP_PCT = 10;
+
+let stateDb: any;
+
+/**
+ * Persist tracked transactions in the database, so pending nonces survive restarts
+ */
+export function attachNonceStateDb(db: any): void {
+  stateDb = db;
+}
+
+/**
+ * Detach the database (tests)
+ */
+export function resetNonceState(): void {
+  stateDb = undefined;
+}
+
+export function defaultStuckTxPolicy(): StuckTxPolicy {
+  return {
+    speedUpAfterMs: env.txSpeedUpAfterMs,
+    cancelAfterMs: env.txCancelAfterMs,
+    maxWaitMs: env.txMaxWaitMs,
+    pollMs: env.txConfirmationPollMs,
+    bumpPct: Math.max(MIN_REPLACEMENT_BUMP_PCT, env.txReplacementBumpPct)
+  };
+}
+
+function saveTransaction(tx: PendingTransaction): void {
+  if (!stateDb) {
+    return;
+  }
+
+  try {
+    stateDb.prepare(`
+      INSERT OR REPLACE INTO pending_transactions (
+        tx_hash, wallet_address, chain, nonce, bundle_id, kind, to_address, data, value, gas_limit,
+        max_fee_per_gas, max_priority_fee_per_gas, status, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      tx.txHash, tx.walletAddress, tx.chain, tx.nonce, tx.bundleId ?? null, tx.kind, tx.to, tx.data,
+      tx.value.toString(), tx.gasLimit.toString(), tx.maxFeePerGas.toString(), tx.maxPriorityFeePerGas.toString(),
+      tx.status, tx.createdAt, new Date().toISOString()
+    );
+  } catch (error) {
+    logger.warn(`Failed to persist pending transaction ${tx.txHash}:`, error);
+  }
+}
+
+function fromRow(row: PendingTransactionRow): PendingTransaction {
+  return {
+    txHash: row.tx_hash,
+    walletAddress: row.wallet_address,
+    chain: row.chain as Chain,
+    nonce: Number(row.nonce),
+    bundleId: row.bundle_id ?? undefined,
+    kind: row.kind,
+    to: row.to_address,
+    data: row.data,
+    value: BigInt(row.value),
+    gasLimit: BigInt(row.gas_limit),
+    maxFeePerGas: BigInt(row.max_fee_per_gas),
+    maxPriorityFeePerGas: BigInt(row.max_priority_fee_per_gas),
+    status: row.status,
+    createdAt: row.created_at
+  };
+}
+
+function bump(fee: bigint, pct: number): bigint {
+  return fee * BigInt(100 + pct) / BigInt(100);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class NonceManager {
+  // Transactions sent per unsettled nonce, oldest first
+  private readonly inFlight = new Map<number, PendingTransaction[]>();
+  private nextNonce?: number;
+  private sendQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly signer: NonceSigner,
+    private readonly provider: ethers.Provider,
+    private readonly chain: Chain = 'avalanche'
+  ) {}
+
+  /**
+   * Send a transaction at the next free nonce and start tracking it
+   */
+  send(tx: TxRequest, bundleId?: string): Promise<PendingTransaction> {
+    // Nonce reservation and broadcast are serialized so concurrent sends never share a nonce
+    const sent = this.sendQueue.then(async () => {
+      const nonce = await this.reserveNonce();
+      try {
+        return await this.broadcast(nonce, 'original', tx, bundleId);
+      } catch (error) {
+        this.nextNonce = undefined; // Nonce unused, re-read it from the chain next time
+        throw error;
+      }
+    });
+    this.sendQueue = sent.catch(() => undefined);
+    return sent;
+  }
+
+  /**
+   * Wait until the nonce settles, speeding the transaction up after speedUpAfterMs and cancelling it
+   * past cancelAfterMs. Returns without a receipt once maxWaitMs has passed.
+   */
+  async waitForOutcome(
+    sent: PendingTransaction,
+    overrides: Partial<StuckTxPolicy> = {},
+    onReplaced?: (txHash: string) => void
+  ): Promise<TxOutcome> {
+    const policy = { ...defaultStuckTxPolicy(), ...overrides };
+    const startedAt = Date.now();
+    let lastSentAt = startedAt;
+    let capReached = false;
+
+    for (;;) {
+      const settled = await this.checkNonce(sent.nonce);
+      if (settled) {
+        return settled;
+      }
+
+      const now = Date.now();
+      const elapsed = now - startedAt;
+      const txs = this.inFlight.get(sent.nonce) ?? [];
+      const latest = txs[txs.length - 1];
+      const cancelled = txs.some(tx => tx.kind === 'cancel');
+
+      if (elapsed >= policy.maxWaitMs) {
+        const claim = [...txs].reverse().find(tx => tx.kind !== 'cancel') ?? sent;
+        logger.warn(`Nonce ${sent.nonce} still unmined after ${Math.round(elapsed / 1000)}s, leaving it to recovery`);
+        return { state: 'pending', txHash: claim.txHash, kind: claim.kind, replacements: txs.length - 1 };
+      }
+
+      if (!cancelled && elapsed >= policy.cancelAfterMs) {
+        await this.replace(latest, 'cancel', policy);
+        lastSentAt = now;
+      } else if (now - lastSentAt >= policy.speedUpAfterMs) {
+        if (cancelled) {
+          // A stuck cancel is bumped too, it only burns 21000 gas
+          await this.replace(latest, 'cancel', policy);
+          lastSentAt = now;
+        } else if (!capReached) {
+          const replacement = await this.replace(latest, 'speedup', policy);
+          if (replacement) {
+            onReplaced?.(replacement.txHash);
+          } else {
+            capReached = true;
+          }
+          lastSentAt = now;
+        }
+      }
+
+      await sleep(policy.pollMs);
+    }
+  }
+
+  /**
+   * Resolve nonces left pending by an earlier run: settled ones are recorded, stale ones cancelled.
+   * Returns the number of nonces still pending.
+   */
+  async recoverPending(overrides: Partial<StuckTxPolicy> = {}): Promise<number> {
+    if (!stateDb) {
+      return 0;
+    }
+
+    const policy = { ...defaultStuckTxPolicy(), ...overrides };
+    const address = this.signer.address.toLowerCase();
+    const rows = (stateDb.prepare('SELECT * FROM pending_transactions WHERE wallet_address = ?').all(this.signer.address) as PendingTransactionRow[])
+      .filter(row => row.wallet_address.toLowerCase() === address && row.status === 'pending')
+      .map(fromRow)
+      .sort((a, b) => a.nonce - b.nonce || Date.parse(a.createdAt) - Date.parse(b.createdAt));
+
+    for (const tx of rows) {
+      this.inFlight.set(tx.nonce, [...(this.inFlight.get(tx.nonce) ?? []), tx]);
+    }
+
+    let pending = 0;
+    for (const [nonce, txs] of this.inFlight) {
+      const settled = await this.checkNonce(nonce);
+      if (settled) {
+        logger.info(`Recovered nonce ${nonce}: ${settled.state === 'mined' ? `${settled.kind} ${settled.txHash} mined` : 'dropped'}`);
+        continue;
+      }
+
+      pending++;
+      const latest = txs[txs.length - 1];
+      if (latest.kind !== 'cancel' && Date.now() - Date.parse(txs[0].createdAt) >= policy.cancelAfterMs) {
+        logger.warn(`Nonce ${nonce} pending since ${txs[0].createdAt}, cancelling`);
+        await this.replace(latest, 'cancel', policy);
+      }
+    }
+
+    return pending;
+  }
+
+  /**
+   * Status of a tracked claim transaction, following its replacements; undefined when untracked or unsettled
+   */
+  async statusOf(txHash: string): Promise<TxStatus | undefined> {
+    const tracked = this.findTracked(txHash);
+    if (!tracked) {
+      return undefined;
+    }
+
+    for (const tx of tracked) {
+      const receipt = await this.provider.getTransactionReceipt(tx.txHash);
+      if (receipt) {
+        // A mined cancel means the claim never executed
+        return tx.kind !== 'cancel' && receipt.status === 1 ? 'confirmed' : 'failed';
+      }
+    }
+    return undefined;
+  }
+
+  private findTracked(txHash: string): PendingTransaction[] | undefined {
+    for (const txs of this.inFlight.values()) {
+      if (txs.some(tx => tx.txHash === txHash)) {
+        return txs;
+      }
+    }
+
+    if (!stateDb) {
+      return undefined;
+    }
+    const rows = stateDb.prepare('SELECT * FROM pending_transactions WHERE wallet_address = ?').all(this.signer.address) as PendingTransactionRow[];
+    const match = rows.find(row => row.tx_hash === txHash);
+    return match
+      ? rows.filter(row => row.wallet_address === match.wallet_address && Number(row.nonce) === Number(match.nonce)).map(fromRow)
+      : undefined;
+  }
+
+  private async reserveNonce(): Promise<number> {
+    const chainNonce = await this.provider.getTransactionCount(this.signer.address, 'pending');
+    const tracked = this.inFlight.size > 0 ? Math.max(...this.inFlight.keys()) + 1 : 0;
+    const nonce = Math.max(chainNonce, tracked, this.nextNonce ?? 0);
+    this.nextNonce = nonce + 1;
+    return nonce;
+  }
+
+  private async broadcast(nonce: number, kind: PendingTxKind, tx: TxRequest, bundleId?: string): Promise<PendingTransaction> {
+    const response = await this.signer.sendTransaction({
+      to: tx.to,
+      data: tx.data,
+      value: tx.value,
+      gasLimit: tx.gasLimit,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+      nonce
+    });
+
+    const pending: PendingTransaction = {
+      txHash: response.hash,
+      walletAddress: this.signer.address,
+      chain: this.chain,
+      nonce,
+      bundleId,
+      kind,
+      to: tx.to,
+      data: tx.data,
+      value: BigInt(tx.value),
+      gasLimit: tx.gasLimit,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+      status: 'pending',
+      createdAt: new Date().toISOString()
+    };
+    this.inFlight.set(nonce, [...(this.inFlight.get(nonce) ?? []), pending]);
+    saveTransaction(pending);
+    return pending;
+  }
+
+  /**
+   * Send a same-nonce replacement with bumped fees: the same call (speed-up) or a zero-value
+   * self-send (cancel). Returns undefined when a speed-up would exceed the fee cap.
+   */
+  private async replace(latest: PendingTransaction, kind: 'speedup' | 'cancel', policy: StuckTxPolicy): Promise<PendingTransaction | undefined> {
+    let maxFeePerGas = bump(latest.maxFeePerGas, policy.bumpPct);
+    let maxPriorityFeePerGas = bump(latest.maxPriorityFeePerGas, policy.bumpPct);
+
+    if (kind === 'speedup' && policy.maxFeeCapWei !== undefined && maxFeePerGas > policy.maxFeeCapWei) {
+      if (policy.maxFeeCapWei < bump(latest.maxFeePerGas, MIN_REPLACEMENT_BUMP_PCT)) {
+        logger.warn(`Nonce ${latest.nonce}: speed-up would exceed the ${policy.maxFeeCapWei} wei fee cap, waiting for the cancel deadline`);
+        return undefined;
+      }
+      maxFeePerGas = policy.maxFeeCapWei;
+      maxPriorityFeePerGas = maxPriorityFeePerGas < maxFeePerGas ? maxPriorityFeePerGas : maxFeePerGas;
+    }
+
+    const request: TxRequest = kind === 'cancel'
+      ? { to: this.signer.address, data: '0x', value: BigInt(0), gasLimit: CANCEL_GAS_LIMIT, maxFeePerGas, maxPriorityFeePerGas }
+      : { to: latest.to, data: latest.data, value: latest.value, gasLimit: latest.gasLimit, maxFeePerGas, maxPriorityFeePerGas };
+
+    try {
+      const replacement = await this.broadcast(latest.nonce, kind, request, latest.bundleId);
+      logger.warn(`Nonce ${latest.nonce}: sent ${kind} ${replacement.txHash} replacing ${latest.txHash}`);
+      return replacement;
+    } catch (error) {
+      // Usually the original was mined in the meantime ("nonce too low"); the next poll settles it
+      logger.warn(`Nonce ${latest.nonce}: ${kind} failed:`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Settle the nonce when one of its transactions was mined, or when another transaction consumed it
+   */
+  private async checkNonce(nonce: number): Promise<TxOutcome | undefined> {
+    const txs = this.inFlight.get(nonce) ?? [];
+
+    const mined = await this.findMined(nonce, txs);
+    if (mined) {
+      return mined;
+    }
+
+    const minedNonce = await this.provider.getTransactionCount(this.signer.address, 'latest');
+    if (minedNonce <= nonce) {
+      return undefined;
+    }
+
+    // Receipts can lag behind the nonce on some nodes: check once more before calling it dropped
+    const late = await this.findMined(nonce, txs);
+    if (late) {
+      return late;
+    }
+
+    logger.warn(`Nonce ${nonce} was consumed by an untracked transaction`);
+    this.settle(nonce, undefined, 'dropped');
+    const latest = txs[txs.length - 1];
+    return { state: 'dropped', txHash: latest?.txHash ?? '', kind: latest?.kind ?? 'original', replacements: Math.max(0, txs.length - 1) };
+  }
+
+  private async findMined(nonce: number, txs: PendingTransaction[]): Promise<TxOutcome | undefined> {
+    for (const tx of txs) {
+      const receipt = await this.provider.getTransactionReceipt(tx.txHash);
+      if (receipt) {
+        this.settle(nonce, tx.txHash, receipt.status === 1 ? 'confirmed' : 'failed');
+        return { state: 'mined', txHash: tx.txHash, kind: tx.kind, receipt, replacements: txs.length - 1 };
+      }
+    }
+    return undefined;
+  }
+
+  private settle(nonce: number, minedHash: string | undefined, status: PendingTxStatus): void {
+    for (const tx of this.inFlight.get(nonce) ?? []) {
+      saveTransaction({ ...tx, status: tx.txHash === minedHash ? status : minedHash ? 'replaced' : 'dropped' });
+    }
+    this.inFlight.delete(nonce);
+  }
+}
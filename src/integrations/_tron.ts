@@ -0,0 +1,65 @@
+// Simple TronWeb import to avoid type issues
+const TronWeb = require('tronweb');
+import { ethers } from 'ethers';
+import { env } from '../config/env.js';
+
+/**
+ * Shared helpers for Tron integrations: read-only TronWeb instances,
+ * constant contract calls and base58 <-> EVM address conversion.
+ */
+
+export interface TronCallParam {
+  type: string;
+  value: unknown;
+}
+
+/**
+ * Create a read-only TronWeb instance (no private key) for contract reads
+ */
+export function createReadOnlyTronWeb(rpcUrl: string = env.tronRpcUrl): any {
+  return new TronWeb({ fullHost: rpcUrl });
+}
+
+/**
+ * Run a constant (view) call and decode its return data with the given output types
+ */
+export async function callConstant(
+  tronWeb: any,
+  contractAddress: string,
+  functionSelector: string,
+  params: TronCallParam[],
+  outputTypes: string[],
+  ownerAddress: string
+): Promise<ethers.Result> {
+  const response = await tronWeb.transactionBuilder.triggerConstantContract(
+    contractAddress,
+    functionSelector,
+    {},
+    params,
+    ownerAddress
+  );
+
+  const output = response?.constant_result?.[0];
+  if (!response?.result?.result || typeof output !== 'string') {
+    throw new Error(`Constant call ${functionSelector} on ${contractAddress} failed`);
+  }
+
+  return ethers.AbiCoder.defaultAbiCoder().decode(outputTypes, `0x${output}`);
+}
+
+/**
+ * Convert a base58 Tron address (T...) to the 20-byte hex form used in ABI encoding
+ */
+export function tronToEvmAddress(base58Address: string): string {
+  return `0x${TronWeb.address.toHex(base58Address).slice(2)}`;
+}
+
+/**
+ * Convert a hex address (0x... or 41...) to base58; base58 input is returned unchanged
+ */
+export function toTronBase58(address: string): string {
+  if (address.startsWith('T')) {
+    return address;
+  }
+  return TronWeb.address.fromHex(address);
+}
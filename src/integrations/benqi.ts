@@ -1,51 +1,573 @@
-import type { Integration, Address, PendingReward, ClaimBundle } from '../types/common.js';
+import type { Integration, Address, PendingReward, ClaimBundle, ClaimCall } from '../types/common.js';
+import { env } from '../config/env.js';
+import { getDefaultClaimRecipient, isAllowedRecipientNonMock } from '../config/addresses.js';
+import { PROTOCOL_POLICIES, resolvePolicy } from '../economics/policy.js';
+import { estimateBundleGasUsd } from '../economics/gas.js';
+import { getTokenUsdPrice } from '../economics/oracle.js';
+import { nativeUsd } from '../chains/avalanche.js';
+import { multicall, type CallResult } from '../chains/multicall.js';
+import { getRpcProvider } from '../chains/providerPool.js';
+import { ethers } from 'ethers';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * BENQI Integration
+ * - sAVAX unlock requests whose cooldown has matured (redeem(unlockIndex))
+ * - QI / AVAX lending rewards accrued on the Comptroller (claimReward)
+ */
+
+// Comptroller reward types
+const REWARD_TYPE_QI = 0;
+const REWARD_TYPE_AVAX = 1;
+
+// Reward id prefixes, used to route rewards to the right claim call
+const SAVAX_UNLOCK_PREFIX = 'benqi-savax-unlock';
+const LENDING_REWARD_PREFIX = 'benqi-lending';
+
+// Load Comptroller and sAVAX ABIs
+let comptrollerAbi: any[] = [];
+let savaxAbi: any[] = [];
+try {
+  comptrollerAbi = JSON.parse(readFileSync(join(process.cwd(), env.benqiComptrollerAbiPath), 'utf8'));
+} catch (error) {
+  console.warn('Failed to load BENQI Comptroller ABI:', error);
+}
+try {
+  savaxAbi = JSON.parse(readFileSync(join(process.cwd(), env.benqiSavaxAbiPath), 'utf8'));
+} catch (error) {
+  console.warn('Failed to load BENQI sAVAX ABI:', error);
+}
+
+// Lending markets seen per wallet during the last scan, reused when encoding claimReward
+const lendingMarketsByWallet = new Map<string, string[]>();
+
+/**
+ * Discover wallets for BENQI rewards
+ * Uses WALLET_SCAN_AVAX when set, otherwise the configured default recipient
+ */
+async function discoverBenqiWallets(mockMode: boolean): Promise<Address[]> {
+  console.log('BENQI: Starting wallet discovery...');
+
+  if (mockMode) {
+    return [{
+      value: '0x1234567890123456789012345678901234567890',
+      chain: 'avalanche'
+    }];
+  }
+
+  if (env.walletScanAvax) {
+    const wallets = env.walletScanAvax
+      .split(',')
+      .map(addr => addr.trim())
+      .filter(addr => addr.length > 0)
+      .map(addr => ({ value: addr, chain: 'avalanche' as const }));
+
+    if (wallets.length > 0) {
+      console.log(`BENQI: Using ${wallets.length} configured wallets from WALLET_SCAN_AVAX`);
+      return wallets;
+    }
+  }
+
+  const defaultRecipient = getDefaultClaimRecipient('avalanche');
+  if (!defaultRecipient) {
+    console.warn('No default claim recipient configured for Avalanche');
+    return [];
+  }
+
+  console.log(`BENQI: Using configured wallet: ${defaultRecipient.value}`);
+  return [defaultRecipient];
+}
+
+/**
+ * Build mock rewards: one matured sAVAX unlock plus QI and AVAX lending rewards per wallet
+ */
+function buildMockRewards(wallets: Address[]): PendingReward[] {
+  const now = new Date();
+  const rewards: PendingReward[] = [];
+
+  for (const wallet of wallets) {
+    rewards.push({
+      id: `${SAVAX_UNLOCK_PREFIX}-${wallet.value}-0`,
+      wallet,
+      protocol: 'benqi',
+      token: { value: BENQI_CONTRACTS.WAVAX, chain: 'avalanche' },
+      amountWei: (BigInt(5) * BigInt(10) ** BigInt(17)).toString(), // 0.5 AVAX
+      amountUsd: 17.5,
+      claimTo: wallet,
+      discoveredAt: now,
+      estGasLimit: 120000,
+      claimCall: redeemClaimCall(0),
+      nativePayout: true
+    });
+
+    rewards.push({
+      id: `${LENDING_REWARD_PREFIX}-${REWARD_TYPE_QI}-${wallet.value}`,
+      wallet,
+      protocol: 'benqi',
+      token: { value: BENQI_CONTRACTS.QI_TOKEN, chain: 'avalanche' },
+      amountWei: (BigInt(150) * BigInt(10) ** BigInt(18)).toString(), // 150 QI
+      amountUsd: 1.5,
+      claimTo: wallet,
+      discoveredAt: now,
+      estGasLimit: 250000,
+      claimCall: lendingClaimCall(REWARD_TYPE_QI, wallet)
+    });
+
+    rewards.push({
+      id: `${LENDING_REWARD_PREFIX}-${REWARD_TYPE_AVAX}-${wallet.value}`,
+      wallet,
+      protocol: 'benqi',
+      token: { value: BENQI_CONTRACTS.WAVAX, chain: 'avalanche' },
+      amountWei: (BigInt(2) * BigInt(10) ** BigInt(16)).toString(), // 0.02 AVAX
+      amountUsd: 0.7,
+      claimTo: wallet,
+      discoveredAt: now,
+      estGasLimit: 250000,
+      claimCall: lendingClaimCall(REWARD_TYPE_AVAX, wallet),
+      nativePayout: true
+    });
+  }
+
+  return rewards;
+}
+
+/**
+ * Value of a successful read, or throw with the call's error so the wallet's scan can be skipped
+ */
+function readValue(result: CallResult): any {
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.value[0];
+}
+
+/**
+ * Address of the Avalanche signing key. sAVAX redeem pays msg.sender, so only its own unlocks can be claimed.
+ */
+function signerAddress(): string | undefined {
+  try {
+    const key = env.avalanchePrivateKey;
+    return key ? ethers.computeAddress(key.startsWith('0x') ? key : `0x${key}`) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Scan sAVAX unlock requests for the given wallets and return those inside the redeem window
+ */
+async function scanSavaxUnlocks(
+  provider: ethers.Provider,
+  wallets: Address[],
+  requestCounts: CallResult[],
+  cooldownPeriod: bigint,
+  redeemPeriod: bigint,
+  avaxUsd: number
+): Promise<PendingReward[]> {
+  const rewards: PendingReward[] = [];
+  const savax = new ethers.Interface(savaxAbi);
+  const nowSec = BigInt(Math.floor(Date.now() / 1000));
+
+  const requests = wallets.flatMap((wallet, i) => {
+    try {
+      return Array.from({ length: Number(readValue(requestCounts[i])) }, (_, index) => ({ wallet, index }));
+    } catch (error) {
+      console.warn(`Failed to check sAVAX unlock requests for ${wallet.value}:`, error);
+      return [];
+    }
+  });
+  const unlockRequests = await multicall(provider, requests.map(({ wallet, index }) => ({
+    target: BENQI_CONTRACTS.SAVAX_TOKEN,
+    iface: savax,
+    method: 'userUnlockRequests',
+    args: [wallet.value, index]
+  })));
+
+  const matured = requests.flatMap((request, i) => {
+    const result = unlockRequests[i];
+    if (!result.success) {
+      console.warn(`Failed to read sAVAX unlock #${request.index} for ${request.wallet.value}: ${result.error}`);
+      return [];
+    }
+
+    const [startedAt, shareAmount] = result.value;
+    if (BigInt(shareAmount) === BigInt(0)) {
+      return []; // Already redeemed
+    }
+
+    const redeemableAt = BigInt(startedAt) + cooldownPeriod;
+    if (nowSec < redeemableAt) {
+      return []; // Still cooling down
+    }
+    if (nowSec > redeemableAt + redeemPeriod) {
+      console.log(`BENQI: Unlock #${request.index} for ${request.wallet.value} is past its redeem window, skipping`);
+      return [];
+    }
+
+    return [{ ...request, shareAmount: BigInt(shareAmount) }];
+  });
+  const pooled = await multicall(provider, matured.map(({ shareAmount }) => ({
+    target: BENQI_CONTRACTS.SAVAX_TOKEN,
+    iface: savax,
+    method: 'getPooledAvaxByShares',
+    args: [shareAmount]
+  })));
+
+  matured.forEach(({ wallet, index }, i) => {
+    const result = pooled[i];
+    if (!result.success) {
+      console.warn(`Failed to value sAVAX unlock #${index} for ${wallet.value}: ${result.error}`);
+      return;
+    }
+
+    const pooledAvax = BigInt(result.value[0]);
+    const amountUsd = (Number(pooledAvax) / 1e18) * avaxUsd;
+
+    const minItemUsd = resolvePolicy('avalanche', 'benqi').minItemUsd;
+    if (amountUsd < minItemUsd) {
+      console.log(`Skipping small sAVAX redemption: ${amountUsd.toFixed(2)} USD < ${minItemUsd} USD`);
+      return;
+    }
+
+    rewards.push({
+      id: `${SAVAX_UNLOCK_PREFIX}-${wallet.value}-${index}`,
+      wallet,
+      protocol: 'benqi',
+      token: { value: BENQI_CONTRACTS.WAVAX, chain: 'avalanche' },
+      amountWei: pooledAvax.toString(),
+      amountUsd,
+      claimTo: wallet,
+      discoveredAt: new Date(),
+      estGasLimit: 120000,
+      claimCall: redeemClaimCall(index),
+      nativePayout: true
+    });
+    console.log(`Found matured sAVAX unlock #${index}: ${amountUsd.toFixed(2)} USD for ${wallet.value}`);
+  });
+
+  return rewards;
+}
+
+/**
+ * Turn one wallet's Comptroller reads (entered markets and accrued QI / AVAX) into rewards
+ */
+function scanLendingRewards(
+  wallet: Address,
+  markets: string[],
+  accruedByType: Map<number, bigint>,
+  qiUsd: number,
+  avaxUsd: number
+): PendingReward[] {
+  const rewards: PendingReward[] = [];
+
+  // Rewards accrued before exiting a market are still claimable, so an empty market list is not a skip
+  const maxPositions = PROTOCOL_POLICIES.benqi.MAX_LENDING_POSITIONS;
+  if (markets.length > maxPositions) {
+    console.log(`BENQI: ${wallet.value} is in ${markets.length} markets, claiming from the first ${maxPositions}`);
+  }
+  lendingMarketsByWallet.set(wallet.value.toLowerCase(), markets.slice(0, maxPositions));
+
+  const rewardTokens = [
+    { type: REWARD_TYPE_QI, token: BENQI_CONTRACTS.QI_TOKEN, priceUsd: qiUsd, symbol: 'QI', native: false },
+    { type: REWARD_TYPE_AVAX, token: BENQI_CONTRACTS.WAVAX, priceUsd: avaxUsd, symbol: 'AVAX', native: true }
+  ];
+
+  for (const rewardToken of rewardTokens) {
+    const accrued = accruedByType.get(rewardToken.type) ?? BigInt(0);
+    if (accrued === BigInt(0)) {
+      continue;
+    }
+
+    const amountUsd = (Number(accrued) / 1e18) * rewardToken.priceUsd;
+    const minItemUsd = resolvePolicy('avalanche', 'benqi').minItemUsd;
+    if (amountUsd < minItemUsd) {
+      console.log(`Skipping small ${rewardToken.symbol} reward: ${amountUsd.toFixed(2)} USD < ${minItemUsd} USD`);
+      continue;
+    }
+
+    rewards.push({
+      id: `${LENDING_REWARD_PREFIX}-${rewardToken.type}-${wallet.value}`,
+      wallet,
+      protocol: 'benqi',
+      token: { value: rewardToken.token, chain: 'avalanche' },
+      amountWei: accrued.toString(),
+      amountUsd,
+      claimTo: wallet,
+      discoveredAt: new Date(),
+      estGasLimit: 250000,
+      claimCall: lendingClaimCall(rewardToken.type, wallet),
+      nativePayout: rewardToken.native || undefined
+    });
+    console.log(`Found ${rewardToken.symbol} lending reward: ${amountUsd.toFixed(2)} USD for ${wallet.value}`);
+  }
+
+  return rewards;
+}
+
+/**
+ * Get pending BENQI rewards for wallets
+ */
+async function getBenqiPendingRewards(wallets: Address[], mockMode: boolean): Promise<PendingReward[]> {
+  console.log(`BENQI: Scanning rewards for ${wallets.length} wallets...`);
+
+  if (mockMode) {
+    return buildMockRewards(wallets);
+  }
+
+  const rewards: PendingReward[] = [];
+
+  if (!env.avalancheRpcUrl) {
+    console.warn('Avalanche RPC URL not configured');
+    return rewards;
+  }
+
+  if (comptrollerAbi.length === 0 || savaxAbi.length === 0) {
+    console.warn('BENQI ABIs not loaded, skipping reward scan');
+    return rewards;
+  }
+
+  try {
+    const provider = getRpcProvider();
+    const savax = new ethers.Interface(savaxAbi);
+    const comptroller = new ethers.Interface(comptrollerAbi);
+
+    // Redeem periods plus every per-wallet read that does not depend on an earlier one, in one pass
+    const perWallet = 4;
+    const results = await multicall(provider, [
+      { target: BENQI_CONTRACTS.SAVAX_TOKEN, iface: savax, method: 'cooldownPeriod' },
+      { target: BENQI_CONTRACTS.SAVAX_TOKEN, iface: savax, method: 'redeemPeriod' },
+      ...wallets.flatMap(wallet => [
+        { target: BENQI_CONTRACTS.SAVAX_TOKEN, iface: savax, method: 'getUnlockRequestCount', args: [wallet.value] },
+        { target: BENQI_CONTRACTS.COMPTROLLER, iface: comptroller, method: 'getAssetsIn', args: [wallet.value] },
+        { target: BENQI_CONTRACTS.COMPTROLLER, iface: comptroller, method: 'rewardAccrued', args: [REWARD_TYPE_QI, wallet.value] },
+        { target: BENQI_CONTRACTS.COMPTROLLER, iface: comptroller, method: 'rewardAccrued', args: [REWARD_TYPE_AVAX, wallet.value] }
+      ])
+    ]);
+    const walletResults = (i: number) => results.slice(2 + i * perWallet, 2 + (i + 1) * perWallet);
+
+    const avaxUsd = await nativeUsd();
+    const cooldownPeriod = BigInt(readValue(results[0]));
+    const redeemPeriod = BigInt(readValue(results[1]));
+
+    // Other wallets' unlocks would be refused at send time and get the wallet quarantined
+    const signer = signerAddress()?.toLowerCase();
+    const unlockWallets = wallets
+      .map((wallet, i) => ({ wallet, requestCount: walletResults(i)[0] }))
+      .filter(({ wallet }) => wallet.value.toLowerCase() === signer);
+
+    try {
+      rewards.push(...await scanSavaxUnlocks(
+        provider,
+        unlockWallets.map(({ wallet }) => wallet),
+        unlockWallets.map(({ requestCount }) => requestCount),
+        cooldownPeriod,
+        redeemPeriod,
+        avaxUsd
+      ));
+    } catch (error) {
+      console.warn('Failed to check sAVAX unlock requests:', error);
+    }
+
+    const qiUsd = await getTokenUsdPrice('avalanche', BENQI_CONTRACTS.QI_TOKEN, 18, 'QI') ?? env.qiPriceUsd;
+    wallets.forEach((wallet, i) => {
+      try {
+        const [, assetsIn, accruedQi, accruedAvax] = walletResults(i);
+        const accruedByType = new Map([
+          [REWARD_TYPE_QI, BigInt(readValue(accruedQi))],
+          [REWARD_TYPE_AVAX, BigInt(readValue(accruedAvax))]
+        ]);
+        rewards.push(...scanLendingRewards(wallet, Array.from(readValue(assetsIn)), accruedByType, qiUsd, avaxUsd));
+      } catch (error) {
+        console.warn(`Failed to check BENQI lending rewards for ${wallet.value}:`, error);
+      }
+    });
+  } catch (error) {
+    console.error('Failed to scan BENQI rewards:', error);
+  }
+
+  console.log(`BENQI: Found ${rewards.length} claimable rewards`);
+  return rewards;
+}
+
+/**
+ * Encode a call against a loaded ABI, falling back to the bare signature when the ABI is missing
+ */
+function encodeCall(abi: any[], signature: string, args: unknown[]): string {
+  const iface = abi.length > 0 ? new ethers.Interface(abi) : new ethers.Interface([`function ${signature}`]);
+  return iface.encodeFunctionData(signature, args);
+}
+
+/**
+ * Parse the unlock index from a sAVAX redemption reward id
+ */
+function parseUnlockIndex(reward: PendingReward): number {
+  const index = Number(reward.id.substring(reward.id.lastIndexOf('-') + 1));
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error(`Invalid sAVAX unlock reward id: ${reward.id}`);
+  }
+  return index;
+}
+
+/**
+ * Markets to pass to claimReward, capped at MAX_LENDING_POSITIONS
+ */
+function getClaimMarkets(holder: Address): string[] {
+  const scanned = lendingMarketsByWallet.get(holder.value.toLowerCase());
+  if (scanned && scanned.length > 0) {
+    return scanned;
+  }
+  return [BENQI_CONTRACTS.QAVAX, BENQI_CONTRACTS.QUSDC, BENQI_CONTRACTS.QUSDT]
+    .slice(0, PROTOCOL_POLICIES.benqi.MAX_LENDING_POSITIONS);
+}
+
+/**
+ * Comptroller claimReward for one reward type; anyone may call it for a holder, so it can be batched
+ */
+function lendingClaimCall(rewardType: number, holder: Address): ClaimCall {
+  return {
+    target: BENQI_CONTRACTS.COMPTROLLER,
+    callData: encodeCall(comptrollerAbi, 'claimReward(uint8,address,address[])', [rewardType, holder.value, getClaimMarkets(holder)]),
+    value: 0
+  };
+}
+
+/**
+ * sAVAX redeem() for one matured unlock request; it redeems msg.sender's request, so the owner wallet
+ * sends it on its own rather than through the claim router
+ */
+function redeemClaimCall(unlockIndex: number): ClaimCall {
+  return {
+    target: BENQI_CONTRACTS.SAVAX_TOKEN,
+    callData: encodeCall(savaxAbi, 'redeem(uint256)', [unlockIndex]),
+    value: 0,
+    fromWallet: true
+  };
+}
+
+/**
+ * Create a bundle for a single claim call
+ */
+function createBundle(
+  id: string,
+  items: PendingReward[],
+  contractAddress: string,
+  callData: string
+): ClaimBundle {
+  const totalUsd = items.reduce((sum, r) => sum + r.amountUsd, 0);
+  const draft: ClaimBundle = {
+    id,
+    chain: 'avalanche',
+    protocol: 'benqi',
+    claimTo: items[0].claimTo,
+    items,
+    totalUsd,
+    estGasUsd: 0,
+    netUsd: 0,
+    contractAddress,
+    callData,
+    value: 0
+  };
+  const estGasUsd = estimateBundleGasUsd(draft, 'avalanche');
+
+  return { ...draft, estGasUsd, netUsd: Math.max(0, totalUsd - estGasUsd) };
+}
+
+/**
+ * Build claim bundles: one redeem() per matured unlock, one claimReward() per reward type and holder
+ */
+async function buildBenqiClaimBundles(rewards: PendingReward[], mockMode: boolean): Promise<ClaimBundle[]> {
+  if (rewards.length === 0) {
+    return [];
+  }
+
+  console.log(`BENQI: Building claim bundles for ${rewards.length} rewards...`);
+
+  if (!mockMode) {
+    for (const reward of rewards) {
+      if (!isAllowedRecipientNonMock(reward.claimTo)) {
+        throw new Error(`Invalid recipient ${reward.claimTo.value} not allowed in non-mock mode`);
+      }
+    }
+  }
+
+  const bundles: ClaimBundle[] = [];
+  const lendingGroups = new Map<string, PendingReward[]>();
+
+  for (const reward of rewards) {
+    if (reward.id.startsWith(SAVAX_UNLOCK_PREFIX)) {
+      const unlockIndex = parseUnlockIndex(reward);
+      const redeem = redeemClaimCall(unlockIndex);
+      bundles.push(createBundle(
+        `benqi-redeem-${reward.claimTo.value}-${unlockIndex}-${Date.now()}`,
+        [reward],
+        redeem.target,
+        redeem.callData
+      ));
+      continue;
+    }
+
+    if (reward.id.startsWith(LENDING_REWARD_PREFIX)) {
+      const rewardType = Number(reward.id.substring(LENDING_REWARD_PREFIX.length + 1).split('-')[0]);
+      const key = `${rewardType}:${reward.claimTo.value}`;
+      if (!lendingGroups.has(key)) {
+        lendingGroups.set(key, []);
+      }
+      lendingGroups.get(key)!.push(reward);
+      continue;
+    }
+
+    console.warn(`BENQI: Unknown reward ${reward.id}, skipping`);
+  }
+
+  for (const [key, groupedRewards] of lendingGroups) {
+    const rewardType = Number(key.split(':')[0]);
+    const holder = groupedRewards[0].claimTo;
+    const claimCall = lendingClaimCall(rewardType, holder);
+    bundles.push(createBundle(
+      `benqi-claim-${rewardType}-${holder.value}-${Date.now()}`,
+      groupedRewards,
+      claimCall.target,
+      claimCall.callData
+    ));
+  }
+
+  console.log(`BENQI: Created ${bundles.length} claim bundles`);
+  return bundles;
+}
 
 export const benqiIntegration: Integration = {
   key: 'benqi',
   chain: 'avalanche',
 
-  async discoverWallets(): Promise<Address[]> {
-    // TODO: Implement BENQI sAVAX cooldown wallet discovery
-    // This would involve querying:
-    // - sAVAX token holders
-    // - Staking contract participants
-    // - Liquid staking cooldown queue
-    console.log('BENQI: Discovery not implemented yet');
-    return [];
+  async discoverWallets(mockMode: boolean = false): Promise<Address[]> {
+    return await discoverBenqiWallets(mockMode);
   },
 
-  async getPendingRewards(wallets: Address[]): Promise<PendingReward[]> {
-    // TODO: Implement BENQI sAVAX cooldown reward scanning
-    // This would involve:
-    // - Checking cooldown queue for completed cooldowns
-    // - sAVAX staking rewards
-    // - QI token rewards from lending
-    console.log(`BENQI: Reward scanning not implemented for ${wallets.length} wallets`);
-    return [];
+  async getPendingRewards(wallets: Address[], mockMode: boolean = false): Promise<PendingReward[]> {
+    return await getBenqiPendingRewards(wallets, mockMode);
   },
 
-  async buildBundle(rewards: PendingReward[]): Promise<ClaimBundle[]> {
-    // TODO: Implement BENQI-specific bundling logic
-    console.log(`BENQI: Bundle building not implemented for ${rewards.length} rewards`);
-    return [];
+  async buildBundle(rewards: PendingReward[], mockMode: boolean = false): Promise<ClaimBundle[]> {
+    return await buildBenqiClaimBundles(rewards, mockMode);
   }
 };
 
-// BENQI contract addresses on Avalanche (for future implementation)
+// BENQI contract addresses on Avalanche
 export const BENQI_CONTRACTS = {
-  // Liquid staking
+  // Liquid staking (unlock requests and redemptions live on the sAVAX contract)
   SAVAX_TOKEN: '0x2b2C81e08f1Af8835a78Bb2A90AE924ACE0eA4bE',
   STAKING_POOL: '0xE6a5d9F86e97dC7A0e5C3C8E5D2e0C5C0E6a5d9F',
-  
+
   // Lending protocol
   QI_TOKEN: '0x8729438EB15e2C8B576fCc6AeCdA6A148776C0F5',
   COMPTROLLER: '0x486Af39519B4Dc9a7fCcd318217352830E8AD9b4',
-  
+
   // qTokens (interest bearing)
   QAVAX: '0x5C0401e81Bc07Ca70fAD469b451682c0d747Ef1c',
   QUSDC: '0xBEb5d47A3f720Ec0a390d04b4d41ED7d9688bC7F',
   QUSDT: '0xc9e5999b8e75C3fEB117F6f73E664b9f3C8ca65C',
-  
+
   // Native token
   WAVAX: '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7'
-} as const;
\ No newline at end of file
+} as const;
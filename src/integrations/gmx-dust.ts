@@ -1,6 +1,11 @@
-import type { Integration, Address, PendingReward, ClaimBundle } from '../types/common.js';
+import type { Integration, Address, PendingReward, ClaimBundle, ClaimCall } from '../types/common.js';
 import { env } from '../config/env.js';
 import { getDefaultClaimRecipient, isAllowedRecipientNonMock } from '../config/addresses.js';
+import { getTokenUsdPrice } from '../economics/oracle.js';
+import { estimateBundleGasUsd } from '../economics/gas.js';
+import { getTokenRegistry } from '../state/tokenRegistry.js';
+import { multicall } from '../chains/multicall.js';
+import { getRpcProvider } from '../chains/providerPool.js';
 import { ethers } from 'ethers';
 
 /**
@@ -17,15 +22,8 @@ const ERC20_ABI = [
   'event Transfer(address indexed from, address indexed to, uint256 value)'
 ] as const;
 
-/**
- * Default GMX dust collection tokens on Avalanche
- */
-const DEFAULT_DUST_TOKENS = {
-  GMX: '0x62edc0692BD897D2295872a9FFCac5425011c661',
-  USDC: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E',
-  'WETH.e': '0x49D5c2BdFfac6CE2BFdB6640F4F80f226bc10bAB',
-  WAVAX: '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7'
-} as const;
+// Registry tag marking the default GMX dust collection tokens
+const DUST_TOKEN_TAG = 'gmx-dust';
 
 /**
  * Token metadata with fallback pricing
@@ -49,8 +47,8 @@ function getDustTokens(): string[] {
       .filter(addr => addr.length > 0);
   }
   
-  // Use default tokens
-  return Object.values(DEFAULT_DUST_TOKENS);
+  // Use the tokens tagged for dust collection in the token registry
+  return getTokenRegistry().list('avalanche', DUST_TOKEN_TAG).map(token => token.address);
 }
 
 /**
@@ -81,23 +79,31 @@ function getTokenPrice(symbol: string): number {
 }
 
 /**
- * Fetch token metadata (symbol, decimals) from contract
+ * Resolve a token's USD price: explicit <SYMBOL>_PRICE_USD override, then the price oracle,
+ * then the static fallback table
  */
-async function getTokenInfo(tokenAddress: string, provider: ethers.JsonRpcProvider): Promise<TokenInfo> {
+async function resolveTokenPrice(tokenAddress: string, symbol: string, decimals: number): Promise<number> {
+  const envPrice = parseFloat(process.env[`${symbol.toUpperCase()}_PRICE_USD`] || '');
+  if (!isNaN(envPrice) && envPrice > 0) {
+    return envPrice;
+  }
+
+  const oraclePrice = await getTokenUsdPrice('avalanche', tokenAddress, decimals, symbol);
+  return oraclePrice ?? getTokenPrice(symbol);
+}
+
+/**
+ * Resolve token metadata (symbol, decimals) through the token registry
+ */
+async function getTokenInfo(tokenAddress: string): Promise<TokenInfo> {
   try {
-    const contract = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
-    
-    const [symbol, decimals] = await Promise.all([
-      contract.symbol().catch(() => 'UNKNOWN'),
-      contract.decimals().catch(() => 18)
-    ]);
-    
-    const priceUsd = getTokenPrice(symbol);
+    const { symbol, decimals } = await getTokenRegistry().resolve('avalanche', tokenAddress);
+    const priceUsd = await resolveTokenPrice(tokenAddress, symbol, decimals);
     
     return {
       address: tokenAddress,
       symbol,
-      decimals: Number(decimals),
+      decimals,
       priceUsd
     };
   } catch (error) {
@@ -111,26 +117,6 @@ async function getTokenInfo(tokenAddress: string, provider: ethers.JsonRpcProvid
   }
 }
 
-/**
- * Check token balance for a wallet
- */
-async function getTokenBalance(
-  tokenAddress: string, 
-  walletAddress: string, 
-  provider: ethers.JsonRpcProvider
-): Promise<bigint> {
-  try {
-    const contract = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
-    // Ensure addresses are properly checksummed
-    const checksummedWallet = ethers.getAddress(walletAddress);
-    const balance = await contract.balanceOf(checksummedWallet);
-    return BigInt(balance.toString());
-  } catch (error) {
-    console.warn(`Failed to get balance for ${tokenAddress} on ${walletAddress}:`, error);
-    return BigInt(0);
-  }
-}
-
 /**
  * Create ERC20 transfer call data
  */
@@ -146,6 +132,19 @@ function encodeTransferCall(recipient: string, amount: bigint): string {
   }
 }
 
+/**
+ * Sweep of a wallet's token balance to the default recipient; transfer() moves msg.sender's
+ * tokens, so each wallet sends its own sweep
+ */
+function sweepClaimCall(token: string, recipient: Address, amount: bigint): ClaimCall {
+  return {
+    target: token,
+    callData: encodeTransferCall(recipient.value, amount),
+    value: 0,
+    fromWallet: true
+  };
+}
+
 export const gmxDustIntegration: Integration = {
   key: 'gmx-dust',
   chain: 'avalanche',
@@ -189,11 +188,16 @@ export const gmxDustIntegration: Integration = {
       return [];
     }
 
+    // Balances are swept to the default recipient, which is where their payout shows up
+    const recipient = getDefaultClaimRecipient('avalanche');
+
     // Mock mode for testing/demo
     if (env.mockMode) {
       console.log('GMX Dust: Using mock mode for testing');
       const rewards: PendingReward[] = [];
       const now = new Date();
+      const gmx = getTokenRegistry().getBySymbol('avalanche', 'GMX')!.address;
+      const usdc = getTokenRegistry().getBySymbol('avalanche', 'USDC')!.address;
 
       for (const wallet of wallets) {
         // Mock some dust balances
@@ -201,33 +205,35 @@ export const gmxDustIntegration: Integration = {
           id: `gmx-dust-GMX-${wallet.value}-${Date.now()}`,
           wallet,
           protocol: 'gmx-dust',
-          token: { value: DEFAULT_DUST_TOKENS.GMX, chain: 'avalanche' },
+          token: { value: gmx, chain: 'avalanche' },
           amountWei: '50000000000000000', // 0.05 GMX
           amountUsd: 1.25, // 0.05 * $25
-          claimTo: wallet,
+          claimTo: recipient ?? wallet,
           discoveredAt: now,
           estGasLimit: 65000,
-          isSynthetic: true
+          isSynthetic: true,
+          claimCall: recipient ? sweepClaimCall(gmx, recipient, BigInt('50000000000000000')) : undefined
         });
 
         rewards.push({
           id: `gmx-dust-USDC-${wallet.value}-${Date.now() + 1}`,
           wallet,
           protocol: 'gmx-dust',
-          token: { value: DEFAULT_DUST_TOKENS.USDC, chain: 'avalanche' },
+          token: { value: usdc, chain: 'avalanche' },
           amountWei: '750000', // 0.75 USDC (6 decimals)
           amountUsd: 0.75,
-          claimTo: wallet,
+          claimTo: recipient ?? wallet,
           discoveredAt: now,
           estGasLimit: 65000,
-          isSynthetic: true
+          isSynthetic: true,
+          claimCall: recipient ? sweepClaimCall(usdc, recipient, BigInt(750000)) : undefined
         });
       }
 
       return rewards.filter(r => r.amountUsd >= env.gmxItemMinUsd);
     }
 
-    const provider = new ethers.JsonRpcProvider(env.avalancheRpcUrl);
+    const provider = getRpcProvider();
     const dustTokens = getDustTokens();
     const rewards: PendingReward[] = [];
     
@@ -236,48 +242,57 @@ export const gmxDustIntegration: Integration = {
     try {
       // Get token metadata for all tokens
       const tokenInfos = await Promise.all(
-        dustTokens.map(tokenAddress => getTokenInfo(tokenAddress, provider))
+        dustTokens.map(tokenAddress => getTokenInfo(tokenAddress))
       );
 
-      // Scan each wallet
-      for (const wallet of wallets) {
-        console.log(`GMX Dust: Scanning wallet ${wallet.value}...`);
+      // One balanceOf per wallet and token, batched through Multicall3
+      const erc20 = new ethers.Interface(ERC20_ABI);
+      const pairs = wallets.flatMap(wallet => tokenInfos.map(tokenInfo => ({ wallet, tokenInfo })));
+      const results = await multicall(provider, pairs.map(({ wallet, tokenInfo }) => ({
+        target: tokenInfo.address,
+        iface: erc20,
+        method: 'balanceOf',
+        args: [wallet.value]
+      })));
+
+      pairs.forEach(({ wallet, tokenInfo }, index) => {
+        const result = results[index];
+        if (!result.success) {
+          console.warn(`Failed to check ${tokenInfo.symbol} balance for ${wallet.value}: ${result.error}`);
+          return;
+        }
+
+        const balance = BigInt(result.value[0]);
+        if (balance === BigInt(0)) {
+          return;
+        }
+
+        // Calculate USD value
+        const amountTokens = Number(balance) / Math.pow(10, tokenInfo.decimals);
+        const amountUsd = amountTokens * tokenInfo.priceUsd;
+        
+        console.log(`GMX Dust: Found ${amountTokens.toFixed(6)} ${tokenInfo.symbol} ($${amountUsd.toFixed(2)}) in ${wallet.value}`);
         
-        for (const tokenInfo of tokenInfos) {
-          try {
-            const balance = await getTokenBalance(tokenInfo.address, wallet.value, provider);
-            
-            if (balance > BigInt(0)) {
-              // Calculate USD value
-              const amountTokens = Number(balance) / Math.pow(10, tokenInfo.decimals);
-              const amountUsd = amountTokens * tokenInfo.priceUsd;
-              
-              console.log(`GMX Dust: Found ${amountTokens.toFixed(6)} ${tokenInfo.symbol} ($${amountUsd.toFixed(2)}) in ${wallet.value}`);
-              
-              // Filter by minimum USD value
-              if (amountUsd >= env.gmxItemMinUsd) {
-                rewards.push({
-                  id: `gmx-dust-${tokenInfo.symbol}-${wallet.value}-${Date.now()}`,
-                  wallet,
-                  protocol: 'gmx-dust',
-                  token: { value: tokenInfo.address, chain: 'avalanche' },
-                  amountWei: balance.toString(),
-                  amountUsd,
-                  claimTo: wallet,
-                  discoveredAt: new Date(),
-                  estGasLimit: 65000 // Standard ERC20 transfer gas limit
-                });
-                
-                console.log(`✅ GMX Dust: Qualified ${tokenInfo.symbol} worth $${amountUsd.toFixed(2)} (above $${env.gmxItemMinUsd} threshold)`);
-              } else {
-                console.log(`⏭️  GMX Dust: Skipped ${tokenInfo.symbol} worth $${amountUsd.toFixed(2)} (below $${env.gmxItemMinUsd} threshold)`);
-              }
-            }
-          } catch (error) {
-            console.warn(`Failed to check ${tokenInfo.symbol} balance for ${wallet.value}:`, error);
-          }
+        // Filter by minimum USD value
+        if (amountUsd >= env.gmxItemMinUsd) {
+          rewards.push({
+            id: `gmx-dust-${tokenInfo.symbol}-${wallet.value}-${Date.now()}`,
+            wallet,
+            protocol: 'gmx-dust',
+            token: { value: tokenInfo.address, chain: 'avalanche' },
+            amountWei: balance.toString(),
+            amountUsd,
+            claimTo: recipient ?? wallet,
+            discoveredAt: new Date(),
+            estGasLimit: 65000, // Standard ERC20 transfer gas limit
+            claimCall: recipient ? sweepClaimCall(tokenInfo.address, recipient, balance) : undefined
+          });
+          
+          console.log(`✅ GMX Dust: Qualified ${tokenInfo.symbol} worth $${amountUsd.toFixed(2)} (above $${env.gmxItemMinUsd} threshold)`);
+        } else {
+          console.log(`⏭️  GMX Dust: Skipped ${tokenInfo.symbol} worth $${amountUsd.toFixed(2)} (below $${env.gmxItemMinUsd} threshold)`);
         }
-      }
+      });
     } catch (error) {
       console.error('Failed to scan GMX dust tokens:', error);
     }
@@ -323,13 +338,6 @@ export const gmxDustIntegration: Integration = {
       const totalBalance = tokenRewards.reduce((sum, r) => sum + BigInt(r.amountWei), BigInt(0));
       const totalUsd = tokenRewards.reduce((sum, r) => sum + r.amountUsd, 0);
       
-      // Estimate gas cost (25 gwei * 65000 gas * AVAX price)
-      const estimatedGasPrice = 25e9; // 25 gwei
-      const gasLimit = 65000;
-      const gasCostAvax = (gasLimit * estimatedGasPrice) / 1e18;
-      const estGasUsd = gasCostAvax * env.avaxPriceUsd;
-      const netUsd = Math.max(0, totalUsd - estGasUsd);
-      
       // Get token symbol for logging
       const tokenSymbol = tokenRewards[0].id.includes('GMX') ? 'GMX' : 
                          tokenRewards[0].id.includes('USDC') ? 'USDC' :
@@ -339,21 +347,24 @@ export const gmxDustIntegration: Integration = {
       // Create transfer call data
       const callData = encodeTransferCall(defaultRecipient.value, totalBalance);
       
-      const bundle: ClaimBundle = {
+      const draft: ClaimBundle = {
         id: `gmx-dust-${tokenSymbol}-${Date.now()}`,
         chain: 'avalanche',
         protocol: 'gmx-dust',
         claimTo: defaultRecipient,
         items: tokenRewards,
         totalUsd,
-        estGasUsd,
-        netUsd,
+        estGasUsd: 0,
+        netUsd: 0,
         contractAddress: tokenAddress, // Target is the token contract
         callData,
         value: 0 // No ETH/AVAX value needed for ERC20 transfers
       };
       
-      bundles.push(bundle);
+      // Estimate gas cost for the bundle from the calibrated gas model
+      const estGasUsd = estimateBundleGasUsd(draft, 'avalanche');
+      const netUsd = Math.max(0, totalUsd - estGasUsd);
+      bundles.push({ ...draft, estGasUsd, netUsd });
       console.log(`GMX Dust: Created ${tokenSymbol} transfer bundle: ${tokenRewards.length} balances, $${totalUsd.toFixed(2)} total, $${estGasUsd.toFixed(2)} gas, $${netUsd.toFixed(2)} net`);
     }
     
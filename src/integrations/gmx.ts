@@ -1,10 +1,18 @@
-import type { Integration, Address, PendingReward, ClaimBundle } from '../types/common.js';
+import type { Integration, Address, PendingReward, ClaimBundle, ClaimCall } from '../types/common.js';
 import { env } from '../config/env.js';
 import { getDefaultClaimRecipient, isAllowedRecipientNonMock } from '../config/addresses.js';
+import { getTokenUsdPrice } from '../economics/oracle.js';
+import { estimateBundleGasUsd } from '../economics/gas.js';
+import { multicall } from '../chains/multicall.js';
+import { getRpcProvider } from '../chains/providerPool.js';
 import { ethers } from 'ethers';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 
+// Fallback prices when the price oracle has no usable price
+const FALLBACK_GMX_USD = 25.0;
+const FALLBACK_WETH_USD = 3000.0;
+
 // Load GMX RewardRouterV2 ABI
 let rewardRouterAbi: any[] = [];
 let trackerAbi: any[] = [];
@@ -30,28 +38,6 @@ try {
   console.warn('Failed to initialize tracker ABI:', error);
 }
 
-/**
- * Estimate gas cost based on reward types
- */
-function estimateGasCost(esGmxRewards: PendingReward[], feeRewards: PendingReward[]): number {
-  // Base gas cost varies by operation type
-  let baseGas = 200000; // Default gas limit
-  
-  if (esGmxRewards.length > 0 && feeRewards.length > 0) {
-    baseGas = 350000; // Compound operation
-  } else if (esGmxRewards.length > 0) {
-    baseGas = 250000; // Claim esGMX
-  } else {
-    baseGas = 200000; // Claim fees only
-  }
-  
-  // Estimate gas price and cost in USD
-  const estimatedGasPrice = 25e9; // 25 gwei
-  const gasUsd = (baseGas * estimatedGasPrice * 40) / 1e18; // ~$40 per AVAX
-  
-  return gasUsd;
-}
-
 /**
  * Encode handleRewards call for claiming esGMX and WETH only
  * handleRewards(false,false,true,false,false,true,false)
@@ -82,6 +68,18 @@ function encodeHandleRewardsCall(): string {
   }
 }
 
+/**
+ * handleRewards claims for msg.sender, so each wallet sends its own claim
+ */
+function handleRewardsClaimCall(): ClaimCall {
+  return {
+    target: GMX_CONTRACTS.REWARD_ROUTER_V2,
+    callData: encodeHandleRewardsCall(),
+    value: 0,
+    fromWallet: true
+  };
+}
+
 export const gmxIntegration: Integration = {
   key: 'gmx',
   chain: 'avalanche',
@@ -142,6 +140,7 @@ export const gmxIntegration: Integration = {
       
       const mockRewards: PendingReward[] = [];
       const now = new Date();
+      const claimCall = handleRewardsClaimCall();
 
       for (const wallet of wallets) {
         // Mock staked GMX rewards (WETH)
@@ -154,7 +153,8 @@ export const gmxIntegration: Integration = {
           amountUsd: 3.75, // ~$3000 * 1.25
           claimTo: wallet,
           discoveredAt: now,
-          estGasLimit: 180000
+          estGasLimit: 180000,
+          claimCall
         });
 
         // Mock GLP fee rewards (AVAX)
@@ -167,7 +167,8 @@ export const gmxIntegration: Integration = {
           amountUsd: 2.20, // ~$40 * 5.5
           claimTo: wallet,
           discoveredAt: now,
-          estGasLimit: 160000
+          estGasLimit: 160000,
+          claimCall
         });
       }
 
@@ -184,113 +185,59 @@ export const gmxIntegration: Integration = {
     }
 
     try {
-      const provider = new ethers.JsonRpcProvider(env.avalancheRpcUrl);
+      const provider = getRpcProvider();
+      const trackerInterface = new ethers.Interface(trackerAbi);
       
-      // Initialize tracker contracts
-      const feeGmxTracker = new ethers.Contract(GMX_CONTRACTS.FEE_GMX_TRACKER, trackerAbi, provider);
-      const feeGlpTracker = new ethers.Contract(GMX_CONTRACTS.FEE_GLP_TRACKER, trackerAbi, provider);
-      const stakedGmxTracker = new ethers.Contract(GMX_CONTRACTS.STAKED_GMX_TRACKER, trackerAbi, provider);
+      // One claimable() per tracker and wallet, batched through Multicall3
+      const reads = wallets.flatMap(wallet => GMX_REWARD_TRACKERS.map(tracker => ({ wallet, tracker })));
+      const results = await multicall(provider, reads.map(({ wallet, tracker }) => ({
+        target: tracker.address,
+        iface: trackerInterface,
+        method: 'claimable',
+        args: [wallet.value.toLowerCase()]
+      })));
       
-      for (const wallet of wallets) {
-        try {
-          const now = new Date();
-          const acct = wallet.value.toLowerCase();
-          
-          // Check claimable esGMX rewards from stakedGmxTracker
-          let claimableEsGmx = BigInt(0);
-          try {
-            claimableEsGmx = await stakedGmxTracker.claimable(acct);
-          } catch (error) {
-            console.warn(`Failed to get claimable esGMX from stakedGmxTracker for ${wallet.value}:`, error);
-          }
-          
-          if (claimableEsGmx > BigInt(0)) {
-            // Price esGMX (simplified - in real implementation would use pricing service)
-            const esGmxDecimals = 18;
-            const amountTokens = Number(claimableEsGmx) / Math.pow(10, esGmxDecimals);
-            const estimatedPricePerToken = 25.0; // Placeholder price ~$25 per GMX
-            const amountUsd = amountTokens * estimatedPricePerToken;
-            
-            if (amountUsd >= env.gmxMinUsd) {
-              rewards.push({
-                id: `gmx-es-gmx-${wallet.value}-${Date.now()}`,
-                wallet,
-                protocol: 'gmx',
-                token: { value: GMX_CONTRACTS.ES_GMX_TOKEN, chain: 'avalanche' },
-                amountWei: claimableEsGmx.toString(),
-                amountUsd,
-                claimTo: wallet,
-                discoveredAt: now,
-                estGasLimit: 200000
-              });
-              console.log(`Found esGMX reward: ${amountUsd.toFixed(2)} USD for ${wallet.value}`);
-            }
-          }
-          
-          // Check claimable WETH fee rewards from feeGmxTracker
-          let claimableFeeGmx = BigInt(0);
-          try {
-            claimableFeeGmx = await feeGmxTracker.claimable(acct);
-          } catch (error) {
-            console.warn(`Failed to get claimable WETH from feeGmxTracker for ${wallet.value}:`, error);
-          }
-          
-          if (claimableFeeGmx > BigInt(0)) {
-            // Price WETH fee rewards
-            const wethDecimals = 18;
-            const amountTokens = Number(claimableFeeGmx) / Math.pow(10, wethDecimals);
-            const estimatedPricePerToken = 3000.0; // Placeholder price ~$3000 per WETH
-            const amountUsd = amountTokens * estimatedPricePerToken;
-            
-            if (amountUsd >= env.gmxMinUsd) {
-              rewards.push({
-                id: `gmx-fee-weth-${wallet.value}-${Date.now()}`,
-                wallet,
-                protocol: 'gmx',
-                token: { value: GMX_CONTRACTS.WETH, chain: 'avalanche' },
-                amountWei: claimableFeeGmx.toString(),
-                amountUsd,
-                claimTo: wallet,
-                discoveredAt: now,
-                estGasLimit: 180000
-              });
-              console.log(`Found WETH fee reward: ${amountUsd.toFixed(2)} USD for ${wallet.value}`);
-            }
-          }
-          
-          // Check claimable WETH fee rewards from feeGlpTracker
-          let claimableFeeGlp = BigInt(0);
-          try {
-            claimableFeeGlp = await feeGlpTracker.claimable(acct);
-          } catch (error) {
-            console.warn(`Failed to get claimable WETH from feeGlpTracker for ${wallet.value}:`, error);
-          }
-          
-          if (claimableFeeGlp > BigInt(0)) {
-            // Price WETH fee rewards from GLP
-            const wethDecimals = 18;
-            const amountTokens = Number(claimableFeeGlp) / Math.pow(10, wethDecimals);
-            const estimatedPricePerToken = 3000.0; // Placeholder price ~$3000 per WETH
-            const amountUsd = amountTokens * estimatedPricePerToken;
-            
-            if (amountUsd >= env.gmxMinUsd) {
-              rewards.push({
-                id: `gmx-fee-glp-weth-${wallet.value}-${Date.now()}`,
-                wallet,
-                protocol: 'gmx',
-                token: { value: GMX_CONTRACTS.WETH, chain: 'avalanche' },
-                amountWei: claimableFeeGlp.toString(),
-                amountUsd,
-                claimTo: wallet,
-                discoveredAt: now,
-                estGasLimit: 160000
-              });
-              console.log(`Found GLP WETH fee reward: ${amountUsd.toFixed(2)} USD for ${wallet.value}`);
-            }
-          }
-          
-        } catch (error) {
-          console.warn(`Failed to check GMX rewards for ${wallet.value}:`, error);
+      // Reward tokens are priced once per scan rather than once per wallet
+      const prices = new Map<string, number>();
+      const priceOf = async (tracker: typeof GMX_REWARD_TRACKERS[number]): Promise<number> => {
+        if (!prices.has(tracker.priceToken)) {
+          prices.set(tracker.priceToken, await getTokenUsdPrice('avalanche', tracker.priceToken, 18, tracker.priceSymbol) ?? tracker.fallbackUsd);
+        }
+        return prices.get(tracker.priceToken)!;
+      };
+      
+      const now = new Date();
+      const claimCall = handleRewardsClaimCall();
+      for (const [index, { wallet, tracker }] of reads.entries()) {
+        const result = results[index];
+        if (!result.success) {
+          console.warn(`Failed to get claimable ${tracker.label} for ${wallet.value}: ${result.error}`);
+          continue;
+        }
+        
+        const claimable = BigInt(result.value[0]);
+        if (claimable === BigInt(0)) {
+          continue;
+        }
+        
+        // esGMX vests 1:1 into GMX, so it is priced as GMX; fee rewards are paid in WETH
+        const amountTokens = Number(claimable) / 1e18;
+        const amountUsd = amountTokens * await priceOf(tracker);
+        
+        if (amountUsd >= env.gmxMinUsd) {
+          rewards.push({
+            id: `${tracker.idPrefix}-${wallet.value}-${Date.now()}`,
+            wallet,
+            protocol: 'gmx',
+            token: { value: tracker.rewardToken, chain: 'avalanche' },
+            amountWei: claimable.toString(),
+            amountUsd,
+            claimTo: wallet,
+            discoveredAt: now,
+            estGasLimit: tracker.estGasLimit,
+            claimCall
+          });
+          console.log(`Found ${tracker.rewardName} reward: ${amountUsd.toFixed(2)} USD for ${wallet.value}`);
         }
       }
       
@@ -354,35 +301,30 @@ export const gmxIntegration: Integration = {
     const bundles: ClaimBundle[] = [];
     
     for (const [recipientKey, groupedRewards] of bundleMap) {
-      // Separate rewards by type to determine the best claiming strategy
-      const esGmxRewards = groupedRewards.filter(r => r.id.includes('es-gmx'));
-      const feeRewards = groupedRewards.filter(r => r.id.includes('fee-'));
-      
       const firstReward = groupedRewards[0];
       const totalUsd = groupedRewards.reduce((sum, r) => sum + r.amountUsd, 0);
       
-      // Estimate gas cost for the bundle
-      const estGasUsd = estimateGasCost(esGmxRewards, feeRewards);
-      const netUsd = Math.max(0, totalUsd - estGasUsd);
-      
       // Use handleRewards for all GMX claiming - it handles both esGMX and WETH
-      const callData = encodeHandleRewardsCall();
-      const contractAddress = GMX_CONTRACTS.REWARD_ROUTER_V2;
+      const { target: contractAddress, callData } = firstReward.claimCall ?? handleRewardsClaimCall();
       
-      const bundle: ClaimBundle = {
+      const draft: ClaimBundle = {
         id: `gmx-bundle-${Date.now()}`,
         chain: 'avalanche',
         protocol: 'gmx',
         claimTo: firstReward.claimTo,
         items: groupedRewards,
         totalUsd,
-        estGasUsd,
-        netUsd,
+        estGasUsd: 0,
+        netUsd: 0,
         contractAddress,
         callData,
         value: 0 // No ETH/AVAX value needed for GMX claims
       };
       
+      // Estimate gas cost for the bundle from the calibrated gas model
+      const estGasUsd = estimateBundleGasUsd(draft, 'avalanche');
+      const bundle: ClaimBundle = { ...draft, estGasUsd, netUsd: Math.max(0, totalUsd - estGasUsd) };
+      
       bundles.push(bundle);
       console.log(`GMX: Created bundle with ${groupedRewards.length} rewards, estimated gas: $${estGasUsd.toFixed(2)}`);
     }
@@ -415,4 +357,40 @@ export const GMX_CONTRACTS = {
   // Reward tokens
   WETH: '0x49D5c2BdFfac6CE2BFdB6640F4F80f226bc10bAB',
   WAVAX: '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7'
-} as const;
\ No newline at end of file
+} as const;
+// Trackers whose claimable() rewards handleRewards collects, with how each reward is priced
+const GMX_REWARD_TRACKERS = [
+  {
+    address: GMX_CONTRACTS.STAKED_GMX_TRACKER,
+    label: 'esGMX from stakedGmxTracker',
+    rewardName: 'esGMX',
+    idPrefix: 'gmx-es-gmx',
+    rewardToken: GMX_CONTRACTS.ES_GMX_TOKEN,
+    priceToken: GMX_CONTRACTS.GMX_TOKEN,
+    priceSymbol: 'GMX',
+    fallbackUsd: FALLBACK_GMX_USD,
+    estGasLimit: 200000
+  },
+  {
+    address: GMX_CONTRACTS.FEE_GMX_TRACKER,
+    label: 'WETH from feeGmxTracker',
+    rewardName: 'WETH fee',
+    idPrefix: 'gmx-fee-weth',
+    rewardToken: GMX_CONTRACTS.WETH,
+    priceToken: GMX_CONTRACTS.WETH,
+    priceSymbol: 'WETH.e',
+    fallbackUsd: FALLBACK_WETH_USD,
+    estGasLimit: 180000
+  },
+  {
+    address: GMX_CONTRACTS.FEE_GLP_TRACKER,
+    label: 'WETH from feeGlpTracker',
+    rewardName: 'GLP WETH fee',
+    idPrefix: 'gmx-fee-glp-weth',
+    rewardToken: GMX_CONTRACTS.WETH,
+    priceToken: GMX_CONTRACTS.WETH,
+    priceSymbol: 'WETH.e',
+    fallbackUsd: FALLBACK_WETH_USD,
+    estGasLimit: 160000
+  }
+] as const;
@@ -1,122 +1,245 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { Integration, Address, PendingReward, ClaimBundle } from '../types/common.js';
+import type { Integration, Address, PendingReward, ClaimBundle, ClaimCall } from '../types/common.js';
 import { groupByContract } from '../engine/bundler.js';
+import { env } from '../config/env.js';
+import { getDefaultClaimRecipient, isAllowedRecipientNonMock } from '../config/addresses.js';
+import { resolvePolicy } from '../economics/policy.js';
+import { estimateBundleGasUsd } from '../economics/gas.js';
+import { getTokenUsdPrice } from '../economics/oracle.js';
+import { createReadOnlyTronWeb, callConstant, tronToEvmAddress } from './_tron.js';
+import { ethers } from 'ethers';
 
-export const justlendIntegration: Integration = {
-  key: 'justlend',
-  chain: 'tron',
+const JST_DECIMALS = 18;
 
-  async discoverWallets(): Promise<Address[]> {
-    // TODO: Implement real JustLend wallet discovery
-    // This would involve querying JustLend contracts for:
-    // - Lenders with accrued interest
-    // - Borrowers with pending rewards
-    // - JToken holders with earned rewards
-    
-    const mockWallets: Address[] = [
-      { value: 'TLPpXqMKVVsVUTGKrKWScDqVq66dGKJCqF', chain: 'tron' },
-      { value: 'TMuA6YqfCeX8EhbfYEg5y7S4DqzSJireY9', chain: 'tron' },
-      { value: 'TUoHaVjx7n5xz2QAXd2YGFQHBjN8LNmJPw', chain: 'tron' }
-    ];
-
-    console.log(`JustLend: Discovered ${mockWallets.length} wallets (mock mode)`);
-    return mockWallets;
-  },
+const comptrollerInterface = new ethers.Interface([
+  'function claimReward(address holder)'
+]);
 
-  async getPendingRewards(wallets: Address[]): Promise<PendingReward[]> {
-    const mockMode = process.env.MOCK_MODE === 'true';
-    
-    if (!mockMode) {
-      // TODO: Implement real JustLend reward scanning
-      // This would involve:
-      // - Querying JToken contracts for accrued interest
-      // - Checking reward pool contracts for pending JST/TRX rewards
-      // - Analyzing lending/borrowing positions
-      console.log('JustLend: Real mode not implemented yet');
-      return [];
-    }
+/**
+ * Configured Tron wallets: WALLET_SCAN_TRON plus the default Tron claim recipient
+ */
+function getConfiguredWallets(): Address[] {
+  const wallets: Address[] = (env.walletScanTron || '')
+    .split(',')
+    .map(addr => addr.trim())
+    .filter(addr => addr.length > 0)
+    .map(addr => ({ value: addr, chain: 'tron' as const }));
+
+  const defaultRecipient = getDefaultClaimRecipient('tron');
+  if (defaultRecipient && !wallets.some(w => w.value === defaultRecipient.value)) {
+    wallets.push(defaultRecipient);
+  }
 
-    // Mock mode: create sample pending rewards
-    const rewards: PendingReward[] = [];
-    
-    // Create one meaningful reward for testing
-    if (wallets.length > 0) {
-      const wallet = wallets[0];
-      if (!wallet) return rewards;
-      
-      const reward: PendingReward = {
+  return wallets;
+}
+
+/**
+ * Deterministic mock fixture: one meaningful USDT reward plus a few small ones for bundling tests
+ */
+function buildMockRewards(wallets: Address[]): PendingReward[] {
+  const rewards: PendingReward[] = [];
+
+  // Create one meaningful reward for testing
+  if (wallets.length > 0) {
+    const wallet = wallets[0];
+    if (!wallet) return rewards;
+
+    const reward: PendingReward = {
+      id: uuidv4(),
+      wallet,
+      protocol: 'justlend',
+      token: {
+        value: 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', // USDT-TRC20
+        chain: 'tron'
+      },
+      amountWei: '2500000', // 2.5 USDT (6 decimals)
+      amountUsd: 2.50,
+      claimTo: wallet, // Claim back to same wallet
+      discoveredAt: new Date(),
+      lastClaimAt: undefined as any // Never claimed before
+    };
+
+    rewards.push(reward);
+
+    // Add a few smaller rewards to test bundling
+    for (let i = 1; i < Math.min(wallets.length, 3); i++) {
+      const smallWallet = wallets[i];
+      if (!smallWallet) continue;
+
+      const smallReward: PendingReward = {
         id: uuidv4(),
-        wallet,
+        wallet: smallWallet,
         protocol: 'justlend',
-        token: { 
-          value: 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', // USDT-TRC20
-          chain: 'tron' 
+        token: {
+          value: 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t',
+          chain: 'tron'
         },
-        amountWei: '2500000', // 2.5 USDT (6 decimals)
-        amountUsd: 2.50,
-        claimTo: wallet, // Claim back to same wallet
-        discoveredAt: new Date(),
-        lastClaimAt: undefined as any // Never claimed before
+        amountWei: (150000 + i * 50000).toString(), // 0.15-0.25 USDT
+        amountUsd: 0.15 + i * 0.05,
+        claimTo: smallWallet,
+        discoveredAt: new Date()
       };
-      
-      rewards.push(reward);
-      
-      // Add a few smaller rewards to test bundling
-      for (let i = 1; i < Math.min(wallets.length, 3); i++) {
-        const smallWallet = wallets[i];
-        if (!smallWallet) continue;
-        
-        const smallReward: PendingReward = {
-          id: uuidv4(),
-          wallet: smallWallet,
-          protocol: 'justlend',
-          token: { 
-            value: 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t',
-            chain: 'tron' 
-          },
-          amountWei: (150000 + i * 50000).toString(), // 0.15-0.25 USDT
-          amountUsd: 0.15 + i * 0.05,
-          claimTo: smallWallet,
-          discoveredAt: new Date()
-        };
-        
-        rewards.push(smallReward);
+
+      rewards.push(smallReward);
+    }
+  }
+
+  return rewards;
+}
+
+/**
+ * Read accrued JST mining rewards from the comptroller and price them via the price oracle
+ */
+async function scanJstRewards(wallets: Address[]): Promise<PendingReward[]> {
+  const rewards: PendingReward[] = [];
+  if (wallets.length === 0) {
+    return rewards;
+  }
+
+  const jstPrice = await getTokenUsdPrice('tron', JUSTLEND_CONTRACTS.TOKENS.JST, JST_DECIMALS, 'JST');
+  if (jstPrice === null) {
+    console.warn('JustLend: No JST price available, skipping reward scan');
+    return rewards;
+  }
+
+  const tronWeb = createReadOnlyTronWeb();
+
+  for (const wallet of wallets) {
+    try {
+      const accrued = BigInt(await getPendingJstRewards(wallet.value, tronWeb));
+      if (accrued === BigInt(0)) {
+        continue;
       }
+
+      const amountUsd = (Number(accrued) / Math.pow(10, JST_DECIMALS)) * jstPrice;
+      const minItemUsd = resolvePolicy('tron', 'justlend').minItemUsd;
+      if (amountUsd < minItemUsd) {
+        console.log(`Skipping small JST reward: ${amountUsd.toFixed(2)} USD < ${minItemUsd} USD`);
+        continue;
+      }
+
+      rewards.push({
+        id: `justlend-jst-${wallet.value}`,
+        wallet,
+        protocol: 'justlend',
+        token: { value: JUSTLEND_CONTRACTS.TOKENS.JST, chain: 'tron' },
+        amountWei: accrued.toString(),
+        amountUsd,
+        claimTo: wallet,
+        discoveredAt: new Date(),
+        claimCall: justLendClaimCall(wallet.value)
+      });
+      console.log(`Found JST reward: ${amountUsd.toFixed(2)} USD for ${wallet.value}`);
+    } catch (error) {
+      console.warn(`Failed to check JST rewards for ${wallet.value}:`, error);
     }
+  }
+
+  return rewards;
+}
+
+export const justlendIntegration: Integration = {
+  key: 'justlend',
+  chain: 'tron',
 
-    console.log(`JustLend: Found ${rewards.length} pending rewards (mock mode)`);
+  async discoverWallets(mockMode: boolean = process.env.MOCK_MODE === 'true'): Promise<Address[]> {
+    if (mockMode) {
+      const mockWallets: Address[] = [
+        { value: 'TLPpXqMKVVsVUTGKrKWScDqVq66dGKJCqF', chain: 'tron' },
+        { value: 'TMuA6YqfCeX8EhbfYEg5y7S4DqzSJireY9', chain: 'tron' },
+        { value: 'TUoHaVjx7n5xz2QAXd2YGFQHBjN8LNmJPw', chain: 'tron' }
+      ];
+
+      console.log(`JustLend: Discovered ${mockWallets.length} wallets (mock mode)`);
+      return mockWallets;
+    }
+
+    const wallets = getConfiguredWallets();
+    console.log(`JustLend: Using ${wallets.length} configured Tron wallets`);
+    return wallets;
+  },
+
+  async getPendingRewards(wallets: Address[], mockMode: boolean = process.env.MOCK_MODE === 'true'): Promise<PendingReward[]> {
+    if (mockMode) {
+      const rewards = buildMockRewards(wallets);
+      console.log(`JustLend: Found ${rewards.length} pending rewards (mock mode)`);
+      return rewards;
+    }
+
+    console.log(`JustLend: Scanning JST rewards for ${wallets.length} wallets...`);
+    const rewards = await scanJstRewards(wallets);
+    console.log(`JustLend: Found ${rewards.length} claimable rewards`);
     return rewards;
   },
 
-  async buildBundle(rewards: PendingReward[]): Promise<ClaimBundle[]> {
+  async buildBundle(rewards: PendingReward[], mockMode: boolean = process.env.MOCK_MODE === 'true'): Promise<ClaimBundle[]> {
     if (rewards.length === 0) {
       return [];
     }
 
     // Filter for JustLend rewards only
     const justlendRewards = rewards.filter(r => r.protocol === 'justlend');
-    
+
     if (justlendRewards.length === 0) {
       return [];
     }
 
-    // Use the common bundler to group rewards
-    const bundles = groupByContract(justlendRewards);
-    
+    if (mockMode) {
+      // Use the common bundler to group the mock fixture
+      const bundles = groupByContract(justlendRewards);
+      console.log(`JustLend: Created ${bundles.length} bundles from ${justlendRewards.length} rewards`);
+      return bundles;
+    }
+
+    for (const reward of justlendRewards) {
+      if (!isAllowedRecipientNonMock(reward.claimTo)) {
+        throw new Error(`Invalid recipient ${reward.claimTo.value} not allowed in non-mock mode`);
+      }
+    }
+
+    // claimReward(holder) pays every accrued reward of a holder, so bundle per holder
+    const byHolder = new Map<string, PendingReward[]>();
+    for (const reward of justlendRewards) {
+      if (!byHolder.has(reward.wallet.value)) {
+        byHolder.set(reward.wallet.value, []);
+      }
+      byHolder.get(reward.wallet.value)!.push(reward);
+    }
+
+    const bundles: ClaimBundle[] = [];
+    for (const [holder, holderRewards] of byHolder) {
+      const { contractAddress, callData } = buildJustLendClaimTx(holder);
+      const totalUsd = holderRewards.reduce((sum, r) => sum + r.amountUsd, 0);
+      const draft: ClaimBundle = {
+        id: `justlend-claim-${holder}-${Date.now()}`,
+        chain: 'tron',
+        protocol: 'justlend',
+        claimTo: holderRewards[0].claimTo,
+        items: holderRewards,
+        totalUsd,
+        estGasUsd: 0,
+        netUsd: 0,
+        contractAddress,
+        callData,
+        value: 0
+      };
+      const estGasUsd = estimateBundleGasUsd(draft, 'tron');
+      bundles.push({ ...draft, estGasUsd, netUsd: Math.max(0, totalUsd - estGasUsd) });
+    }
+
     console.log(`JustLend: Created ${bundles.length} bundles from ${justlendRewards.length} rewards`);
-    
     return bundles;
   }
 };
 
-// JustLend-specific contract addresses (for future implementation)
+// JustLend-specific contract addresses
 export const JUSTLEND_CONTRACTS = {
   // Mainnet contract addresses
   USDT_JTOKEN: 'TXJgMdjVX5dKiGhQzd8kEgpekeLhDuYf5W',
   TRX_JTOKEN: 'TL1LjJXMAkKspAWUJp5LwGi96qKwJEVhKA',
   JST_TOKEN: 'TCFLL5dx5ZJdKnWuesXxi1VPwjLVmWZZy9',
   COMPTROLLER: 'TL3hKa7jqaB1j7xXhkrYJ9K8wZ2fGQwLhM',
-  
+
   // Token addresses for rewards
   TOKENS: {
     USDT: 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t',
@@ -136,13 +259,36 @@ export async function getAccruedInterest(_walletAddress: string, _jTokenAddress:
   throw new Error('getAccruedInterest not implemented');
 }
 
-export async function getPendingJstRewards(_walletAddress: string): Promise<string> {
-  // TODO: Implement JST reward checking from comptroller
-  throw new Error('getPendingJstRewards not implemented');
+/**
+ * Read JST mining rewards accrued to a wallet on the comptroller (raw amount, 18 decimals)
+ */
+export async function getPendingJstRewards(walletAddress: string, tronWeb: any = createReadOnlyTronWeb()): Promise<string> {
+  const [accrued] = await callConstant(
+    tronWeb,
+    JUSTLEND_CONTRACTS.COMPTROLLER,
+    'rewardAccrued(address)',
+    [{ type: 'address', value: walletAddress }],
+    ['uint256'],
+    walletAddress
+  );
+  return BigInt(accrued).toString();
+}
+
+/**
+ * Comptroller claimReward(holder) call for a Tron wallet
+ */
+function justLendClaimCall(holder: string): ClaimCall {
+  return {
+    target: JUSTLEND_CONTRACTS.COMPTROLLER,
+    callData: comptrollerInterface.encodeFunctionData('claimReward', [tronToEvmAddress(holder)]),
+    value: 0
+  };
 }
 
-export async function buildJustLendClaimTx(_rewards: PendingReward[]): Promise<any> {
-  // TODO: Implement actual claim transaction building
-  // This would involve calling the appropriate JustLend contract methods
-  throw new Error('buildJustLendClaimTx not implemented');
-}
\ No newline at end of file
+/**
+ * Build the comptroller claimReward(holder) call for a Tron wallet
+ */
+export function buildJustLendClaimTx(holder: string): { contractAddress: string; callData: string } {
+  const { target, callData } = justLendClaimCall(holder);
+  return { contractAddress: target, callData };
+}
@@ -1,49 +1,282 @@
-import type { Integration, Address, PendingReward, ClaimBundle } from '../types/common.js';
+import type { Integration, Address, PendingReward, ClaimBundle, ClaimCall } from '../types/common.js';
+import { env } from '../config/env.js';
+import { getDefaultClaimRecipient, isAllowedRecipientNonMock } from '../config/addresses.js';
+import { Policy, PROTOCOL_POLICIES, resolvePolicy } from '../economics/policy.js';
+import { estimateBundleGasUsd } from '../economics/gas.js';
+import { getTokenUsdPrice } from '../economics/oracle.js';
+import { createReadOnlyTronWeb, callConstant } from './_tron.js';
+import { ethers } from 'ethers';
+
+/**
+ * SunSwap Farming Integration (Tron)
+ * Pending SUN on the MasterChef-style SUN farm, harvested with deposit(pid, 0). The harvest pays
+ * msg.sender, so only wallets the bot signs for (WALLET_SCAN_TRON, default recipient) are scanned.
+ */
+
+const FARM_REWARD_PREFIX = 'sunswap-farm';
+const SUN_DECIMALS = 18;
+
+const farmInterface = new ethers.Interface([
+  'function deposit(uint256 _pid, uint256 _amount)'
+]);
+
+/**
+ * Harvest call for a farm pool: deposit(pid, 0) pays pending SUN to msg.sender
+ */
+function harvestClaimCall(pid: number): ClaimCall {
+  return {
+    target: SUNSWAP_CONTRACTS.SUN_FARM,
+    callData: farmInterface.encodeFunctionData('deposit', [pid, 0]),
+    value: 0,
+    fromWallet: true
+  };
+}
+
+/**
+ * Parse comma-separated Tron wallets from WALLET_SCAN_TRON
+ */
+function getConfiguredWallets(): Address[] {
+  const wallets: Address[] = (env.walletScanTron || '')
+    .split(',')
+    .map(addr => addr.trim())
+    .filter(addr => addr.length > 0)
+    .map(addr => ({ value: addr, chain: 'tron' as const }));
+
+  const defaultRecipient = getDefaultClaimRecipient('tron');
+  if (defaultRecipient) {
+    wallets.push(defaultRecipient);
+  }
+
+  return wallets;
+}
+
+/**
+ * Discover SunSwap farm wallets: the configured wallets. Other farm depositors are not scanned,
+ * since their SUN can only be harvested by themselves.
+ */
+async function discoverSunswapWallets(mockMode: boolean): Promise<Address[]> {
+  console.log('SunSwap: Starting wallet discovery...');
+
+  if (mockMode) {
+    return [
+      { value: 'TLPpXqMKVVsVUTGKrKWScDqVq66dGKJCqF', chain: 'tron' },
+      { value: 'TMuA6YqfCeX8EhbfYEg5y7S4DqzSJireY9', chain: 'tron' }
+    ];
+  }
+
+  const candidates = getConfiguredWallets();
+
+  // Deduplicate and cap
+  const seen = new Set<string>();
+  const wallets = candidates.filter(wallet => {
+    if (seen.has(wallet.value)) return false;
+    seen.add(wallet.value);
+    return true;
+  }).slice(0, Policy.MAX_DISCOVERY_WALLETS);
+
+  console.log(`SunSwap: Discovered ${wallets.length} wallets`);
+  return wallets;
+}
+
+/**
+ * Farm pool ids to scan: SUNSWAP_FARM_PIDS when set, otherwise every pool on the farm
+ */
+async function getFarmPids(tronWeb: any, ownerAddress: string): Promise<number[]> {
+  let pids: number[];
+
+  if (env.sunswapFarmPids) {
+    pids = env.sunswapFarmPids
+      .split(',')
+      .map(pid => parseInt(pid.trim(), 10))
+      .filter(pid => Number.isInteger(pid) && pid >= 0);
+  } else {
+    const [poolLength] = await callConstant(
+      tronWeb, SUNSWAP_CONTRACTS.SUN_FARM, 'poolLength()', [], ['uint256'], ownerAddress
+    );
+    pids = Array.from({ length: Number(poolLength) }, (_, pid) => pid);
+  }
+
+  return pids.slice(0, PROTOCOL_POLICIES.sunswap.MAX_FARM_POOLS);
+}
+
+/**
+ * Build mock rewards: pending SUN on farm pool 0 for each wallet
+ */
+function buildMockRewards(wallets: Address[]): PendingReward[] {
+  const now = new Date();
+
+  return wallets.map(wallet => ({
+    id: `${FARM_REWARD_PREFIX}-0-${wallet.value}`,
+    wallet,
+    protocol: 'sunswap',
+    token: { value: SUNSWAP_CONTRACTS.SUN_TOKEN, chain: 'tron' },
+    amountWei: (BigInt(150) * BigInt(10) ** BigInt(SUN_DECIMALS)).toString(), // 150 SUN
+    amountUsd: 3.0,
+    claimTo: wallet,
+    discoveredAt: now,
+    claimCall: harvestClaimCall(0)
+  }));
+}
+
+/**
+ * Read pending SUN for every staked farm position of the given wallets
+ */
+async function getSunswapPendingRewards(wallets: Address[], mockMode: boolean): Promise<PendingReward[]> {
+  console.log(`SunSwap: Scanning rewards for ${wallets.length} wallets...`);
+
+  if (mockMode) {
+    return buildMockRewards(wallets);
+  }
+
+  const rewards: PendingReward[] = [];
+  if (wallets.length === 0) {
+    return rewards;
+  }
+
+  try {
+    const tronWeb = createReadOnlyTronWeb();
+    const pids = await getFarmPids(tronWeb, wallets[0].value);
+    const sunUsd = await getTokenUsdPrice('tron', SUNSWAP_CONTRACTS.SUN_TOKEN, SUN_DECIMALS, 'SUN') ?? env.sunPriceUsd;
+
+    for (const wallet of wallets) {
+      for (const pid of pids) {
+        try {
+          const [stakedAmount] = await callConstant(
+            tronWeb, SUNSWAP_CONTRACTS.SUN_FARM, 'userInfo(uint256,address)',
+            [{ type: 'uint256', value: pid }, { type: 'address', value: wallet.value }],
+            ['uint256', 'uint256'], wallet.value
+          );
+          if (BigInt(stakedAmount) === BigInt(0)) {
+            continue; // Not staked in this pool
+          }
+
+          const [pendingSun] = await callConstant(
+            tronWeb, SUNSWAP_CONTRACTS.SUN_FARM, 'pendingSun(uint256,address)',
+            [{ type: 'uint256', value: pid }, { type: 'address', value: wallet.value }],
+            ['uint256'], wallet.value
+          );
+          const amountWei = BigInt(pendingSun);
+          if (amountWei === BigInt(0)) {
+            continue;
+          }
+
+          const amountUsd = (Number(amountWei) / Math.pow(10, SUN_DECIMALS)) * sunUsd;
+          const minItemUsd = resolvePolicy('tron', 'sunswap').minItemUsd;
+          if (amountUsd < minItemUsd) {
+            console.log(`Skipping small SUN reward: ${amountUsd.toFixed(2)} USD < ${minItemUsd} USD`);
+            continue;
+          }
+
+          rewards.push({
+            id: `${FARM_REWARD_PREFIX}-${pid}-${wallet.value}`,
+            wallet,
+            protocol: 'sunswap',
+            token: { value: SUNSWAP_CONTRACTS.SUN_TOKEN, chain: 'tron' },
+            amountWei: amountWei.toString(),
+            amountUsd,
+            claimTo: wallet,
+            discoveredAt: new Date(),
+            claimCall: harvestClaimCall(pid)
+          });
+          console.log(`Found SUN reward in pool ${pid}: ${amountUsd.toFixed(2)} USD for ${wallet.value}`);
+        } catch (error) {
+          console.warn(`Failed to check SunSwap pool ${pid} for ${wallet.value}:`, error);
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Failed to scan SunSwap rewards:', error);
+  }
+
+  console.log(`SunSwap: Found ${rewards.length} claimable rewards`);
+  return rewards;
+}
+
+/**
+ * Parse the farm pool id from a SunSwap reward id
+ */
+function parseFarmPid(reward: PendingReward): number {
+  const pid = Number(reward.id.substring(FARM_REWARD_PREFIX.length + 1).split('-')[0]);
+  if (!Number.isInteger(pid) || pid < 0) {
+    throw new Error(`Invalid SunSwap farm reward id: ${reward.id}`);
+  }
+  return pid;
+}
+
+/**
+ * Build claim bundles: one deposit(pid, 0) harvest per farm position
+ */
+async function buildSunswapClaimBundles(rewards: PendingReward[], mockMode: boolean): Promise<ClaimBundle[]> {
+  const farmRewards = rewards.filter(r => r.protocol === 'sunswap');
+  if (farmRewards.length === 0) {
+    return [];
+  }
+
+  console.log(`SunSwap: Building claim bundles for ${farmRewards.length} rewards...`);
+
+  if (!mockMode) {
+    for (const reward of farmRewards) {
+      if (!isAllowedRecipientNonMock(reward.claimTo)) {
+        throw new Error(`Invalid recipient ${reward.claimTo.value} not allowed in non-mock mode`);
+      }
+    }
+  }
+
+  const bundles: ClaimBundle[] = farmRewards.map(reward => {
+    const pid = parseFarmPid(reward);
+    const call = reward.claimCall ?? harvestClaimCall(pid);
+    const draft: ClaimBundle = {
+      id: `sunswap-harvest-${pid}-${reward.claimTo.value}-${Date.now()}`,
+      chain: 'tron',
+      protocol: 'sunswap',
+      claimTo: reward.claimTo,
+      items: [reward],
+      totalUsd: reward.amountUsd,
+      estGasUsd: 0,
+      netUsd: 0,
+      contractAddress: call.target,
+      callData: call.callData,
+      value: call.value
+    };
+    const estGasUsd = estimateBundleGasUsd(draft, 'tron');
+
+    return { ...draft, estGasUsd, netUsd: Math.max(0, draft.totalUsd - estGasUsd) };
+  });
+
+  console.log(`SunSwap: Created ${bundles.length} claim bundles`);
+  return bundles;
+}
 
 export const sunswapIntegration: Integration = {
   key: 'sunswap',
   chain: 'tron',
 
-  async discoverWallets(): Promise<Address[]> {
-    // TODO: Implement SunSwap LP mining wallet discovery
-    // This would involve querying:
-    // - SunSwap LP token holders
-    // - Farming contract participants
-    // - Reward pool participants
-    console.log('SunSwap: Discovery not implemented yet');
-    return [];
+  async discoverWallets(mockMode: boolean = false): Promise<Address[]> {
+    return await discoverSunswapWallets(mockMode);
   },
 
-  async getPendingRewards(wallets: Address[]): Promise<PendingReward[]> {
-    // TODO: Implement SunSwap LP mining reward scanning
-    // This would involve:
-    // - Checking farming contracts for pending SUN tokens
-    // - Analyzing LP positions for fees
-    // - Reward pool claim status
-    console.log(`SunSwap: Reward scanning not implemented for ${wallets.length} wallets`);
-    return [];
+  async getPendingRewards(wallets: Address[], mockMode: boolean = false): Promise<PendingReward[]> {
+    return await getSunswapPendingRewards(wallets, mockMode);
   },
 
-  async buildBundle(rewards: PendingReward[]): Promise<ClaimBundle[]> {
-    // TODO: Implement SunSwap-specific bundling logic
-    console.log(`SunSwap: Bundle building not implemented for ${rewards.length} rewards`);
-    return [];
+  async buildBundle(rewards: PendingReward[], mockMode: boolean = false): Promise<ClaimBundle[]> {
+    return await buildSunswapClaimBundles(rewards, mockMode);
   }
 };
 
-// SunSwap contract addresses (for future implementation)
+// SunSwap contract addresses
 export const SUNSWAP_CONTRACTS = {
   // V2 Router and Factory
   ROUTER_V2: 'TKzxdSv2FZKQrEqkKVgp5DcwEXBEKMg2Ax',
   FACTORY_V2: 'TXk8rQSAvPvBBNtqSoY6nCfsXWCSSpTVQF',
-  
+
   // Farming contracts
   SUN_FARM: 'TKkeiboTkxXKJpbmVFbv4a8ov5rAfRDMf9',
-  
+
   // Token addresses
   SUN_TOKEN: 'TSSMHYeV2uE9qYH95DqyoCuNCzEL1NvU3S',
-  
+
   // Common LP pairs (for reference)
   USDT_TRX_LP: 'TQn9Y2khEsLJW1ChVWFMSMeRDow5KcbLSE',
   USDT_SUN_LP: 'THeHPYQ6skmUJwiqJyxXMDJZvjvKk48fYJ'
-} as const;
\ No newline at end of file
+} as const;
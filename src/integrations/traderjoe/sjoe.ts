@@ -1,6 +1,9 @@
-import type { Integration, Address, PendingReward, ClaimBundle } from '../../types/common.js';
+import type { Integration, Address, PendingReward, ClaimBundle, ClaimCall } from '../../types/common.js';
 import { env } from '../../config/env.js';
 import { getDefaultClaimRecipient, isAllowedRecipientNonMock } from '../../config/addresses.js';
+import { getTokenUsdPrice } from '../../economics/oracle.js';
+import { multicall } from '../../chains/multicall.js';
+import { getRpcProvider } from '../../chains/providerPool.js';
 import { ethers } from 'ethers';
 import { readFileSync } from 'fs';
 import { join } from 'path';
@@ -10,6 +13,9 @@ import { join } from 'path';
  * Real earnings from sJOE staking on Avalanche C-Chain
  */
 
+// Fallback JOE price when the price oracle has no usable price
+const FALLBACK_JOE_USD = 2.5;
+
 // Load staking contract ABI
 let stakingAbi: any[] = [];
 try {
@@ -53,6 +59,7 @@ async function getSJoePendingRewards(wallets: Address[], mockMode: boolean): Pro
   
   if (mockMode) {
     // Mock implementation
+    const claimCall = sJoeClaimCall(mockMode);
     return wallets.map((wallet, index) => ({
       id: `traderjoe-sjoe-${wallet.value}-${Date.now()}-${index}`,
       wallet,
@@ -65,7 +72,8 @@ async function getSJoePendingRewards(wallets: Address[], mockMode: boolean): Pro
       amountUsd: 5.0, // $5 worth
       claimTo: wallet,
       discoveredAt: new Date(),
-      lastClaimAt: undefined
+      lastClaimAt: undefined,
+      claimCall
     }));
   }
   
@@ -83,57 +91,63 @@ async function getSJoePendingRewards(wallets: Address[], mockMode: boolean): Pro
   }
   
   try {
-    const provider = new ethers.JsonRpcProvider(env.avalancheRpcUrl);
-    const stakingContract = new ethers.Contract(
-      env.traderJoeSJoeStakingAddress,
-      stakingAbi,
-      provider
-    );
+    const provider = getRpcProvider();
+    const stakingInterface = new ethers.Interface(stakingAbi);
+    
+    // One pendingReward() per wallet, batched through Multicall3
+    const results = await multicall(provider, wallets.map(wallet => ({
+      target: env.traderJoeSJoeStakingAddress!,
+      iface: stakingInterface,
+      method: 'pendingReward',
+      args: [wallet.value]
+    })));
+    
+    let joeUsd: number | undefined;
+    const claimCall = sJoeClaimCall(mockMode);
     
-    for (const wallet of wallets) {
-      try {
-        // Call pendingReward function (configurable function name)
-        const pendingAmount = await stakingContract.pendingReward(wallet.value);
-        const amountWei = pendingAmount.toString();
-        
-        if (BigInt(amountWei) === BigInt(0)) {
-          continue; // Skip zero rewards
-        }
-        
-        // Price the reward in USD (simplified pricing)
-        // In a real implementation, this would use a pricing service
-        const tokenDecimals = 18; // sJOE has 18 decimals
-        const amountTokens = Number(BigInt(amountWei)) / Math.pow(10, tokenDecimals);
-        const estimatedPricePerToken = 2.5; // Placeholder price
-        const amountUsd = amountTokens * estimatedPricePerToken;
-        
-        // Apply minimum thresholds
-        if (amountUsd < Math.max(env.sJoeMinUsd, 1.0)) {
-          console.log(`Skipping small reward: ${amountUsd.toFixed(2)} USD < ${Math.max(env.sJoeMinUsd, 1.0)} USD`);
-          continue;
-        }
-        
-        const reward: PendingReward = {
-          id: `traderjoe-sjoe-${wallet.value}-${Date.now()}`,
-          wallet,
-          protocol: 'traderjoe',
-          token: {
-            value: env.sJoeToken,
-            chain: 'avalanche'
-          },
-          amountWei,
-          amountUsd,
-          claimTo: wallet,
-          discoveredAt: new Date(),
-          lastClaimAt: undefined
-        };
-        
-        rewards.push(reward);
-        console.log(`Found sJOE reward: ${amountUsd.toFixed(2)} USD for ${wallet.value}`);
-        
-      } catch (error) {
-        console.warn(`Failed to check sJOE rewards for ${wallet.value}:`, error);
+    for (const [index, wallet] of wallets.entries()) {
+      const result = results[index];
+      if (!result.success) {
+        console.warn(`Failed to check sJOE rewards for ${wallet.value}: ${result.error}`);
+        continue;
+      }
+      
+      const amountWei = result.value[0].toString();
+      
+      if (BigInt(amountWei) === BigInt(0)) {
+        continue; // Skip zero rewards
+      }
+      
+      // Price the reward in USD; sJOE is staked JOE, so it is priced as JOE
+      const tokenDecimals = 18; // sJOE has 18 decimals
+      const amountTokens = Number(BigInt(amountWei)) / Math.pow(10, tokenDecimals);
+      joeUsd ??= await getTokenUsdPrice('avalanche', env.joeToken, 18, 'JOE') ?? FALLBACK_JOE_USD;
+      const amountUsd = amountTokens * joeUsd;
+      
+      // Apply minimum thresholds
+      if (amountUsd < Math.max(env.sJoeMinUsd, 1.0)) {
+        console.log(`Skipping small reward: ${amountUsd.toFixed(2)} USD < ${Math.max(env.sJoeMinUsd, 1.0)} USD`);
+        continue;
       }
+      
+      const reward: PendingReward = {
+        id: `traderjoe-sjoe-${wallet.value}-${Date.now()}`,
+        wallet,
+        protocol: 'traderjoe',
+        token: {
+          value: env.sJoeToken,
+          chain: 'avalanche'
+        },
+        amountWei,
+        amountUsd,
+        claimTo: wallet,
+        discoveredAt: new Date(),
+        lastClaimAt: undefined,
+        claimCall
+      };
+      
+      rewards.push(reward);
+      console.log(`Found sJOE reward: ${amountUsd.toFixed(2)} USD for ${wallet.value}`);
     }
     
   } catch (error) {
@@ -173,6 +187,33 @@ function encodeHarvestCall(functionName: 'harvest' | 'getReward' = 'harvest'): s
   }
 }
 
+/**
+ * Staking contract to claim from (fallback to configured default for mock mode)
+ */
+function sJoeStakingAddress(mockMode: boolean): string | undefined {
+  return env.traderJoeSJoeStakingAddress ||
+    (mockMode ? '0x1a731B2299E22FbAC282E7094EdA41046343Cb51' : undefined);
+}
+
+/**
+ * Configurable harvest function name (default to 'harvest')
+ * Read directly from process.env to support runtime configuration changes
+ */
+function sJoeHarvestFunction(): 'harvest' | 'getReward' {
+  return process.env.SJOE_HARVEST_FUNCTION === 'getReward' ? 'getReward' : 'harvest';
+}
+
+/**
+ * harvest()/getReward() pay msg.sender, so each wallet sends its own claim
+ */
+function sJoeClaimCall(mockMode: boolean): ClaimCall | undefined {
+  const target = sJoeStakingAddress(mockMode);
+  if (!target) {
+    return undefined;
+  }
+  return { target, callData: encodeHarvestCall(sJoeHarvestFunction()), value: 0, fromWallet: true };
+}
+
 /**
  * Build claim bundles for sJOE rewards
  */
@@ -213,14 +254,9 @@ async function buildSJoeClaimBundles(rewards: PendingReward[], mockMode: boolean
     const estGasUsd = 2.5; // Estimated $2.50 for claim transaction
     const netUsd = Math.max(0, totalUsd - estGasUsd);
     
-    // Get contract address (fallback to configured default for mock mode)
-    const contractAddress = env.traderJoeSJoeStakingAddress || 
-      (mockMode ? '0x1a731B2299E22FbAC282E7094EdA41046343Cb51' : undefined);
-    
-    // Get configurable harvest function name (default to 'harvest')
-    // Read directly from process.env to support runtime configuration changes
-    const harvestFunction = (process.env.SJOE_HARVEST_FUNCTION === 'getReward') ? 'getReward' : 'harvest';
-    const callData = encodeHarvestCall(harvestFunction as 'harvest' | 'getReward');
+    const contractAddress = sJoeStakingAddress(mockMode);
+    const harvestFunction = sJoeHarvestFunction();
+    const callData = encodeHarvestCall(harvestFunction);
     
     const bundle: ClaimBundle = {
       id: `traderjoe-sjoe-bundle-${Date.now()}`,
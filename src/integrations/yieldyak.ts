@@ -1,54 +1,584 @@
-import type { Integration, Address, PendingReward, ClaimBundle } from '../types/common.js';
+import type { Integration, Address, PendingReward, ClaimBundle, ClaimCall } from '../types/common.js';
+import { env } from '../config/env.js';
+import { getDefaultClaimRecipient, isAllowedRecipientNonMock } from '../config/addresses.js';
+import { PROTOCOL_POLICIES, resolvePolicy } from '../economics/policy.js';
+import { estimateBundleGasUsd } from '../economics/gas.js';
+import { getTokenUsdPrice } from '../economics/oracle.js';
+import { getTokenDecimals } from '../economics/pricing.js';
+import { multicall, type CallResult } from '../chains/multicall.js';
+import { getRpcProvider } from '../chains/providerPool.js';
+import { ethers } from 'ethers';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * Yield Yak Integration
+ * - Legacy YakChef farms: pending rewards plus staked deposit tokens (withdraw when deprecated)
+ * - Legacy strategies: receipt tokens left in deprecated strategies (withdraw)
+ * - Active strategies: reinvest() caller bounty when AUTO_REINVEST_ENABLED
+ */
+
+export interface YakRegistryEntry {
+  readonly name: string;
+  readonly kind: 'farm' | 'strategy';
+  readonly address: string;
+  readonly deprecated: boolean;
+  readonly rewardToken?: string; // Farm reward token (strategies expose rewardToken())
+}
+
+/**
+ * Claim actions, encoded in reward ids as yieldyak-<action>-<contract>-<pid>-<wallet>-<part>
+ */
+type YakAction = 'harvest' | 'exit' | 'withdraw' | 'reinvest';
+
+// Load farm and strategy ABIs
+let farmAbi: any[] = [];
+let strategyAbi: any[] = [];
+try {
+  farmAbi = JSON.parse(readFileSync(join(process.cwd(), env.yieldYakFarmAbiPath), 'utf8'));
+} catch (error) {
+  console.warn('Failed to load Yield Yak farm ABI:', error);
+}
+try {
+  strategyAbi = JSON.parse(readFileSync(join(process.cwd(), env.yieldYakStrategyAbiPath), 'utf8'));
+} catch (error) {
+  console.warn('Failed to load Yield Yak strategy ABI:', error);
+}
+
+/**
+ * Parse a comma-separated address list from the environment
+ */
+function parseAddressList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(addr => addr.trim())
+    .filter(addr => addr.length > 0);
+}
+
+/**
+ * Registry of Yak contracts to scan: built-in legacy farms plus configured strategies
+ */
+export function getYakRegistry(mockMode: boolean = false): YakRegistryEntry[] {
+  const registry: YakRegistryEntry[] = [
+    { name: 'YakFarm V1', kind: 'farm', address: YIELDYAK_CONTRACTS.YAK_FARM_V1, deprecated: true, rewardToken: YIELDYAK_CONTRACTS.YAK_TOKEN },
+    { name: 'YakFarm V2', kind: 'farm', address: YIELDYAK_CONTRACTS.YAK_FARM_V2, deprecated: true, rewardToken: YIELDYAK_CONTRACTS.YAK_TOKEN }
+  ];
+
+  // Example strategies are placeholders and only used for the mock fixture
+  const legacyStrategies = mockMode
+    ? [...YIELDYAK_CONTRACTS.LEGACY_STRATEGIES]
+    : parseAddressList(env.yieldYakLegacyStrategies);
+
+  for (const address of legacyStrategies) {
+    registry.push({ name: `Legacy strategy ${address}`, kind: 'strategy', address, deprecated: true });
+  }
+
+  for (const address of parseAddressList(env.yieldYakReinvestStrategies)) {
+    registry.push({ name: `Strategy ${address}`, kind: 'strategy', address, deprecated: false });
+  }
+
+  return registry;
+}
+
+/**
+ * Discover wallets for Yield Yak positions
+ * Uses WALLET_SCAN_AVAX when set, otherwise the configured default recipient
+ */
+async function discoverYakWallets(mockMode: boolean): Promise<Address[]> {
+  console.log('YieldYak: Starting wallet discovery...');
+
+  if (mockMode) {
+    return [{
+      value: '0x1234567890123456789012345678901234567890',
+      chain: 'avalanche'
+    }];
+  }
+
+  const configured = parseAddressList(env.walletScanAvax)
+    .map(addr => ({ value: addr, chain: 'avalanche' as const }));
+  if (configured.length > 0) {
+    console.log(`YieldYak: Using ${configured.length} configured wallets from WALLET_SCAN_AVAX`);
+    return configured;
+  }
+
+  const defaultRecipient = getDefaultClaimRecipient('avalanche');
+  if (!defaultRecipient) {
+    console.warn('No default claim recipient configured for Avalanche');
+    return [];
+  }
+
+  console.log(`YieldYak: Using configured wallet: ${defaultRecipient.value}`);
+  return [defaultRecipient];
+}
+
+function rewardId(action: YakAction, contract: string, pid: number, wallet: Address, part: 'reward' | 'deposit'): string {
+  return `yieldyak-${action}-${contract}-${pid}-${wallet.value}-${part}`;
+}
+
+function parseRewardId(id: string): { action: YakAction; contract: string; pid: number } {
+  const [prefix, action, contract, pid] = id.split('-');
+  if (prefix !== 'yieldyak' || !['harvest', 'exit', 'withdraw', 'reinvest'].includes(action) || !contract) {
+    throw new Error(`Invalid Yield Yak reward id: ${id}`);
+  }
+  return { action: action as YakAction, contract, pid: Number(pid) };
+}
+
+/**
+ * Price a raw token amount with its registry decimals, returning 0 when no price or decimals are available
+ */
+async function priceTokenAmount(token: string, amountWei: bigint): Promise<number> {
+  let decimals: number;
+  try {
+    decimals = await getTokenDecimals('avalanche', token);
+  } catch (error) {
+    console.warn(`No decimals for ${token}, leaving it unpriced:`, error);
+    return 0;
+  }
+
+  const price = await getTokenUsdPrice('avalanche', token, decimals);
+  if (price === null) {
+    return 0;
+  }
+  return (Number(amountWei) / Math.pow(10, decimals)) * price;
+}
+
+/**
+ * Build mock rewards: one deprecated farm exit and one legacy strategy withdrawal per wallet
+ */
+function buildMockRewards(wallets: Address[]): PendingReward[] {
+  const now = new Date();
+  const rewards: PendingReward[] = [];
+  const strategy = YIELDYAK_CONTRACTS.LEGACY_STRATEGIES[0];
+
+  const stakedWei = BigInt(1) * BigInt(10) ** BigInt(17); // 0.1 staked
+  const sharesWei = BigInt(5) * BigInt(10) ** BigInt(17); // 0.5 receipt shares
+
+  for (const wallet of wallets) {
+    const exitCall = yakClaimCall('exit', YIELDYAK_CONTRACTS.YAK_FARM_V2, 0, stakedWei);
+    rewards.push({
+      id: rewardId('exit', YIELDYAK_CONTRACTS.YAK_FARM_V2, 0, wallet, 'reward'),
+      wallet,
+      protocol: 'yieldyak',
+      token: { value: YIELDYAK_CONTRACTS.YAK_TOKEN, chain: 'avalanche' },
+      amountWei: (BigInt(3) * BigInt(10) ** BigInt(16)).toString(), // 0.03 YAK
+      amountUsd: 1.2,
+      claimTo: wallet,
+      discoveredAt: now,
+      claimCall: exitCall
+    });
+
+    rewards.push({
+      id: rewardId('exit', YIELDYAK_CONTRACTS.YAK_FARM_V2, 0, wallet, 'deposit'),
+      wallet,
+      protocol: 'yieldyak',
+      token: { value: YIELDYAK_CONTRACTS.WAVAX, chain: 'avalanche' },
+      amountWei: stakedWei.toString(),
+      amountUsd: 3.5,
+      claimTo: wallet,
+      discoveredAt: now,
+      claimCall: exitCall
+    });
+
+    rewards.push({
+      id: rewardId('withdraw', strategy, 0, wallet, 'deposit'),
+      wallet,
+      protocol: 'yieldyak',
+      token: { value: strategy, chain: 'avalanche' },
+      amountWei: sharesWei.toString(),
+      amountUsd: 2.0,
+      claimTo: wallet,
+      discoveredAt: now,
+      claimCall: yakClaimCall('withdraw', strategy, 0, sharesWei)
+    });
+  }
+
+  return rewards;
+}
+
+/**
+ * Value of a successful read, or throw with the call's error
+ */
+function readResult(result: CallResult): ethers.Result {
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.value;
+}
+
+/**
+ * Scan every pool of a YakChef farm for the wallets' stakes and pending rewards
+ */
+async function scanFarm(provider: ethers.Provider, entry: YakRegistryEntry, wallets: Address[]): Promise<PendingReward[]> {
+  const rewards: PendingReward[] = [];
+  const farm = new ethers.Interface(farmAbi);
+  const call = (method: string, args: unknown[] = []) => ({ target: entry.address, iface: farm, method, args });
+  const action: YakAction = entry.deprecated ? 'exit' : 'harvest';
+
+  const [poolLengthResult] = await multicall(provider, [call('poolLength')]);
+  const poolLength = Number(readResult(poolLengthResult)[0]);
+
+  const positions = wallets.flatMap(wallet => Array.from({ length: poolLength }, (_, pid) => ({ wallet, pid })));
+  const userInfos = await multicall(provider, positions.map(({ wallet, pid }) => call('userInfo', [pid, wallet.value])));
+
+  const staked = positions.flatMap((position, i) => {
+    const result = userInfos[i];
+    if (!result.success) {
+      console.warn(`Failed to check ${entry.name} pool ${position.pid} for ${position.wallet.value}: ${result.error}`);
+      return [];
+    }
+    const [stakedAmount] = result.value;
+    return BigInt(stakedAmount) === BigInt(0) ? [] : [{ ...position, staked: BigInt(stakedAmount) }];
+  });
+
+  // Pending rewards per position, then the deposit token of each pool with a stake
+  const pids = Array.from(new Set(staked.map(position => position.pid)));
+  const details = await multicall(provider, [
+    ...staked.map(({ wallet, pid }) => call('pendingRewards', [pid, wallet.value])),
+    ...pids.map(pid => call('poolInfo', [pid]))
+  ]);
+  const poolInfos = new Map(pids.map((pid, i) => [pid, details[staked.length + i]]));
+
+  for (const [i, { wallet, pid, staked: stakedAmount }] of staked.entries()) {
+    try {
+      const pending = BigInt(readResult(details[i])[0]);
+      const rewardUsd = entry.rewardToken ? await priceTokenAmount(entry.rewardToken, pending) : 0;
+
+      // Only deprecated farms are exited, so only then does the stake count towards the claim
+      const [depositToken] = readResult(poolInfos.get(pid)!);
+      const depositUsd = entry.deprecated ? await priceTokenAmount(depositToken, stakedAmount) : 0;
+
+      const minItemUsd = resolvePolicy('avalanche', 'yieldyak').minItemUsd;
+      if (rewardUsd + depositUsd < minItemUsd) {
+        console.log(`Skipping small ${entry.name} pool ${pid} position: ${(rewardUsd + depositUsd).toFixed(2)} USD < ${minItemUsd} USD`);
+        continue;
+      }
+
+      const now = new Date();
+      const claimCall = yakClaimCall(action, entry.address, pid, stakedAmount);
+      if (pending > BigInt(0) && entry.rewardToken) {
+        rewards.push({
+          id: rewardId(action, entry.address, pid, wallet, 'reward'),
+          wallet,
+          protocol: 'yieldyak',
+          token: { value: entry.rewardToken, chain: 'avalanche' },
+          amountWei: pending.toString(),
+          amountUsd: rewardUsd,
+          claimTo: wallet,
+          discoveredAt: now,
+          claimCall
+        });
+      }
+      if (entry.deprecated) {
+        rewards.push({
+          id: rewardId(action, entry.address, pid, wallet, 'deposit'),
+          wallet,
+          protocol: 'yieldyak',
+          token: { value: depositToken, chain: 'avalanche' },
+          amountWei: stakedAmount.toString(),
+          amountUsd: depositUsd,
+          claimTo: wallet,
+          discoveredAt: now,
+          claimCall
+        });
+      }
+      console.log(`Found ${entry.name} pool ${pid} position: ${(rewardUsd + depositUsd).toFixed(2)} USD for ${wallet.value}`);
+    } catch (error) {
+      console.warn(`Failed to check ${entry.name} pool ${pid} for ${wallet.value}:`, error);
+    }
+  }
+
+  return rewards;
+}
+
+/**
+ * Read the wallets' receipt shares in a deprecated strategy and value them in deposit tokens
+ */
+async function scanLegacyStrategy(provider: ethers.Provider, entry: YakRegistryEntry, wallets: Address[]): Promise<PendingReward[]> {
+  const rewards: PendingReward[] = [];
+  const strategy = new ethers.Interface(strategyAbi);
+  const call = (method: string, args: unknown[] = []) => ({ target: entry.address, iface: strategy, method, args });
+
+  const results = await multicall(provider, [call('depositToken'), ...wallets.map(wallet => call('balanceOf', [wallet.value]))]);
+  const holders = wallets.flatMap((wallet, i) => {
+    const result = results[i + 1];
+    if (!result.success) {
+      console.warn(`Failed to check ${entry.name} for ${wallet.value}: ${result.error}`);
+      return [];
+    }
+    const shares = BigInt(result.value[0]);
+    return shares === BigInt(0) ? [] : [{ wallet, shares }];
+  });
+  if (holders.length === 0) {
+    return rewards;
+  }
+
+  const depositToken: string = readResult(results[0])[0];
+  const depositAmounts = await multicall(provider, holders.map(({ shares }) => call('getDepositTokensForShares', [shares])));
+
+  for (const [i, { wallet, shares }] of holders.entries()) {
+    const result = depositAmounts[i];
+    if (!result.success) {
+      console.warn(`Failed to value ${entry.name} balance for ${wallet.value}: ${result.error}`);
+      continue;
+    }
+
+    const amountUsd = await priceTokenAmount(depositToken, BigInt(result.value[0]));
+    const minItemUsd = resolvePolicy('avalanche', 'yieldyak').minItemUsd;
+    if (amountUsd < minItemUsd) {
+      console.log(`Skipping small ${entry.name} balance: ${amountUsd.toFixed(2)} USD < ${minItemUsd} USD`);
+      continue;
+    }
+
+    console.log(`Found ${entry.name} balance: ${amountUsd.toFixed(2)} USD for ${wallet.value}`);
+    rewards.push({
+      id: rewardId('withdraw', entry.address, 0, wallet, 'deposit'),
+      wallet,
+      protocol: 'yieldyak',
+      token: { value: entry.address, chain: 'avalanche' }, // Receipt token, amount in shares
+      amountWei: shares.toString(),
+      amountUsd,
+      claimTo: wallet,
+      discoveredAt: new Date(),
+      claimCall: yakClaimCall('withdraw', entry.address, 0, shares)
+    });
+  }
+
+  return rewards;
+}
+
+/**
+ * Compute the reinvest() caller bounty of an active strategy
+ */
+async function scanReinvestBounty(provider: ethers.Provider, entry: YakRegistryEntry, caller: Address): Promise<PendingReward[]> {
+  const strategy = new ethers.Interface(strategyAbi);
+  const results = await multicall(provider, ['checkReward', 'MIN_TOKENS_TO_REINVEST', 'REINVEST_REWARD_BIPS', 'rewardToken']
+    .map(method => ({ target: entry.address, iface: strategy, method })));
+  const [pendingResult, minResult, bipsResult, rewardTokenResult] = results.map(result => readResult(result)[0]);
+
+  const pending = BigInt(pendingResult);
+  const minToReinvest = BigInt(minResult);
+  if (pending === BigInt(0) || pending < minToReinvest) {
+    return [];
+  }
+
+  const bounty = pending * BigInt(bipsResult) / BigInt(10000);
+  const rewardToken: string = rewardTokenResult;
+  const amountUsd = await priceTokenAmount(rewardToken, bounty);
+
+  const minItemUsd = resolvePolicy('avalanche', 'yieldyak').minItemUsd;
+  if (amountUsd < minItemUsd) {
+    return [];
+  }
+
+  console.log(`Found ${entry.name} reinvest bounty: ${amountUsd.toFixed(2)} USD`);
+  return [{
+    id: rewardId('reinvest', entry.address, 0, caller, 'reward'),
+    wallet: caller,
+    protocol: 'yieldyak',
+    token: { value: rewardToken, chain: 'avalanche' },
+    amountWei: bounty.toString(),
+    amountUsd,
+    claimTo: caller,
+    discoveredAt: new Date(),
+    claimCall: yakClaimCall('reinvest', entry.address, 0)
+  }];
+}
+
+/**
+ * Get pending Yield Yak rewards and recoverable deposits for wallets
+ */
+async function getYakPendingRewards(wallets: Address[], mockMode: boolean): Promise<PendingReward[]> {
+  console.log(`YieldYak: Scanning ${wallets.length} wallets...`);
+
+  if (mockMode) {
+    return buildMockRewards(wallets);
+  }
+
+  const rewards: PendingReward[] = [];
+
+  if (!env.avalancheRpcUrl) {
+    console.warn('Avalanche RPC URL not configured');
+    return rewards;
+  }
+
+  if (farmAbi.length === 0 || strategyAbi.length === 0) {
+    console.warn('Yield Yak ABIs not loaded, skipping reward scan');
+    return rewards;
+  }
+
+  const provider = getRpcProvider();
+
+  for (const entry of getYakRegistry(mockMode)) {
+    if (entry.kind === 'strategy' && !entry.deprecated) {
+      if (!PROTOCOL_POLICIES.yieldyak.AUTO_REINVEST_ENABLED) {
+        continue;
+      }
+      const caller = getDefaultClaimRecipient('avalanche');
+      if (!caller) {
+        continue;
+      }
+      try {
+        rewards.push(...await scanReinvestBounty(provider, entry, caller));
+      } catch (error) {
+        console.warn(`Failed to check ${entry.name} reinvest bounty:`, error);
+      }
+      continue;
+    }
+
+    try {
+      rewards.push(...(entry.kind === 'farm'
+        ? await scanFarm(provider, entry, wallets)
+        : await scanLegacyStrategy(provider, entry, wallets)));
+    } catch (error) {
+      console.warn(`Failed to check ${entry.name}:`, error);
+    }
+  }
+
+  console.log(`YieldYak: Found ${rewards.length} claimable items`);
+  return rewards;
+}
+
+/**
+ * Encode the claim call for one position; amount is the staked amount (exit) or receipt shares (withdraw)
+ */
+function encodeYakCall(action: YakAction, pid: number, amount: bigint): string {
+  switch (action) {
+    case 'harvest':
+      return new ethers.Interface(farmAbi.length > 0 ? farmAbi : ['function deposit(uint256,uint256)'])
+        .encodeFunctionData('deposit', [pid, 0]);
+    case 'exit':
+      return new ethers.Interface(farmAbi.length > 0 ? farmAbi : ['function withdraw(uint256,uint256)'])
+        .encodeFunctionData('withdraw', [pid, amount]);
+    case 'withdraw':
+      return new ethers.Interface(strategyAbi.length > 0 ? strategyAbi : ['function withdraw(uint256)'])
+        .encodeFunctionData('withdraw', [amount]);
+    case 'reinvest':
+      return new ethers.Interface(strategyAbi.length > 0 ? strategyAbi : ['function reinvest()'])
+        .encodeFunctionData('reinvest', []);
+  }
+}
+
+/**
+ * Claim call shared by every item of a position. Farm and strategy calls act on msg.sender and
+ * reinvest() pays its bounty to the caller, so the wallet sends them itself.
+ */
+function yakClaimCall(action: YakAction, contract: string, pid: number, amount: bigint = BigInt(0)): ClaimCall {
+  return { target: contract, callData: encodeYakCall(action, pid, amount), value: 0, fromWallet: true };
+}
+
+/**
+ * Build claim or withdraw bundles, one transaction per position.
+ * At most MAX_FARMS_PER_BUNDLE positions are taken per wallet and cycle (largest first);
+ * the rest stay pending for the next cycle.
+ */
+async function buildYakClaimBundles(rewards: PendingReward[], mockMode: boolean): Promise<ClaimBundle[]> {
+  const yakRewards = rewards.filter(r => r.protocol === 'yieldyak');
+  if (yakRewards.length === 0) {
+    return [];
+  }
+
+  console.log(`YieldYak: Building claim bundles for ${yakRewards.length} items...`);
+
+  if (!mockMode) {
+    for (const reward of yakRewards) {
+      if (!isAllowedRecipientNonMock(reward.claimTo)) {
+        throw new Error(`Invalid recipient ${reward.claimTo.value} not allowed in non-mock mode`);
+      }
+    }
+  }
+
+  // Group items into positions (one call each), then positions by wallet
+  const positions = new Map<string, PendingReward[]>();
+  for (const reward of yakRewards) {
+    const key = reward.id.substring(0, reward.id.lastIndexOf('-'));
+    if (!positions.has(key)) {
+      positions.set(key, []);
+    }
+    positions.get(key)!.push(reward);
+  }
+
+  const positionsByWallet = new Map<string, PendingReward[][]>();
+  for (const items of positions.values()) {
+    const walletKey = items[0].claimTo.value;
+    if (!positionsByWallet.has(walletKey)) {
+      positionsByWallet.set(walletKey, []);
+    }
+    positionsByWallet.get(walletKey)!.push(items);
+  }
+
+  const maxPositions = PROTOCOL_POLICIES.yieldyak.MAX_FARMS_PER_BUNDLE;
+  const bundles: ClaimBundle[] = [];
+
+  for (const [walletKey, walletPositions] of positionsByWallet) {
+    const totalOf = (items: PendingReward[]) => items.reduce((sum, r) => sum + r.amountUsd, 0);
+    const selected = walletPositions.sort((a, b) => totalOf(b) - totalOf(a)).slice(0, maxPositions);
+
+    if (walletPositions.length > maxPositions) {
+      console.log(`YieldYak: ${walletKey} has ${walletPositions.length} positions, deferring ${walletPositions.length - maxPositions} to the next cycle`);
+    }
+
+    for (const items of selected) {
+      const { action, contract, pid } = parseRewardId(items[0].id);
+      const deposit = items.find(r => r.id.endsWith('-deposit'));
+      const call = items[0].claimCall ?? yakClaimCall(action, contract, pid, deposit ? BigInt(deposit.amountWei) : BigInt(0));
+      const totalUsd = totalOf(items);
+      const draft: ClaimBundle = {
+        id: `yieldyak-${action}-${contract}-${pid}-${walletKey}-${Date.now()}`,
+        chain: 'avalanche',
+        protocol: 'yieldyak',
+        claimTo: items[0].claimTo,
+        items,
+        totalUsd,
+        estGasUsd: 0,
+        netUsd: 0,
+        contractAddress: call.target,
+        callData: call.callData,
+        value: 0
+      };
+      const estGasUsd = estimateBundleGasUsd(draft, 'avalanche');
+      bundles.push({ ...draft, estGasUsd, netUsd: Math.max(0, totalUsd - estGasUsd) });
+    }
+  }
+
+  console.log(`YieldYak: Created ${bundles.length} claim bundles`);
+  return bundles;
+}
 
 export const yieldYakIntegration: Integration = {
   key: 'yieldyak',
   chain: 'avalanche',
 
-  async discoverWallets(): Promise<Address[]> {
-    // TODO: Implement Yield Yak legacy strategy wallet discovery
-    // This would involve querying:
-    // - YAK farm participants
-    // - Legacy strategy holders
-    // - Deprecated pool participants
-    console.log('YieldYak: Discovery not implemented yet');
-    return [];
+  async discoverWallets(mockMode: boolean = false): Promise<Address[]> {
+    return await discoverYakWallets(mockMode);
   },
 
-  async getPendingRewards(wallets: Address[]): Promise<PendingReward[]> {
-    // TODO: Implement Yield Yak legacy strategy reward scanning
-    // This would involve:
-    // - Checking legacy farm contracts for pending YAK
-    // - Unclaimed rewards from deprecated strategies
-    // - Legacy LP token rewards
-    console.log(`YieldYak: Reward scanning not implemented for ${wallets.length} wallets`);
-    return [];
+  async getPendingRewards(wallets: Address[], mockMode: boolean = false): Promise<PendingReward[]> {
+    return await getYakPendingRewards(wallets, mockMode);
   },
 
-  async buildBundle(rewards: PendingReward[]): Promise<ClaimBundle[]> {
-    // TODO: Implement Yield Yak-specific bundling logic
-    console.log(`YieldYak: Bundle building not implemented for ${rewards.length} rewards`);
-    return [];
+  async buildBundle(rewards: PendingReward[], mockMode: boolean = false): Promise<ClaimBundle[]> {
+    return await buildYakClaimBundles(rewards, mockMode);
   }
 };
 
-// Yield Yak contract addresses on Avalanche (for future implementation)
+// Yield Yak contract addresses on Avalanche
 export const YIELDYAK_CONTRACTS = {
   // Core tokens
   YAK_TOKEN: '0x59414b3089ce2AF0010e7523Dea7E2b35d776ec7',
-  
+
   // Farming contracts (legacy)
   YAK_FARM_V1: '0x0cf605484A512d3F3435fed77AB5ddC0525Daf5f',
   YAK_FARM_V2: '0x57819fb70f9716dACDf1e6e3bC5792B495FFA4D8',
-  
+
   // Strategy contracts (examples of legacy ones to check)
   LEGACY_STRATEGIES: [
     '0x1234567890123456789012345678901234567890', // Example legacy strategy 1
     '0x2345678901234567890123456789012345678901', // Example legacy strategy 2
     '0x3456789012345678901234567890123456789012'  // Example legacy strategy 3
   ],
-  
+
   // Common reward tokens
   WAVAX: '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7',
   QI: '0x8729438EB15e2C8B576fCc6AeCdA6A148776C0F5',
   PNG: '0x60781C2586D68229fde47564546784ab3fACA982'
-} as const;
\ No newline at end of file
+} as const;
@@ -6,6 +6,7 @@
 import type { Quote, RouterEvaluation } from '../routers/types.js';
 import { logger } from '../engine/logger.js';
 import { Policy } from '../economics/policy.js';
+import { describeMarketConditions, type MarketConditions } from '../economics/marketConditions.js';
 
 /**
  * Cycle summary for reporting
@@ -31,6 +32,7 @@ export interface CycleSummary {
   }>;
   readonly warnings: string[];
   readonly recommendations: string[];
+  readonly marketConditions?: MarketConditions; // Sampled at the start of the cycle, with the policy adjustments in force
 }
 
 /**
@@ -110,6 +112,7 @@ export class Phase4MetricsCollector {
     totalGasUsd: 0,
     errors: new Map<string, { count: number; message: string }>(),
     warnings: new Set<string>(),
+    marketConditions: undefined as MarketConditions | undefined,
   };
   
   // Performance monitoring window
@@ -134,6 +137,7 @@ export class Phase4MetricsCollector {
       totalGasUsd: 0,
       errors: new Map(),
       warnings: new Set(),
+      marketConditions: undefined,
     };
     
     logger.info(`Phase 4: Starting cycle ${this.currentCycle}`);
@@ -173,7 +177,8 @@ export class Phase4MetricsCollector {
         message: data.message
       })),
       warnings: Array.from(this.currentCycleData.warnings),
-      recommendations: this.generateCycleRecommendations(cycleQuotes)
+      recommendations: this.generateCycleRecommendations(cycleQuotes),
+      marketConditions: this.currentCycleData.marketConditions
     };
     
     this.cycleSummaries.push(summary);
@@ -210,6 +215,13 @@ export class Phase4MetricsCollector {
     });
   }
 
+  /**
+   * Record the market conditions the cycle ran under
+   */
+  recordMarketConditions(conditions: MarketConditions): void {
+    this.currentCycleData.marketConditions = conditions;
+  }
+
   /**
    * Record bundle creation
    */
@@ -628,6 +640,10 @@ export function logCycleSummary(summary: CycleSummary): void {
     warningsCount: summary.warnings.length,
     recommendationsCount: summary.recommendations.length
   });
+
+  if (summary.marketConditions) {
+    logger.info(`Cycle market conditions: ${describeMarketConditions(summary.marketConditions)}`);
+  }
   
   // Log detailed recommendations if any
   if (summary.recommendations.length > 0) {
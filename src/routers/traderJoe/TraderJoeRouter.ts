@@ -25,6 +25,8 @@ import {
 } from './abi/Pair.js';
 import { calculateMinOutput, calculateDeadline } from '../../core/slippage.js';
 import { env } from '../../config/env.js';
+import { getTokenRegistry } from '../../state/tokenRegistry.js';
+import { getRpcProvider } from '../../chains/providerPool.js';
 import { logger } from '../../engine/logger.js';
 import { phase4Metrics } from '../../metrics/phase4.js';
 
@@ -42,7 +44,7 @@ export class TraderJoeRouter implements Router {
   private factoryAddress: string;
 
   constructor(rpcUrl: string, routerAddress?: string, factoryAddress?: string) {
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.provider = getRpcProvider(rpcUrl);
     this.routerAddress = routerAddress || env.traderJoeRouter;
     this.factoryAddress = factoryAddress || env.traderJoeFactory;
 
@@ -480,28 +482,29 @@ export function createTraderJoeRouter(rpcUrl?: string): TraderJoeRouter {
 }
 
 /**
- * Common token definitions for Avalanche
+ * Router token for an Avalanche address, with metadata from the token registry seed
  */
-export const AVALANCHE_TOKENS = {
-  WAVAX: {
-    address: env.wavaxToken,
-    decimals: 18,
-    symbol: 'WAVAX',
-    name: 'Wrapped AVAX',
-    chainId: 43114
-  },
-  USDC: {
-    address: env.usdcToken,
-    decimals: 6,
-    symbol: 'USDC',
-    name: 'USD Coin',
-    chainId: 43114
-  },
-  JOE: {
-    address: env.joeToken,
-    decimals: 18,
-    symbol: 'JOE',
-    name: 'JoeToken',
-    chainId: 43114
+function registryToken(address: string, symbol: string): Token {
+  const registry = getTokenRegistry();
+  const metadata = registry.get('avalanche', address) ?? registry.getBySymbol('avalanche', symbol);
+  if (!metadata) {
+    throw new Error(`Token ${symbol} (${address}) is missing from the token registry seed`);
   }
-} as const;
\ No newline at end of file
+
+  return {
+    address,
+    decimals: metadata.decimals,
+    symbol: metadata.symbol,
+    name: metadata.name,
+    chainId: 43114
+  };
+}
+
+/**
+ * Common token definitions for Avalanche, looked up in the token registry on first use
+ */
+export const AVALANCHE_TOKENS = {
+  get WAVAX(): Token { return registryToken(env.wavaxToken, 'WAVAX'); },
+  get USDC(): Token { return registryToken(env.usdcToken, 'USDC'); },
+  get JOE(): Token { return registryToken(env.joeToken, 'JOE'); }
+};
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { readFileSync } from 'fs';
 import { join } from 'path';
-import type { Address, PendingReward, ClaimBundle, TxResult } from '../types/common.js';
+import type { Address, PendingReward, ClaimBundle, TxResult, VerifiedTransfer, ItemResult } from '../types/common.js';
 import { MemoryDatabase } from './memoryDb.js';
+import { migrateUp } from './migrations.js';
 
 // Import better-sqlite3 dynamically to handle load failures
 let Database: any = null;
@@ -68,9 +69,25 @@ export interface ExecutionRecord {
   gas_used?: string;
   actual_gas_usd?: number;
   actual_claimed_usd?: number;
+  actual_net_usd?: number;
+  gas_usd?: number;
+  verified_payout?: boolean;
   executed_at: string;
 }
 
+export interface ExecutionTransferRecord {
+  id: number;
+  execution_id: string;
+  token_address: string;
+  from_address: string;
+  to_address: string;
+  amount_wei: string;
+  amount_usd?: number;
+  tx_hash: string;
+  log_index: number;
+  created_at: string;
+}
+
 let dbInstance: DatabaseInstance | null = null;
 let dbDiagnostics: DbDiagnostics = {
   type: sqliteAvailable ? 'sqlite' : 'memory',
@@ -193,8 +210,50 @@ export function initSchema(db: DatabaseInstance): void {
         actual_claimed_usd REAL,
         executed_at DATETIME DEFAULT CURRENT_TIMESTAMP
       );
+
+      CREATE TABLE IF NOT EXISTS tokens (
+        chain TEXT NOT NULL,
+        address TEXT NOT NULL,
+        symbol TEXT NOT NULL,
+        decimals INTEGER NOT NULL,
+        name TEXT,
+        source TEXT NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (chain, address)
+      );
+
+      CREATE TABLE IF NOT EXISTS idempotency (
+        bundle_hash TEXT PRIMARY KEY,
+        bundle_id TEXT NOT NULL,
+        chain TEXT NOT NULL,
+        status TEXT NOT NULL,
+        tx_hash TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS quarantine (
+        wallet_address TEXT NOT NULL,
+        wallet_chain TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        error_class TEXT NOT NULL,
+        strikes INTEGER NOT NULL DEFAULT 1,
+        quarantined_at DATETIME NOT NULL,
+        expires_at DATETIME NOT NULL,
+        PRIMARY KEY (wallet_address, wallet_chain)
+      );
+
+      CREATE TABLE IF NOT EXISTS retry_attempts (
+        operation_id TEXT PRIMARY KEY,
+        attempts INTEGER NOT NULL,
+        last_error TEXT,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
     `);
   }
+
+  // Versioned changes on top of the base schema (migrations/NNN_*.sql)
+  migrateUp(db);
 }
 
 export function getDb(): DatabaseInstance {
@@ -290,6 +349,83 @@ export function recordExecution(
   );
 }
 
+/**
+ * Store the transfers that verified an execution's payout (re-recording the same log is ignored)
+ */
+export function recordExecutionTransfers(
+  db: DatabaseInstance,
+  executionId: string,
+  transfers: readonly VerifiedTransfer[]
+): void {
+  const stmt = db.prepare(`
+    INSERT OR IGNORE INTO execution_transfers (
+      execution_id, token_address, from_address, to_address, amount_wei, tx_hash, log_index, amount_usd
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const transaction = db.transaction((items: readonly VerifiedTransfer[]) => {
+    for (const transfer of items) {
+      stmt.run(
+        executionId,
+        transfer.tokenAddress,
+        transfer.from,
+        transfer.to,
+        transfer.amountWei,
+        transfer.txHash,
+        transfer.logIndex,
+        transfer.amountUsd ?? null
+      );
+    }
+  });
+
+  transaction(transfers);
+}
+
+/**
+ * Store the per-item outcome of a batched execution
+ */
+export function recordExecutionItems(
+  db: DatabaseInstance,
+  executionId: string,
+  itemResults: readonly ItemResult[]
+): void {
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO execution_items (execution_id, reward_id, success, error_message)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  const transaction = db.transaction((items: readonly ItemResult[]) => {
+    for (const item of items) {
+      stmt.run(executionId, item.itemId, item.success ? 1 : 0, item.error ?? null);
+    }
+  });
+
+  transaction(itemResults);
+}
+
+/**
+ * Store realized value, gas and net profit of a verified execution
+ */
+export function recordRealizedPnl(
+  db: DatabaseInstance,
+  executionId: string,
+  realized: { totalUsd: number; gasUsd: number }
+): void {
+  const stmt = db.prepare(`
+    UPDATE executions
+    SET verified_payout = 1, actual_claimed_usd = ?, actual_gas_usd = ?, gas_usd = ?, actual_net_usd = ?
+    WHERE id = ?
+  `);
+
+  stmt.run(
+    realized.totalUsd,
+    realized.gasUsd,
+    realized.gasUsd,
+    realized.totalUsd - realized.gasUsd,
+    executionId
+  );
+}
+
 export function markClaimed(
   db: DatabaseInstance, 
   rewardIds: string[], 
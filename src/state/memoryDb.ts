@@ -149,6 +149,22 @@ class MemoryStatement implements MemoryDbStatement {
       return this.insertPendingReward(table, params);
     } else if (tableName === 'executions') {
       return this.insertExecution(table, params);
+    } else if (tableName === 'tokens') {
+      return this.insertToken(table, params);
+    } else if (tableName === 'idempotency') {
+      return this.upsertIdempotency(table, params);
+    } else if (tableName === 'quarantine') {
+      return this.insertQuarantine(table, params);
+    } else if (tableName === 'retry_attempts') {
+      return this.insertRetryAttempt(table, params);
+    } else if (tableName === 'execution_transfers') {
+      return this.insertExecutionTransfer(table, params);
+    } else if (tableName === 'execution_items') {
+      return this.insertExecutionItem(table, params);
+    } else if (tableName === 'pending_transactions') {
+      return this.insertPendingTransaction(table, params);
+    } else if (tableName === 'schema_migrations') {
+      return this.insertMigration(table, params);
     }
     
     return { changes: 0, lastInsertRowid: 0 };
@@ -216,6 +232,114 @@ class MemoryStatement implements MemoryDbStatement {
     return { changes: 1, lastInsertRowid: 0 };
   }
 
+  private insertToken(table: MemoryDbRecord[], params: any[]): { changes: number; lastInsertRowid: number | bigint } {
+    const [chain, address, symbol, decimals, name, source, updated_at] = params;
+    
+    // Remove existing record with same (chain, address) (INSERT OR REPLACE)
+    const filteredTable = table.filter(r => !(r.chain === chain && r.address === address));
+    filteredTable.push({ chain, address, symbol, decimals, name, source, updated_at });
+    this.db.setTable('tokens', filteredTable);
+    
+    return { changes: 1, lastInsertRowid: 0 };
+  }
+
+  private upsertIdempotency(table: MemoryDbRecord[], params: any[]): { changes: number; lastInsertRowid: number | bigint } {
+    const [bundle_hash, bundle_id, chain, status, tx_hash, created_at, updated_at] = params;
+    
+    // ON CONFLICT(bundle_hash) DO UPDATE, keeping created_at and any earlier tx hash
+    const existing = table.find(r => r.bundle_hash === bundle_hash);
+    if (existing) {
+      Object.assign(existing, { bundle_id, status, tx_hash: tx_hash ?? existing.tx_hash, updated_at });
+    } else {
+      table.push({ bundle_hash, bundle_id, chain, status, tx_hash, created_at, updated_at });
+    }
+    this.db.setTable('idempotency', table);
+    
+    return { changes: 1, lastInsertRowid: 0 };
+  }
+
+  private insertQuarantine(table: MemoryDbRecord[], params: any[]): { changes: number; lastInsertRowid: number | bigint } {
+    const [wallet_address, wallet_chain, reason, error_class, strikes, quarantined_at, expires_at] = params;
+    
+    // Remove existing record for the same wallet (INSERT OR REPLACE)
+    const filteredTable = table.filter(r => !(r.wallet_address === wallet_address && r.wallet_chain === wallet_chain));
+    filteredTable.push({ wallet_address, wallet_chain, reason, error_class, strikes, quarantined_at, expires_at });
+    this.db.setTable('quarantine', filteredTable);
+    
+    return { changes: 1, lastInsertRowid: 0 };
+  }
+
+  private insertRetryAttempt(table: MemoryDbRecord[], params: any[]): { changes: number; lastInsertRowid: number | bigint } {
+    const [operation_id, attempts, last_error, updated_at] = params;
+    
+    // Remove existing record for the same operation (INSERT OR REPLACE)
+    const filteredTable = table.filter(r => r.operation_id !== operation_id);
+    filteredTable.push({ operation_id, attempts, last_error, updated_at });
+    this.db.setTable('retry_attempts', filteredTable);
+    
+    return { changes: 1, lastInsertRowid: 0 };
+  }
+
+  private insertExecutionTransfer(table: MemoryDbRecord[], params: any[]): { changes: number; lastInsertRowid: number | bigint } {
+    const [execution_id, token_address, from_address, to_address, amount_wei, tx_hash, log_index, amount_usd] = params;
+    
+    // UNIQUE(tx_hash, log_index) with INSERT OR IGNORE
+    if (table.some(r => r.tx_hash === tx_hash && r.log_index === log_index)) {
+      return { changes: 0, lastInsertRowid: 0 };
+    }
+    
+    const id = this.db.getNextId('execution_transfers');
+    table.push({
+      id, execution_id, token_address, from_address, to_address, amount_wei, tx_hash, log_index, amount_usd,
+      created_at: new Date().toISOString()
+    });
+    this.db.setTable('execution_transfers', table);
+    
+    return { changes: 1, lastInsertRowid: id };
+  }
+
+  private insertExecutionItem(table: MemoryDbRecord[], params: any[]): { changes: number; lastInsertRowid: number | bigint } {
+    const [execution_id, reward_id, success, error_message] = params;
+    
+    // PRIMARY KEY(execution_id, reward_id) with INSERT OR REPLACE
+    const filteredTable = table.filter(r => !(r.execution_id === execution_id && r.reward_id === reward_id));
+    filteredTable.push({ execution_id, reward_id, success, error_message, created_at: new Date().toISOString() });
+    this.db.setTable('execution_items', filteredTable);
+    
+    return { changes: 1, lastInsertRowid: 0 };
+  }
+
+  private insertPendingTransaction(table: MemoryDbRecord[], params: any[]): { changes: number; lastInsertRowid: number | bigint } {
+    const [
+      tx_hash, wallet_address, chain, nonce, bundle_id, kind, to_address, data, value, gas_limit,
+      max_fee_per_gas, max_priority_fee_per_gas, status, created_at, updated_at
+    ] = params;
+    
+    // tx_hash is the primary key (INSERT OR REPLACE)
+    const filteredTable = table.filter(r => r.tx_hash !== tx_hash);
+    filteredTable.push({
+      tx_hash, wallet_address, chain, nonce, bundle_id, kind, to_address, data, value, gas_limit,
+      max_fee_per_gas, max_priority_fee_per_gas, status, created_at, updated_at
+    });
+    this.db.setTable('pending_transactions', filteredTable);
+    
+    return { changes: 1, lastInsertRowid: 0 };
+  }
+
+  private insertMigration(table: MemoryDbRecord[], params: any[]): { changes: number; lastInsertRowid: number | bigint } {
+    const [version, name, checksum, applied_at] = params;
+    
+    // version is the primary key
+    if (table.some(r => r.version === version)) {
+      throw new Error(`UNIQUE constraint failed: schema_migrations.version`);
+    }
+    
+    table.push({ version, name, checksum, applied_at });
+    this.db.setTable('schema_migrations', table);
+    
+    return { changes: 1, lastInsertRowid: version };
+  }
+
   private handleUpdate(params: any[]): { changes: number; lastInsertRowid: number | bigint } {
     const tableName = this.extractTableName('UPDATE');
     if (!tableName) return { changes: 0, lastInsertRowid: 0 };
@@ -234,12 +358,52 @@ class MemoryStatement implements MemoryDbStatement {
       }
     }
 
+    if (tableName === 'executions' && this.sql.includes('SET verified_payout = 1')) {
+      // Handle recordRealizedPnl update
+      const [claimedUsd, gasUsd, , netUsd, id] = params;
+      const record = table.find(r => r.id === id);
+      if (record) {
+        Object.assign(record, {
+          verified_payout: 1,
+          actual_claimed_usd: claimedUsd,
+          actual_gas_usd: gasUsd,
+          gas_usd: gasUsd,
+          actual_net_usd: netUsd
+        });
+        changes = 1;
+      }
+    }
+
     this.db.setTable(tableName, table);
     return { changes, lastInsertRowid: 0 };
   }
 
   private handleDelete(params: any[]): { changes: number; lastInsertRowid: number | bigint } {
     // Simplified delete implementation
+    const tableName = this.extractTableName('DELETE FROM');
+    if (tableName === 'idempotency' && this.sql.includes('WHERE updated_at < ?')) {
+      const [cutoff] = params;
+      const table = this.db.getTable(tableName);
+      const remaining = table.filter(r => r.updated_at >= cutoff);
+      this.db.setTable(tableName, remaining);
+      return { changes: table.length - remaining.length, lastInsertRowid: 0 };
+    }
+
+    if (tableName === 'quarantine' && this.sql.includes('WHERE wallet_address = ? AND wallet_chain = ?')) {
+      const [address, chain] = params;
+      const table = this.db.getTable(tableName);
+      const remaining = table.filter(r => !(r.wallet_address === address && r.wallet_chain === chain));
+      this.db.setTable(tableName, remaining);
+      return { changes: table.length - remaining.length, lastInsertRowid: 0 };
+    }
+
+    if (tableName === 'retry_attempts') {
+      const table = this.db.getTable(tableName);
+      const remaining = this.sql.includes('WHERE operation_id = ?') ? table.filter(r => r.operation_id !== params[0]) : [];
+      this.db.setTable(tableName, remaining);
+      return { changes: table.length - remaining.length, lastInsertRowid: 0 };
+    }
+
     return { changes: 0, lastInsertRowid: 0 };
   }
 
@@ -256,6 +420,22 @@ class MemoryStatement implements MemoryDbStatement {
       return singleResult ? record : (record ? [record] : []);
     }
     
+    if (tableName === 'idempotency' && this.sql.includes('WHERE bundle_hash = ?')) {
+      const [bundleHash] = params;
+      const record = table.find(r => r.bundle_hash === bundleHash);
+      return singleResult ? record : (record ? [record] : []);
+    }
+    
+    if (tableName === 'idempotency' && this.sql.includes("status IN ('pending', 'submitted')")) {
+      const inFlight = table.filter(r => r.status === 'pending' || r.status === 'submitted');
+      return singleResult ? inFlight[0] : inFlight;
+    }
+    
+    if (tableName === 'tokens' || tableName === 'quarantine' || tableName === 'retry_attempts' || tableName === 'schema_migrations' || tableName === 'execution_transfers' || tableName === 'execution_items' || tableName === 'pending_transactions') {
+      const records = this.orderBy(table.filter(this.whereClause(params)));
+      return singleResult ? records[0] : records;
+    }
+    
     if (tableName === 'executions' && this.sql.includes('WHERE executed_at >')) {
       // For getRecentExecutions
       const cutoffTime = new Date();
@@ -271,8 +451,50 @@ class MemoryStatement implements MemoryDbStatement {
     return singleResult ? undefined : [];
   }
 
+  /**
+   * Filter for a WHERE clause of AND-ed `column = ?`, `column = 'literal'` and `column IN (...)`
+   * conditions, taking the ? placeholders from params in order
+   */
+  private whereClause(params: any[]): (record: MemoryDbRecord) => boolean {
+    const match = this.sql.match(/\bWHERE\s+([\s\S]*?)\s*(?:\bORDER\s+BY\b|\bLIMIT\b|$)/i);
+    if (!match) return () => true;
+
+    let next = 0;
+    const value = (token: string): any => token === '?' ? params[next++] : token.startsWith("'") ? token.slice(1, -1) : Number(token);
+    const conditions = match[1].split(/\s+AND\s+/i).map(condition => {
+      const equals = condition.match(/^(?:\w+\.)?(\w+)\s*=\s*(\?|'[^']*'|-?\d+(?:\.\d+)?)$/);
+      if (equals) {
+        const [, column, token] = equals;
+        const expected = value(token);
+        return (record: MemoryDbRecord) => record[column] === expected;
+      }
+
+      const within = condition.match(/^(?:\w+\.)?(\w+)\s+IN\s*\(([^)]*)\)$/i);
+      if (within) {
+        const [, column, list] = within;
+        const expected = list.split(',').map(token => value(token.trim()));
+        return (record: MemoryDbRecord) => expected.includes(record[column]);
+      }
+
+      throw new Error(`Unsupported WHERE condition in memory database: ${condition}`);
+    });
+
+    return record => conditions.every(condition => condition(record));
+  }
+
+  private orderBy(records: MemoryDbRecord[]): MemoryDbRecord[] {
+    const match = this.sql.match(/\bORDER\s+BY\s+(?:\w+\.)?(\w+)(?:\s+(ASC|DESC))?/i);
+    if (!match) return records;
+
+    const [, column, direction] = match;
+    const sign = direction?.toUpperCase() === 'DESC' ? -1 : 1;
+    return [...records].sort((a, b) => a[column] < b[column] ? -sign : a[column] > b[column] ? sign : 0);
+  }
+
   private extractTableName(operation: string): string | null {
-    const regex = new RegExp(`${operation}(?:\\s+(?:OR\\s+\\w+|INTO))?\\s+(\\w+)`, 'i');
+    const regex = operation === 'SELECT'
+      ? /SELECT\s+[\s\S]*?\bFROM\s+(\w+)/i
+      : new RegExp(`${operation}(?:\\s+OR\\s+\\w+)?(?:\\s+INTO)?\\s+(\\w+)`, 'i');
     const match = this.sql.match(regex);
     return match ? match[1] : null;
   }
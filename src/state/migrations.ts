@@ -0,0 +1,169 @@
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * Versioned schema migrations: migrations/NNN_name.sql files applied in order on top of schema.sql
+ * and recorded in `schema_migrations` with a checksum so edited migrations are detected.
+ */
+
+export const DEFAULT_MIGRATIONS_DIR = join(__dirname, '../../migrations');
+
+export interface Migration {
+  version: number;
+  name: string;
+  filename: string;
+  sql: string;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: 'applied' | 'pending' | 'checksum_mismatch' | 'missing';
+  appliedAt?: string;
+}
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_(.+)\.sql$/;
+
+export function ensureMigrationsTable(db: any): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+/**
+ * Read migration files sorted by version
+ */
+export function loadMigrations(dir: string = DEFAULT_MIGRATIONS_DIR): Migration[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const migrations = readdirSync(dir)
+    .map(filename => ({ filename, match: filename.match(MIGRATION_FILE_PATTERN) }))
+    .filter((entry): entry is { filename: string; match: RegExpMatchArray } => entry.match !== null)
+    .map(({ filename, match }) => {
+      const sql = readFileSync(join(dir, filename), 'utf-8');
+      return {
+        version: parseInt(match[1], 10),
+        name: match[2],
+        filename,
+        sql,
+        checksum: createHash('sha256').update(sql).digest('hex')
+      };
+    })
+    .sort((a, b) => a.version - b.version);
+
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version === migrations[i - 1].version) {
+      throw new Error(`Duplicate migration version ${migrations[i].version}: ${migrations[i - 1].filename}, ${migrations[i].filename}`);
+    }
+  }
+
+  return migrations;
+}
+
+export function getAppliedMigrations(db: any): AppliedMigration[] {
+  ensureMigrationsTable(db);
+  return (db.prepare('SELECT * FROM schema_migrations ORDER BY version').all() as AppliedMigration[])
+    .map(row => ({ ...row, version: Number(row.version) }))
+    .sort((a, b) => a.version - b.version);
+}
+
+export function getMigrationStatus(db: any, dir: string = DEFAULT_MIGRATIONS_DIR): MigrationStatus[] {
+  const applied = new Map(getAppliedMigrations(db).map(row => [row.version, row]));
+  const statuses: MigrationStatus[] = loadMigrations(dir).map(migration => {
+    const row = applied.get(migration.version);
+    applied.delete(migration.version);
+
+    if (!row) {
+      return { version: migration.version, name: migration.name, state: 'pending' };
+    }
+
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: row.checksum === migration.checksum ? 'applied' : 'checksum_mismatch',
+      appliedAt: row.applied_at
+    };
+  });
+
+  // Recorded in the database but no longer on disk
+  for (const row of applied.values()) {
+    statuses.push({ version: row.version, name: row.name, state: 'missing', appliedAt: row.applied_at });
+  }
+
+  return statuses.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Split a migration into statements, dropping `--` comments
+ */
+function splitStatements(sql: string): string[] {
+  return sql
+    .split('\n')
+    .map(line => line.replace(/--.*$/, ''))
+    .join('\n')
+    .split(';')
+    .map(statement => statement.trim())
+    .filter(statement => statement.length > 0);
+}
+
+// Columns that schema.sql already creates make ADD COLUMN fail; the column being there is the desired state
+function isDuplicateColumn(statement: string, error: unknown): boolean {
+  return /^ALTER\s+TABLE\s+\w+\s+ADD\s+COLUMN/i.test(statement) &&
+    error instanceof Error && /duplicate column name/i.test(error.message);
+}
+
+/**
+ * Apply pending migrations in order, refusing to run when an applied migration was modified
+ */
+export function migrateUp(db: any, dir: string = DEFAULT_MIGRATIONS_DIR): Migration[] {
+  const statuses = getMigrationStatus(db, dir);
+  const modified = statuses.filter(status => status.state === 'checksum_mismatch');
+  if (modified.length > 0) {
+    throw new Error(`Applied migrations were modified on disk: ${modified.map(m => `${String(m.version).padStart(3, '0')}_${m.name}`).join(', ')}`);
+  }
+
+  const pendingVersions = new Set(statuses.filter(status => status.state === 'pending').map(status => status.version));
+  const pending = loadMigrations(dir).filter(migration => pendingVersions.has(migration.version));
+
+  for (const migration of pending) {
+    const apply = db.transaction(() => {
+      for (const statement of splitStatements(migration.sql)) {
+        try {
+          db.exec(statement);
+        } catch (error) {
+          if (!isDuplicateColumn(statement, error)) {
+            throw error;
+          }
+        }
+      }
+
+      db.prepare('INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)')
+        .run(migration.version, migration.name, migration.checksum, new Date().toISOString());
+    });
+
+    try {
+      apply();
+    } catch (error) {
+      throw new Error(`Migration ${migration.filename} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    console.log(`✅ Applied migration ${migration.filename}`);
+  }
+
+  return pending;
+}
@@ -50,6 +50,49 @@ CREATE TABLE IF NOT EXISTS executions (
   executed_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Token metadata registry (seeded from src/config/tokens.json, filled lazily on-chain)
+CREATE TABLE IF NOT EXISTS tokens (
+  chain TEXT NOT NULL,
+  address TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  decimals INTEGER NOT NULL,
+  name TEXT,
+  source TEXT NOT NULL,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (chain, address)
+);
+
+-- Bundle idempotency keyed by computeBundleHash (pending, submitted, confirmed, failed)
+CREATE TABLE IF NOT EXISTS idempotency (
+  bundle_hash TEXT PRIMARY KEY,
+  bundle_id TEXT NOT NULL,
+  chain TEXT NOT NULL,
+  status TEXT NOT NULL,
+  tx_hash TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Wallet quarantines; expired rows are kept so strikes escalate for repeat offenders
+CREATE TABLE IF NOT EXISTS quarantine (
+  wallet_address TEXT NOT NULL,
+  wallet_chain TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  error_class TEXT NOT NULL,
+  strikes INTEGER NOT NULL DEFAULT 1,
+  quarantined_at DATETIME NOT NULL,
+  expires_at DATETIME NOT NULL,
+  PRIMARY KEY (wallet_address, wallet_chain)
+);
+
+-- Retry attempts of operations still being retried
+CREATE TABLE IF NOT EXISTS retry_attempts (
+  operation_id TEXT PRIMARY KEY,
+  attempts INTEGER NOT NULL,
+  last_error TEXT,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Create indexes for better query performance
 CREATE INDEX IF NOT EXISTS idx_wallets_chain ON wallets(chain);
 CREATE INDEX IF NOT EXISTS idx_wallets_last_claim ON wallets(last_claim_at);
@@ -58,4 +101,6 @@ CREATE INDEX IF NOT EXISTS idx_pending_discovered ON pending_rewards(discovered_
 CREATE INDEX IF NOT EXISTS idx_pending_stale ON pending_rewards(is_stale);
 CREATE INDEX IF NOT EXISTS idx_executions_protocol ON executions(protocol);
 CREATE INDEX IF NOT EXISTS idx_executions_executed ON executions(executed_at);
-CREATE INDEX IF NOT EXISTS idx_executions_success ON executions(success);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_executions_success ON executions(success);
+CREATE INDEX IF NOT EXISTS idx_idempotency_status ON idempotency(status);
+CREATE INDEX IF NOT EXISTS idx_quarantine_expires ON quarantine(expires_at);
\ No newline at end of file
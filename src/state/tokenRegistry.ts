@@ -0,0 +1,202 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { ethers } from 'ethers';
+import type { Chain } from '../types/common.js';
+import { env } from '../config/env.js';
+import { getRpcProvider } from '../chains/providerPool.js';
+import { createReadOnlyTronWeb, callConstant } from '../integrations/_tron.js';
+import bundledSeed from '../config/tokens.json';
+
+/**
+ * Token metadata registry keyed by (chain, address).
+ * Seeded from the token seed file, persisted in the `tokens` table and
+ * lazily filled from on-chain symbol()/decimals() for unknown tokens.
+ */
+
+export interface TokenMetadata {
+  readonly chain: Chain;
+  readonly address: string;
+  readonly symbol: string;
+  readonly decimals: number;
+  readonly name?: string;
+  readonly tags?: readonly string[];
+  readonly source: 'seed' | 'db' | 'chain';
+}
+
+export interface TokenRecord {
+  chain: string;
+  address: string;
+  symbol: string;
+  decimals: number;
+  name?: string;
+  source: string;
+  updated_at: string;
+}
+
+const ERC20_METADATA_ABI = [
+  'function symbol() external view returns (string)',
+  'function decimals() external view returns (uint8)'
+];
+
+// EVM addresses are case-insensitive, Tron base58 addresses are not
+function tokenKey(chain: Chain, address: string): string {
+  return chain === 'tron' ? `tron:${address}` : `${chain}:${address.toLowerCase()}`;
+}
+
+/**
+ * Read seed entries, skipping anything that is not a complete token record.
+ * Without a seed path the seed compiled in from config/tokens.json is used, so it works from any cwd.
+ */
+function loadSeed(seedPath: string): TokenMetadata[] {
+  try {
+    const raw: unknown = seedPath ? JSON.parse(readFileSync(resolve(seedPath), 'utf8')) : bundledSeed;
+    if (!Array.isArray(raw)) {
+      return [];
+    }
+
+    return raw
+      .filter((entry: any) =>
+        (entry?.chain === 'avalanche' || entry?.chain === 'tron') &&
+        typeof entry.address === 'string' &&
+        typeof entry.symbol === 'string' &&
+        Number.isInteger(entry.decimals)
+      )
+      .map((entry: any) => ({
+        chain: entry.chain,
+        address: entry.address,
+        symbol: entry.symbol,
+        decimals: entry.decimals,
+        name: entry.name,
+        tags: Array.isArray(entry.tags) ? entry.tags : undefined,
+        source: 'seed' as const
+      }));
+  } catch (error) {
+    console.warn(`Failed to load token seed ${seedPath || 'config/tokens.json'}:`, error);
+    return [];
+  }
+}
+
+export class TokenRegistry {
+  private tokens = new Map<string, TokenMetadata>();
+  private db: any;
+
+  constructor(seedPath: string = env.tokenSeedPath) {
+    for (const token of loadSeed(seedPath)) {
+      this.tokens.set(tokenKey(token.chain, token.address), token);
+    }
+  }
+
+  /**
+   * Persist fetched tokens to the database and load the ones fetched by earlier runs
+   */
+  attachDb(db: any): void {
+    this.db = db;
+    try {
+      const rows = db.prepare('SELECT * FROM tokens').all() as TokenRecord[];
+      for (const row of rows) {
+        const chain = row.chain as Chain;
+        const key = tokenKey(chain, row.address);
+        if (!this.tokens.has(key)) {
+          this.tokens.set(key, {
+            chain,
+            address: row.address,
+            symbol: row.symbol,
+            decimals: Number(row.decimals),
+            name: row.name ?? undefined,
+            source: 'db'
+          });
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to load tokens from database:', error);
+    }
+  }
+
+  /**
+   * Known metadata for a token (seed, database or previously fetched), without network access
+   */
+  get(chain: Chain, address: string): TokenMetadata | undefined {
+    return this.tokens.get(tokenKey(chain, address));
+  }
+
+  getBySymbol(chain: Chain, symbol: string): TokenMetadata | undefined {
+    const wanted = symbol.toUpperCase();
+    for (const token of this.tokens.values()) {
+      if (token.chain === chain && token.symbol.toUpperCase() === wanted) {
+        return token;
+      }
+    }
+    return undefined;
+  }
+
+  list(chain: Chain, tag?: string): TokenMetadata[] {
+    return Array.from(this.tokens.values())
+      .filter(token => token.chain === chain && (!tag || token.tags?.includes(tag)));
+  }
+
+  /**
+   * Metadata for a token, fetching symbol()/decimals() on-chain and persisting them when unknown
+   */
+  async resolve(chain: Chain, address: string): Promise<TokenMetadata> {
+    const known = this.get(chain, address);
+    if (known) {
+      return known;
+    }
+
+    const { symbol, decimals } = chain === 'tron'
+      ? await this.fetchTronMetadata(address)
+      : await this.fetchEvmMetadata(address);
+
+    const token: TokenMetadata = { chain, address, symbol, decimals, source: 'chain' };
+    this.tokens.set(tokenKey(chain, address), token);
+    this.persist(token);
+    return token;
+  }
+
+  private async fetchEvmMetadata(address: string): Promise<{ symbol: string; decimals: number }> {
+    const provider = getRpcProvider();
+    const contract = new ethers.Contract(address, ERC20_METADATA_ABI, provider);
+    const [symbol, decimals] = await Promise.all([contract.symbol(), contract.decimals()]);
+    return { symbol: String(symbol), decimals: Number(decimals) };
+  }
+
+  private async fetchTronMetadata(address: string): Promise<{ symbol: string; decimals: number }> {
+    const tronWeb = createReadOnlyTronWeb();
+    const [[symbol], [decimals]] = await Promise.all([
+      callConstant(tronWeb, address, 'symbol()', [], ['string'], address),
+      callConstant(tronWeb, address, 'decimals()', [], ['uint8'], address)
+    ]);
+    return { symbol: String(symbol), decimals: Number(decimals) };
+  }
+
+  private persist(token: TokenMetadata): void {
+    if (!this.db) {
+      return;
+    }
+
+    try {
+      this.db.prepare(`
+        INSERT OR REPLACE INTO tokens (chain, address, symbol, decimals, name, source, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(token.chain, token.address, token.symbol, token.decimals, token.name ?? null, token.source, new Date().toISOString());
+    } catch (error) {
+      console.warn(`Failed to persist token ${token.chain}:${token.address}:`, error);
+    }
+  }
+}
+
+let tokenRegistry: TokenRegistry | undefined;
+
+export function getTokenRegistry(): TokenRegistry {
+  if (!tokenRegistry) {
+    tokenRegistry = new TokenRegistry();
+  }
+  return tokenRegistry;
+}
+
+/**
+ * Replace the shared registry (tests, alternative seed files)
+ */
+export function setTokenRegistry(registry: TokenRegistry | undefined): void {
+  tokenRegistry = registry;
+}
@@ -17,6 +17,25 @@ export interface PendingReward {
   readonly discoveredAt: Date;
   readonly estGasLimit?: number;
   readonly isSynthetic?: boolean;
+  readonly claimCall?: ClaimCall;     // Call that claims this reward
+  readonly nativePayout?: boolean;    // Paid in the native coin, which emits no Transfer log
+}
+
+/**
+ * A single contract call, e.g. claimReward(type, holder, markets) on a protocol that claims on behalf of an account
+ */
+export interface ClaimCall {
+  readonly target: string;
+  readonly callData: string;
+  readonly value?: number;
+  readonly fromWallet?: boolean;      // Acts on msg.sender (withdraw, harvest, redeem): sent by the wallet itself, never batched
+}
+
+/**
+ * One sub-call of a batched bundle and the bundle items it claims
+ */
+export interface BundleCall extends ClaimCall {
+  readonly itemIds: readonly string[];
 }
 
 export interface ClaimBundle {
@@ -31,6 +50,16 @@ export interface ClaimBundle {
   readonly contractAddress?: string;  // Target contract address for execution
   readonly callData?: string;         // Encoded function call data
   readonly value?: number;           // ETH/AVAX value to send (usually 0 for claims)
+  readonly calls?: readonly BundleCall[]; // Sub-calls sent as one Multicall3 aggregate3 transaction instead of contractAddress/callData
+}
+
+/**
+ * Outcome of one bundle item in a batched execution or simulation
+ */
+export interface ItemResult {
+  readonly itemId: string;
+  readonly success: boolean;
+  readonly error?: string;
 }
 
 export interface TxResult {
@@ -43,6 +72,27 @@ export interface TxResult {
   readonly chain: Chain;
   readonly status?: string;
   readonly verifiedPayout?: boolean;
+  // Tron resource usage (energy/bandwidth units, fee burned in TRX)
+  readonly energyUsed?: string;
+  readonly bandwidthUsed?: string;
+  readonly feeTrx?: number;
+  // Transfers to the claim recipient found in the receipt (set when the payout was verified)
+  readonly transfers?: readonly VerifiedTransfer[];
+  // Per-item outcome of a batched (calls) bundle
+  readonly itemResults?: readonly ItemResult[];
+}
+
+/**
+ * Represents a verified ERC20/TRC20 transfer event
+ */
+export interface VerifiedTransfer {
+  readonly tokenAddress: string;
+  readonly from: string;
+  readonly to: string;
+  readonly amountWei: string;
+  readonly txHash: string;
+  readonly logIndex: number;
+  readonly amountUsd?: number; // Value at execution-time prices
 }
 
 export interface Integration {
@@ -53,20 +103,41 @@ export interface Integration {
   buildBundle(rewards: PendingReward[], mockMode?: boolean): Promise<ClaimBundle[]>;
 }
 
+/**
+ * Why a claim failed, as far as retry and quarantine decisions are concerned
+ */
+export type FailureCategory =
+  | 'nothing-to-claim'
+  | 'paused'
+  | 'unauthorized'
+  | 'out-of-gas'
+  | 'insufficient-funds'
+  | 'network'
+  | 'unknown';
+
 export interface SimulationResult {
   readonly ok: boolean;
   readonly reason?: string;
+  readonly failureCategory?: FailureCategory; // Set when ok is false
+  readonly gasUsed?: string;   // Simulated gas (EVM) or energy (Tron)
+  readonly costUsd?: number;   // Simulated execution cost, when the client can model it
+  readonly itemResults?: readonly ItemResult[]; // Per-item outcome of a batched (calls) bundle
+  readonly transfers?: readonly VerifiedTransfer[]; // Payout observed when the bundle was executed on a fork
 }
 
 export interface ChainClient {
   readonly chain: Chain;
   gasPrice(): Promise<bigint>;
+  baseFeePerGas?(): Promise<bigint>; // Optional method for the latest block's base fee
   nativeUsd(): Promise<number>;
   simulate(bundle: ClaimBundle): Promise<SimulationResult>;
-  sendRaw(bundle: ClaimBundle): Promise<TxResult>;
+  sendRaw(bundle: ClaimBundle, onSubmitted?: (txHash: string) => void): Promise<TxResult>;
   getCode?(address: string): Promise<string>; // Optional method for contract validation
+  getTransactionStatus?(txHash: string): Promise<TxStatus>; // Optional method for reconciling in-flight bundles
 }
 
+export type TxStatus = 'confirmed' | 'failed' | 'pending' | 'not_found';
+
 export interface Config {
   readonly chains: {
     readonly avalanche: {
@@ -0,0 +1,267 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const REVERTING_TARGET = '0x00000000000000000000000000000000000000bd';
+
+// Per-target outcome of the claim router's sub-calls, and the transactions sent through the wallet
+const chainState = {
+  receiptStatus: 1,
+  sent: [] as Array<{ to: string; data: string; value: bigint; gasLimit: bigint }>
+};
+
+// Keep the real Interface for encoding, answer aggregate3 eth_calls from chainState
+vi.mock('ethers', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('ethers')>();
+  const router = new actual.ethers.Interface([
+    'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) view returns ((bool success, bytes returnData)[] returnData)'
+  ]);
+
+  const provider = {
+    getFeeData: vi.fn(async () => ({ maxFeePerGas: 25000000000n, gasPrice: 25000000000n, maxPriorityFeePerGas: 1000000000n })),
+    call: vi.fn(async ({ data }: { data: string }) => {
+      // Direct claim calls succeed with empty return data
+      if (!data.startsWith(router.getFunction('aggregate3')!.selector)) {
+        return '0x';
+      }
+      const [calls] = router.decodeFunctionData('aggregate3', data);
+      return router.encodeFunctionResult('aggregate3', [
+        calls.map((call: any) => call.target.toLowerCase() === REVERTING_TARGET ? [false, '0x08c379a0'] : [true, '0x'])
+      ]);
+    }),
+    getTransactionCount: vi.fn(async () => chainState.sent.length),
+    getTransactionReceipt: vi.fn(async (hash: string) => ({ hash, status: chainState.receiptStatus, gasUsed: 400000n, gasPrice: 25000000000n }))
+  };
+
+  const wallet = {
+    address: '0x1234567890123456789012345678901234567890',
+    sendTransaction: vi.fn(async (tx: any) => {
+      chainState.sent.push(tx);
+      return { hash: '0xbatch' };
+    })
+  };
+
+  return {
+    ethers: {
+      ...actual.ethers,
+      JsonRpcProvider: vi.fn(() => provider),
+      Wallet: vi.fn(() => wallet),
+      Contract: vi.fn(() => ({ latestRoundData: vi.fn(async () => [0n, 3500000000n, 0n, 0n, 0n]) }))
+    }
+  };
+});
+
+import { ethers } from 'ethers';
+import { AvalancheClient } from '../src/chains/avalanche.js';
+import { buildBundleCalls, buildBundles, groupByContract } from '../src/engine/bundler.js';
+import { env } from '../src/config/env.js';
+import { gmxIntegration } from '../src/integrations/gmx.js';
+import { gmxDustIntegration } from '../src/integrations/gmx-dust.js';
+import { sJoeIntegration } from '../src/integrations/traderjoe/sjoe.js';
+import type { Address, ClaimBundle, PendingReward } from '../src/types/common.js';
+
+const COMPTROLLER = '0x486Af39519B4Dc9a7fCcd318217352830E8AD9b4';
+const comptroller = new ethers.Interface(['function claimReward(uint8 rewardType, address holder, address[] markets)']);
+const router = new ethers.Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) view returns ((bool success, bytes returnData)[] returnData)'
+]);
+
+const holder: Address = { value: '0xe816F3dB12Db343FAF01B0781F9fE80122FA7E7D', chain: 'avalanche' };
+
+function reward(id: string, amountUsd: number, claimCall?: PendingReward['claimCall']): PendingReward {
+  return {
+    id,
+    wallet: holder,
+    protocol: 'benqi',
+    token: { value: '0x8729438EB15e2C8B576fCc6AeCdA6A148776C0F5', chain: 'avalanche' },
+    amountWei: '1000000000000000000',
+    amountUsd,
+    claimTo: holder,
+    discoveredAt: new Date(),
+    estGasLimit: 250000,
+    claimCall
+  };
+}
+
+const claimCall = (rewardType: number, target: string = COMPTROLLER) => ({
+  target,
+  callData: comptroller.encodeFunctionData('claimReward', [rewardType, holder.value, []]),
+  value: 0
+});
+
+function batchedBundle(items: PendingReward[]): ClaimBundle {
+  return {
+    id: 'batch-1',
+    chain: 'avalanche',
+    protocol: 'benqi',
+    claimTo: holder,
+    items,
+    totalUsd: items.reduce((sum, item) => sum + item.amountUsd, 0),
+    estGasUsd: 0.1,
+    netUsd: 0,
+    calls: buildBundleCalls(items)
+  };
+}
+
+describe('Batched claim bundles', () => {
+  it('should build one sub-call per distinct claim call', () => {
+    const calls = buildBundleCalls([
+      reward('qi', 5, claimCall(0)),
+      reward('qi-duplicate', 1, claimCall(0)),
+      reward('avax', 3, claimCall(1))
+    ]);
+
+    expect(calls).toHaveLength(2);
+    expect(calls![0].itemIds).toEqual(['qi', 'qi-duplicate']);
+    expect(calls![1].itemIds).toEqual(['avax']);
+  });
+
+  it('should leave bundles unbatched when an item has no claim call', () => {
+    expect(buildBundleCalls([reward('qi', 5, claimCall(0)), reward('other', 1)])).toBeUndefined();
+
+    const [bundle] = groupByContract([reward('qi', 5, claimCall(0)), reward('avax', 3, claimCall(1))]);
+    expect(bundle.calls).toHaveLength(2);
+  });
+});
+
+describe('AvalancheClient batched execution', () => {
+  let client: AvalancheClient;
+  const mockMode = process.env.MOCK_MODE;
+
+  beforeEach(() => {
+    process.env.MOCK_MODE = 'false';
+    chainState.receiptStatus = 1;
+    chainState.sent = [];
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    client = new AvalancheClient('http://localhost:8545', `0x${'11'.repeat(32)}`);
+  });
+
+  afterEach(() => {
+    process.env.MOCK_MODE = mockMode;
+  });
+
+  it('should report per-item outcomes of the simulation', async () => {
+    const result = await client.simulate(batchedBundle([
+      reward('qi', 5, claimCall(0)),
+      reward('broken', 3, claimCall(1, REVERTING_TARGET))
+    ]));
+
+    expect(result.ok).toBe(true);
+    expect(result.reason).toContain('1/2 sub-calls would revert');
+    expect(result.itemResults).toEqual([
+      { itemId: 'qi', success: true, error: undefined },
+      { itemId: 'broken', success: false, error: 'Revert: 0x08c379a0' }
+    ]);
+  });
+
+  it('should send the sub-calls that pass the preflight as one aggregate3 transaction', async () => {
+    const result = await client.sendRaw(batchedBundle([
+      reward('qi', 5, claimCall(0)),
+      reward('avax', 2, claimCall(1)),
+      reward('broken', 3, claimCall(1, REVERTING_TARGET))
+    ]));
+
+    expect(chainState.sent).toHaveLength(1);
+    const tx = chainState.sent[0];
+    expect(tx.to).toBe(env.claimRouterAddress);
+    const [calls] = router.decodeFunctionData('aggregate3', tx.data);
+    expect(calls).toHaveLength(2);
+    expect(calls.every((call: any) => call.allowFailure === false)).toBe(true);
+    expect(tx.gasLimit).toBeGreaterThan(500000n);
+
+    expect(result.success).toBe(true);
+    expect(result.claimedUsd).toBe(7);
+    expect(result.itemResults!.filter(item => item.success).map(item => item.itemId)).toEqual(['qi', 'avax']);
+    expect(result.itemResults!.find(item => item.itemId === 'broken')).toMatchObject({ success: false });
+  });
+
+  it('should not send when every sub-call reverts in the preflight', async () => {
+    const result = await client.sendRaw(batchedBundle([reward('broken', 3, claimCall(1, REVERTING_TARGET))]));
+
+    expect(chainState.sent).toHaveLength(0);
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('All sub-calls revert in preflight');
+    expect(result.itemResults).toEqual([{ itemId: 'broken', success: false, error: 'Revert: 0x08c379a0' }]);
+  });
+
+  it('should fail every included item when the transaction reverts', async () => {
+    chainState.receiptStatus = 0;
+
+    const result = await client.sendRaw(batchedBundle([reward('qi', 5, claimCall(0))]));
+
+    expect(result.success).toBe(false);
+    expect(result.claimedUsd).toBe(0);
+    expect(result.itemResults).toEqual([{ itemId: 'qi', success: false, error: 'Transaction reverted' }]);
+  });
+
+  it('should defer instead of sending when the fee eats the margin', async () => {
+    const result = await client.sendRaw(batchedBundle([reward('qi', 0.5, claimCall(0))]));
+
+    expect(chainState.sent).toHaveLength(0);
+    expect(result).toMatchObject({ success: false, status: 'deferred' });
+    expect(result.error).toMatch(/^Deferred: /);
+  });
+
+  it('should refuse a bundle without call data instead of sending to claimTo', async () => {
+    const bundle = { ...batchedBundle([reward('unbatched', 5)]), calls: undefined };
+
+    const simulation = await client.simulate(bundle);
+    const result = await client.sendRaw(bundle);
+
+    expect(simulation).toMatchObject({ ok: false, reason: expect.stringContaining('no call data') });
+    expect(result).toMatchObject({ success: false, error: expect.stringContaining('no call data') });
+    expect(chainState.sent).toHaveLength(0);
+  });
+
+  it('should refuse a wallet-sent call for a wallet the signer is not', async () => {
+    const call = { ...claimCall(0), fromWallet: true };
+    const bundle = { ...batchedBundle([reward('withdraw', 5, call)]), contractAddress: call.target, callData: call.callData };
+
+    const result = await client.sendRaw(bundle);
+
+    expect(result).toMatchObject({ success: false, error: expect.stringContaining(`must be sent by its wallet ${holder.value}`) });
+    expect(chainState.sent).toHaveLength(0);
+  });
+});
+
+describe('Wallet-sent integration claims', () => {
+  const signer: Address = { value: '0x1234567890123456789012345678901234567890', chain: 'avalanche' };
+  const saved = { ...env };
+  const recipient = process.env.DEFAULT_CLAIM_RECIPIENT_AVAX;
+  let client: AvalancheClient;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    Object.assign(env, { mockMode: true, enableGmxStaking: true, enableSyntheticGmx: true, gmxItemMinUsd: 0 });
+    process.env.DEFAULT_CLAIM_RECIPIENT_AVAX = holder.value;
+    client = new AvalancheClient('http://localhost:8545', `0x${'11'.repeat(32)}`);
+  });
+
+  afterEach(() => {
+    Object.assign(env, saved);
+    process.env.DEFAULT_CLAIM_RECIPIENT_AVAX = recipient;
+  });
+
+  it('should carry the claim call of sJOE, GMX and GMX dust rewards into simulated bundles', async () => {
+    const rewards = [
+      ...await sJoeIntegration.getPendingRewards([signer], true),
+      ...await gmxIntegration.getPendingRewards([signer]),
+      ...await gmxDustIntegration.getPendingRewards([signer])
+    ];
+    expect(new Set(rewards.map(item => item.protocol))).toEqual(new Set(['traderjoe', 'gmx', 'gmx-dust']));
+    expect(rewards.every(item => item.claimCall?.fromWallet)).toBe(true);
+
+    const bundles = buildBundles(rewards);
+    // One handleRewards for both GMX rewards, one harvest, one sweep per dust token
+    expect(bundles).toHaveLength(4);
+
+    for (const bundle of bundles) {
+      expect(bundle.callData).toBe(bundle.items[0].claimCall!.callData);
+      expect(await client.simulate(bundle)).toMatchObject({ ok: true });
+    }
+
+    const sweep = bundles.find(bundle => bundle.protocol === 'gmx-dust')!;
+    expect(sweep.claimTo).toEqual(holder);
+    expect(new ethers.Interface(['function transfer(address to, uint256 amount)']).decodeFunctionData('transfer', sweep.callData!)[0])
+      .toBe(holder.value);
+  });
+});
@@ -111,6 +111,56 @@ describe('Database Fallback System', () => {
     });
   });
 
+  describe('Memory Database Queries', () => {
+    const walletA = '0x1111111111111111111111111111111111111111';
+    const walletB = '0x2222222222222222222222222222222222222222';
+
+    function memoryDb() {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      process.env.FORCE_MEMORY_DB = 'true';
+      const db = initDb('/tmp/test.db');
+      initSchema(db);
+      return db;
+    }
+
+    function recordPendingTx(db: any, txHash: string, wallet: string, nonce: number) {
+      db.prepare(`
+        INSERT OR REPLACE INTO pending_transactions (
+          tx_hash, wallet_address, chain, nonce, bundle_id, kind, to_address, data, value, gas_limit,
+          max_fee_per_gas, max_priority_fee_per_gas, status, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(txHash, wallet, 'avalanche', nonce, `bundle-${txHash}`, 'claim', walletB, '0x', '0', '21000', '1', '1', 'pending', 'now', 'now');
+    }
+
+    it('should only return the pending transactions of the queried wallet', () => {
+      const db = memoryDb();
+      recordPendingTx(db, '0xa1', walletA, 1);
+      recordPendingTx(db, '0xb1', walletB, 1);
+      recordPendingTx(db, '0xa2', walletA, 2);
+
+      const rows = db.prepare('SELECT * FROM pending_transactions WHERE wallet_address = ?').all(walletA);
+      expect(rows.map((row: any) => row.tx_hash)).toEqual(['0xa1', '0xa2']);
+      expect(db.prepare('SELECT * FROM pending_transactions WHERE wallet_address = ? AND nonce = ?').get(walletB, 1))
+        .toMatchObject({ tx_hash: '0xb1' });
+    });
+
+    it('should look up retry attempts and tokens by their key', () => {
+      const db = memoryDb();
+      const retry = db.prepare('INSERT OR REPLACE INTO retry_attempts (operation_id, attempts, last_error, updated_at) VALUES (?, ?, ?, ?)');
+      retry.run('bundle-a', 1, 'first', 'now');
+      retry.run('bundle-b', 3, 'second', 'now');
+      const token = db.prepare('INSERT OR REPLACE INTO tokens (chain, address, symbol, decimals, name, source, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)');
+      token.run('avalanche', walletA, 'AAA', 18, null, 'seed', 'now');
+      token.run('tron', walletB, 'BBB', 6, null, 'seed', 'now');
+
+      expect(db.prepare('SELECT * FROM retry_attempts WHERE operation_id = ?').get('bundle-b')).toMatchObject({ attempts: 3 });
+      expect(db.prepare('SELECT * FROM retry_attempts WHERE operation_id = ?').get('bundle-c')).toBeUndefined();
+      expect(db.prepare("SELECT * FROM tokens WHERE chain = 'tron' AND address = ?").all(walletB)).toHaveLength(1);
+      expect(db.prepare('SELECT * FROM tokens WHERE chain = ? AND address = ?').all('tron', walletA)).toEqual([]);
+      expect(db.prepare('SELECT * FROM tokens ORDER BY decimals').all().map((row: any) => row.symbol)).toEqual(['BBB', 'AAA']);
+    });
+  });
+
   describe('Schema Initialization', () => {
     it('should initialize schema without errors', () => {
       const db = initDb(':memory:');
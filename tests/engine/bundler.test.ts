@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { buildBundles, optimizeBundles } from '../../src/engine/bundler.js';
+import { clearGasModel, updateGasPrice } from '../../src/economics/gas.js';
+import type { PendingReward } from '../../src/types/common.js';
+
+const CLAIM_TO = '0x1234567890123456789012345678901234567890';
+
+function reward(id: string, amountUsd: number): PendingReward {
+  return {
+    id,
+    wallet: { value: CLAIM_TO, chain: 'avalanche' },
+    protocol: 'test-protocol',
+    token: { value: '0xToken123', chain: 'avalanche' },
+    amountWei: '1000000',
+    amountUsd,
+    claimTo: { value: CLAIM_TO, chain: 'avalanche' },
+    discoveredAt: new Date()
+  };
+}
+
+const ids = (items: readonly PendingReward[]) => items.map(item => item.id).sort();
+
+describe('optimizeBundles', () => {
+  const options = { maxSize: 2, minNetUsd: 1, minGrossUsd: 0 };
+
+  beforeEach(() => {
+    // Default model (100k gas + 80k per extra item) at 100 gwei and $50/AVAX: $0.50 first item, $0.40 each extra
+    updateGasPrice('avalanche', { gasPrice: 100000000000n, nativeUsd: 50, updatedAt: Date.now() });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    clearGasModel();
+    vi.restoreAllMocks();
+  });
+
+  it('should drop items worth less than their marginal gas', () => {
+    const bundles = optimizeBundles([reward('a', 3), reward('dust-1', 0.1), reward('b', 2), reward('dust-2', 0.2)], { ...options, maxSize: 30 });
+
+    expect(bundles).toHaveLength(1);
+    expect(ids(bundles[0].items)).toEqual(['a', 'b']);
+    expect(bundles[0].netUsd).toBeCloseTo(4.1);
+  });
+
+  it('should spread high-value items so small ones are claimed instead of failing the net threshold', () => {
+    // Arrival-order chunks would be [0.5, 0.5] (net $0.10, below the threshold) and [3, 3]
+    const items = [reward('small-1', 0.5), reward('small-2', 0.5), reward('big-1', 3), reward('big-2', 3)];
+
+    const bundles = optimizeBundles(items, options);
+
+    expect(bundles).toHaveLength(2);
+    expect(bundles.map(bundle => ids(bundle.items))).toEqual(expect.arrayContaining([
+      expect.arrayContaining(['big-1']),
+      expect.arrayContaining(['big-2'])
+    ]));
+    expect(bundles.every(bundle => bundle.items.length === 2 && bundle.netUsd >= options.minNetUsd)).toBe(true);
+    expect(bundles.reduce((sum, bundle) => sum + bundle.netUsd, 0)).toBeCloseTo(5.2);
+  });
+
+  it('should not open another bundle when its fixed gas outweighs the items it adds', () => {
+    const bundles = optimizeBundles([reward('a', 5), reward('b', 5), reward('c', 0.45)], options);
+
+    expect(bundles).toHaveLength(1);
+    expect(ids(bundles[0].items)).toEqual(['a', 'b']);
+  });
+
+  it('should keep claimTo groups apart', () => {
+    const other = { ...reward('other', 4), claimTo: { value: '0x0000000000000000000000000000000000000001', chain: 'avalanche' as const } };
+
+    const bundles = optimizeBundles([reward('a', 4), other], options);
+
+    expect(bundles).toHaveLength(2);
+    expect(new Set(bundles.map(bundle => bundle.claimTo.value)).size).toBe(2);
+  });
+});
+
+describe('buildBundles', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should keep dust in sequential bundles and drop it with the optimal strategy', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const items = [reward('a', 50), reward('dust', 0.0001)];
+
+    expect(buildBundles(items, 'sequential').flatMap(bundle => ids(bundle.items))).toEqual(['a', 'dust']);
+    expect(buildBundles(items, 'optimal').flatMap(bundle => ids(bundle.items))).toEqual(['a']);
+  });
+
+  it('should fall back to sequential bundling for an unknown strategy', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const bundles = buildBundles([reward('a', 50)], 'greedy');
+
+    expect(bundles).toHaveLength(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Unknown BUNDLER_STRATEGY greedy'));
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DatabaseIdempotencyStore,
+  clearIdempotencyCache,
+  computeBundleHash,
+  recordBundleOutcome,
+  reconcileInFlightBundles,
+  shouldSkipBundle
+} from '../../src/engine/idempotency.js';
+import { MemoryDatabase } from '../../src/state/memoryDb.js';
+import { initSchema } from '../../src/state/db.js';
+import type { ChainClient, ClaimBundle, TxStatus } from '../../src/types/common.js';
+
+const bundle: ClaimBundle = {
+  id: 'bundle-1',
+  chain: 'avalanche',
+  protocol: 'benqi',
+  claimTo: { value: '0x1234567890123456789012345678901234567890', chain: 'avalanche' },
+  items: [{
+    id: 'reward-1',
+    wallet: { value: '0x1234567890123456789012345678901234567890', chain: 'avalanche' },
+    protocol: 'benqi',
+    token: { value: '0x8729438EB15e2C8B576fCc6AeCdA6A148776C0F5', chain: 'avalanche' },
+    amountWei: '1000000000000000000',
+    amountUsd: 5,
+    claimTo: { value: '0x1234567890123456789012345678901234567890', chain: 'avalanche' },
+    discoveredAt: new Date()
+  }],
+  totalUsd: 5,
+  estGasUsd: 0.1,
+  netUsd: 4.9
+};
+
+function clientWithStatus(status: TxStatus): ChainClient {
+  return {
+    chain: 'avalanche',
+    gasPrice: async () => 0n,
+    nativeUsd: async () => 0,
+    simulate: async () => ({ ok: true }),
+    sendRaw: async () => ({ success: true, claimedUsd: 0, chain: 'avalanche' }),
+    getTransactionStatus: vi.fn(async () => status)
+  };
+}
+
+describe('DatabaseIdempotencyStore', () => {
+  let db: MemoryDatabase;
+  let store: DatabaseIdempotencyStore;
+  const hash = computeBundleHash(bundle);
+
+  beforeEach(() => {
+    clearIdempotencyCache();
+    db = new MemoryDatabase();
+    initSchema(db);
+    store = new DatabaseIdempotencyStore(db);
+  });
+
+  it('should skip bundles recorded before a restart', async () => {
+    expect(await shouldSkipBundle(bundle, store)).toBe(false);
+    expect((await store.getRecord(hash))?.status).toBe('pending');
+
+    // A fresh process has an empty in-memory cache
+    clearIdempotencyCache();
+
+    expect(await shouldSkipBundle(bundle, store)).toBe(true);
+  });
+
+  it('should map execution results to statuses', async () => {
+    await recordBundleOutcome(store, bundle, { success: false, txHash: '0xabc', status: 'pending', claimedUsd: 0, chain: 'avalanche' });
+    expect(await store.getRecord(hash)).toMatchObject({ status: 'submitted', tx_hash: '0xabc' });
+
+    await recordBundleOutcome(store, bundle, { success: true, claimedUsd: 5, chain: 'avalanche' });
+    expect(await store.getRecord(hash)).toMatchObject({ status: 'confirmed', tx_hash: '0xabc' });
+  });
+
+  it('should retry failed and deferred executions in the same process', async () => {
+    for (const result of [
+      { success: false, error: 'reverted', status: 'failed' as const, claimedUsd: 0, chain: 'avalanche' as const },
+      { success: false, error: 'gas too high', status: 'deferred' as const, claimedUsd: 0, chain: 'avalanche' as const }
+    ]) {
+      expect(await shouldSkipBundle(bundle, store)).toBe(false);
+      await recordBundleOutcome(store, bundle, result);
+
+      expect(await store.getRecord(hash)).toMatchObject({ status: 'failed' });
+    }
+    expect(await shouldSkipBundle(bundle, store)).toBe(false);
+  });
+
+  it('should allow failed bundles to be retried', async () => {
+    await store.markProcessed(hash, bundle, 'failed');
+
+    expect(await store.hasRecentlyProcessed(hash)).toBe(false);
+    expect(await shouldSkipBundle(bundle, store)).toBe(false);
+  });
+
+  it('should expire records after the TTL', async () => {
+    await store.markProcessed(hash, bundle, 'confirmed', '0xabc');
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.now() + 2 * 60 * 60 * 1000);
+
+    try {
+      expect(await store.hasRecentlyProcessed(hash)).toBe(false);
+      await store.cleanup();
+      expect(await store.getRecord(hash)).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('reconcileInFlightBundles', () => {
+  let store: DatabaseIdempotencyStore;
+  const hash = computeBundleHash(bundle);
+
+  beforeEach(() => {
+    const db = new MemoryDatabase();
+    initSchema(db);
+    store = new DatabaseIdempotencyStore(db);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should release bundles that were never broadcast', async () => {
+    await store.markProcessed(hash, bundle, 'pending');
+
+    expect(await reconcileInFlightBundles(store, new Map())).toBe(1);
+    expect((await store.getRecord(hash))?.status).toBe('failed');
+  });
+
+  it('should follow submitted transactions on-chain', async () => {
+    await store.markProcessed(hash, bundle, 'submitted', '0xabc');
+    const client = clientWithStatus('confirmed');
+
+    await reconcileInFlightBundles(store, new Map([['avalanche', client]]));
+
+    expect(client.getTransactionStatus).toHaveBeenCalledWith('0xabc');
+    expect((await store.getRecord(hash))?.status).toBe('confirmed');
+  });
+
+  it('should keep transactions that are still pending in flight', async () => {
+    await store.markProcessed(hash, bundle, 'submitted', '0xabc');
+
+    expect(await reconcileInFlightBundles(store, new Map([['avalanche', clientWithStatus('pending')]]))).toBe(0);
+    expect(await store.hasRecentlyProcessed(hash)).toBe(true);
+  });
+
+  it('should release dropped transactions for retry', async () => {
+    await store.markProcessed(hash, bundle, 'submitted', '0xabc');
+
+    await reconcileInFlightBundles(store, new Map([['avalanche', clientWithStatus('not_found')]]));
+
+    expect(await store.hasRecentlyProcessed(hash)).toBe(false);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  applyFailurePolicy,
+  attachRetryStateDb,
+  cleanupExpiredQuarantines,
+  getQuarantinedWallets,
+  getQuarantineTtlHours,
+  getRetryAttempt,
+  isWalletQuarantined,
+  quarantineWallet,
+  releaseQuarantine,
+  resetRetryState,
+  withExponentialBackoff
+} from '../../src/engine/retry.js';
+import { Policy } from '../../src/economics/policy.js';
+import { MemoryDatabase } from '../../src/state/memoryDb.js';
+import { initSchema } from '../../src/state/db.js';
+import type { Address } from '../../src/types/common.js';
+
+const wallet: Address = { value: '0x1234567890123456789012345678901234567890', chain: 'avalanche' };
+const HOUR = 60 * 60 * 1000;
+
+class RpcTimeoutError extends Error {}
+
+describe('Persistent quarantine', () => {
+  let db: MemoryDatabase;
+
+  beforeEach(() => {
+    resetRetryState();
+    db = new MemoryDatabase();
+    initSchema(db);
+    attachRetryStateDb(db);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    resetRetryState();
+  });
+
+  it('should survive a restart', () => {
+    quarantineWallet(wallet, 'claim reverted', { error: new RpcTimeoutError('timeout') });
+
+    // A fresh process only has the database
+    resetRetryState();
+    attachRetryStateDb(db);
+
+    expect(isWalletQuarantined(wallet)).toBe(true);
+    expect(getQuarantinedWallets()[0]).toMatchObject({
+      wallet,
+      reason: 'claim reverted',
+      errorClass: 'RpcTimeoutError',
+      strikes: 1
+    });
+  });
+
+  it('should escalate the TTL for repeat offenders', () => {
+    vi.useFakeTimers();
+
+    const first = quarantineWallet(wallet, 'first');
+    vi.setSystemTime(first.until.getTime() + HOUR);
+    const second = quarantineWallet(wallet, 'second');
+
+    expect(second.strikes).toBe(2);
+    expect(second.until.getTime() - second.quarantinedAt.getTime()).toBe(getQuarantineTtlHours(2) * HOUR);
+    expect(getQuarantineTtlHours(2)).toBe(Policy.QUARANTINE_TTL_HOURS * 2);
+    expect(getQuarantineTtlHours(100)).toBe(Policy.QUARANTINE_MAX_TTL_HOURS);
+  });
+
+  it('should reset strikes after a clean period', () => {
+    vi.useFakeTimers();
+
+    const first = quarantineWallet(wallet, 'first');
+    vi.setSystemTime(first.until.getTime() + (Policy.QUARANTINE_STRIKE_RESET_HOURS + 1) * HOUR);
+
+    expect(isWalletQuarantined(wallet)).toBe(false);
+    expect(quarantineWallet(wallet, 'again').strikes).toBe(1);
+  });
+
+  it('should release quarantines and forget history on cleanup', () => {
+    vi.useFakeTimers();
+
+    quarantineWallet(wallet, 'manual', { errorClass: 'Manual', ttlHours: 1 });
+    expect(releaseQuarantine(wallet)).toBe(true);
+    expect(isWalletQuarantined(wallet)).toBe(false);
+
+    const other: Address = { value: 'TMuA6YqfCeX8EhbfYEg5y7S4DqzSJireY9', chain: 'tron' };
+    quarantineWallet(other, 'stale', { ttlHours: 1 });
+    vi.setSystemTime(Date.now() + (Policy.QUARANTINE_STRIKE_RESET_HOURS + 2) * HOUR);
+    cleanupExpiredQuarantines();
+
+    expect(db.prepare('SELECT * FROM quarantine').all()).toEqual([]);
+  });
+});
+
+describe('Persistent retry attempts', () => {
+  beforeEach(() => {
+    resetRetryState();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should resume the attempt count after a restart', async () => {
+    const db = new MemoryDatabase();
+    initSchema(db);
+    db.prepare('INSERT OR REPLACE INTO retry_attempts (operation_id, attempts, last_error, updated_at) VALUES (?, ?, ?, ?)')
+      .run('bundle-1', 2, 'rpc down', new Date().toISOString());
+    attachRetryStateDb(db);
+
+    expect(getRetryAttempt('bundle-1')).toBe(2);
+
+    // Two of three attempts were spent before the restart, so only one remains
+    const operation = vi.fn(async () => { throw new Error('still down'); });
+    await expect(withExponentialBackoff(operation, 3, 1, 'bundle-1')).rejects.toThrow('still down');
+
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(getRetryAttempt('bundle-1')).toBe(0);
+    expect(db.prepare('SELECT * FROM retry_attempts').all()).toEqual([]);
+  });
+});
+
+describe('Failure categories', () => {
+  beforeEach(() => {
+    resetRetryState();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetRetryState();
+  });
+
+  it('should quarantine the wallets of an unauthorized claim once', () => {
+    const policy = applyFailurePolicy([wallet, { ...wallet }], 'unauthorized', 'OwnableUnauthorizedAccount(0x12)');
+
+    expect(policy.retry).toBe(false);
+    expect(getQuarantinedWallets()).toHaveLength(1);
+    expect(getQuarantinedWallets()[0]).toMatchObject({ errorClass: 'unauthorized', strikes: 1 });
+  });
+
+  it('should not quarantine for protocol-wide or transient failures', () => {
+    expect(applyFailurePolicy([wallet], 'paused', 'Pausable: paused').retry).toBe(false);
+    expect(applyFailurePolicy([wallet], 'network', 'timeout').retry).toBe(true);
+
+    expect(isWalletQuarantined(wallet)).toBe(false);
+  });
+
+  it('should stop retrying when there is nothing to claim', async () => {
+    const operation = vi.fn(async () => { throw new Error('execution reverted: "Nothing to claim"'); });
+
+    await expect(withExponentialBackoff(operation, 3, 1)).rejects.toThrow('Nothing to claim');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -14,7 +14,8 @@ vi.mock('../../src/config/addresses.js', async () => {
     }),
     isAllowedRecipientNonMock: vi.fn((address: Address) => {
       // Allow the new valid address for tests
-      return address.value === '0xe816F3dB12Db343FAF01B0781F9fE80122FA7E7D';
+      return address.value === '0xe816F3dB12Db343FAF01B0781F9fE80122FA7E7D'
+        || address.value === 'TX8PGLRBZtQUBfNfRVnvgmJ9kjc8BiSRS2';
     }),
     getDefaultClaimRecipient: vi.fn((chain: string) => {
       if (chain === 'avalanche') {
@@ -28,6 +29,25 @@ vi.mock('../../src/config/addresses.js', async () => {
   };
 });
 
+// Receipt and Tron transaction info returned for payout verification; none unless a test sets one
+const chainState = vi.hoisted(() => ({ receipt: null as any, tronInfo: null as any }));
+
+vi.mock('../../src/chains/providerPool.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/chains/providerPool.js')>();
+  return {
+    ...actual,
+    getRpcProvider: vi.fn(() => ({ getTransactionReceipt: async () => chainState.receipt }))
+  };
+});
+
+vi.mock('../../src/integrations/_tron.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/integrations/_tron.js')>();
+  return {
+    ...actual,
+    createReadOnlyTronWeb: vi.fn(() => ({ trx: { getTransactionInfo: async () => chainState.tronInfo } }))
+  };
+});
+
 describe('Recipient Guard Tests', () => {
   let mockClient: ChainClient;
   let mockBundle: ClaimBundle;
@@ -35,6 +55,9 @@ describe('Recipient Guard Tests', () => {
   let validAddress: Address;
 
   beforeEach(() => {
+    chainState.receipt = null;
+    chainState.tronInfo = null;
+
     // Mock client
     mockClient = {
       chain: 'avalanche',
@@ -201,12 +224,107 @@ describe('Recipient Guard Tests', () => {
     it('should accept pricing service injection', () => {
       const mockPricingService = {
         quoteToUsd: async () => 1.0,
-        getTokenDecimals: () => 18
+        getTokenDecimals: async () => 18
       };
       
       // Should not throw
       expect(() => injectPricingService(mockPricingService)).not.toThrow();
     });
+
+    it('should verify native payouts that leave no Transfer log', async () => {
+      chainState.receipt = { status: 1, logs: [] };
+      injectPricingService({ quoteToUsd: async () => 4.0, getTokenDecimals: async () => 18 });
+
+      const nativeBundle: ClaimBundle = {
+        ...mockBundle,
+        claimTo: validAddress,
+        items: mockBundle.items.map(item => ({ ...item, claimTo: validAddress, nativePayout: true }))
+      };
+      const result = await execute(nativeBundle, new Map([['avalanche', mockClient]]), false);
+
+      expect(result.success).toBe(true);
+      expect(result.verifiedPayout).toBe(true);
+      expect(result.claimedUsd).toBe(5.0);
+    });
+
+    it('should fail token payouts without a Transfer log', async () => {
+      chainState.receipt = { status: 1, logs: [] };
+      injectPricingService({ quoteToUsd: async () => 4.0, getTokenDecimals: async () => 18 });
+
+      const validBundle: ClaimBundle = {
+        ...mockBundle,
+        claimTo: validAddress,
+        items: mockBundle.items.map(item => ({ ...item, claimTo: validAddress }))
+      };
+      const result = await execute(validBundle, new Map([['avalanche', mockClient]]), false);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('No transfers found');
+    });
+
+    it('should keep the client gas cost when verifying the payout', async () => {
+      const transferTopic = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+      const pad = (address: string) => `0x${address.slice(2).toLowerCase().padStart(64, '0')}`;
+      chainState.receipt = {
+        status: 1,
+        logs: [{
+          address: '0x8729438EB15e2C8B576fCc6AeCdA6A148776C0F5',
+          topics: [transferTopic, pad('0x5C0401e81Bc07Ca70fAD469b451682c0d747Ef1c'), pad(validAddress.value)],
+          data: '0x0de0b6b3a7640000',
+          blockNumber: 1,
+          transactionHash: '0x123abc',
+          index: 0
+        }]
+      };
+      injectPricingService({ quoteToUsd: async () => 4.0, getTokenDecimals: async () => 18 });
+
+      const validBundle: ClaimBundle = {
+        ...mockBundle,
+        claimTo: validAddress,
+        items: mockBundle.items.map(item => ({ ...item, claimTo: validAddress }))
+      };
+      const result = await execute(validBundle, new Map([['avalanche', mockClient]]), false);
+
+      expect(result.verifiedPayout).toBe(true);
+      expect(result.claimedUsd).toBe(4.0);
+      expect(result.gasUsd).toBe(2.5);
+    });
+
+    it('should verify Tron payouts from transaction info logs', async () => {
+      const tronRecipient: Address = { value: 'TX8PGLRBZtQUBfNfRVnvgmJ9kjc8BiSRS2', chain: 'tron' };
+      chainState.tronInfo = {
+        id: '123abc',
+        blockNumber: 1,
+        log: [{
+          address: 'a614f803b6fd780986a42c78ec9c7f77e6ded13c',
+          topics: [
+            'ddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef',
+            '0000000000000000000000005c0401e81bc07ca70fad469b451682c0d747ef1c',
+            '000000000000000000000000e816f3db12db343faf01b0781f9fe80122fa7e7d'
+          ],
+          data: '00000000000000000000000000000000000000000000000000000000002625a0'
+        }]
+      };
+      const quoteToUsd = vi.fn(async () => 2.5);
+      injectPricingService({ quoteToUsd, getTokenDecimals: async () => 6 });
+
+      const tronBundle: ClaimBundle = {
+        ...mockBundle,
+        chain: 'tron',
+        protocol: 'justlend',
+        claimTo: tronRecipient,
+        items: mockBundle.items.map(item => ({ ...item, claimTo: tronRecipient }))
+      };
+      const tronClient: ChainClient = { ...mockClient, chain: 'tron', getCode: undefined };
+      const result = await execute(tronBundle, new Map([['tron', tronClient]]), false);
+
+      expect(result.verifiedPayout).toBe(true);
+      expect(result.claimedUsd).toBe(2.5);
+      expect(quoteToUsd).toHaveBeenCalledWith('tron', 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', '2500000');
+      expect(result.transfers).toEqual([
+        expect.objectContaining({ to: tronRecipient.value, tokenAddress: 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', amountUsd: 2.5 })
+      ]);
+    });
   });
 
   describe('Error Handling', () => {
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { planFees, sampleFeeHistory, type FeeSample } from '../src/economics/fees.js';
+
+const gwei = (value: number) => ethers.parseUnits(String(value), 'gwei');
+
+const sample: FeeSample = {
+  baseFeePerGas: gwei(25),
+  priorityFeePerGas: { slow: gwei(1), normal: gwei(2), fast: gwei(5) },
+  source: 'feeHistory'
+};
+
+// 200k gas at $35/AVAX: 25 gwei costs $0.175
+const input = { gasLimit: 200000n, nativeUsd: 35, totalUsd: 10, minNetUsd: 1 };
+
+describe('EIP-1559 fee strategy', () => {
+  it('should size the tip and base-fee headroom by tier', () => {
+    const slow = planFees(sample, { ...input, tier: 'slow' });
+    const normal = planFees(sample, input);
+    const fast = planFees(sample, { ...input, tier: 'fast' });
+
+    expect(slow.maxPriorityFeePerGas).toBe(gwei(1));
+    expect(slow.maxFeePerGas).toBe(gwei(25) * 11250n / 10000n + gwei(1));
+    expect(normal.maxFeePerGas).toBe(gwei(25) * 12500n / 10000n + gwei(2));
+    expect(fast.maxFeePerGas).toBe(gwei(50) + gwei(5));
+    expect(normal.deferred).toBe(false);
+    expect(normal.expectedCostUsd).toBeCloseTo(200000 * 27e-9 * 35);
+  });
+
+  it('should cap maxFeePerGas at the fee that keeps the minimum net', () => {
+    // $0.30 of budget over 200k gas at $35 is ~42.9 gwei, below the fast tier's 55 gwei
+    const plan = planFees(sample, { ...input, totalUsd: 1.3, tier: 'fast' });
+
+    expect(plan.deferred).toBe(false);
+    expect(plan.maxFeePerGas).toBe(plan.capPerGas);
+    expect(plan.maxFeePerGas).toBeLessThan(gwei(43));
+    expect(plan.maxPriorityFeePerGas).toBe(gwei(5));
+    expect(plan.maxCostUsd).toBeLessThanOrEqual(0.3 + 1e-9);
+  });
+
+  it('should apply the configured absolute cap', () => {
+    const plan = planFees(sample, { ...input, maxFeeCapWei: gwei(26) });
+
+    expect(plan.maxFeePerGas).toBe(gwei(26));
+    expect(plan.maxPriorityFeePerGas).toBe(gwei(1));
+  });
+
+  it('should defer a bundle whose margin is gone at the current base fee', () => {
+    const plan = planFees(sample, { ...input, totalUsd: 1.1 });
+
+    expect(plan.deferred).toBe(true);
+    expect(plan.reason).toContain('exceeds');
+    expect(planFees(sample, { ...input, maxFeeCapWei: gwei(20) }).reason).toContain('MAX_FEE_PER_GAS_GWEI');
+  });
+
+  it('should take the next base fee and median priority fees from eth_feeHistory', async () => {
+    const send = vi.fn(async () => ({
+      baseFeePerGas: [gwei(20), gwei(22), gwei(24), gwei(30)].map(fee => ethers.toQuantity(fee)),
+      reward: [
+        [gwei(1), gwei(2), gwei(9)],
+        [gwei(1), gwei(3), gwei(4)],
+        [gwei(2), gwei(2), gwei(6)]
+      ].map(block => block.map(fee => ethers.toQuantity(fee)))
+    }));
+
+    const result = await sampleFeeHistory({ send } as unknown as ethers.JsonRpcProvider, 3);
+
+    expect(send).toHaveBeenCalledWith('eth_feeHistory', ['0x3', 'latest', [10, 50, 90]]);
+    expect(result.baseFeePerGas).toBe(gwei(30));
+    expect(result.priorityFeePerGas).toEqual({ slow: gwei(1), normal: gwei(2), fast: gwei(6) });
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import type { ClaimBundle, ChainClient, PendingReward } from '../src/types/common.js';
+import { ForkSimulator } from '../src/engine/forkSimulator.js';
+import { attachForkSimulator, dryRun } from '../src/engine/simulator.js';
+import { env } from '../src/config/env.js';
+
+const CLAIM_TO = '0x1234567890123456789012345678901234567890';
+const DISTRIBUTOR = '0x2b2C81e08f1Af8835a78Bb2A90AE924ACE0eA4bE';
+const QI = '0x8729438EB15e2C8B576fCc6AeCdA6A148776C0F5';
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+interface Fork {
+  calls: Array<{ method: string; params: any[] }>;
+  logs: Array<{ address: string; topics: string[]; data: string }>;
+  nativeGainWei: bigint;                  // Credited to claimTo by the next transaction
+  revertData?: string;                    // eth_sendTransaction fails with this revert
+}
+
+/**
+ * Minimal anvil stand-in: snapshots, impersonation, balances and one mined transaction per send
+ */
+async function startFork(fork: Fork): Promise<{ url: string; server: Server }> {
+  let balance = ethers.parseEther('1');
+  let txHash: string | undefined;
+
+  const handle = ({ id, method, params }: { id: number; method: string; params: any[] }) => {
+    fork.calls.push({ method, params });
+    const result = (value: unknown) => ({ jsonrpc: '2.0', id, result: value });
+
+    switch (method) {
+      case 'eth_chainId': return result('0xa86a');
+      case 'eth_blockNumber': return result('0x100');
+      case 'web3_clientVersion': return result('anvil/v0.2.0');
+      case 'evm_snapshot': return result('0x1');
+      case 'evm_revert': return result(true);
+      case 'eth_getBalance': return result(ethers.toQuantity(balance));
+      case 'eth_sendTransaction':
+        if (fork.revertData) {
+          return { jsonrpc: '2.0', id, error: { code: 3, message: 'execution reverted', data: fork.revertData } };
+        }
+        balance += fork.nativeGainWei;
+        txHash = ethers.id(`tx-${fork.calls.length}`);
+        return result(txHash);
+      case 'eth_getTransactionReceipt':
+        return result(txHash ? {
+          transactionHash: txHash,
+          transactionIndex: '0x0',
+          blockHash: `0x${'cd'.repeat(32)}`,
+          blockNumber: '0x101',
+          from: CLAIM_TO,
+          to: DISTRIBUTOR,
+          contractAddress: null,
+          gasUsed: '0x30d40',
+          cumulativeGasUsed: '0x30d40',
+          effectiveGasPrice: '0x6fc23ac00',
+          logsBloom: `0x${'00'.repeat(256)}`,
+          status: '0x1',
+          type: '0x2',
+          logs: fork.logs.map((log, index) => ({
+            ...log,
+            blockHash: `0x${'cd'.repeat(32)}`,
+            blockNumber: '0x101',
+            transactionHash: txHash,
+            transactionIndex: '0x0',
+            logIndex: ethers.toQuantity(index),
+            removed: false
+          }))
+        } : null);
+      default:
+        // hardhat_impersonateAccount, hardhat_setBalance, hardhat_reset, hardhat_stopImpersonatingAccount
+        return result(null);
+    }
+  };
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const payload = JSON.parse(body);
+      const reply = Array.isArray(payload) ? payload.map(handle) : handle(payload);
+      res.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify(reply));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, server };
+}
+
+function transferLog(token: string, to: string, amountWei: bigint) {
+  return {
+    address: token,
+    topics: [TRANSFER_TOPIC, ethers.zeroPadValue(DISTRIBUTOR, 32), ethers.zeroPadValue(to, 32)],
+    data: ethers.toBeHex(amountWei, 32)
+  };
+}
+
+function reward(id: string, token: string): PendingReward {
+  return {
+    id,
+    wallet: { value: CLAIM_TO, chain: 'avalanche' },
+    protocol: 'benqi',
+    token: { value: token, chain: 'avalanche' },
+    amountWei: '1000000000000000000',
+    amountUsd: 5,
+    claimTo: { value: CLAIM_TO, chain: 'avalanche' },
+    discoveredAt: new Date()
+  };
+}
+
+function bundleFor(items: PendingReward[]): ClaimBundle {
+  return {
+    id: 'bundle-1',
+    chain: 'avalanche',
+    protocol: 'benqi',
+    claimTo: { value: CLAIM_TO, chain: 'avalanche' },
+    items,
+    totalUsd: 5 * items.length,
+    estGasUsd: 0.1,
+    netUsd: 5 * items.length - 0.1,
+    contractAddress: DISTRIBUTOR,
+    callData: '0x4e71d92d'
+  };
+}
+
+describe('ForkSimulator', () => {
+  const servers: Server[] = [];
+  let fork: Fork;
+  let url: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    fork = { calls: [], logs: [], nativeGainWei: 0n };
+    const started = await startFork(fork);
+    servers.push(started.server);
+    url = started.url;
+  });
+
+  afterEach(async () => {
+    attachForkSimulator(undefined);
+    await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+    vi.restoreAllMocks();
+  });
+
+  const methods = () => fork.calls.map(call => call.method);
+
+  it('should pass a bundle whose receipt transfers the reward token to claimTo', async () => {
+    fork.logs = [transferLog(QI, CLAIM_TO, 10n ** 18n)];
+    const simulator = new ForkSimulator({ rpcUrl: url, from: CLAIM_TO });
+
+    const result = await simulator.simulate(bundleFor([reward('qi', QI)]));
+
+    expect(result).toMatchObject({ ok: true, gasUsed: '200000' });
+    expect(result.transfers).toHaveLength(1);
+    expect(result.transfers?.[0]).toMatchObject({ tokenAddress: QI, to: CLAIM_TO, amountWei: '1000000000000000000' });
+    const send = fork.calls.find(call => call.method === 'eth_sendTransaction');
+    expect(send?.params[0]).toMatchObject({ from: CLAIM_TO, to: DISTRIBUTOR, data: '0x4e71d92d' });
+    expect(methods()).toContain('hardhat_impersonateAccount');
+    expect(methods().slice(-2)).toEqual(['hardhat_stopImpersonatingAccount', 'evm_revert']);
+  });
+
+  it('should fail a bundle that executes without paying claimTo', async () => {
+    fork.logs = [transferLog(QI, DISTRIBUTOR, 10n ** 18n)];
+    const simulator = new ForkSimulator({ rpcUrl: url, from: CLAIM_TO });
+
+    const result = await simulator.simulate(bundleFor([reward('qi', QI)]));
+
+    expect(result).toMatchObject({ ok: false, failureCategory: 'nothing-to-claim', missingTokens: [QI.toLowerCase()] });
+    expect(methods()).toContain('evm_revert');
+  });
+
+  it('should accept a native AVAX payout for WAVAX rewards', async () => {
+    fork.nativeGainWei = ethers.parseEther('2');
+    const simulator = new ForkSimulator({ rpcUrl: url, from: CLAIM_TO });
+
+    const result = await simulator.simulate(bundleFor([reward('avax', env.wavaxToken)]));
+
+    expect(result.ok).toBe(true);
+    expect(result.reason).toContain('native AVAX');
+  });
+
+  it('should decode a revert from the fork', async () => {
+    fork.revertData = ethers.id('NothingToClaim()').slice(0, 10);
+    const simulator = new ForkSimulator({ rpcUrl: url, from: CLAIM_TO });
+
+    const result = await simulator.simulate(bundleFor([reward('qi', QI)]));
+
+    expect(result).toMatchObject({ ok: false, failureCategory: 'nothing-to-claim' });
+    expect(result.reason).toContain('NothingToClaim()');
+    expect(methods().slice(-1)).toEqual(['evm_revert']);
+  });
+
+  it('should reset the fork to the configured block once', async () => {
+    fork.logs = [transferLog(QI, CLAIM_TO, 10n ** 18n)];
+    const simulator = new ForkSimulator({ rpcUrl: url, from: CLAIM_TO, blockNumber: 42, upstreamRpcUrl: 'https://upstream.example' });
+
+    await simulator.simulate(bundleFor([reward('qi', QI)]));
+    await simulator.simulate(bundleFor([reward('qi', QI)]));
+
+    const resets = fork.calls.filter(call => call.method === 'hardhat_reset');
+    expect(resets).toHaveLength(1);
+    expect(resets[0].params[0]).toEqual({ forking: { jsonRpcUrl: 'https://upstream.example', blockNumber: 42 } });
+  });
+
+  it('should only mark a dry run safe once the fork confirms the payout', async () => {
+    const client = {
+      chain: 'avalanche',
+      gasPrice: vi.fn(async () => 25000000000n),
+      nativeUsd: vi.fn(async () => 20),
+      simulate: vi.fn(async () => ({ ok: true, gasUsed: '150000', costUsd: 0.05 })),
+      sendRaw: vi.fn()
+    } as unknown as ChainClient;
+    const clients = new Map([['avalanche', client]]);
+    attachForkSimulator(new ForkSimulator({ rpcUrl: url, from: CLAIM_TO }));
+
+    const unpaid = await dryRun(bundleFor([reward('qi', QI)]), clients);
+    expect(unpaid).toMatchObject({ bundleId: 'bundle-1', ok: false, failureCategory: 'nothing-to-claim' });
+
+    fork.logs = [transferLog(QI, CLAIM_TO, 10n ** 18n)];
+    const paid = await dryRun(bundleFor([reward('qi', QI)]), clients);
+    // 200000 gas at 25 gwei and $20/AVAX
+    expect(paid).toMatchObject({ ok: true, gasUsed: '200000', costUsd: 0.1, gasEstimate: 0.1 });
+    expect(paid.transfers).toHaveLength(1);
+  });
+});
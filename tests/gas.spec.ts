@@ -1,6 +1,22 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { estimateBundleUsd } from '../src/economics/gas.js';
-import type { ClaimBundle } from '../src/types/common.js';
+import {
+  estimateBundleUsd,
+  estimateBundleGasUsd,
+  estimateTronBurnTrx,
+  updateTronResources,
+  clearTronResources,
+  calibrateGasModels,
+  getGasModel,
+  refreshGasPrices,
+  clearGasModel,
+  GAS_ESTIMATES,
+  GAS_MODEL_MIN_SAMPLES
+} from '../src/economics/gas.js';
+import type { TronResourceState } from '../src/economics/gas.js';
+import type { ChainClient, ClaimBundle } from '../src/types/common.js';
+import { initSchema, recordExecution } from '../src/state/db.js';
+
+const Database = require('better-sqlite3');
 
 // Set mock mode
 process.env.MOCK_MODE = 'true';
@@ -154,4 +170,108 @@ describe('Gas Estimator', () => {
       expect(gasEstimate).toBe(0);
     });
   });
-});
\ No newline at end of file
+
+  describe('Tron burn model', () => {
+    const state: TronResourceState = {
+      availableEnergy: 0,
+      availableBandwidth: 0,
+      energyPriceSun: 420,
+      bandwidthPriceSun: 1000,
+      trxUsd: 0.1,
+      updatedAt: Date.now()
+    };
+
+    beforeEach(() => {
+      clearTronResources();
+    });
+
+    it('should burn TRX for all energy and bandwidth without staked resources', () => {
+      // 50000 * 420 + 345 * 1000 sun = 21.345 TRX
+      expect(estimateTronBurnTrx(50000, 345, state)).toBeCloseTo(21.345, 6);
+    });
+
+    it('should only burn energy beyond the staked energy', () => {
+      const staked = { ...state, availableEnergy: 40000, availableBandwidth: 1500 };
+
+      // 10000 * 420 sun = 4.2 TRX, bandwidth covered by free bandwidth
+      expect(estimateTronBurnTrx(50000, 345, staked)).toBeCloseTo(4.2, 6);
+    });
+
+    it('should treat claims as free once energy and bandwidth are covered', () => {
+      updateTronResources({ ...state, availableEnergy: 1000000, availableBandwidth: 5000 });
+
+      const bundle = createTestBundle({ chain: 'tron' });
+      expect(estimateBundleGasUsd(bundle, 'tron')).toBe(0);
+    });
+
+    it('should fall back to the static model without a resource snapshot', () => {
+      const bundle = createTestBundle({ chain: 'tron' });
+
+      // (50000 + 40000) energy * 0.001 TRX * $0.08
+      expect(estimateBundleGasUsd(bundle, 'tron')).toBeCloseTo(7.2, 6);
+    });
+  });
+
+  describe('Calibrated gas model', () => {
+    let db: any;
+
+    // gas = 60000 + (items - 1) * 30000, recorded through the executions ledger
+    function recordHistory(protocol: string, count: number) {
+      for (let i = 0; i < count; i++) {
+        const items = (i % 3) + 1;
+        const bundle = createTestBundle({ id: `${protocol}-${i}`, protocol, items: new Array(items).fill(createTestBundle().items[0]) });
+        recordExecution(db, bundle, { success: true, chain: 'avalanche', gasUsed: BigInt(60000 + (items - 1) * 30000) });
+      }
+    }
+
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      clearGasModel();
+      clearTronResources();
+      db = new Database(':memory:');
+      initSchema(db);
+    });
+
+    it('should fit base and per-claim gas per protocol from execution history', () => {
+      recordHistory('benqi', GAS_MODEL_MIN_SAMPLES + 1);
+
+      expect(calibrateGasModels(db)).toHaveLength(1);
+      expect(getGasModel('avalanche', 'benqi')).toMatchObject({ base: 60000, perExtra: 30000, source: 'history' });
+
+      // 60000 + 30000 gas at the default 25 gwei and $30 AVAX
+      const bundle = createTestBundle({ protocol: 'benqi' });
+      expect(estimateBundleGasUsd(bundle, 'avalanche')).toBeCloseTo(0.0675, 6);
+    });
+
+    it('should keep the defaults when history is thin', () => {
+      recordHistory('benqi', GAS_MODEL_MIN_SAMPLES - 1);
+
+      expect(calibrateGasModels(db)).toEqual([]);
+      expect(getGasModel('avalanche', 'benqi')).toMatchObject({
+        base: GAS_ESTIMATES.avalanche.baseClaim,
+        perExtra: GAS_ESTIMATES.avalanche.perExtraClaim,
+        source: 'default'
+      });
+      expect(getGasModel('avalanche', 'gmx')).toMatchObject({ base: 350000, perExtra: 0 });
+    });
+
+    it('should price gas with the live gas price and native token price', async () => {
+      const client = {
+        gasPrice: vi.fn().mockResolvedValue(50000000000n), // 50 gwei
+        nativeUsd: vi.fn().mockResolvedValue(20)
+      } as unknown as ChainClient;
+      const failing = {
+        gasPrice: vi.fn().mockRejectedValue(new Error('rpc down')),
+        nativeUsd: vi.fn().mockResolvedValue(0.1)
+      } as unknown as ChainClient;
+
+      await refreshGasPrices(new Map([['avalanche', client], ['tron', failing]]));
+
+      // (100000 + 80000) gas * 50 gwei * $20
+      expect(estimateBundleGasUsd(createTestBundle(), 'avalanche')).toBeCloseTo(0.18, 6);
+      // Tron keeps the static fallback
+      expect(estimateBundleGasUsd(createTestBundle({ chain: 'tron' }), 'tron')).toBeCloseTo(7.2, 6);
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Address, PendingReward } from '../../src/types/common.js';
+
+const RECIPIENT = '0xe816F3dB12Db343FAF01B0781F9fE80122FA7E7D';
+const QUSDC_MARKET = '0xBEb5d47A3f720Ec0a390d04b4d41ED7d9688bC7F';
+
+// Contract read results keyed by function name, swapped per test
+const contractState: Record<string, any> = {};
+
+vi.mock('../../src/config/addresses.js', () => ({
+  getDefaultClaimRecipient: vi.fn((chain: string) =>
+    chain === 'avalanche' ? { value: '0xe816F3dB12Db343FAF01B0781F9fE80122FA7E7D', chain: 'avalanche' } : null
+  ),
+  isAllowedRecipientNonMock: vi.fn((address: Address) =>
+    address.value === '0xe816F3dB12Db343FAF01B0781F9fE80122FA7E7D'
+  )
+}));
+
+vi.mock('../../src/chains/avalanche.js', () => ({
+  nativeUsd: vi.fn(async () => 35)
+}));
+
+// No oracle price, so QI falls back to QI_PRICE_USD
+vi.mock('../../src/economics/oracle.js', () => ({
+  getTokenUsdPrice: vi.fn(async () => null)
+}));
+
+// Keep the real Interface for encoding, stub the provider
+vi.mock('ethers', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('ethers')>();
+  return {
+    ethers: {
+      ...actual.ethers,
+      JsonRpcProvider: vi.fn(() => ({}))
+    }
+  };
+});
+
+// Batched contract reads, answered from contractState by function name
+vi.mock('../../src/chains/multicall.js', () => {
+  const reads: Record<string, (...args: any[]) => unknown[]> = {
+    cooldownPeriod: () => [contractState.cooldownPeriod],
+    redeemPeriod: () => [contractState.redeemPeriod],
+    getUnlockRequestCount: () => [BigInt(contractState.unlockRequests.length)],
+    userUnlockRequests: (_: string, index: number) => contractState.unlockRequests[index],
+    getPooledAvaxByShares: (shares: bigint) => [shares],
+    getAssetsIn: () => [contractState.markets],
+    rewardAccrued: (rewardType: number) => [contractState.rewardAccrued[rewardType]]
+  };
+  return {
+    multicall: vi.fn(async (_provider: unknown, calls: Array<{ method: string; args?: unknown[] }>) =>
+      calls.map(call => ({ success: true, value: reads[call.method](...(call.args ?? [])) })))
+  };
+});
+
+import { benqiIntegration, BENQI_CONTRACTS } from '../../src/integrations/benqi.js';
+import { env } from '../../src/config/env.js';
+import { PROTOCOL_POLICIES } from '../../src/economics/policy.js';
+import { buildBundles } from '../../src/engine/bundler.js';
+import { ethers } from 'ethers';
+
+const wallet: Address = { value: RECIPIENT, chain: 'avalanche' };
+const SIGNER_KEY = `0x${'11'.repeat(32)}`;
+const signer: Address = { value: ethers.computeAddress(SIGNER_KEY), chain: 'avalanche' };
+const nowSec = () => BigInt(Math.floor(Date.now() / 1000));
+
+describe('BENQI Integration', () => {
+  let previousKey: string | undefined;
+
+  beforeEach(() => {
+    contractState.cooldownPeriod = BigInt(15 * 86400);
+    contractState.redeemPeriod = BigInt(2 * 86400);
+    contractState.unlockRequests = [];
+    contractState.markets = [QUSDC_MARKET];
+    contractState.rewardAccrued = { 0: BigInt(0), 1: BigInt(0) };
+    previousKey = env.avalanchePrivateKey;
+    env.avalanchePrivateKey = SIGNER_KEY;
+  });
+
+  afterEach(() => {
+    env.avalanchePrivateKey = previousKey;
+  });
+
+  describe('Mock Mode', () => {
+    it('should discover a test wallet', async () => {
+      const wallets = await benqiIntegration.discoverWallets(true);
+
+      expect(wallets).toHaveLength(1);
+      expect(wallets[0].chain).toBe('avalanche');
+    });
+
+    it('should return sAVAX redemption and lending rewards', async () => {
+      const rewards = await benqiIntegration.getPendingRewards([wallet], true);
+
+      expect(rewards).toHaveLength(3);
+      expect(rewards.every(r => r.protocol === 'benqi')).toBe(true);
+      expect(rewards.some(r => r.id.startsWith('benqi-savax-unlock'))).toBe(true);
+      expect(rewards.some(r => r.token.value === BENQI_CONTRACTS.QI_TOKEN)).toBe(true);
+    });
+
+    it('should build one bundle per claim call with encoded callData', async () => {
+      const rewards = await benqiIntegration.getPendingRewards([wallet], true);
+      const bundles = await benqiIntegration.buildBundle(rewards, true);
+
+      expect(bundles).toHaveLength(3);
+
+      const redeem = bundles.find(b => b.contractAddress === BENQI_CONTRACTS.SAVAX_TOKEN)!;
+      const iface = new ethers.Interface(['function redeem(uint256)']);
+      expect(redeem.callData).toBe(iface.encodeFunctionData('redeem', [0]));
+
+      const claims = bundles.filter(b => b.contractAddress === BENQI_CONTRACTS.COMPTROLLER);
+      expect(claims).toHaveLength(2);
+      for (const bundle of claims) {
+        expect(bundle.callData!.length).toBeGreaterThan(10);
+        expect(bundle.estGasUsd).toBeGreaterThan(0);
+        expect(bundle.value).toBe(0);
+      }
+    });
+
+    it('should keep sAVAX redemptions out of the batched lending claims in live bundles', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const rewards = await benqiIntegration.getPendingRewards([wallet], true);
+
+      const bundles = buildBundles(rewards, 'sequential');
+
+      expect(bundles).toHaveLength(2);
+      const redeem = bundles.find(b => b.contractAddress === BENQI_CONTRACTS.SAVAX_TOKEN)!;
+      expect(redeem.callData).toBe(new ethers.Interface(['function redeem(uint256)']).encodeFunctionData('redeem', [0]));
+      expect(redeem.calls).toBeUndefined();
+      expect(redeem.items.every(item => item.nativePayout)).toBe(true);
+
+      const lending = bundles.find(b => b.calls !== undefined)!;
+      expect(lending.calls).toHaveLength(2);
+      expect(lending.items.map(item => item.id).sort()).toEqual(lending.calls!.flatMap(call => call.itemIds).sort());
+      // Only the AVAX reward is paid in the native coin
+      expect(lending.items.filter(item => item.nativePayout).map(item => item.token.value)).toEqual([BENQI_CONTRACTS.WAVAX]);
+    });
+  });
+
+  describe('Real Mode', () => {
+    it('should only return unlock requests inside the redeem window', async () => {
+      const cooldown = contractState.cooldownPeriod as bigint;
+      contractState.unlockRequests = [
+        [nowSec() - cooldown - BigInt(3600), BigInt(10) ** BigInt(18)],   // matured
+        [nowSec() - BigInt(3600), BigInt(10) ** BigInt(18)],              // cooling down
+        [nowSec() - cooldown - BigInt(3600), BigInt(0)],                  // already redeemed
+        [nowSec() - cooldown * BigInt(2), BigInt(10) ** BigInt(18)]       // redeem window passed
+      ];
+
+      const rewards = await benqiIntegration.getPendingRewards([signer], false);
+
+      expect(rewards).toHaveLength(1);
+      expect(rewards[0].id).toBe(`benqi-savax-unlock-${signer.value}-0`);
+      expect(rewards[0].amountUsd).toBeCloseTo(35);
+    });
+
+    it('should only scan sAVAX unlocks of the signing wallet, but lending rewards of every wallet', async () => {
+      contractState.unlockRequests = [[nowSec() - (contractState.cooldownPeriod as bigint) - BigInt(3600), BigInt(10) ** BigInt(18)]];
+      contractState.rewardAccrued = { 0: BigInt(0), 1: BigInt(10) ** BigInt(18) };
+
+      const rewards = await benqiIntegration.getPendingRewards([wallet, signer], false);
+
+      expect(rewards.filter(r => r.id.startsWith('benqi-savax-unlock')).map(r => r.wallet.value)).toEqual([signer.value]);
+      expect(rewards.filter(r => r.id.startsWith('benqi-lending')).map(r => r.wallet.value)).toEqual([RECIPIENT, signer.value]);
+    });
+
+    it('should skip rewards below MIN_REWARD_USD', async () => {
+      // 10 QI at $0.01 = $0.10, 1 AVAX at $35
+      contractState.rewardAccrued = {
+        0: BigInt(10) * BigInt(10) ** BigInt(18),
+        1: BigInt(10) ** BigInt(18)
+      };
+
+      const rewards = await benqiIntegration.getPendingRewards([wallet], false);
+
+      expect(rewards).toHaveLength(1);
+      expect(rewards[0].token.value).toBe(BENQI_CONTRACTS.WAVAX);
+      expect(rewards[0].amountUsd).toBeGreaterThanOrEqual(PROTOCOL_POLICIES.benqi.MIN_REWARD_USD);
+    });
+
+    it('should cap claimed markets at MAX_LENDING_POSITIONS', async () => {
+      const maxPositions = PROTOCOL_POLICIES.benqi.MAX_LENDING_POSITIONS;
+      contractState.markets = Array.from({ length: maxPositions + 5 }, (_, i) =>
+        ethers.zeroPadValue(ethers.toBeHex(i + 1), 20)
+      );
+      contractState.rewardAccrued = { 0: BigInt(0), 1: BigInt(10) ** BigInt(18) };
+
+      const rewards = await benqiIntegration.getPendingRewards([wallet], false);
+      const bundles = await benqiIntegration.buildBundle(rewards, false);
+
+      expect(bundles).toHaveLength(1);
+      const iface = new ethers.Interface(['function claimReward(uint8,address,address[])']);
+      const decoded = iface.decodeFunctionData('claimReward', bundles[0].callData!);
+      expect(Number(decoded[0])).toBe(1);
+      expect(decoded[1]).toBe(RECIPIENT);
+      expect(decoded[2]).toHaveLength(maxPositions);
+    });
+
+    it('should reject recipients outside the allowlist', async () => {
+      const other: Address = { value: '0x1234567890123456789012345678901234567890', chain: 'avalanche' };
+      const reward: PendingReward = {
+        id: `benqi-lending-0-${other.value}`,
+        wallet: other,
+        protocol: 'benqi',
+        token: { value: BENQI_CONTRACTS.QI_TOKEN, chain: 'avalanche' },
+        amountWei: '1000000000000000000',
+        amountUsd: 1,
+        claimTo: other,
+        discoveredAt: new Date()
+      };
+
+      await expect(benqiIntegration.buildBundle([reward], false))
+        .rejects.toThrow('not allowed in non-mock mode');
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Address } from '../../src/types/common.js';
+
+const RECIPIENT = 'TMuA6YqfCeX8EhbfYEg5y7S4DqzSJireY9';
+const OTHER = 'TXYZopYRdj2D9XRtbG411XZZ3kM5VkAeBf';
+
+// Accrued JST per wallet returned by the mocked comptroller read
+const accruedJst = new Map<string, bigint>();
+
+vi.mock('../../src/config/addresses.js', () => ({
+  getDefaultClaimRecipient: vi.fn((chain: string) =>
+    chain === 'tron' ? { value: 'TMuA6YqfCeX8EhbfYEg5y7S4DqzSJireY9', chain: 'tron' } : null
+  ),
+  isAllowedRecipientNonMock: vi.fn((address: Address) =>
+    address.value === 'TMuA6YqfCeX8EhbfYEg5y7S4DqzSJireY9'
+  )
+}));
+
+vi.mock('../../src/integrations/_tron.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/integrations/_tron.js')>();
+  return {
+    ...actual,
+    createReadOnlyTronWeb: vi.fn(() => ({})),
+    callConstant: vi.fn(async (_tronWeb: any, _contract: string, _selector: string, params: any[]) => [
+      accruedJst.get(params[0].value) ?? BigInt(0)
+    ])
+  };
+});
+
+import { justlendIntegration, JUSTLEND_CONTRACTS } from '../../src/integrations/justlend.js';
+import { clearPriceCache } from '../../src/economics/pricing.js';
+import { setPriceOracle } from '../../src/economics/oracle.js';
+import { ethers } from 'ethers';
+
+const JST = BigInt(10) ** BigInt(18);
+
+function mockJstPrice(price: number | null): void {
+  vi.stubGlobal('fetch', vi.fn(async () => ({
+    ok: true,
+    json: async () => ({
+      coins: price === null ? {} : { [`tron:${JUSTLEND_CONTRACTS.TOKENS.JST}`]: { price } }
+    })
+  })));
+}
+
+describe('JustLend Integration', () => {
+  beforeEach(() => {
+    accruedJst.clear();
+    clearPriceCache();
+    setPriceOracle(undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should keep the deterministic mock fixture', async () => {
+    const wallets = await justlendIntegration.discoverWallets(true);
+    const rewards = await justlendIntegration.getPendingRewards(wallets, true);
+
+    expect(wallets).toHaveLength(3);
+    expect(rewards.map(r => r.amountUsd)).toEqual([2.5, 0.2, 0.25]);
+  });
+
+  it('should discover configured Tron wallets in real mode', async () => {
+    const wallets = await justlendIntegration.discoverWallets(false);
+
+    expect(wallets).toEqual([{ value: RECIPIENT, chain: 'tron' }]);
+  });
+
+  it('should price accrued JST with the DefiLlama price and apply the minimum', async () => {
+    mockJstPrice(0.04);
+    accruedJst.set(RECIPIENT, BigInt(100) * JST); // $4.00
+    accruedJst.set(OTHER, BigInt(5) * JST);       // $0.20, below minimum
+
+    const rewards = await justlendIntegration.getPendingRewards(
+      [{ value: RECIPIENT, chain: 'tron' }, { value: OTHER, chain: 'tron' }],
+      false
+    );
+
+    expect(rewards).toHaveLength(1);
+    expect(rewards[0].token.value).toBe(JUSTLEND_CONTRACTS.TOKENS.JST);
+    expect(rewards[0].amountUsd).toBeCloseTo(4.0);
+  });
+
+  it('should return no rewards when no JST price is available', async () => {
+    mockJstPrice(null);
+    accruedJst.set(RECIPIENT, BigInt(100) * JST);
+
+    const rewards = await justlendIntegration.getPendingRewards([{ value: RECIPIENT, chain: 'tron' }], false);
+
+    expect(rewards).toHaveLength(0);
+  });
+
+  it('should build claimReward(holder) bundles against the comptroller', async () => {
+    mockJstPrice(0.05);
+    accruedJst.set(RECIPIENT, BigInt(100) * JST);
+
+    const rewards = await justlendIntegration.getPendingRewards([{ value: RECIPIENT, chain: 'tron' }], false);
+    const bundles = await justlendIntegration.buildBundle(rewards, false);
+
+    expect(bundles).toHaveLength(1);
+    expect(bundles[0].contractAddress).toBe(JUSTLEND_CONTRACTS.COMPTROLLER);
+
+    const iface = new ethers.Interface(['function claimReward(address)']);
+    const [holder] = iface.decodeFunctionData('claimReward', bundles[0].callData!);
+    expect(holder.toLowerCase()).toBe('0x82dd6b9966724ae2fdc79b416c7588da67ff1b35');
+  });
+
+  it('should reject recipients outside the allowlist', async () => {
+    const other: Address = { value: OTHER, chain: 'tron' };
+    const reward = {
+      id: `justlend-jst-${OTHER}`,
+      wallet: other,
+      protocol: 'justlend',
+      token: { value: JUSTLEND_CONTRACTS.TOKENS.JST, chain: 'tron' as const },
+      amountWei: JST.toString(),
+      amountUsd: 1,
+      claimTo: other,
+      discoveredAt: new Date()
+    };
+
+    await expect(justlendIntegration.buildBundle([reward], false))
+      .rejects.toThrow('not allowed in non-mock mode');
+  });
+});
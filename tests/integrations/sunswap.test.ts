@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Address } from '../../src/types/common.js';
+
+const RECIPIENT = 'TXYZopYRdj2D9XRtbG411XZZ3kM5VkAeBf';
+const PARTICIPANT = 'TMuA6YqfCeX8EhbfYEg5y7S4DqzSJireY9';
+
+// Farm state: staked and pending amounts keyed by `${pid}:${wallet}`
+const farmState = {
+  poolLength: 2,
+  staked: new Map<string, bigint>(),
+  pending: new Map<string, bigint>()
+};
+
+vi.mock('../../src/config/addresses.js', () => ({
+  getDefaultClaimRecipient: vi.fn((chain: string) =>
+    chain === 'tron' ? { value: 'TXYZopYRdj2D9XRtbG411XZZ3kM5VkAeBf', chain: 'tron' } : null
+  ),
+  isAllowedRecipientNonMock: vi.fn((address: Address) =>
+    address.value === 'TXYZopYRdj2D9XRtbG411XZZ3kM5VkAeBf'
+  )
+}));
+
+vi.mock('../../src/integrations/_tron.js', () => ({
+  createReadOnlyTronWeb: vi.fn(() => ({})),
+  callConstant: vi.fn(async (_tronWeb: any, _contract: string, selector: string, params: any[]) => {
+    if (selector === 'poolLength()') {
+      return [BigInt(farmState.poolLength)];
+    }
+    const key = `${params[0].value}:${params[1].value}`;
+    if (selector === 'userInfo(uint256,address)') {
+      return [farmState.staked.get(key) ?? BigInt(0), BigInt(0)];
+    }
+    return [farmState.pending.get(key) ?? BigInt(0)];
+  })
+}));
+
+// Oracle has no SUN price unless a test provides one, so SUN_PRICE_USD ($0.02) applies
+vi.mock('../../src/economics/oracle.js', () => ({
+  getTokenUsdPrice: vi.fn(async () => null)
+}));
+
+import { sunswapIntegration, SUNSWAP_CONTRACTS } from '../../src/integrations/sunswap.js';
+import { getTokenUsdPrice } from '../../src/economics/oracle.js';
+import { ethers } from 'ethers';
+
+const SUN = BigInt(10) ** BigInt(18);
+
+describe('SunSwap Integration', () => {
+  beforeEach(() => {
+    farmState.poolLength = 2;
+    farmState.staked.clear();
+    farmState.pending.clear();
+  });
+
+  describe('Mock Mode', () => {
+    it('should return pending SUN rewards and harvest bundles', async () => {
+      const wallets = await sunswapIntegration.discoverWallets(true);
+      const rewards = await sunswapIntegration.getPendingRewards(wallets, true);
+      const bundles = await sunswapIntegration.buildBundle(rewards, true);
+
+      expect(rewards).toHaveLength(wallets.length);
+      expect(rewards[0].token.value).toBe(SUNSWAP_CONTRACTS.SUN_TOKEN);
+      expect(bundles).toHaveLength(rewards.length);
+      expect(bundles[0].chain).toBe('tron');
+      expect(bundles[0].contractAddress).toBe(SUNSWAP_CONTRACTS.SUN_FARM);
+    });
+  });
+
+  describe('Real Mode', () => {
+    it('should only discover configured wallets, not other farm depositors', async () => {
+      const wallets = await sunswapIntegration.discoverWallets(false);
+
+      expect(wallets.map(w => w.value)).toEqual([RECIPIENT]);
+    });
+
+    it('should only report staked positions with pending SUN above the minimum', async () => {
+      farmState.staked.set(`0:${RECIPIENT}`, SUN);
+      farmState.pending.set(`0:${RECIPIENT}`, BigInt(100) * SUN); // $2.00
+      farmState.staked.set(`1:${RECIPIENT}`, SUN);
+      farmState.pending.set(`1:${RECIPIENT}`, BigInt(5) * SUN);   // $0.10, below minimum
+      farmState.pending.set(`0:${PARTICIPANT}`, BigInt(100) * SUN); // not staked
+
+      const rewards = await sunswapIntegration.getPendingRewards(
+        [{ value: RECIPIENT, chain: 'tron' }, { value: PARTICIPANT, chain: 'tron' }],
+        false
+      );
+
+      expect(rewards).toHaveLength(1);
+      expect(rewards[0].id).toBe(`sunswap-farm-0-${RECIPIENT}`);
+      expect(rewards[0].amountUsd).toBeCloseTo(2.0);
+    });
+
+    it('should price SUN with the oracle when it has a price', async () => {
+      vi.mocked(getTokenUsdPrice).mockResolvedValueOnce(0.03);
+      farmState.staked.set(`0:${RECIPIENT}`, SUN);
+      farmState.pending.set(`0:${RECIPIENT}`, BigInt(100) * SUN);
+
+      const rewards = await sunswapIntegration.getPendingRewards([{ value: RECIPIENT, chain: 'tron' }], false);
+
+      expect(getTokenUsdPrice).toHaveBeenCalledWith('tron', SUNSWAP_CONTRACTS.SUN_TOKEN, 18, 'SUN');
+      expect(rewards[0].amountUsd).toBeCloseTo(3.0);
+    });
+
+    it('should encode deposit(pid, 0) harvest calls', async () => {
+      farmState.staked.set(`1:${RECIPIENT}`, SUN);
+      farmState.pending.set(`1:${RECIPIENT}`, BigInt(100) * SUN);
+
+      const rewards = await sunswapIntegration.getPendingRewards([{ value: RECIPIENT, chain: 'tron' }], false);
+      const bundles = await sunswapIntegration.buildBundle(rewards, false);
+
+      expect(bundles).toHaveLength(1);
+      const iface = new ethers.Interface(['function deposit(uint256,uint256)']);
+      const [pid, amount] = iface.decodeFunctionData('deposit', bundles[0].callData!);
+      expect(Number(pid)).toBe(1);
+      expect(amount).toBe(BigInt(0));
+      expect(bundles[0].estGasUsd).toBeGreaterThan(0);
+    });
+
+    it('should reject recipients outside the allowlist', async () => {
+      const rewards = await sunswapIntegration.getPendingRewards([{ value: PARTICIPANT, chain: 'tron' }], true);
+
+      await expect(sunswapIntegration.buildBundle(rewards, false))
+        .rejects.toThrow('not allowed in non-mock mode');
+    });
+  });
+});
@@ -43,6 +43,11 @@ vi.mock('ethers', () => ({
   }
 }));
 
+// Batched reads go through the multicall helper, which needs the real ethers
+vi.mock('../../../src/chains/multicall.js', () => ({
+  multicall: vi.fn(async () => [])
+}));
+
 // Mock file system
 vi.mock('fs', () => ({
   readFileSync: vi.fn(() => JSON.stringify([
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Address } from '../../src/types/common.js';
+
+const RECIPIENT = '0xe816F3dB12Db343FAF01B0781F9fE80122FA7E7D';
+const LP_TOKEN = '0x0000000000000000000000000000000000000a11';
+
+// YakChef farm state and LP token decimals, swapped per test
+const farmState: { pools: Array<{ staked: bigint; pending: bigint }>; lpDecimals: number } = { pools: [], lpDecimals: 18 };
+
+vi.mock('../../src/config/addresses.js', () => ({
+  getDefaultClaimRecipient: vi.fn((chain: string) =>
+    chain === 'avalanche' ? { value: '0xe816F3dB12Db343FAF01B0781F9fE80122FA7E7D', chain: 'avalanche' } : null
+  ),
+  isAllowedRecipientNonMock: vi.fn((address: Address) =>
+    address.value === '0xe816F3dB12Db343FAF01B0781F9fE80122FA7E7D'
+  )
+}));
+
+// Keep the real Interface for encoding, stub the provider
+vi.mock('ethers', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('ethers')>();
+  return {
+    ethers: {
+      ...actual.ethers,
+      JsonRpcProvider: vi.fn(() => ({}))
+    }
+  };
+});
+
+// Batched farm reads answered from farmState; strategy reads are not mocked and fail per call
+vi.mock('../../src/chains/multicall.js', () => {
+  const reads: Record<string, (...args: any[]) => unknown[]> = {
+    poolLength: () => [BigInt(farmState.pools.length)],
+    poolInfo: () => ['0x0000000000000000000000000000000000000a11', 0n, 0n, 0n, 0n],
+    userInfo: (pid: number) => [farmState.pools[pid].staked, 0n],
+    pendingRewards: (pid: number) => [farmState.pools[pid].pending]
+  };
+  return {
+    multicall: vi.fn(async (_provider: unknown, calls: Array<{ method: string; args?: unknown[] }>) =>
+      calls.map(call => reads[call.method]
+        ? { success: true, value: reads[call.method](...(call.args ?? [])) }
+        : { success: false, error: `${call.method} reverted` }))
+  };
+});
+
+import { yieldYakIntegration, YIELDYAK_CONTRACTS, getYakRegistry } from '../../src/integrations/yieldyak.js';
+import { PROTOCOL_POLICIES } from '../../src/economics/policy.js';
+import { buildBundles } from '../../src/engine/bundler.js';
+import { clearPriceCache } from '../../src/economics/pricing.js';
+import { setPriceOracle } from '../../src/economics/oracle.js';
+import { getTokenRegistry } from '../../src/state/tokenRegistry.js';
+import { ethers } from 'ethers';
+
+const ONE = BigInt(10) ** BigInt(18);
+const wallet: Address = { value: RECIPIENT, chain: 'avalanche' };
+
+describe('Yield Yak Integration', () => {
+  beforeEach(() => {
+    farmState.pools = [];
+    farmState.lpDecimals = 18;
+    clearPriceCache();
+    setPriceOracle(undefined);
+    // YAK at $400, LP token at $2
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => ({
+      ok: true,
+      json: async () => {
+        const coinId = url.substring(url.lastIndexOf('/') + 1);
+        const price = coinId.endsWith(YIELDYAK_CONTRACTS.YAK_TOKEN) ? 400 : coinId.endsWith(LP_TOKEN) ? 2 : undefined;
+        return { coins: price ? { [coinId]: { price } } : {} };
+      }
+    })));
+    // The LP token is not in the seed; answer its on-chain metadata lookup
+    const registry = getTokenRegistry();
+    const seeded = registry.get.bind(registry);
+    vi.spyOn(registry, 'resolve').mockImplementation(async (chain, address) =>
+      address === LP_TOKEN
+        ? { chain, address, symbol: 'LP', decimals: farmState.lpDecimals, source: 'chain' }
+        : seeded(chain, address)!
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(getTokenRegistry().resolve).mockRestore();
+  });
+
+  it('should register the legacy farms as deprecated', () => {
+    const farms = getYakRegistry().filter(entry => entry.kind === 'farm');
+
+    expect(farms.map(f => f.address)).toEqual([YIELDYAK_CONTRACTS.YAK_FARM_V1, YIELDYAK_CONTRACTS.YAK_FARM_V2]);
+    expect(farms.every(f => f.deprecated)).toBe(true);
+  });
+
+  it('should build exit and withdraw bundles in mock mode', async () => {
+    const rewards = await yieldYakIntegration.getPendingRewards([wallet], true);
+    const bundles = await yieldYakIntegration.buildBundle(rewards, true);
+
+    expect(bundles).toHaveLength(2);
+    const exit = bundles.find(b => b.contractAddress === YIELDYAK_CONTRACTS.YAK_FARM_V2)!;
+    expect(exit.items).toHaveLength(2);
+    expect(exit.totalUsd).toBeCloseTo(4.7);
+
+    const withdraw = bundles.find(b => b.contractAddress === YIELDYAK_CONTRACTS.LEGACY_STRATEGIES[0])!;
+    const iface = new ethers.Interface(['function withdraw(uint256)']);
+    expect(iface.decodeFunctionData('withdraw', withdraw.callData!)[0]).toBe(BigInt(withdraw.items[0].amountWei));
+  });
+
+  it('should give live-loop bundles the position call, sent by the wallet', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const rewards = await yieldYakIntegration.getPendingRewards([wallet], true);
+    const expected = await yieldYakIntegration.buildBundle(rewards, true);
+
+    const bundles = buildBundles(rewards, 'sequential');
+
+    expect(bundles).toHaveLength(2);
+    expect(bundles.every(bundle => bundle.calls === undefined)).toBe(true);
+    expect(bundles.map(b => [b.contractAddress, b.callData]).sort())
+      .toEqual(expected.map(b => [b.contractAddress, b.callData]).sort());
+    expect(rewards.every(reward => reward.claimCall?.fromWallet)).toBe(true);
+  });
+
+  it('should read stake and pending rewards from deprecated farms', async () => {
+    farmState.pools = [
+      { staked: 3n * ONE, pending: ONE / 100n }, // $6 stake + $4 reward
+      { staked: 0n, pending: 0n },
+      { staked: ONE / 100n, pending: 0n }        // $0.02 stake, below minimum
+    ];
+
+    const rewards = await yieldYakIntegration.getPendingRewards([wallet], false);
+
+    // Both farms in the registry report the same mocked pools
+    expect(rewards).toHaveLength(4);
+    expect(rewards.filter(r => r.id.endsWith('-deposit')).every(r => r.token.value === LP_TOKEN)).toBe(true);
+    expect(rewards.reduce((sum, r) => sum + r.amountUsd, 0)).toBeCloseTo(20);
+
+    const bundles = await yieldYakIntegration.buildBundle(rewards, false);
+    expect(bundles).toHaveLength(2);
+
+    const iface = new ethers.Interface(['function withdraw(uint256,uint256)']);
+    const [pid, amount] = iface.decodeFunctionData('withdraw', bundles[0].callData!);
+    expect(Number(pid)).toBe(0);
+    expect(amount).toBe(3n * ONE);
+  });
+
+  it('should price stakes with the deposit token decimals from the registry', async () => {
+    farmState.lpDecimals = 6;
+    farmState.pools = [{ staked: BigInt(3000000), pending: 0n }]; // 3 LP at $2
+
+    const rewards = await yieldYakIntegration.getPendingRewards([wallet], false);
+
+    expect(rewards).toHaveLength(2);
+    expect(rewards.every(r => r.amountUsd === 6)).toBe(true);
+  });
+
+  it('should cap positions per wallet at MAX_FARMS_PER_BUNDLE', async () => {
+    const maxPositions = PROTOCOL_POLICIES.yieldyak.MAX_FARMS_PER_BUNDLE;
+    farmState.pools = Array.from({ length: maxPositions }, (_, i) => ({
+      staked: BigInt(i + 1) * ONE,
+      pending: 0n
+    }));
+
+    const rewards = await yieldYakIntegration.getPendingRewards([wallet], false);
+    const bundles = await yieldYakIntegration.buildBundle(rewards, false);
+
+    expect(rewards).toHaveLength(maxPositions * 2);
+    expect(bundles).toHaveLength(maxPositions);
+    // Largest positions are taken first
+    expect(bundles[0].totalUsd).toBeCloseTo(maxPositions * 2);
+  });
+});
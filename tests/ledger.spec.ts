@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { initSchema, recordPending, upsertWallet } from '../src/state/db.js';
+import { recordExecutionResult, getEstimatedVsRealized } from '../src/engine/ledger.js';
+import { verifyPayout } from '../src/engine/verifyPayout.js';
+import type { ClaimBundle, PendingReward, TxResult } from '../src/types/common.js';
+
+const Database = require('better-sqlite3');
+
+const RECIPIENT = '0x1234567890123456789012345678901234567890';
+const QI = '0x8729438EB15e2C8B576fCc6AeCdA6A148776C0F5';
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+function transferLog(token: string, to: string, amountWei: bigint) {
+  return {
+    address: token,
+    topics: [TRANSFER_TOPIC, `0x${'0'.repeat(24)}${'ab'.repeat(20)}`, `0x${'0'.repeat(24)}${to.slice(2)}`],
+    data: `0x${amountWei.toString(16)}`
+  };
+}
+
+function createBundle(id: string): ClaimBundle {
+  return {
+    id,
+    chain: 'avalanche',
+    protocol: 'benqi',
+    claimTo: { value: RECIPIENT, chain: 'avalanche' },
+    items: [],
+    totalUsd: 10,
+    estGasUsd: 1,
+    netUsd: 9
+  };
+}
+
+describe('Ledger realized PnL', () => {
+  let db: any;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    initSchema(db);
+  });
+
+  it('should price each verified transfer at execution time', async () => {
+    const logs = [
+      transferLog(QI, RECIPIENT, 10n ** 18n),
+      transferLog(QI, '0x9999999999999999999999999999999999999999', 5n * 10n ** 18n)
+    ];
+
+    const verification = await verifyPayout('0xabc', logs, { value: RECIPIENT, chain: 'avalanche' }, {
+      quoteToUsd: async (_chain, _token, amountWei) => Number(BigInt(amountWei) / 10n ** 16n) / 100 * 8,
+      getTokenDecimals: async () => 18
+    });
+
+    expect(verification.verified).toBe(true);
+    expect(verification.transfers).toHaveLength(1);
+    expect(verification.transfers[0].amountUsd).toBe(8);
+    expect(verification.totalUsd).toBe(8);
+  });
+
+  it('should store verified transfers and realized values', () => {
+    const result: TxResult = {
+      success: true,
+      txHash: '0xabc',
+      claimedUsd: 8,
+      gasUsd: 0.5,
+      chain: 'avalanche',
+      verifiedPayout: true,
+      transfers: [{ tokenAddress: QI, from: '0xab', to: RECIPIENT, amountWei: '1000000000000000000', txHash: '0xabc', logIndex: 0, amountUsd: 8 }]
+    };
+
+    recordExecutionResult(db, createBundle('bundle-1'), result);
+
+    const execution = db.prepare('SELECT * FROM executions WHERE id = ?').get('bundle-1');
+    expect(execution).toMatchObject({
+      verified_payout: 1,
+      total_usd: 10,
+      net_usd: 9,
+      actual_claimed_usd: 8,
+      actual_gas_usd: 0.5,
+      actual_net_usd: 7.5
+    });
+    expect(db.prepare('SELECT * FROM execution_transfers').all()).toEqual([
+      expect.objectContaining({ execution_id: 'bundle-1', token_address: QI, amount_wei: '1000000000000000000', amount_usd: 8, log_index: 0 })
+    ]);
+  });
+
+  it('should leave unverified executions out of the realized summary', () => {
+    recordExecutionResult(db, createBundle('bundle-1'), {
+      success: true, txHash: '0xabc', claimedUsd: 8, gasUsd: 0.5, chain: 'avalanche', verifiedPayout: true, transfers: []
+    });
+    recordExecutionResult(db, createBundle('bundle-2'), {
+      success: true, txHash: '0xdef', claimedUsd: 10, gasUsd: 0.5, chain: 'avalanche', verifiedPayout: false
+    });
+
+    expect(getEstimatedVsRealized(db, 24)).toEqual([{
+      protocol: 'benqi',
+      verifiedExecutions: 1,
+      transfers: 0,
+      estimatedUsd: 10,
+      estimatedGasUsd: 1,
+      estimatedNetUsd: 9,
+      realizedUsd: 8,
+      realizedGasUsd: 0.5,
+      realizedNetUsd: 7.5
+    }]);
+    expect(db.prepare('SELECT verified_payout FROM executions WHERE id = ?').get('bundle-2').verified_payout).toBe(0);
+  });
+
+  it('should only mark the items a batched execution claimed', () => {
+    const wallet = { value: RECIPIENT, chain: 'avalanche' as const };
+    const items: PendingReward[] = ['qi', 'avax'].map(id => ({
+      id,
+      wallet,
+      protocol: 'benqi',
+      token: { value: QI, chain: 'avalanche' },
+      amountWei: '1000000000000000000',
+      amountUsd: 5,
+      claimTo: wallet,
+      discoveredAt: new Date()
+    }));
+    upsertWallet(db, wallet);
+    items.forEach(item => recordPending(db, item));
+
+    recordExecutionResult(db, { ...createBundle('bundle-1'), items }, {
+      success: true,
+      txHash: '0xabc',
+      claimedUsd: 5,
+      chain: 'avalanche',
+      itemResults: [
+        { itemId: 'qi', success: true },
+        { itemId: 'avax', success: false, error: 'Revert: 0x' }
+      ]
+    });
+
+    expect(db.prepare('SELECT reward_id, success, error_message FROM execution_items ORDER BY reward_id').all()).toEqual([
+      { reward_id: 'avax', success: 0, error_message: 'Revert: 0x' },
+      { reward_id: 'qi', success: 1, error_message: null }
+    ]);
+    expect(db.prepare('SELECT id, is_stale FROM pending_rewards ORDER BY id').all()).toEqual([
+      { id: 'avax', is_stale: 0 },
+      { id: 'qi', is_stale: 1 }
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { priceVolatility, sampleMarketConditions } from '../src/economics/marketConditions.js';
+import { CompositePriceOracle, setPriceOracle, toOracleToken, type PriceSource } from '../src/economics/oracle.js';
+import { Policy, clearPolicyCache, getMarketAdjustments, resolvePolicy, setMarketAdjustments } from '../src/economics/policy.js';
+import { env } from '../src/config/env.js';
+import type { ChainClient } from '../src/types/common.js';
+
+// AVAX/USD source returning whatever price the test sets
+let avaxUsd = 20;
+const avaxSource: PriceSource = {
+  name: 'test',
+  maxAgeMs: 60000,
+  supports: () => true,
+  getPrice: async () => ({ priceUsd: avaxUsd, updatedAt: Date.now() })
+};
+
+function clients(baseFee: bigint | Error): Map<string, ChainClient> {
+  const client = {
+    chain: 'avalanche',
+    // maxFeePerGas with headroom, which must not be mistaken for the base fee
+    gasPrice: async () => 200_000_000_000n,
+    baseFeePerGas: async () => {
+      if (baseFee instanceof Error) throw baseFee;
+      return baseFee;
+    }
+  } as unknown as ChainClient;
+  return new Map([['avalanche', client]]);
+}
+
+describe('Market conditions', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    avaxUsd = 20;
+    setPriceOracle(new CompositePriceOracle([avaxSource], 300));
+    clearPolicyCache();
+  });
+
+  afterEach(() => {
+    setMarketAdjustments({});
+    setPriceOracle(undefined);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should measure volatility as the price range over its low', () => {
+    expect(priceVolatility([])).toBeUndefined();
+    expect(priceVolatility([{ priceUsd: 20, timestamp: 0 }])).toBeUndefined();
+    expect(priceVolatility([
+      { priceUsd: 20, timestamp: 0 },
+      { priceUsd: 22, timestamp: 1 },
+      { priceUsd: 21, timestamp: 2 }
+    ])).toBeCloseTo(0.1);
+  });
+
+  it('should raise the net bundle threshold while gas is high', async () => {
+    const conditions = await sampleMarketConditions(clients(80_000_000_000n));
+
+    expect(conditions.baseFeeGwei).toBe(80);
+    expect(conditions.adjustments.MIN_BUNDLE_NET_USD).toBeCloseTo(Policy.MIN_BUNDLE_NET_USD * 1.5);
+    expect(resolvePolicy('avalanche', 'benqi')).toMatchObject({
+      minBundleNetUsd: Policy.MIN_BUNDLE_NET_USD * 1.5,
+      sources: expect.objectContaining({ minBundleNetUsd: 'market', minItemUsd: expect.not.stringMatching('market') })
+    });
+  });
+
+  it('should drop earlier adjustments once gas falls', async () => {
+    await sampleMarketConditions(clients(80_000_000_000n));
+    resolvePolicy('avalanche', 'benqi');
+
+    await sampleMarketConditions(clients(25_000_000_000n));
+
+    expect(getMarketAdjustments()).toEqual({});
+    expect(resolvePolicy('avalanche', 'benqi').minBundleNetUsd).toBe(Policy.MIN_BUNDLE_NET_USD);
+  });
+
+  it('should apply profit, slippage and price impact adjustments to the resolved policy', async () => {
+    await sampleMarketConditions(clients(80_000_000_000n));
+    vi.setSystemTime(Date.now() + 60_000);
+    avaxUsd = 22;
+    await sampleMarketConditions(clients(80_000_000_000n));
+
+    expect(resolvePolicy('avalanche', 'benqi')).toMatchObject({
+      minProfitUsd: Policy.MIN_PROFIT_USD * 2,
+      maxSlippagePct: Math.max(Policy.MAX_SLIPPAGE_PCT * 0.8, 2.0),
+      priceImpactMaxPct: Math.max(Policy.PRICE_IMPACT_MAX_PCT * 0.8, 3.0),
+      sources: expect.objectContaining({ minProfitUsd: 'market', maxSlippagePct: 'market', priceImpactMaxPct: 'market' })
+    });
+  });
+
+  it('should measure volatility from the oracle price history', async () => {
+    await sampleMarketConditions(clients(25_000_000_000n));
+    vi.setSystemTime(Date.now() + 60_000);
+    avaxUsd = 22;
+
+    const conditions = await sampleMarketConditions(clients(25_000_000_000n));
+
+    expect(conditions.volatility).toBeCloseTo(0.1);
+    expect(conditions.adjustments).toHaveProperty('MAX_SLIPPAGE_PCT');
+
+    // Prices older than the window no longer count
+    vi.setSystemTime(Date.now() + env.marketVolatilityWindowMs + 1);
+    expect((await sampleMarketConditions(clients(25_000_000_000n))).volatility).toBeUndefined();
+  });
+
+  it('should treat an unreachable base fee as calm', async () => {
+    const conditions = await sampleMarketConditions(clients(new Error('rpc down')));
+
+    expect(conditions.baseFeeGwei).toBeUndefined();
+    expect(conditions.adjustments).toEqual({});
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { initSchema } from '../src/state/db.js';
+import { MemoryDatabase } from '../src/state/memoryDb.js';
+import { getMigrationStatus, loadMigrations, migrateUp } from '../src/state/migrations.js';
+
+const Database = require('better-sqlite3');
+
+describe('Schema migrations', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'migrations-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should apply migration 006 on top of the base schema', () => {
+    const db = new Database(':memory:');
+
+    initSchema(db);
+
+    const columns = db.prepare('PRAGMA table_info(executions)').all().map((c: any) => c.name);
+    expect(columns).toContain('verified_payout');
+    expect(columns).toContain('gas_usd');
+    expect(db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'execution_transfers'`).get()).toBeDefined();
+    expect(getMigrationStatus(db).find(m => m.version === 6)?.state).toBe('applied');
+
+    // Re-running is a no-op
+    expect(() => initSchema(db)).not.toThrow();
+    expect(migrateUp(db)).toEqual([]);
+  });
+
+  it('should apply migrations in version order', () => {
+    writeFileSync(join(dir, '010_second.sql'), 'ALTER TABLE items ADD COLUMN note TEXT;');
+    writeFileSync(join(dir, '002_first.sql'), 'CREATE TABLE items (id INTEGER PRIMARY KEY);');
+    writeFileSync(join(dir, 'README.md'), 'not a migration');
+    const db = new Database(':memory:');
+
+    expect(loadMigrations(dir).map(m => m.filename)).toEqual(['002_first.sql', '010_second.sql']);
+    expect(migrateUp(db, dir).map(m => m.version)).toEqual([2, 10]);
+    expect(getMigrationStatus(db, dir).map(m => m.state)).toEqual(['applied', 'applied']);
+  });
+
+  it('should refuse to run when an applied migration was modified', () => {
+    writeFileSync(join(dir, '001_items.sql'), 'CREATE TABLE items (id INTEGER PRIMARY KEY);');
+    const db = new Database(':memory:');
+    migrateUp(db, dir);
+
+    writeFileSync(join(dir, '001_items.sql'), 'CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT);');
+    writeFileSync(join(dir, '002_more.sql'), 'CREATE TABLE more (id INTEGER PRIMARY KEY);');
+
+    expect(getMigrationStatus(db, dir).map(m => m.state)).toEqual(['checksum_mismatch', 'pending']);
+    expect(() => migrateUp(db, dir)).toThrow('001_items');
+  });
+
+  it('should roll back a failing migration', () => {
+    writeFileSync(join(dir, '001_broken.sql'), 'CREATE TABLE items (id INTEGER PRIMARY KEY);\nINSERT INTO missing VALUES (1);');
+    const db = new Database(':memory:');
+
+    expect(() => migrateUp(db, dir)).toThrow('001_broken.sql');
+    expect(getMigrationStatus(db, dir)[0].state).toBe('pending');
+    expect(db.prepare(`SELECT name FROM sqlite_master WHERE name = 'items'`).get()).toBeUndefined();
+  });
+
+  it('should track migrations on the in-memory fallback', () => {
+    const db = new MemoryDatabase();
+
+    initSchema(db);
+    initSchema(db);
+
+    expect(getMigrationStatus(db).every(m => m.state === 'applied')).toBe(true);
+    expect(db.prepare('SELECT * FROM schema_migrations').all()).toHaveLength(loadMigrations().length);
+  });
+});
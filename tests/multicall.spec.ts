@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { MULTICALL3_ADDRESS, mapWithConcurrency, multicall } from '../src/chains/multicall.js';
+
+const TOKEN = '0x0000000000000000000000000000000000000a11';
+const erc20 = new ethers.Interface(['function balanceOf(address owner) view returns (uint256)']);
+const multicall3 = new ethers.Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) view returns ((bool success, bytes returnData)[] returnData)'
+]);
+
+const wallet = (i: number) => ethers.zeroPadValue(ethers.toBeHex(i + 1), 20);
+
+/**
+ * Provider answering balanceOf from a table; owners missing from the table revert
+ */
+function fakeProvider(balances: Map<string, bigint>, options: { multicallDown?: boolean } = {}) {
+  const answer = (data: string): string | null => {
+    const [owner] = erc20.decodeFunctionData('balanceOf', data);
+    const balance = balances.get(owner.toLowerCase());
+    return balance === undefined ? null : erc20.encodeFunctionResult('balanceOf', [balance]);
+  };
+
+  const call = vi.fn(async ({ to, data }: { to: string; data: string }) => {
+    if (to === MULTICALL3_ADDRESS) {
+      if (options.multicallDown) {
+        throw new Error('missing revert data');
+      }
+      const [calls] = multicall3.decodeFunctionData('aggregate3', data);
+      return multicall3.encodeFunctionResult('aggregate3', [
+        calls.map((c: any) => {
+          const result = answer(c.callData);
+          return [result !== null, result ?? '0x'];
+        })
+      ]);
+    }
+
+    const result = answer(data);
+    if (result === null) {
+      throw new Error('execution reverted');
+    }
+    return result;
+  });
+
+  return { call, provider: { call } as unknown as ethers.Provider };
+}
+
+const balanceCalls = (count: number) => Array.from({ length: count }, (_, i) => ({
+  target: TOKEN,
+  iface: erc20,
+  method: 'balanceOf',
+  args: [wallet(i)]
+}));
+
+describe('Multicall3 reads', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should batch calls into chunks and keep results in call order', async () => {
+    const balances = new Map(Array.from({ length: 5 }, (_, i) => [wallet(i).toLowerCase(), BigInt(i * 100)]));
+    const { call, provider } = fakeProvider(balances);
+
+    const results = await multicall(provider, balanceCalls(5), { chunkSize: 2 });
+
+    expect(call).toHaveBeenCalledTimes(3);
+    expect(results.map(r => r.success && r.value[0])).toEqual([0n, 100n, 200n, 300n, 400n]);
+  });
+
+  it('should report failed calls without failing the batch', async () => {
+    const { provider } = fakeProvider(new Map([[wallet(0).toLowerCase(), 7n]]));
+
+    const results = await multicall(provider, [
+      ...balanceCalls(2),
+      { target: TOKEN, iface: erc20, method: 'balanceOf', args: ['not-an-address'] }
+    ]);
+
+    expect(results[0]).toMatchObject({ success: true });
+    expect(results[0].success && results[0].value[0]).toBe(7n);
+    expect(results[1]).toEqual({ success: false, error: 'balanceOf reverted' });
+    expect(results[2].success).toBe(false);
+  });
+
+  it('should fall back to individual calls when Multicall3 is unavailable', async () => {
+    const { call, provider } = fakeProvider(new Map([[wallet(1).toLowerCase(), 42n]]), { multicallDown: true });
+
+    const results = await multicall(provider, balanceCalls(2));
+
+    // One failed aggregate3 plus one eth_call per read
+    expect(call).toHaveBeenCalledTimes(3);
+    expect(results[0]).toEqual({ success: false, error: 'execution reverted' });
+    expect(results[1].success && results[1].value[0]).toBe(42n);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('should cap the number of tasks in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async (n) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      inFlight--;
+      return n * 2;
+    });
+
+    expect(results).toEqual([2, 4, 6, 8, 10, 12]);
+    expect(peak).toBe(2);
+  });
+});
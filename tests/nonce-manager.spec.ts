@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ethers } from 'ethers';
+import { initSchema } from '../src/state/db.js';
+import { NonceManager, attachNonceStateDb, resetNonceState, type TxRequest } from '../src/execution/nonceManager.js';
+
+const Database = require('better-sqlite3');
+
+const WALLET = '0x1234567890123456789012345678901234567890';
+const gwei = (value: number) => BigInt(value) * 1000000000n;
+
+/**
+ * Fake chain: transactions are broadcast through the signer and mined by the test
+ */
+function createChain() {
+  const chain = {
+    sent: [] as Array<ethers.TransactionRequest & { hash: string }>,
+    receipts: new Map<string, number>(),
+    minedNonce: 0,
+    onSend: (_tx: ethers.TransactionRequest & { hash: string }) => {},
+    mine(hash: string, status = 1) {
+      chain.receipts.set(hash, status);
+      chain.minedNonce++;
+    }
+  };
+
+  const signer = {
+    address: WALLET,
+    sendTransaction: vi.fn(async (tx: ethers.TransactionRequest) => {
+      const sent = { ...tx, hash: `0x${(chain.sent.length + 1).toString(16).padStart(64, '0')}` };
+      chain.sent.push(sent);
+      chain.onSend(sent);
+      return { hash: sent.hash } as ethers.TransactionResponse;
+    })
+  };
+
+  const provider = {
+    getTransactionCount: vi.fn(async () => chain.minedNonce),
+    getTransactionReceipt: vi.fn(async (hash: string) => chain.receipts.has(hash)
+      ? { hash, status: chain.receipts.get(hash), gasUsed: 21000n, gasPrice: gwei(30) }
+      : null)
+  };
+
+  return { chain, signer, provider: provider as unknown as ethers.Provider };
+}
+
+const claimTx: TxRequest = {
+  to: '0x486Af39519B4Dc9a7fCcd318217352830E8AD9b4',
+  data: '0xabcdef',
+  value: 0n,
+  gasLimit: 300000n,
+  maxFeePerGas: gwei(30),
+  maxPriorityFeePerGas: gwei(2)
+};
+
+// Fast polling; each test opens the window it exercises
+const policy = { speedUpAfterMs: 60000, cancelAfterMs: 60000, maxWaitMs: 1000, pollMs: 1, bumpPct: 15 };
+
+describe('NonceManager', () => {
+  let db: any;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    initSchema(db);
+    attachNonceStateDb(db);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetNonceState();
+    vi.restoreAllMocks();
+  });
+
+  const rows = () => db.prepare(`
+    SELECT * FROM pending_transactions
+    ORDER BY nonce, CASE kind WHEN 'original' THEN 0 WHEN 'speedup' THEN 1 ELSE 2 END
+  `).all();
+
+  it('should speed up a stuck transaction with a same-nonce replacement', async () => {
+    const { chain, signer, provider } = createChain();
+    chain.onSend = tx => { if (chain.sent.length === 2) chain.mine(tx.hash); };
+    const manager = new NonceManager(signer, provider);
+    const replaced = vi.fn();
+
+    const sent = await manager.send(claimTx, 'bundle-1');
+    const outcome = await manager.waitForOutcome(sent, { ...policy, speedUpAfterMs: 0 }, replaced);
+
+    expect(outcome).toMatchObject({ state: 'mined', kind: 'speedup', txHash: chain.sent[1].hash, replacements: 1 });
+    expect(replaced).toHaveBeenCalledWith(chain.sent[1].hash);
+    expect(chain.sent[1]).toMatchObject({ nonce: 0, to: claimTx.to, data: claimTx.data });
+    expect(chain.sent[1].maxFeePerGas).toBe(gwei(30) * 115n / 100n);
+    expect(rows().map((row: any) => [row.kind, row.status])).toEqual([['original', 'replaced'], ['speedup', 'confirmed']]);
+  });
+
+  it('should cancel with a zero-value self-send past the deadline', async () => {
+    const { chain, signer, provider } = createChain();
+    chain.onSend = tx => { if (tx.to === WALLET) chain.mine(tx.hash); };
+    const manager = new NonceManager(signer, provider);
+
+    const sent = await manager.send(claimTx, 'bundle-1');
+    const outcome = await manager.waitForOutcome(sent, { ...policy, cancelAfterMs: 0 });
+
+    expect(outcome).toMatchObject({ state: 'mined', kind: 'cancel' });
+    expect(chain.sent[1]).toMatchObject({ nonce: 0, to: WALLET, data: '0x', value: 0n, gasLimit: 21000n });
+    expect(await manager.statusOf(sent.txHash)).toBe('failed');
+  });
+
+  it('should not speed up past the fee cap', async () => {
+    const { chain, signer, provider } = createChain();
+    const manager = new NonceManager(signer, provider);
+
+    const sent = await manager.send(claimTx);
+    const outcome = await manager.waitForOutcome(sent, { ...policy, speedUpAfterMs: 0, maxWaitMs: 20, maxFeeCapWei: gwei(31) });
+
+    expect(outcome).toMatchObject({ state: 'pending', txHash: sent.txHash, replacements: 0 });
+    expect(chain.sent).toHaveLength(1);
+  });
+
+  it('should settle a nonce consumed by an untracked transaction as dropped', async () => {
+    const { chain, signer, provider } = createChain();
+    chain.onSend = () => { chain.minedNonce++; };
+    const manager = new NonceManager(signer, provider);
+
+    const sent = await manager.send(claimTx);
+    const outcome = await manager.waitForOutcome(sent, policy);
+
+    expect(outcome.state).toBe('dropped');
+    expect(rows()[0].status).toBe('dropped');
+  });
+
+  it('should recover pending nonces from the database on startup', async () => {
+    const { chain, signer, provider } = createChain();
+    const previousRun = new NonceManager(signer, provider);
+    const first = await previousRun.send(claimTx, 'bundle-1');
+    const second = await previousRun.send(claimTx, 'bundle-2');
+    expect([first.nonce, second.nonce]).toEqual([0, 1]);
+    chain.mine(first.txHash);
+
+    // A fresh manager only knows the pending rows
+    const manager = new NonceManager(signer, provider);
+    const stillPending = await manager.recoverPending({ ...policy, cancelAfterMs: 0 });
+
+    expect(stillPending).toBe(1);
+    expect(chain.sent[2]).toMatchObject({ nonce: 1, to: WALLET, value: 0n });
+    expect(await manager.statusOf(first.txHash)).toBe('confirmed');
+    expect(rows().map((row: any) => [row.nonce, row.kind, row.status])).toEqual([
+      [0, 'original', 'confirmed'],
+      [1, 'original', 'pending'],
+      [1, 'cancel', 'pending']
+    ]);
+
+    // New transactions go after the recovered nonce
+    expect((await manager.send(claimTx)).nonce).toBe(2);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const USDC = '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E';
+const JOE = '0x6e84a6216eA6dACC71eE8E6b0a5B7322EEbC0fDd';
+const LB_PAIR = '0x0000000000000000000000000000000000000b0b';
+
+// On-chain reads keyed by contract address
+const contracts: Record<string, Record<string, () => Promise<any>>> = {
+  [LB_PAIR]: {
+    getTokenX: async () => JOE,
+    getTokenY: async () => USDC,
+    // 1.0025^(id - 2^23) = 0.5 USDC per JOE once scaled by 10^(18 - 6)
+    getActiveId: async () => 8388608 + Math.round(Math.log(0.5e-12) / Math.log(1.0025)),
+    getBinStep: async () => 25
+  },
+  [JOE]: { decimals: async () => 18 },
+  [USDC]: { decimals: async () => 6 }
+};
+
+// Keep the real ethers helpers, stub provider and contract reads
+vi.mock('ethers', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('ethers')>();
+  return {
+    ethers: {
+      ...actual.ethers,
+      JsonRpcProvider: vi.fn(() => ({})),
+      Contract: vi.fn((address: string) => contracts[address])
+    }
+  };
+});
+
+import {
+  CompositePriceOracle,
+  TraderJoeLbPriceSource,
+  toOracleToken
+} from '../src/economics/oracle.js';
+import type { PriceSource, SourcePrice } from '../src/economics/oracle.js';
+
+const token = toOracleToken('avalanche', JOE, 18, 'JOE');
+
+function source(name: string, price: SourcePrice | null, maxAgeMs: number = 60000): PriceSource & { getPrice: ReturnType<typeof vi.fn> } {
+  return {
+    name,
+    maxAgeMs,
+    supports: () => true,
+    getPrice: vi.fn(async () => price)
+  };
+}
+
+describe('CompositePriceOracle', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should use the first fresh source and cross-check it with the next', async () => {
+    const chainlink = source('chainlink', { priceUsd: 0.5, updatedAt: Date.now() });
+    const http = source('defillama', { priceUsd: 0.505, updatedAt: Date.now() });
+    const unused = source('unused', { priceUsd: 1, updatedAt: Date.now() });
+    const oracle = new CompositePriceOracle([chainlink, http, unused], 300);
+
+    const report = await oracle.getPriceReport(token);
+
+    expect(report.priceUsd).toBe(0.5);
+    expect(report.source).toBe('chainlink');
+    expect(report.checks[1].deviationBps).toBeCloseTo(100);
+    expect(unused.getPrice).not.toHaveBeenCalled();
+  });
+
+  it('should skip stale and failing sources', async () => {
+    const stale = source('chainlink', { priceUsd: 0.4, updatedAt: Date.now() - 120000 });
+    const failing: PriceSource = { ...source('traderjoe-lb', null), getPrice: async () => { throw new Error('rpc down'); } };
+    const http = source('defillama', { priceUsd: 0.5, updatedAt: Date.now() });
+    const oracle = new CompositePriceOracle([stale, failing, http], 300);
+
+    const report = await oracle.getPriceReport(token);
+
+    expect(report.priceUsd).toBe(0.5);
+    expect(report.source).toBe('defillama');
+    expect(report.checks.map(c => [c.source, c.stale, c.error])).toEqual([
+      ['chainlink', true, undefined],
+      ['traderjoe-lb', false, 'rpc down'],
+      ['defillama', false, undefined]
+    ]);
+  });
+
+  it('should reject prices that deviate beyond the threshold', async () => {
+    const oracle = new CompositePriceOracle([
+      source('chainlink', { priceUsd: 0.5, updatedAt: Date.now() }),
+      source('defillama', { priceUsd: 0.6, updatedAt: Date.now() })
+    ], 300);
+
+    expect(await oracle.getTokenUsd(token)).toBeNull();
+  });
+
+  it('should cache resolved prices', async () => {
+    const http = source('defillama', { priceUsd: 0.5, updatedAt: Date.now() });
+    const oracle = new CompositePriceOracle([http], 300);
+
+    await oracle.getTokenUsd(token);
+    await oracle.getTokenUsd(token);
+
+    expect(http.getPrice).toHaveBeenCalledTimes(1);
+  });
+
+  it('should derive ratios and batch prices', async () => {
+    const prices: Record<string, number> = { [JOE]: 0.5, [USDC]: 1 };
+    const oracle = new CompositePriceOracle([{
+      name: 'fixed',
+      maxAgeMs: 60000,
+      supports: () => true,
+      getPrice: async (t) => (prices[t.address] ? { priceUsd: prices[t.address], updatedAt: Date.now() } : null)
+    }], 300);
+    const usdc = toOracleToken('avalanche', USDC, 6, 'USDC');
+    const unknown = toOracleToken('avalanche', LB_PAIR);
+
+    expect(await oracle.getTokenRatio(token, usdc)).toBe(0.5);
+    expect(await oracle.getTokensUsd([token, usdc, unknown])).toEqual(new Map([[JOE, 0.5], [USDC, 1]]));
+  });
+});
+
+describe('TraderJoeLbPriceSource', () => {
+  it('should price a token from the active bin of a stable pair', async () => {
+    const quoteUsd = vi.fn();
+    const lb = new TraderJoeLbPriceSource('http://localhost:8545', { [JOE]: LB_PAIR }, quoteUsd);
+
+    const price = await lb.getPrice(token);
+
+    expect(lb.supports(token)).toBe(true);
+    expect(price!.priceUsd).toBeCloseTo(0.5, 2);
+    expect(quoteUsd).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  Policy,
+  PROTOCOL_POLICIES,
+  checkBundle,
+  checkReward,
+  checkSimulatedBundle,
+  clearPolicyCache,
+  resolvePolicy
+} from '../src/economics/policy.js';
+import { buildBundles } from '../src/engine/bundler.js';
+import type { ClaimBundle, PendingReward } from '../src/types/common.js';
+
+const WALLET = '0x1234567890123456789012345678901234567890';
+
+function reward(protocol: string, amountUsd: number, overrides: Partial<PendingReward> = {}): PendingReward {
+  return {
+    id: `${protocol}-${Math.random().toString(36).substring(7)}`,
+    wallet: { value: WALLET, chain: 'avalanche' },
+    protocol,
+    token: { value: '0xToken123', chain: 'avalanche' },
+    amountWei: '1000000',
+    amountUsd,
+    claimTo: { value: WALLET, chain: 'avalanche' },
+    discoveredAt: new Date(),
+    ...overrides
+  };
+}
+
+function bundle(protocol: string, totalUsd: number, netUsd: number): ClaimBundle {
+  return {
+    id: 'bundle-1',
+    chain: 'avalanche',
+    protocol,
+    claimTo: { value: WALLET, chain: 'avalanche' },
+    items: [reward(protocol, totalUsd)],
+    totalUsd,
+    estGasUsd: totalUsd - netUsd,
+    netUsd
+  };
+}
+
+describe('Policy engine', () => {
+  const overrides = ['POLICY_GMX_MIN_ITEM_USD', 'POLICY_AVALANCHE_GMX_MIN_ITEM_USD', 'POLICY_GMX_DUST_MAX_BUNDLE_SIZE'];
+
+  beforeEach(() => {
+    clearPolicyCache();
+  });
+
+  afterEach(() => {
+    for (const name of overrides) delete process.env[name];
+    clearPolicyCache();
+    vi.restoreAllMocks();
+  });
+
+  it('should fall back to the global policy for protocols without an entry', () => {
+    const policy = resolvePolicy('avalanche', 'gmx-dust');
+
+    expect(policy).toMatchObject({
+      minItemUsd: Policy.MIN_ITEM_USD,
+      minBundleNetUsd: Policy.MIN_BUNDLE_NET_USD,
+      maxBundleSize: Policy.MAX_BUNDLE_SIZE
+    });
+    expect(Object.values(policy.sources).every(source => source === 'global')).toBe(true);
+  });
+
+  it('should layer PROTOCOL_POLICIES over the global policy', () => {
+    const gmx = resolvePolicy('avalanche', 'gmx');
+    const yieldyak = resolvePolicy('avalanche', 'yieldyak');
+
+    expect(gmx.minItemUsd).toBe(PROTOCOL_POLICIES.gmx.MIN_REWARD_USD);
+    expect(gmx.sources.minItemUsd).toBe('protocol');
+    expect(gmx.sources.minBundleNetUsd).toBe('global');
+    expect(yieldyak.maxBundleSize).toBe(PROTOCOL_POLICIES.yieldyak.MAX_FARMS_PER_BUNDLE);
+    expect(yieldyak.minBundleSize).toBeLessThanOrEqual(yieldyak.maxBundleSize);
+  });
+
+  it('should apply environment overrides last, chain-qualified first', () => {
+    process.env.POLICY_GMX_MIN_ITEM_USD = '2';
+    expect(resolvePolicy('avalanche', 'gmx')).toMatchObject({ minItemUsd: 2, sources: expect.objectContaining({ minItemUsd: 'env' }) });
+
+    clearPolicyCache();
+    process.env.POLICY_AVALANCHE_GMX_MIN_ITEM_USD = '3';
+    expect(resolvePolicy('avalanche', 'gmx').minItemUsd).toBe(3);
+  });
+
+  it('should ignore non-numeric overrides', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env.POLICY_GMX_MIN_ITEM_USD = 'lots';
+
+    expect(resolvePolicy('avalanche', 'gmx').minItemUsd).toBe(PROTOCOL_POLICIES.gmx.MIN_REWARD_USD);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('POLICY_GMX_MIN_ITEM_USD=lots'));
+  });
+
+  it('should reject rewards with a reason code', () => {
+    const minItemUsd = PROTOCOL_POLICIES.gmx.MIN_REWARD_USD;
+    const recentlyClaimed = new Date(Date.now() - 86400000);
+
+    expect(checkReward(reward('gmx', minItemUsd - 0.01))).toMatchObject({ code: 'ITEM_BELOW_MIN_USD', threshold: minItemUsd });
+    expect(checkReward(reward('gmx', minItemUsd + 1, { lastClaimAt: recentlyClaimed }))).toMatchObject({ code: 'ITEM_IN_COOLDOWN' });
+    expect(checkReward(reward('gmx', minItemUsd + 1))).toBeUndefined();
+  });
+
+  it('should reject bundles with a reason code', () => {
+    expect(checkBundle(bundle('benqi', Policy.MIN_BUNDLE_GROSS_USD / 2, 0))).toMatchObject({ code: 'BUNDLE_BELOW_MIN_GROSS_USD' });
+    expect(checkBundle(bundle('benqi', 100, Policy.MIN_BUNDLE_NET_USD / 2))).toMatchObject({ code: 'BUNDLE_BELOW_MIN_NET_USD' });
+    expect(checkBundle(bundle('benqi', 100, 99))).toBeUndefined();
+    expect(checkSimulatedBundle(bundle('benqi', 100, 99), 100)).toMatchObject({ code: 'BUNDLE_BELOW_SIMULATED_NET_USD', value: 0 });
+  });
+
+  it('should size bundles with the protocol policy', () => {
+    process.env.POLICY_GMX_DUST_MAX_BUNDLE_SIZE = '4';
+    const items = [
+      ...Array.from({ length: 20 }, () => reward('yieldyak', 50)),
+      ...Array.from({ length: 10 }, () => reward('gmx-dust', 50))
+    ];
+
+    const bundles = buildBundles(items, 'sequential');
+    const sizes = (protocol: string) => bundles.filter(b => b.protocol === protocol).map(b => b.items.length);
+
+    expect(sizes('yieldyak')).toEqual([8, 8, 4]);
+    expect(sizes('gmx-dust')).toEqual([4, 4, 2]);
+  });
+});
@@ -1,5 +1,28 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { quoteToUsd, isStablecoin, getTokenDecimals } from '../src/economics/pricing.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { quoteToUsd, isStablecoin, getTokenDecimals, fetchTrxUsd, clearPriceCache } from '../src/economics/pricing.js';
+
+vi.mock('../src/integrations/_tron.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../src/integrations/_tron.js')>();
+  return {
+    ...actual,
+    createReadOnlyTronWeb: vi.fn(() => ({})),
+    callConstant: vi.fn()
+  };
+});
+
+import { callConstant } from '../src/integrations/_tron.js';
+import { CompositePriceOracle, setPriceOracle } from '../src/economics/oracle.js';
+import type { PriceSource } from '../src/economics/oracle.js';
+
+// Oracle source that always returns the same fresh price
+function fixedSource(priceUsd: number | null): PriceSource {
+  return {
+    name: 'fixed',
+    maxAgeMs: 60000,
+    supports: () => true,
+    getPrice: async () => (priceUsd === null ? null : { priceUsd, updatedAt: Date.now() })
+  };
+}
 
 // Mock console.warn to track warnings
 const mockWarn = vi.spyOn(console, 'warn').mockImplementation(() => {});
@@ -9,6 +32,10 @@ describe('Pricing Engine', () => {
     vi.clearAllMocks();
   });
 
+  afterEach(() => {
+    setPriceOracle(undefined);
+  });
+
   describe('isStablecoin', () => {
     it('should identify stable tokens correctly', () => {
       expect(isStablecoin('USDC')).toBe(true);
@@ -20,11 +47,12 @@ describe('Pricing Engine', () => {
   });
 
   describe('getTokenDecimals', () => {
-    it('should return correct decimals for known tokens', () => {
-      expect(getTokenDecimals('USDC')).toBe(6);
-      expect(getTokenDecimals('USDT')).toBe(6);
-      expect(getTokenDecimals('DAI')).toBe(18);
-      expect(getTokenDecimals('UNKNOWN')).toBe(18); // fallback
+    it('should return correct decimals for known tokens', async () => {
+      expect(await getTokenDecimals('avalanche', '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E')).toBe(6); // USDC
+      expect(await getTokenDecimals('avalanche', '0x9702230a8ea53601f5cd2dc00fdbc13d4df4a8c7')).toBe(6); // USDT
+      expect(await getTokenDecimals('avalanche', '0xd586E7F844cEa2F87f50152665BCbc2C279D8d70')).toBe(18); // DAI.e
+      expect(await getTokenDecimals('tron', 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t')).toBe(6); // USDT on Tron
+      expect(await getTokenDecimals('tron', 'TRX')).toBe(6);
     });
   });
 
@@ -45,36 +73,33 @@ describe('Pricing Engine', () => {
       expect(result).toBe(1.0);
     });
 
-    it('should return 0 for non-stable tokens with warning', async () => {
+    it('should price non-stable tokens through the price oracle', async () => {
+      setPriceOracle(new CompositePriceOracle([fixedSource(25)], 300));
+
       // WAVAX address (not a stablecoin)
       const wavaxAddress = '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7';
-      const result = await quoteToUsd('avalanche', wavaxAddress, '1000000000000000000');
+      const result = await quoteToUsd('avalanche', wavaxAddress, '2000000000000000000');
       
-      expect(result).toBe(0);
-      expect(mockWarn).toHaveBeenCalledWith(
-        expect.stringContaining('Non-stable token pricing not implemented')
-      );
+      expect(result).toBe(50);
     });
 
-    it('should return 0 for unknown token addresses with warning', async () => {
-      const unknownAddress = '0x1234567890123456789012345678901234567890';
-      const result = await quoteToUsd('avalanche', unknownAddress, '1000000000000000000');
+    it('should return 0 for tokens without an oracle price with warning', async () => {
+      setPriceOracle(new CompositePriceOracle([fixedSource(null)], 300));
+
+      const joeAddress = '0x6e84a6216eA6dACC71eE8E6b0a5B7322EEbC0fDd';
+      const result = await quoteToUsd('avalanche', joeAddress, '1000000000000000000');
       
       expect(result).toBe(0);
       expect(mockWarn).toHaveBeenCalledWith(
-        expect.stringContaining('Non-stable token pricing not implemented')
+        expect.stringContaining('No price available')
       );
     });
 
-    it('should return 0 for non-avalanche chains with warning', async () => {
-      const usdcAddress = '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E';
-      // @ts-ignore - Testing runtime behavior
-      const result = await quoteToUsd('tron', usdcAddress, '1000000');
+    it('should quote Tron stables at par', async () => {
+      // USDT-TRC20 with 6 decimals
+      const result = await quoteToUsd('tron', 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', '1000000');
       
-      expect(result).toBe(0);
-      expect(mockWarn).toHaveBeenCalledWith(
-        expect.stringContaining('Chain tron not supported')
-      );
+      expect(result).toBe(1.0);
     });
 
     it('should handle multiple calls with different amounts', async () => {
@@ -87,4 +112,45 @@ describe('Pricing Engine', () => {
       expect(result2).toBe(2.5);
     });
   });
-});
\ No newline at end of file
+
+  describe('fetchTrxUsd', () => {
+    const stubFetch = (price: number | null) => vi.stubGlobal('fetch', vi.fn(async () => ({
+      ok: true,
+      json: async () => ({ coins: price === null ? {} : { 'coingecko:tron': { price } } })
+    })));
+
+    beforeEach(() => {
+      clearPriceCache();
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should price TRX from the SunSwap USDT/TRX reserves', async () => {
+      stubFetch(0.5);
+      vi.mocked(callConstant).mockResolvedValueOnce([BigInt(12000000000)] as any); // 12,000 USDT
+      const tronWeb = { trx: { getBalance: vi.fn(async () => 100000000000) } };   // 100,000 TRX
+
+      expect(await fetchTrxUsd(tronWeb)).toBeCloseTo(0.12);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the HTTP source and cache the result', async () => {
+      stubFetch(0.11);
+      const tronWeb = { trx: { getBalance: vi.fn(async () => { throw new Error('node down'); }) } };
+
+      expect(await fetchTrxUsd(tronWeb)).toBe(0.11);
+      expect(await fetchTrxUsd(tronWeb)).toBe(0.11);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return null when every source fails', async () => {
+      stubFetch(null);
+      const tronWeb = { trx: { getBalance: vi.fn(async () => 0) } };
+      vi.mocked(callConstant).mockResolvedValueOnce([BigInt(0)] as any);
+
+      expect(await fetchTrxUsd(tronWeb)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { PooledJsonRpcProvider } from '../src/chains/providerPool.js';
+
+type Behaviour = 'ok' | 'http429' | 'rpcRateLimit' | 'alreadyKnown';
+
+/**
+ * Local JSON-RPC endpoint answering eth_blockNumber, or throttling or rejecting as configured
+ */
+async function startEndpoint(behaviour: { current: Behaviour }, hits: { count: number }): Promise<{ url: string; server: Server }> {
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      hits.count++;
+      const { id } = JSON.parse(body);
+      if (behaviour.current === 'http429') {
+        res.writeHead(429).end('Too Many Requests');
+        return;
+      }
+      const reply = behaviour.current === 'rpcRateLimit'
+        ? { jsonrpc: '2.0', id, error: { code: -32005, message: 'request rate limit exceeded' } }
+        : behaviour.current === 'alreadyKnown'
+          ? { jsonrpc: '2.0', id, error: { code: -32000, message: 'already known' } }
+          : { jsonrpc: '2.0', id, result: '0x10' };
+      res.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify(reply));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, server };
+}
+
+const blockNumber = { method: 'eth_blockNumber', params: [], id: 1, jsonrpc: '2.0' };
+
+describe('PooledJsonRpcProvider', () => {
+  const servers: Server[] = [];
+  const primary = { current: 'ok' as Behaviour };
+  const backup = { current: 'ok' as Behaviour };
+  const primaryHits = { count: 0 };
+  const backupHits = { count: 0 };
+  let urls: string[];
+  let provider: PooledJsonRpcProvider;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    primary.current = 'ok';
+    backup.current = 'ok';
+    primaryHits.count = 0;
+    backupHits.count = 0;
+
+    const endpoints = [await startEndpoint(primary, primaryHits), await startEndpoint(backup, backupHits)];
+    servers.push(...endpoints.map(endpoint => endpoint.server));
+    urls = endpoints.map(endpoint => endpoint.url);
+  });
+
+  afterEach(async () => {
+    provider?.destroy();
+    await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+    vi.restoreAllMocks();
+  });
+
+  it('should fail over when an endpoint answers HTTP 429', async () => {
+    primary.current = 'http429';
+    provider = new PooledJsonRpcProvider(urls, { requestsPerSecond: 0 });
+
+    const [result] = await provider._send(blockNumber);
+
+    expect(result).toMatchObject({ result: '0x10' });
+    expect(primaryHits.count).toBe(1);
+    const [primaryHealth, backupHealth] = provider.health();
+    expect(primaryHealth).toMatchObject({ requests: 1, errors: 1 });
+    expect(backupHealth).toMatchObject({ requests: 1, errors: 0 });
+    expect(backupHealth.score).toBeLessThan(primaryHealth.score);
+  });
+
+  it('should fail over on a JSON-RPC rate-limit error', async () => {
+    primary.current = 'rpcRateLimit';
+    provider = new PooledJsonRpcProvider(urls, { requestsPerSecond: 0 });
+
+    const [result] = await provider._send(blockNumber);
+
+    expect(result).toMatchObject({ result: '0x10' });
+    expect(backupHits.count).toBe(1);
+  });
+
+  it('should treat an already known transaction after failover as sent', async () => {
+    primary.current = 'http429';
+    backup.current = 'alreadyKnown';
+    provider = new PooledJsonRpcProvider(urls, { requestsPerSecond: 0 });
+    const raw = '0x02f8700182012a';
+
+    const [result] = await provider._send({ method: 'eth_sendRawTransaction', params: [raw], id: 2, jsonrpc: '2.0' });
+
+    expect(result).toEqual({ id: 2, result: ethers.keccak256(raw) });
+    expect(primaryHits.count).toBe(1);
+  });
+
+  it('should pass already known errors through for other methods', async () => {
+    primary.current = 'alreadyKnown';
+    provider = new PooledJsonRpcProvider(urls, { requestsPerSecond: 0 });
+
+    const [result] = await provider._send(blockNumber);
+
+    expect(result).toMatchObject({ error: { message: 'already known' } });
+  });
+
+  it('should cool down endpoints that keep failing but still try them last', async () => {
+    primary.current = 'http429';
+    backup.current = 'http429';
+    provider = new PooledJsonRpcProvider(urls, { requestsPerSecond: 0 });
+
+    for (let i = 0; i < 3; i++) {
+      await expect(provider._send(blockNumber)).rejects.toThrow();
+    }
+    expect(provider.health().map(endpoint => endpoint.coolingDown)).toEqual([true, true]);
+
+    backup.current = 'ok';
+    const [result] = await provider._send(blockNumber);
+
+    expect(result).toMatchObject({ result: '0x10' });
+    expect(provider.health()[1].coolingDown).toBe(true);
+  });
+
+  it('should hand requests to the next endpoint once the per-endpoint rate limit is used up', async () => {
+    provider = new PooledJsonRpcProvider(urls, { requestsPerSecond: 1 });
+
+    await Promise.all([provider._send(blockNumber), provider._send(blockNumber)]);
+
+    expect(primaryHits.count).toBe(1);
+    expect(backupHits.count).toBe(1);
+  });
+
+  it('should let requests through at less than one request per second', async () => {
+    provider = new PooledJsonRpcProvider(urls, { requestsPerSecond: 0.5 });
+
+    await Promise.all([provider._send(blockNumber), provider._send(blockNumber)]);
+
+    expect(primaryHits.count).toBe(1);
+    expect(backupHits.count).toBe(1);
+  });
+
+  it('should throw the last error when every endpoint fails', async () => {
+    primary.current = 'http429';
+    backup.current = 'http429';
+    provider = new PooledJsonRpcProvider(urls, { requestsPerSecond: 0 });
+
+    await expect(provider._send(blockNumber)).rejects.toThrow();
+    expect(provider.health().every(endpoint => endpoint.errors === 1)).toBe(true);
+  });
+});
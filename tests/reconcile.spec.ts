@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildReconciliation, getReconcileRows, type ReconcileRow } from '../src/engine/reconcile.js';
+import { initSchema, recordExecution } from '../src/state/db.js';
+import { GAS_ESTIMATES } from '../src/economics/gas.js';
+import type { ClaimBundle } from '../src/types/common.js';
+
+const Database = require('better-sqlite3');
+
+function row(overrides: Partial<ReconcileRow>): ReconcileRow {
+  return {
+    bundle_id: 'bundle',
+    chain: 'avalanche',
+    protocol: 'benqi',
+    item_count: 1,
+    total_usd: 10,
+    est_gas_usd: 1,
+    net_usd: 9,
+    actual_claimed_usd: 10,
+    actual_gas_usd: 1,
+    executed_at: new Date().toISOString(),
+    ...overrides
+  };
+}
+
+describe('buildReconciliation', () => {
+  it('should break estimation error down by protocol, chain and bundle size', () => {
+    const report = buildReconciliation([
+      row({ bundle_id: 'a', protocol: 'benqi', item_count: 1, actual_claimed_usd: 9 }),
+      row({ bundle_id: 'b', protocol: 'benqi', item_count: 4, actual_claimed_usd: 11 }),
+      row({ bundle_id: 'c', protocol: 'justlend', chain: 'tron', item_count: 25, actual_gas_usd: 0.5 })
+    ]);
+
+    expect(report.executions).toBe(3);
+    expect(report.byProtocol.find(g => g.key === 'benqi')).toMatchObject({ executions: 2, estimatedUsd: 20, realizedUsd: 20, valueErrorPct: 0 });
+    expect(report.byChain.find(g => g.key === 'tron')).toMatchObject({ executions: 1, gasErrorPct: -50 });
+    expect(report.byBundleSize.map(g => g.key).sort()).toEqual(['1', '2-5', '21+']);
+  });
+
+  it('should flag systematic gas underestimation', () => {
+    const report = buildReconciliation([
+      row({ bundle_id: 'a', actual_gas_usd: 1.5 }),
+      row({ bundle_id: 'b', actual_gas_usd: 1.4 }),
+      row({ bundle_id: 'c', actual_gas_usd: 1.6 }),
+      row({ bundle_id: 'd', protocol: 'yieldyak', actual_gas_usd: 3 })
+    ]);
+
+    // yieldyak is far off but has too few samples to call systematic
+    expect(report.gasUnderestimates.map(g => `${g.dimension}:${g.key}`)).toEqual(['protocol:benqi', 'chain:avalanche', 'bundleSize:1']);
+  });
+
+  it('should list bundles that executed at a net loss', () => {
+    const report = buildReconciliation([
+      row({ bundle_id: 'profit' }),
+      row({ bundle_id: 'loss', actual_claimed_usd: 0.5, actual_gas_usd: 1.2, tx_hash: '0xabc' }),
+      row({ bundle_id: 'realized-net', actual_net_usd: -0.1 })
+    ]);
+
+    expect(report.lossBundles.map(b => b.bundleId)).toEqual(['loss', 'realized-net']);
+    expect(report.lossBundles[0]).toMatchObject({ estimatedNetUsd: 9, txHash: '0xabc' });
+    expect(report.lossBundles[0].realizedNetUsd).toBeCloseTo(-0.7);
+  });
+
+  it('should fit gas units against bundle size', () => {
+    const report = buildReconciliation([
+      row({ bundle_id: 'a', item_count: 1, gas_used: '110000' }),
+      row({ bundle_id: 'b', item_count: 3, gas_used: '290000' }),
+      row({ bundle_id: 'c', item_count: 5, gas_used: '470000' })
+    ]);
+
+    expect(report.gasFits).toEqual([{
+      chain: 'avalanche',
+      samples: 3,
+      base: 110000,
+      perExtra: 90000,
+      configuredBase: GAS_ESTIMATES.avalanche.baseClaim,
+      configuredPerExtra: GAS_ESTIMATES.avalanche.perExtraClaim
+    }]);
+  });
+});
+
+describe('getReconcileRows', () => {
+  it('should only return successful executions with realized gas', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const db = new Database(':memory:');
+    initSchema(db);
+    const bundle = (id: string): ClaimBundle => ({
+      id, chain: 'avalanche', protocol: 'benqi', claimTo: { value: '0x1', chain: 'avalanche' },
+      items: [], totalUsd: 10, estGasUsd: 1, netUsd: 9
+    });
+
+    recordExecution(db, bundle('ok'), { success: true, claimedUsd: 10, gasUsd: 1.2, chain: 'avalanche' });
+    recordExecution(db, bundle('failed'), { success: false, claimedUsd: 0, gasUsd: 0.3, chain: 'avalanche' });
+    recordExecution(db, bundle('no-gas'), { success: true, claimedUsd: 10, chain: 'avalanche' });
+
+    expect(getReconcileRows(db, 24).map(r => r.bundle_id)).toEqual(['ok']);
+  });
+});
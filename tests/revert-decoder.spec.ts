@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { classifyFailure, decodeRevert, decodeRevertData } from '../src/chains/revertDecoder.js';
+
+const encodeError = (signature: string, args: unknown[] = []) =>
+  new ethers.Interface([`error ${signature}`]).encodeErrorResult(signature.slice(0, signature.indexOf('(')), args);
+
+const errorString = (message: string) =>
+  `0x08c379a0${ethers.AbiCoder.defaultAbiCoder().encode(['string'], [message]).slice(2)}`;
+
+describe('Revert decoding', () => {
+  it('should decode Error(string) and classify its message', () => {
+    expect(decodeRevertData(errorString('RewardRouter: nothing to claim'))).toMatchObject({
+      category: 'nothing-to-claim',
+      reason: 'RewardRouter: nothing to claim',
+      errorName: 'Error'
+    });
+    expect(decodeRevertData(errorString('Pausable: paused')).category).toBe('paused');
+    expect(decodeRevertData(errorString('Ownable: caller is not the owner')).category).toBe('unauthorized');
+  });
+
+  it('should decode Panic(uint256) codes', () => {
+    const data = `0x4e487b71${ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [0x11]).slice(2)}`;
+
+    expect(decodeRevertData(data)).toMatchObject({
+      category: 'unknown',
+      reason: 'Panic(0x11): arithmetic overflow or underflow',
+      errorName: 'Panic'
+    });
+  });
+
+  it('should decode known custom errors', () => {
+    const account = '0x1234567890123456789012345678901234567890';
+
+    expect(decodeRevertData(encodeError('OwnableUnauthorizedAccount(address)', [account]))).toMatchObject({
+      category: 'unauthorized',
+      reason: `OwnableUnauthorizedAccount(${account})`
+    });
+    expect(decodeRevertData(encodeError('EnforcedPause()')).category).toBe('paused');
+    expect(decodeRevertData(encodeError('NothingToClaim()')).category).toBe('nothing-to-claim');
+  });
+
+  it('should report unknown selectors and empty reverts raw', () => {
+    expect(decodeRevertData('0xdeadbeef')).toEqual({ category: 'unknown', reason: 'Revert: 0xdeadbeef', selector: '0xdeadbeef' });
+    expect(decodeRevertData('0x').reason).toBe('Reverted without reason');
+  });
+
+  it('should find revert data nested in provider errors', () => {
+    const error = { message: 'could not coalesce error', info: { error: { code: 3, data: errorString('No rewards') } } };
+
+    expect(decodeRevert(error)).toMatchObject({ category: 'nothing-to-claim', reason: 'No rewards' });
+  });
+
+  it('should classify errors without revert data from their code or message', () => {
+    expect(decodeRevert({ code: 'TIMEOUT', message: 'request timeout' }).category).toBe('network');
+    expect(decodeRevert(new Error('insufficient funds for gas * price + value')).category).toBe('insufficient-funds');
+    expect(classifyFailure('Simulation reverted: OUT_OF_ENERGY')).toBe('out-of-gas');
+    expect(classifyFailure('something else')).toBe('unknown');
+  });
+});
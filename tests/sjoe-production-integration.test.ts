@@ -29,9 +29,9 @@ describe('sJOE Production Integration', () => {
   });
 
   describe('Pricing Service Integration', () => {
-    it('should have correct token decimals for sJOE and JOE', () => {
-      expect(getTokenDecimals('sJOE')).toBe(18);
-      expect(getTokenDecimals('JOE')).toBe(18);
+    it('should have correct token decimals for sJOE and JOE', async () => {
+      expect(await getTokenDecimals('avalanche', env.sJoeToken)).toBe(18);
+      expect(await getTokenDecimals('avalanche', env.joeToken)).toBe(18);
     });
 
     it('should quote stable tokens correctly', async () => {
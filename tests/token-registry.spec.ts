@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const UNKNOWN = '0x00000000000000000000000000000000000000aa';
+
+// Keep the real ethers helpers, stub ERC20 metadata reads
+vi.mock('ethers', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('ethers')>();
+  return {
+    ethers: {
+      ...actual.ethers,
+      JsonRpcProvider: vi.fn(() => ({})),
+      Contract: vi.fn(() => ({
+        symbol: vi.fn(async () => 'FOO'),
+        decimals: vi.fn(async () => 9n)
+      }))
+    }
+  };
+});
+
+import { ethers } from 'ethers';
+import { TokenRegistry } from '../src/state/tokenRegistry.js';
+import { MemoryDatabase } from '../src/state/memoryDb.js';
+
+describe('TokenRegistry', () => {
+  beforeEach(() => {
+    vi.mocked(ethers.Contract).mockClear();
+  });
+
+  it('should look up seeded tokens by address and symbol', () => {
+    const registry = new TokenRegistry();
+
+    expect(registry.get('avalanche', '0xb31f66aa3c1e785363f0875a1b74e27b85fd66c7')?.symbol).toBe('WAVAX');
+    expect(registry.get('avalanche', '0x50b7545627a5162F82A992c33b87aDc75187B218')?.decimals).toBe(8);
+    expect(registry.getBySymbol('tron', 'usdt')?.address).toBe('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t');
+    expect(registry.get('tron', 'tr7nhqjekqxgtci8q8zy4pl8otszgjlj6t')).toBeUndefined();
+  });
+
+  it('should load the bundled seed regardless of the working directory', () => {
+    vi.spyOn(process, 'cwd').mockReturnValue('/');
+
+    const registry = new TokenRegistry('');
+
+    expect(registry.getBySymbol('avalanche', 'WAVAX')?.decimals).toBe(18);
+    vi.mocked(process.cwd).mockRestore();
+  });
+
+  it('should list tokens by tag', () => {
+    const registry = new TokenRegistry();
+
+    expect(registry.list('avalanche', 'gmx-dust').map(t => t.symbol).sort()).toEqual(['GMX', 'USDC', 'WAVAX', 'WETH.e']);
+  });
+
+  it('should fetch unknown tokens on-chain and persist them', async () => {
+    const db = new MemoryDatabase();
+    const registry = new TokenRegistry();
+    registry.attachDb(db);
+
+    const token = await registry.resolve('avalanche', UNKNOWN);
+    await registry.resolve('avalanche', UNKNOWN);
+
+    expect(token).toMatchObject({ symbol: 'FOO', decimals: 9, source: 'chain' });
+    expect(ethers.Contract).toHaveBeenCalledTimes(1);
+
+    const reloaded = new TokenRegistry();
+    reloaded.attachDb(db);
+    expect(reloaded.get('avalanche', UNKNOWN)).toMatchObject({ symbol: 'FOO', decimals: 9, source: 'db' });
+  });
+
+  it('should not fetch seeded tokens', async () => {
+    const registry = new TokenRegistry();
+
+    const token = await registry.resolve('avalanche', '0x6e84a6216eA6dACC71eE8E6b0a5B7322EEbC0fDd');
+
+    expect(token.symbol).toBe('JOE');
+    expect(ethers.Contract).not.toHaveBeenCalled();
+  });
+});
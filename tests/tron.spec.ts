@@ -0,0 +1,329 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+// Short confirmation window so the timeout path returns quickly
+vi.mock('../src/config/env.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../src/config/env.js')>();
+  return {
+    env: {
+      ...actual.env,
+      tronFeeLimitSun: 50000000,
+      tronConfirmationTimeoutMs: 50,
+      tronConfirmationPollMs: 10
+    }
+  };
+});
+
+// Live TRX price is covered in pricing.spec.ts
+vi.mock('../src/economics/pricing.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../src/economics/pricing.js')>();
+  return { ...actual, fetchTrxUsd: vi.fn(async () => 0.12) };
+});
+
+// Every scanned farm pool and comptroller holds 100 tokens for the wallet
+vi.mock('../src/integrations/_tron.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../src/integrations/_tron.js')>();
+  return {
+    ...actual,
+    createReadOnlyTronWeb: vi.fn(() => ({})),
+    callConstant: vi.fn(async (_tronWeb: any, _contract: string, selector: string) =>
+      selector === 'poolLength()' ? [BigInt(1)] : [BigInt(100) * BigInt(10) ** BigInt(18), BigInt(0)]
+    )
+  };
+});
+
+vi.mock('../src/economics/oracle.js', () => ({
+  getTokenUsdPrice: vi.fn(async () => 0.05)
+}));
+
+import { TronClient } from '../src/chains/tron.js';
+import { buildBundles } from '../src/engine/bundler.js';
+import { justlendIntegration, buildJustLendClaimTx, JUSTLEND_CONTRACTS } from '../src/integrations/justlend.js';
+import { sunswapIntegration, SUNSWAP_CONTRACTS } from '../src/integrations/sunswap.js';
+import { getTronResources, clearTronResources } from '../src/economics/gas.js';
+import type { ClaimBundle } from '../src/types/common.js';
+import { ethers } from 'ethers';
+
+const OWNER = 'TMuA6YqfCeX8EhbfYEg5y7S4DqzSJireY9';
+
+const bundle: ClaimBundle = {
+  id: 'tron-bundle-1',
+  chain: 'tron',
+  protocol: 'justlend',
+  claimTo: { value: OWNER, chain: 'tron' },
+  items: [],
+  totalUsd: 5,
+  estGasUsd: 0.5,
+  netUsd: 4.5,
+  contractAddress: 'TL3hKa7jqaB1j7xXhkrYJ9K8wZ2fGQwLhM',
+  callData: '0xd279c19100000000000000000000000082dd6b9966724ae2fdc79b416c7588da67ff1b35',
+  value: 0
+};
+
+/**
+ * Build a TronWeb double whose transaction info is returned by the given function
+ */
+function createTronWebStub(getTransactionInfo: () => Promise<any>) {
+  return {
+    defaultPrivateKey: 'a'.repeat(64),
+    defaultAddress: { base58: OWNER },
+    toUtf8: (hex: string) => Buffer.from(hex, 'hex').toString('utf8'),
+    transactionBuilder: {
+      triggerSmartContract: vi.fn(async () => ({
+        result: { result: true },
+        transaction: { txID: 'abc123', raw_data: {} }
+      }))
+    },
+    trx: {
+      sign: vi.fn(async (tx: any) => ({ ...tx, signature: ['sig'] })),
+      sendRawTransaction: vi.fn(async () => ({ result: true, txid: 'abc123' })),
+      getTransactionInfo: vi.fn(getTransactionInfo)
+    }
+  };
+}
+
+describe('TronClient.sendRaw', () => {
+  let previousMockMode: string | undefined;
+
+  beforeEach(() => {
+    previousMockMode = process.env.MOCK_MODE;
+    process.env.MOCK_MODE = 'false';
+  });
+
+  afterEach(() => {
+    process.env.MOCK_MODE = previousMockMode;
+  });
+
+  it('should build, sign and broadcast the bundle call data', async () => {
+    const client = new TronClient('http://localhost:8090', 'a'.repeat(64));
+    const stub = createTronWebStub(async () => ({
+      id: 'abc123',
+      fee: 2100000, // 2.1 TRX burned
+      receipt: { energy_usage_total: 30000, net_usage: 345, result: 'SUCCESS' }
+    }));
+    (client as any).tronWeb = stub;
+
+    const result = await client.sendRaw(bundle);
+
+    expect(stub.transactionBuilder.triggerSmartContract).toHaveBeenCalledWith(
+      bundle.contractAddress,
+      '',
+      { feeLimit: 50000000, callValue: 0, input: bundle.callData!.slice(2) },
+      [],
+      OWNER
+    );
+    expect(result.success).toBe(true);
+    expect(result.txHash).toBe('abc123');
+    expect(result.energyUsed).toBe('30000');
+    expect(result.bandwidthUsed).toBe('345');
+    expect(result.feeTrx).toBeCloseTo(2.1);
+    expect(result.gasUsd).toBeCloseTo(2.1 * 0.12);
+    expect(result.status).toBe('confirmed');
+  });
+
+  it('should report reverted transactions as failed', async () => {
+    const client = new TronClient('http://localhost:8090', 'a'.repeat(64));
+    (client as any).tronWeb = createTronWebStub(async () => ({
+      id: 'abc123',
+      fee: 500000,
+      result: 'FAILED',
+      receipt: { energy_usage_total: 12000, net_fee: 280000, result: 'REVERT' }
+    }));
+
+    const result = await client.sendRaw(bundle);
+
+    expect(result.success).toBe(false);
+    expect(result.claimedUsd).toBe(0);
+    expect(result.bandwidthUsed).toBe('280');
+    expect(result.error).toContain('REVERT');
+  });
+
+  it('should return a pending result when confirmation times out', async () => {
+    const client = new TronClient('http://localhost:8090', 'a'.repeat(64));
+    (client as any).tronWeb = createTronWebStub(async () => ({}));
+
+    const result = await client.sendRaw(bundle);
+
+    expect(result.success).toBe(false);
+    expect(result.status).toBe('pending');
+    expect(result.txHash).toBe('abc123');
+  });
+
+  it('should refuse bundles without call data', async () => {
+    const client = new TronClient('http://localhost:8090', 'a'.repeat(64));
+    (client as any).tronWeb = createTronWebStub(async () => ({}));
+
+    const result = await client.sendRaw({ ...bundle, callData: undefined });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('no contractAddress/callData');
+  });
+
+  it('should only mock results in mock mode', async () => {
+    process.env.MOCK_MODE = 'true';
+    const client = new TronClient('http://localhost:8090');
+
+    const result = await client.sendRaw(bundle);
+
+    expect(result.success).toBe(true);
+    expect(result.status).toBe('mock');
+  });
+});
+
+/**
+ * Build a TronWeb double for constant calls with the given resources and balance
+ */
+function createSimulationStub(constantResult: any, resources: any, balanceSun: number) {
+  return {
+    defaultPrivateKey: 'a'.repeat(64),
+    defaultAddress: { base58: OWNER },
+    toUtf8: (hex: string) => Buffer.from(hex, 'hex').toString('utf8'),
+    transactionBuilder: {
+      triggerConstantContract: vi.fn(async () => constantResult)
+    },
+    trx: {
+      getAccountResources: vi.fn(async () => resources),
+      getChainParameters: vi.fn(async () => [
+        { key: 'getEnergyFee', value: 210 },
+        { key: 'getTransactionFee', value: 1000 }
+      ]),
+      getBalance: vi.fn(async () => balanceSun)
+    }
+  };
+}
+
+describe('TronClient.simulate', () => {
+  let previousMockMode: string | undefined;
+
+  beforeEach(() => {
+    previousMockMode = process.env.MOCK_MODE;
+    process.env.MOCK_MODE = 'false';
+    clearTronResources();
+  });
+
+  afterEach(() => {
+    process.env.MOCK_MODE = previousMockMode;
+  });
+
+  it('should cost nothing when staked energy and bandwidth cover the call', async () => {
+    const client = new TronClient('http://localhost:8090', 'a'.repeat(64));
+    const stub = createSimulationStub(
+      { result: { result: true }, energy_used: 30000, constant_result: [''], transaction: { ret: [{}] } },
+      { EnergyLimit: 100000, EnergyUsed: 10000, freeNetLimit: 600, freeNetUsed: 0 },
+      0
+    );
+    (client as any).tronWeb = stub;
+
+    const result = await client.simulate(bundle);
+
+    expect(stub.transactionBuilder.triggerConstantContract).toHaveBeenCalledWith(
+      bundle.contractAddress,
+      '',
+      { feeLimit: 50000000, callValue: 0, input: bundle.callData!.slice(2) },
+      [],
+      OWNER
+    );
+    expect(result.ok).toBe(true);
+    expect(result.gasUsed).toBe('30000');
+    expect(result.costUsd).toBe(0);
+    expect(getTronResources()?.availableEnergy).toBe(90000);
+    expect(getTronResources()?.energyPriceSun).toBe(210);
+  });
+
+  it('should price only the energy that will be burned', async () => {
+    const client = new TronClient('http://localhost:8090', 'a'.repeat(64));
+    (client as any).tronWeb = createSimulationStub(
+      { result: { result: true }, energy_used: 30000, constant_result: [''], transaction: { ret: [{}] } },
+      { EnergyLimit: 20000, EnergyUsed: 0, freeNetLimit: 600, freeNetUsed: 0 },
+      100000000
+    );
+
+    const result = await client.simulate(bundle);
+
+    // 10000 energy * 210 sun = 2.1 TRX
+    expect(result.ok).toBe(true);
+    expect(result.costUsd).toBeCloseTo(2.1 * 0.12, 6);
+  });
+
+  it('should decode the revert reason', async () => {
+    const client = new TronClient('http://localhost:8090', 'a'.repeat(64));
+    const revertData = ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['nothing to claim']).slice(2);
+    (client as any).tronWeb = createSimulationStub(
+      {
+        result: { result: true },
+        energy_used: 1200,
+        constant_result: [`08c379a0${revertData}`],
+        transaction: { ret: [{ ret: 'REVERT' }] }
+      },
+      {},
+      100000000
+    );
+
+    const result = await client.simulate(bundle);
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('Simulation reverted: nothing to claim');
+    expect(result.failureCategory).toBe('nothing-to-claim');
+  });
+
+  it('should fail when the balance cannot cover the burn', async () => {
+    const client = new TronClient('http://localhost:8090', 'a'.repeat(64));
+    (client as any).tronWeb = createSimulationStub(
+      { result: { result: true }, energy_used: 30000, constant_result: [''], transaction: { ret: [{}] } },
+      {},
+      1000000
+    );
+
+    const result = await client.simulate(bundle);
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toContain('Insufficient TRX');
+  });
+
+  it('should simulate live JustLend and SunSwap bundles from the bundler', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const wallet = { value: OWNER, chain: 'tron' as const };
+    const rewards = [
+      ...await justlendIntegration.getPendingRewards([wallet], false),
+      ...await sunswapIntegration.getPendingRewards([wallet], false)
+    ];
+
+    const bundles = buildBundles(rewards, 'sequential');
+
+    expect(bundles).toHaveLength(2);
+    const claim = bundles.find(b => b.protocol === 'justlend')!;
+    expect(claim.contractAddress).toBe(JUSTLEND_CONTRACTS.COMPTROLLER);
+    expect(claim.callData).toBe(buildJustLendClaimTx(OWNER).callData);
+    const harvest = bundles.find(b => b.protocol === 'sunswap')!;
+    expect(harvest.contractAddress).toBe(SUNSWAP_CONTRACTS.SUN_FARM);
+
+    for (const live of bundles) {
+      const client = new TronClient('http://localhost:8090', 'a'.repeat(64));
+      const stub = createSimulationStub(
+        { result: { result: true }, energy_used: 30000, constant_result: [''], transaction: { ret: [{}] } },
+        { EnergyLimit: 100000, EnergyUsed: 0, freeNetLimit: 600, freeNetUsed: 0 },
+        0
+      );
+      (client as any).tronWeb = stub;
+
+      const result = await client.simulate(live);
+
+      expect(result.ok).toBe(true);
+      expect(stub.transactionBuilder.triggerConstantContract).toHaveBeenCalledWith(
+        live.contractAddress, '', expect.objectContaining({ input: live.callData!.slice(2) }), [], OWNER
+      );
+    }
+  });
+
+  it('should refuse harvests for a wallet other than the signer', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const other = { value: 'TXYZopYRdj2D9XRtbG411XZZ3kM5VkAeBf', chain: 'tron' as const };
+    const [harvest] = buildBundles(await sunswapIntegration.getPendingRewards([other], false), 'sequential');
+    const client = new TronClient('http://localhost:8090', 'a'.repeat(64));
+    (client as any).tronWeb = createSimulationStub({}, {}, 0);
+
+    const result = await client.simulate(harvest);
+
+    expect(result.ok).toBe(false);
+    expect(result.failureCategory).toBe('unauthorized');
+  });
+});